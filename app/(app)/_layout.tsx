@@ -1,5 +1,5 @@
 import { Tabs } from 'expo-router';
-import { Home, Cpu, LifeBuoy, User } from 'lucide-react-native';
+import { Home, Cpu, Map as MapIcon, LifeBuoy, User } from 'lucide-react-native';
 import { theme } from '../../src/theme';
 
 export default function AppLayout() {
@@ -36,6 +36,13 @@ export default function AppLayout() {
           tabBarIcon: ({ color, size }) => <Cpu color={color} size={size} />,
         }}
       />
+      <Tabs.Screen
+        name="map"
+        options={{
+          title: 'Map',
+          tabBarIcon: ({ color, size }) => <MapIcon color={color} size={size} />,
+        }}
+      />
       <Tabs.Screen
         name="support"
         options={{
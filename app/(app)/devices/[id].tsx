@@ -1,30 +1,114 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { ArrowLeft, Edit2, Battery, Activity, Calendar, Camera } from 'lucide-react-native';
+import { formatDistanceToNow } from 'date-fns';
+import { ArrowLeft, Edit2, Battery, Activity, Calendar, Camera, Thermometer, Droplets, Wifi } from 'lucide-react-native';
 import { theme } from '../../../src/theme';
-import { fetchDeviceDetails } from '../../../src/services/deviceService';
+import {
+  getDeviceDetails,
+  getDetectionHistory,
+  getTelemetryHistory,
+  updateDevice,
+  updateDeviceSettings,
+  getDeviceConfigVersions,
+  subscribeToConfigVersions,
+  subscribeToDeviceUpdates,
+  resetDeviceProvisioning
+} from '../../../src/services/deviceService';
+import { getDeviceGroups, assignDevicesToGroup, updateGroupSettings } from '../../../src/services/groupService';
+import { getDeviceFirmwareStatus, updateDeviceFirmware } from '../../../src/services/firmwareService';
+import {
+  Coordinates,
+  DetectionHistory,
+  DetectionRange,
+  DeviceConfigVersionWithChanges,
+  DeviceDetailsResponse,
+  DeviceSettings,
+  TelemetryPoint,
+  TelemetryRange
+} from '../../../src/types/device';
+import { DeviceGroupWithCount } from '../../../src/types/group';
+import { DetectionGrouping } from '../../../src/types/detection';
+import { DeviceFirmwareStatus } from '../../../src/types/firmware';
 import MetricCard from '../../../src/components/MetricCard';
 import DeviceChart from '../../../src/components/DeviceChart';
 import DeviceImageGallery from '../../../src/components/DeviceImageGallery';
 import Button from '../../../src/components/Button';
+import DeviceLocationPicker from '../../../src/components/DeviceLocationPicker';
+import ConfigVersionHistory, { ConfigStatusBadge } from '../../../src/components/ConfigVersionHistory';
+import DeviceSettingsForm from '../../../src/components/DeviceSettingsForm';
+import FirmwareStatus from '../../../src/components/FirmwareStatus';
+import StaleDataBanner from '../../../src/components/StaleDataBanner';
+import OutboxList from '../../../src/components/OutboxList';
+import NotificationRulesEditor from '../../../src/components/NotificationRulesEditor';
+import DetectionTypeFilter from '../../../src/components/DetectionTypeFilter';
+import DetectionList from '../../../src/components/DetectionList';
+import { useSync } from '../../../src/context/SyncContext';
+import { readDeviceSettings } from '../../../src/lib/deviceSettings';
+import {
+  getDetectionTypeColor,
+  getDetectionTypeLabel,
+  getDetectionTypeLineage,
+  groupDetectionData,
+  sortDetectionTypes
+} from '../../../src/lib/detectionTaxonomy';
+import { useDetectionTaxonomy } from '../../../src/hooks/useDetectionTaxonomy';
+
+type TelemetryMetric = 'temperature' | 'humidity' | 'batteryLevel' | 'rssi';
+
+const DETECTION_RANGE_OPTIONS: { label: string; value: DetectionRange }[] = [
+  { label: '24h', value: '24h' },
+  { label: '7 days', value: '7d' },
+  { label: '30 days', value: '30d' },
+  { label: '90 days', value: '90d' },
+];
+
+const TELEMETRY_RANGE_OPTIONS: { label: string; value: TelemetryRange }[] = [
+  { label: '24h', value: '24h' },
+  { label: '7 days', value: '7d' },
+  { label: '30 days', value: '30d' },
+];
+
+const TELEMETRY_METRIC_OPTIONS: { label: string; value: TelemetryMetric }[] = [
+  { label: 'Temp', value: 'temperature' },
+  { label: 'Humidity', value: 'humidity' },
+  { label: 'Battery', value: 'batteryLevel' },
+  { label: 'Signal', value: 'rssi' },
+];
 
 export default function DeviceDetailScreen() {
-  const { id } = useLocalSearchParams();
+  const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
-  const [device, setDevice] = useState(null);
+  const { lastSyncedAt } = useSync();
+  const { taxonomy } = useDetectionTaxonomy();
+  const [details, setDetails] = useState<DeviceDetailsResponse | null>(null);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState(null);
+  const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState('metrics');
+  const [detectionRange, setDetectionRange] = useState<DetectionRange>('7d');
+  const [detectionHistory, setDetectionHistory] = useState<DetectionHistory | null>(null);
+  // A detection type or class to show; null shows every type
+  const [detectionFilter, setDetectionFilter] = useState<string | null>(null);
+  const [detectionGrouping, setDetectionGrouping] = useState<DetectionGrouping>('type');
+  const [telemetryRange, setTelemetryRange] = useState<TelemetryRange>('24h');
+  const [telemetryMetric, setTelemetryMetric] = useState<TelemetryMetric>('temperature');
+  const [telemetry, setTelemetry] = useState<TelemetryPoint[]>([]);
+  const [groups, setGroups] = useState<DeviceGroupWithCount[]>([]);
+  const [pushingGroupSettings, setPushingGroupSettings] = useState(false);
+  const [configVersions, setConfigVersions] = useState<DeviceConfigVersionWithChanges[]>([]);
+  const [pushingSettings, setPushingSettings] = useState(false);
+  const [settingsDraft, setSettingsDraft] = useState<DeviceSettings | null>(null);
+  const [firmwareStatus, setFirmwareStatus] = useState<DeviceFirmwareStatus | null>(null);
+  const [updatingFirmware, setUpdatingFirmware] = useState(false);
 
   useEffect(() => {
     const loadDeviceDetails = async () => {
       try {
         setLoading(true);
         setError(null);
-        const data = await fetchDeviceDetails(id);
-        setDevice(data);
+        const data = await getDeviceDetails(id);
+        setDetails(data);
       } catch (err) {
         console.error('Error loading device details:', err);
         setError('Failed to load device details.');
@@ -36,35 +120,216 @@ export default function DeviceDetailScreen() {
     loadDeviceDetails();
   }, [id]);
 
-  // Mock data for demonstration
-  const mockDevice = {
-    id: '1',
-    name: 'North Field Sensor',
-    serialNumber: 'FS-1001',
-    status: 'online',
-    batteryLevel: 85,
-    lastUpdated: new Date().toISOString(),
-    location: 'North Field, Section A',
-    metrics: {
-      detections: 42,
-      temperature: 24.5,
-      humidity: 68,
-      signalStrength: 'Good'
-    },
-    detectionData: [
-      { date: '2023-06-01', count: 5 },
-      { date: '2023-06-02', count: 3 },
-      { date: '2023-06-03', count: 8 },
-      { date: '2023-06-04', count: 4 },
-      { date: '2023-06-05', count: 12 },
-      { date: '2023-06-06', count: 7 },
-      { date: '2023-06-07', count: 3 }
-    ],
-    images: [
-      { id: '1', url: 'https://images.unsplash.com/photo-1504006833117-8886a355efbf?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1470&q=80', timestamp: '2023-06-07T14:32:00Z' },
-      { id: '2', url: 'https://images.unsplash.com/photo-1550358864-518f202c02ba?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1470&q=80', timestamp: '2023-06-06T09:15:00Z' },
-      { id: '3', url: 'https://images.unsplash.com/photo-1484406566174-9da000fda645?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1470&q=80', timestamp: '2023-06-05T22:45:00Z' }
-    ]
+  useEffect(() => {
+    // Replace cached details once the sync engine has caught up
+    const cachedAt = details?.cachedAt;
+    if (!cachedAt || !lastSyncedAt || lastSyncedAt <= cachedAt) return;
+
+    getDeviceDetails(id)
+      .then(setDetails)
+      .catch(err => console.error('Error refreshing device details:', err));
+  }, [lastSyncedAt]);
+
+  const organizationId = details?.device.organization_id;
+  const savedSettings = details ? JSON.stringify(details.device.settings) : null;
+
+  useEffect(() => {
+    // Start editing from whatever was last saved, including remote changes
+    setSettingsDraft(savedSettings === null ? null : readDeviceSettings(JSON.parse(savedSettings)));
+  }, [savedSettings]);
+
+  useEffect(() => {
+    if (!organizationId) return;
+
+    // Devices can only join sites in their own organization
+    getDeviceGroups(organizationId)
+      .then(setGroups)
+      .catch(err => console.error('Error loading device groups:', err));
+  }, [organizationId]);
+
+  useEffect(() => {
+    // Online/offline transitions and check-ins from the device
+    const subscription = subscribeToDeviceUpdates(updated => {
+      setDetails(current => current && { ...current, device: { ...current.device, ...updated } });
+    }, id);
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [id]);
+
+  useEffect(() => {
+    const loadConfigVersions = async () => {
+      try {
+        const data = await getDeviceConfigVersions(id);
+        setConfigVersions(data);
+      } catch (err) {
+        console.error('Error loading config versions:', err);
+      }
+    };
+
+    loadConfigVersions();
+
+    // Pushes and device acknowledgements both change a version's status
+    const subscription = subscribeToConfigVersions(id, () => {
+      loadConfigVersions();
+      getDeviceDetails(id)
+        .then(data => setDetails(current => current && { ...current, device: data.device }))
+        .catch(err => console.error('Error refreshing device details:', err));
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [id]);
+
+  useEffect(() => {
+    getDeviceFirmwareStatus(id)
+      .then(setFirmwareStatus)
+      .catch(err => console.error('Error loading firmware status:', err));
+  }, [id]);
+
+  useEffect(() => {
+    // The initial 7 day history arrives with the device details
+    if (detectionRange === '7d') {
+      setDetectionHistory(null);
+      return;
+    }
+
+    const loadDetectionHistory = async () => {
+      try {
+        const data = await getDetectionHistory(id, { range: detectionRange });
+        setDetectionHistory(data);
+      } catch (err) {
+        console.error('Error loading detection history:', err);
+      }
+    };
+
+    loadDetectionHistory();
+  }, [id, detectionRange]);
+
+  useEffect(() => {
+    const loadTelemetry = async () => {
+      try {
+        const data = await getTelemetryHistory(id, telemetryRange);
+        setTelemetry(data);
+      } catch (err) {
+        console.error('Error loading telemetry history:', err);
+        setTelemetry([]);
+      }
+    };
+
+    loadTelemetry();
+  }, [id, telemetryRange]);
+
+  const handleCoordinateChange = async (coordinate: Coordinates) => {
+    if (!details) return;
+
+    const previous = details.device;
+    setDetails({ ...details, device: { ...previous, ...coordinate } });
+
+    try {
+      const updated = await updateDevice(id, coordinate);
+      setDetails(current => current && { ...current, device: updated });
+    } catch (err) {
+      console.error('Error updating device position:', err);
+      setDetails(current => current && { ...current, device: previous });
+    }
+  };
+
+  const handleGroupChange = async (groupId: string | null) => {
+    try {
+      const [updated] = await assignDevicesToGroup([id], groupId);
+      if (updated) {
+        setDetails(current => current && { ...current, device: updated });
+      }
+    } catch (err) {
+      console.error('Error assigning device group:', err);
+      Alert.alert('Error', 'Failed to change the site for this device.');
+    }
+  };
+
+  const handlePushSettings = async () => {
+    if (!settingsDraft) return;
+
+    setPushingSettings(true);
+    try {
+      const updated = await updateDeviceSettings(id, settingsDraft);
+      setDetails(current => current && { ...current, device: updated });
+      setConfigVersions(await getDeviceConfigVersions(id));
+    } catch (err) {
+      console.error('Error pushing device settings:', err);
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to send settings to the device.');
+    } finally {
+      setPushingSettings(false);
+    }
+  };
+
+  const handleFirmwareUpdate = async (releaseId: string) => {
+    setUpdatingFirmware(true);
+    try {
+      await updateDeviceFirmware(id, releaseId);
+      setFirmwareStatus(await getDeviceFirmwareStatus(id));
+      Alert.alert('Update Scheduled', 'The device will install the update the next time it reports in.');
+    } catch (err) {
+      console.error('Error scheduling firmware update:', err);
+      Alert.alert('Error', 'Failed to schedule the firmware update.');
+    } finally {
+      setUpdatingFirmware(false);
+    }
+  };
+
+  const handleResetProvisioning = () => {
+    Alert.alert(
+      'Reset Provisioning',
+      'The device will stop reporting until it is provisioned again with its claim code. Continue?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await resetDeviceProvisioning(id);
+              Alert.alert('Provisioning Reset', 'Restart the device to provision it again.');
+            } catch (err) {
+              console.error('Error resetting device provisioning:', err);
+              Alert.alert('Error', 'Failed to reset provisioning for this device.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handlePushGroupSettings = async () => {
+    const group = groups.find(item => item.id === details?.device.group_id);
+    if (!details || !group) return;
+
+    setPushingGroupSettings(true);
+    try {
+      const updated = await updateGroupSettings(group.id, readDeviceSettings(details.device.settings));
+      Alert.alert('Settings Applied', `Settings applied to ${updated.length} device${updated.length === 1 ? '' : 's'} in ${group.name}.`);
+    } catch (err) {
+      console.error('Error applying group settings:', err);
+      Alert.alert('Error', 'Failed to apply settings to the site.');
+    } finally {
+      setPushingGroupSettings(false);
+    }
+  };
+
+  const formatDetectionTick = (date: string) => {
+    const value = new Date(date);
+    return (detectionHistory?.bucket || details?.detectionBucket) === 'hour'
+      ? value.toLocaleTimeString('en-US', { hour: 'numeric' })
+      : value.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  };
+
+  const formatTelemetryTick = (date: string) => {
+    const value = new Date(date);
+    return telemetryRange === '24h'
+      ? value.toLocaleTimeString('en-US', { hour: 'numeric' })
+      : value.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
   };
 
   if (loading) {
@@ -75,10 +340,10 @@ export default function DeviceDetailScreen() {
     );
   }
 
-  if (error) {
+  if (error || !details) {
     return (
       <SafeAreaView style={styles.errorContainer}>
-        <Text style={styles.errorText}>{error}</Text>
+        <Text style={styles.errorText}>{error || 'Device not found.'}</Text>
         <Button 
           title="Go Back" 
           onPress={() => router.back()} 
@@ -88,25 +353,44 @@ export default function DeviceDetailScreen() {
     );
   }
 
+  const { device, metrics, images } = details;
+  const detectionData = detectionHistory?.data || details.detectionData;
+  const detectionTypes = detectionHistory?.detectionTypes || details.detectionTypes;
+  const groupedDetections = groupDetectionData(detectionData, taxonomy, detectionFilter, detectionGrouping);
+  // Rules can target a type seen on this device or any class above it
+  const ruleDetectionTypes = sortDetectionTypes(
+    taxonomy,
+    Array.from(new Set(detectionTypes.flatMap(type => getDetectionTypeLineage(taxonomy, type))))
+  );
+  const canManage = details.role !== 'viewer';
+  const latestConfig = configVersions[0];
+
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
         <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
           <ArrowLeft size={24} color={theme.colors.text} />
         </TouchableOpacity>
-        <Text style={styles.title}>{mockDevice.name}</Text>
+        <Text style={styles.title}>{device.name}</Text>
         <TouchableOpacity style={styles.editButton}>
           <Edit2 size={20} color={theme.colors.text} />
         </TouchableOpacity>
       </View>
 
+      <StaleDataBanner cachedAt={details.cachedAt} />
+
       <View style={styles.deviceInfo}>
         <View style={styles.statusContainer}>
-          <View style={[styles.statusIndicator, { backgroundColor: mockDevice.status === 'online' ? theme.colors.success : theme.colors.error }]} />
-          <Text style={styles.statusText}>{mockDevice.status === 'online' ? 'Online' : 'Offline'}</Text>
+          <View style={[styles.statusIndicator, { backgroundColor: device.status === 'online' ? theme.colors.success : theme.colors.error }]} />
+          <Text style={styles.statusText}>{device.status === 'online' ? 'Online' : 'Offline'}</Text>
+          <Text style={styles.lastSeenText}>
+            {device.last_seen_at
+              ? ` · last seen ${formatDistanceToNow(new Date(device.last_seen_at), { addSuffix: true })}`
+              : ' · never seen'}
+          </Text>
         </View>
-        <Text style={styles.serialNumber}>S/N: {mockDevice.serialNumber}</Text>
-        <Text style={styles.location}>{mockDevice.location}</Text>
+        <Text style={styles.serialNumber}>S/N: {device.serial_number}</Text>
+        {device.location ? <Text style={styles.location}>{device.location}</Text> : null}
       </View>
 
       <View style={styles.tabsContainer}>
@@ -131,41 +415,109 @@ export default function DeviceDetailScreen() {
       </View>
 
       <ScrollView style={styles.content}>
+        <OutboxList
+          filter={item => item.kind === 'update_device' && item.payload.deviceId === id}
+        />
+
         {activeTab === 'metrics' && (
           <View>
             <View style={styles.metricsGrid}>
               <MetricCard 
                 title="Battery" 
-                value={`${mockDevice.batteryLevel}%`} 
+                value={`${metrics.batteryLevel}%`} 
                 icon={<Battery size={24} color={theme.colors.primary} />}
-                status={mockDevice.batteryLevel > 20 ? 'good' : 'warning'}
+                status={metrics.batteryLevel > 20 ? 'good' : 'warning'}
               />
               <MetricCard 
                 title="Detections" 
-                value={mockDevice.metrics.detections.toString()} 
+                value={metrics.detections.toString()} 
                 icon={<Activity size={24} color={theme.colors.primary} />}
               />
               <MetricCard 
                 title="Temperature" 
-                value={`${mockDevice.metrics.temperature}°C`} 
-                icon={<Activity size={24} color={theme.colors.primary} />}
+                value={metrics.temperature !== undefined ? `${metrics.temperature}°C` : '—'} 
+                icon={<Thermometer size={24} color={theme.colors.primary} />}
               />
               <MetricCard 
                 title="Humidity" 
-                value={`${mockDevice.metrics.humidity}%`} 
-                icon={<Activity size={24} color={theme.colors.primary} />}
+                value={metrics.humidity !== undefined ? `${metrics.humidity}%` : '—'} 
+                icon={<Droplets size={24} color={theme.colors.primary} />}
+              />
+              <MetricCard 
+                title="Signal" 
+                value={metrics.signalStrength || '—'} 
+                icon={<Wifi size={24} color={theme.colors.primary} />}
+                status={metrics.signalStrength === 'Poor' ? 'warning' : undefined}
               />
             </View>
 
             <View style={styles.chartContainer}>
-              <Text style={styles.chartTitle}>Detection History (Last 7 Days)</Text>
-              <DeviceChart data={mockDevice.detectionData} />
+              <Text style={styles.chartTitle}>Detection History</Text>
+              <DetectionTypeFilter
+                taxonomy={taxonomy}
+                detectionTypes={detectionTypes}
+                selected={detectionFilter}
+                onSelect={setDetectionFilter}
+                grouping={detectionGrouping}
+                onGroupingChange={setDetectionGrouping}
+              />
+              <DeviceChart
+                data={groupedDetections.data}
+                stackKeys={groupedDetections.detectionTypes}
+                stackColors={Object.fromEntries(groupedDetections.detectionTypes.map(type =>
+                  [type, getDetectionTypeColor(taxonomy, type)]
+                ))}
+                stackLabels={Object.fromEntries(groupedDetections.detectionTypes.map(type =>
+                  [type, getDetectionTypeLabel(taxonomy, type)]
+                ))}
+                formatTick={formatDetectionTick}
+                ranges={DETECTION_RANGE_OPTIONS}
+                selectedRange={detectionRange}
+                onRangeChange={(range) => setDetectionRange(range as DetectionRange)}
+              />
+            </View>
+
+            <View style={styles.chartContainer}>
+              <Text style={styles.chartTitle}>
+                Recent Detections
+                {detectionFilter ? ` · ${getDetectionTypeLabel(taxonomy, detectionFilter)}` : ''}
+              </Text>
+              <DetectionList deviceId={device.id} taxonomy={taxonomy} detectionType={detectionFilter} />
+            </View>
+
+            <View style={styles.chartContainer}>
+              <Text style={styles.chartTitle}>Environment</Text>
+              <View style={styles.metricSelector}>
+                {TELEMETRY_METRIC_OPTIONS.map(option => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[styles.metricOption, telemetryMetric === option.value && styles.metricOptionActive]}
+                    onPress={() => setTelemetryMetric(option.value)}
+                  >
+                    <Text style={[styles.metricOptionText, telemetryMetric === option.value && styles.metricOptionTextActive]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <DeviceChart
+                data={telemetry}
+                yKey={telemetryMetric}
+                variant="line"
+                formatTick={formatTelemetryTick}
+                ranges={TELEMETRY_RANGE_OPTIONS}
+                selectedRange={telemetryRange}
+                onRangeChange={(range) => setTelemetryRange(range as TelemetryRange)}
+              />
+              {telemetry.length === 0 && (
+                <Text style={styles.emptyChartText}>No telemetry reported for this period</Text>
+              )}
             </View>
 
             <View style={styles.lastUpdatedContainer}>
               <Calendar size={16} color={theme.colors.textLight} />
               <Text style={styles.lastUpdatedText}>
-                Last updated: {new Date(mockDevice.lastUpdated).toLocaleString()}
+                Last updated: {new Date(metrics.telemetryRecordedAt || device.updated_at).toLocaleString()}
               </Text>
             </View>
           </View>
@@ -179,34 +531,131 @@ export default function DeviceDetailScreen() {
                 <Camera size={24} color={theme.colors.primary} />
               </TouchableOpacity>
             </View>
-            <DeviceImageGallery images={mockDevice.images} />
+            <DeviceImageGallery
+              images={images.map(image => ({ id: image.id, url: image.url, timestamp: image.created_at }))}
+            />
           </View>
         )}
 
         {activeTab === 'settings' && (
           <View style={styles.settingsContainer}>
             <Text style={styles.settingsTitle}>Device Settings</Text>
+            {!canManage && (
+              <Text style={styles.readOnlyText}>
+                You have view-only access to this device. Ask an owner or manager to make changes.
+              </Text>
+            )}
             <View style={styles.settingItem}>
               <Text style={styles.settingLabel}>Device Name</Text>
-              <Text style={styles.settingValue}>{mockDevice.name}</Text>
+              <Text style={styles.settingValue}>{device.name}</Text>
             </View>
             <View style={styles.settingItem}>
               <Text style={styles.settingLabel}>Location</Text>
-              <Text style={styles.settingValue}>{mockDevice.location}</Text>
+              <Text style={styles.settingValue}>{device.location || 'Not set'}</Text>
             </View>
             <View style={styles.settingItem}>
-              <Text style={styles.settingLabel}>Notification Preferences</Text>
-              <Text style={styles.settingValue}>All alerts</Text>
+              <Text style={styles.settingLabel}>Site</Text>
+              <View style={styles.groupOptions}>
+                {[{ id: null, name: 'None' }, ...groups].map(group => (
+                  <TouchableOpacity
+                    key={group.id ?? 'none'}
+                    style={[styles.groupOption, device.group_id === group.id && styles.groupOptionActive]}
+                    onPress={() => handleGroupChange(group.id)}
+                    disabled={!canManage}
+                  >
+                    <Text style={[styles.groupOptionText, device.group_id === group.id && styles.groupOptionTextActive]}>
+                      {group.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
             </View>
             <View style={styles.settingItem}>
-              <Text style={styles.settingLabel}>Capture Frequency</Text>
-              <Text style={styles.settingValue}>Every 4 hours</Text>
+              <Text style={styles.settingLabel}>Position</Text>
+              <DeviceLocationPicker
+                coordinate={device.latitude !== null && device.longitude !== null
+                  ? { latitude: device.latitude, longitude: device.longitude }
+                  : null}
+                onChange={handleCoordinateChange}
+                editable={canManage}
+              />
             </View>
+            {settingsDraft && (
+              <DeviceSettingsForm
+                settings={settingsDraft}
+                onChange={setSettingsDraft}
+                hasCoordinates={device.latitude !== null && device.longitude !== null}
+                editable={canManage}
+              />
+            )}
             
-            <Button 
-              title="Update Settings" 
-              onPress={() => console.log('Update settings')} 
-              style={styles.updateButton}
+            {firmwareStatus && (
+              <View style={styles.settingItem}>
+                <Text style={styles.settingLabel}>Firmware</Text>
+                <FirmwareStatus
+                  status={firmwareStatus}
+                  canManage={canManage}
+                  updating={updatingFirmware}
+                  onUpdate={handleFirmwareUpdate}
+                />
+              </View>
+            )}
+            <View style={styles.settingItem}>
+              <Text style={styles.settingLabel}>Configuration</Text>
+              {latestConfig ? (
+                <View style={styles.configStatusRow}>
+                  <Text style={styles.settingValue}>
+                    Desired v{latestConfig.version} · Reported {device.reported_config_version ? `v${device.reported_config_version}` : 'none'}
+                  </Text>
+                  <ConfigStatusBadge status={latestConfig.status} />
+                </View>
+              ) : (
+                <Text style={styles.settingValue}>Not sent yet</Text>
+              )}
+              {device.config_reported_at ? (
+                <Text style={styles.settingValue}>
+                  Last confirmed {new Date(device.config_reported_at).toLocaleString()}
+                </Text>
+              ) : null}
+            </View>
+
+            {canManage && (
+              <Button 
+                title="Update Settings" 
+                onPress={handlePushSettings} 
+                loading={pushingSettings}
+                style={styles.updateButton}
+              />
+            )}
+
+            {canManage && device.group_id ? (
+              <Button
+                title="Apply Settings to Site"
+                onPress={handlePushGroupSettings}
+                loading={pushingGroupSettings}
+                style={styles.groupSettingsButton}
+              />
+            ) : null}
+
+            {details.role === 'owner' && (
+              <Button
+                title="Reset Provisioning"
+                onPress={handleResetProvisioning}
+                style={styles.resetButton}
+              />
+            )}
+
+            <Text style={[styles.settingsTitle, styles.historyTitle]}>Configuration History</Text>
+            <ConfigVersionHistory
+              versions={configVersions}
+              reportedVersion={device.reported_config_version}
+            />
+
+            <Text style={[styles.settingsTitle, styles.historyTitle]}>My Notifications</Text>
+            <NotificationRulesEditor
+              deviceId={device.id}
+              detectionTypes={ruleDetectionTypes}
+              taxonomy={taxonomy}
             />
           </View>
         )}
@@ -284,6 +733,11 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: theme.colors.text,
   },
+  lastSeenText: {
+    fontFamily: 'Roboto',
+    fontSize: 14,
+    color: theme.colors.textLight,
+  },
   serialNumber: {
     fontFamily: 'Roboto',
     fontSize: 14,
@@ -346,6 +800,36 @@ const styles = StyleSheet.create({
     color: theme.colors.text,
     marginBottom: 16,
   },
+  metricSelector: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  metricOption: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    marginRight: 8,
+    backgroundColor: theme.colors.backgroundLight,
+  },
+  metricOptionActive: {
+    backgroundColor: theme.colors.primary,
+  },
+  metricOptionText: {
+    fontFamily: 'Roboto',
+    fontSize: 12,
+    color: theme.colors.textLight,
+  },
+  metricOptionTextActive: {
+    fontFamily: 'Roboto-Bold',
+    color: theme.colors.white,
+  },
+  emptyChartText: {
+    fontFamily: 'Roboto',
+    fontSize: 14,
+    color: theme.colors.textLight,
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
   lastUpdatedContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -388,6 +872,12 @@ const styles = StyleSheet.create({
     color: theme.colors.text,
     marginBottom: 16,
   },
+  readOnlyText: {
+    fontFamily: 'Roboto',
+    fontSize: 14,
+    color: theme.colors.textLight,
+    marginBottom: 16,
+  },
   settingItem: {
     paddingVertical: 12,
     borderBottomWidth: 1,
@@ -408,4 +898,45 @@ const styles = StyleSheet.create({
     backgroundColor: theme.colors.primary,
     marginTop: 20,
   },
+  groupSettingsButton: {
+    backgroundColor: theme.colors.accent,
+    marginTop: 12,
+  },
+  resetButton: {
+    backgroundColor: theme.colors.error,
+    marginTop: 12,
+  },
+  configStatusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  historyTitle: {
+    marginTop: 24,
+    marginBottom: 4,
+  },
+  groupOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 4,
+  },
+  groupOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: theme.colors.backgroundLight,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  groupOptionActive: {
+    backgroundColor: theme.colors.primary,
+  },
+  groupOptionText: {
+    fontFamily: 'Roboto',
+    fontSize: 14,
+    color: theme.colors.text,
+  },
+  groupOptionTextActive: {
+    color: theme.colors.white,
+  },
 });
\ No newline at end of file
@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, FlatList, Alert, ActivityIndicator } from 'react-native';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ArrowLeft, Plus, Trash2 } from 'lucide-react-native';
+import { theme } from '../../../src/theme';
+import { getDeviceGroups, createDeviceGroup, deleteDeviceGroup } from '../../../src/services/groupService';
+import { DeviceGroupWithCount } from '../../../src/types/group';
+import Input from '../../../src/components/Input';
+
+export default function DeviceGroupsScreen() {
+  const router = useRouter();
+  const [groups, setGroups] = useState<DeviceGroupWithCount[]>([]);
+  const [name, setName] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadGroups = async () => {
+    try {
+      setGroups(await getDeviceGroups());
+    } catch (err) {
+      console.error('Error loading device groups:', err);
+      setError('Failed to load sites.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadGroups();
+  }, []);
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      setError('Site name is required');
+      return;
+    }
+
+    setError('');
+    setSaving(true);
+
+    try {
+      const group = await createDeviceGroup({ name });
+      setGroups(prev => [...prev, { ...group, deviceCount: 0 }].sort((a, b) => a.name.localeCompare(b.name)));
+      setName('');
+    } catch (err) {
+      console.error('Error creating device group:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create site.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (group: DeviceGroupWithCount) => {
+    Alert.alert(
+      'Delete Site',
+      `Delete "${group.name}"? Its ${group.deviceCount} device${group.deviceCount === 1 ? '' : 's'} will become ungrouped.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteDeviceGroup(group.id);
+              setGroups(prev => prev.filter(item => item.id !== group.id));
+            } catch (err) {
+              console.error('Error deleting device group:', err);
+              setError('Failed to delete site.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <ArrowLeft size={24} color={theme.colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.title}>Sites</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <View style={styles.createContainer}>
+        <Input
+          value={name}
+          onChangeText={setName}
+          placeholder="New site name, e.g. North Lease"
+          autoCapitalize="words"
+          containerStyle={{ flex: 1, marginBottom: 0 }}
+        />
+        <TouchableOpacity style={styles.addButton} onPress={handleCreate} disabled={saving}>
+          {saving ? (
+            <ActivityIndicator color={theme.colors.white} size="small" />
+          ) : (
+            <Plus size={24} color={theme.colors.white} />
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+      {loading ? (
+        <ActivityIndicator style={styles.loading} color={theme.colors.primary} />
+      ) : (
+        <FlatList
+          data={groups}
+          keyExtractor={item => item.id}
+          contentContainerStyle={styles.listContent}
+          renderItem={({ item }) => (
+            <View style={styles.groupItem}>
+              <View style={styles.groupInfo}>
+                <Text style={styles.groupName}>{item.name}</Text>
+                <Text style={styles.groupCount}>
+                  {item.deviceCount} device{item.deviceCount === 1 ? '' : 's'}
+                </Text>
+              </View>
+              <TouchableOpacity onPress={() => handleDelete(item)} style={styles.deleteButton}>
+                <Trash2 size={20} color={theme.colors.error} />
+              </TouchableOpacity>
+            </View>
+          )}
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>
+              No sites yet. Create one to organise devices by property.
+            </Text>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  backButton: {
+    padding: 4,
+  },
+  title: {
+    fontFamily: 'Montserrat-Bold',
+    fontSize: 20,
+    color: theme.colors.text,
+  },
+  createContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+  },
+  addButton: {
+    backgroundColor: theme.colors.primary,
+    width: 48,
+    height: 48,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 12,
+  },
+  errorText: {
+    fontFamily: 'Roboto',
+    fontSize: 14,
+    color: theme.colors.error,
+    paddingHorizontal: 16,
+    marginBottom: 8,
+  },
+  loading: {
+    marginTop: 32,
+  },
+  listContent: {
+    padding: 16,
+    paddingTop: 0,
+  },
+  groupItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.white,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: theme.colors.shadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  groupInfo: {
+    flex: 1,
+  },
+  groupName: {
+    fontFamily: 'Montserrat-SemiBold',
+    fontSize: 16,
+    color: theme.colors.text,
+    marginBottom: 4,
+  },
+  groupCount: {
+    fontFamily: 'Roboto',
+    fontSize: 14,
+    color: theme.colors.textLight,
+  },
+  deleteButton: {
+    padding: 8,
+  },
+  emptyText: {
+    fontFamily: 'Roboto',
+    fontSize: 16,
+    color: theme.colors.textLight,
+    textAlign: 'center',
+    marginTop: 32,
+  },
+});
@@ -0,0 +1,282 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ArrowLeft, FileUp, Check } from 'lucide-react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { theme } from '../../../src/theme';
+import { previewDeviceImport, importDevices } from '../../../src/services/deviceService';
+import { useDevices } from '../../../src/context/DeviceContext';
+import { DeviceImportPreview, DeviceImportRowStatus } from '../../../src/types/device';
+import Button from '../../../src/components/Button';
+
+const STATUS_LABELS: Record<DeviceImportRowStatus, string> = {
+  valid: 'Ready',
+  invalid: 'Invalid',
+  duplicate: 'Duplicate',
+};
+
+const STATUS_COLORS: Record<DeviceImportRowStatus, string> = {
+  valid: theme.colors.success,
+  invalid: theme.colors.error,
+  duplicate: theme.colors.warning,
+};
+
+export default function ImportDevicesScreen() {
+  const router = useRouter();
+  const { fetchDevices } = useDevices();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [preview, setPreview] = useState<DeviceImportPreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handlePickFile = async () => {
+    setError('');
+
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ['text/csv', 'text/comma-separated-values', 'application/vnd.ms-excel'],
+      copyToCacheDirectory: true,
+    });
+
+    if (result.canceled || !result.assets?.length) {
+      return;
+    }
+
+    const asset = result.assets[0];
+    setFileName(asset.name);
+    setPreview(null);
+    setLoading(true);
+
+    try {
+      const csvText = await FileSystem.readAsStringAsync(asset.uri);
+      setPreview(await previewDeviceImport(csvText));
+    } catch (err) {
+      console.error('Error reading import file:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read the file.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+
+    setError('');
+    setImporting(true);
+
+    try {
+      const devices = await importDevices(preview.rows);
+      await fetchDevices();
+
+      const skipped = preview.invalidCount + preview.duplicateCount;
+      Alert.alert(
+        'Import Complete',
+        `${devices.length} device${devices.length === 1 ? '' : 's'} registered` +
+          (skipped > 0 ? `, ${skipped} row${skipped === 1 ? '' : 's'} skipped.` : '.'),
+        [{ text: 'OK', onPress: () => router.push('/devices') }]
+      );
+    } catch (err) {
+      console.error('Error importing devices:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import devices. Please try again.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <ArrowLeft size={24} color={theme.colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.title}>Import Devices</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <ScrollView style={styles.content}>
+        <Text style={styles.subtitle}>
+          Register many devices at once from a CSV file with the columns
+          name, serial_number, claim_code, location and settings (JSON).
+        </Text>
+
+        {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+        <Button
+          onPress={handlePickFile}
+          loading={loading}
+          disabled={importing}
+          style={styles.pickButton}
+        >
+          <FileUp size={20} color={theme.colors.white} style={{ marginRight: 8 }} />
+          <Text style={styles.buttonText}>{fileName ? 'Choose Another File' : 'Choose CSV File'}</Text>
+        </Button>
+
+        {preview && (
+          <>
+            <Text style={styles.fileName}>{fileName}</Text>
+            <View style={styles.summary}>
+              <Text style={[styles.summaryText, { color: STATUS_COLORS.valid }]}>
+                {preview.validCount} ready
+              </Text>
+              <Text style={[styles.summaryText, { color: STATUS_COLORS.duplicate }]}>
+                {preview.duplicateCount} duplicate
+              </Text>
+              <Text style={[styles.summaryText, { color: STATUS_COLORS.invalid }]}>
+                {preview.invalidCount} invalid
+              </Text>
+            </View>
+
+            {preview.rows.map(row => (
+              <View key={row.line} style={styles.row}>
+                <View style={styles.rowHeader}>
+                  <Text style={styles.rowTitle} numberOfLines={1}>
+                    {row.line}. {row.raw.name || 'Unnamed'}
+                  </Text>
+                  <Text style={[styles.rowStatus, { color: STATUS_COLORS[row.status] }]}>
+                    {STATUS_LABELS[row.status]}
+                  </Text>
+                </View>
+                <Text style={styles.rowDetail}>
+                  {row.raw.serial_number || 'No serial number'}
+                  {row.raw.location ? ` · ${row.raw.location}` : ''}
+                </Text>
+                {row.errors.map(message => (
+                  <Text key={message} style={styles.rowError}>{message}</Text>
+                ))}
+              </View>
+            ))}
+
+            <Button
+              onPress={handleImport}
+              loading={importing}
+              disabled={preview.validCount === 0}
+              style={styles.importButton}
+            >
+              <Check size={20} color={theme.colors.white} style={{ marginRight: 8 }} />
+              <Text style={styles.buttonText}>
+                Import {preview.validCount} Device{preview.validCount === 1 ? '' : 's'}
+              </Text>
+            </Button>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  backButton: {
+    padding: 4,
+  },
+  title: {
+    fontFamily: 'Montserrat-Bold',
+    fontSize: 20,
+    color: theme.colors.text,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  subtitle: {
+    fontFamily: 'Roboto',
+    fontSize: 16,
+    color: theme.colors.textLight,
+    marginBottom: 20,
+  },
+  errorText: {
+    fontFamily: 'Roboto',
+    fontSize: 14,
+    color: theme.colors.error,
+    marginBottom: 16,
+  },
+  pickButton: {
+    backgroundColor: theme.colors.accent,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    height: 50,
+    borderRadius: 8,
+  },
+  fileName: {
+    fontFamily: 'Montserrat-SemiBold',
+    fontSize: 16,
+    color: theme.colors.text,
+    marginTop: 20,
+  },
+  summary: {
+    flexDirection: 'row',
+    marginTop: 8,
+    marginBottom: 16,
+  },
+  summaryText: {
+    fontFamily: 'Roboto-Medium',
+    fontSize: 14,
+    marginRight: 16,
+  },
+  row: {
+    backgroundColor: theme.colors.white,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  rowTitle: {
+    flex: 1,
+    fontFamily: 'Montserrat-SemiBold',
+    fontSize: 15,
+    color: theme.colors.text,
+    marginRight: 8,
+  },
+  rowStatus: {
+    fontFamily: 'Roboto-Medium',
+    fontSize: 13,
+  },
+  rowDetail: {
+    fontFamily: 'Roboto',
+    fontSize: 13,
+    color: theme.colors.textLight,
+    marginTop: 4,
+  },
+  rowError: {
+    fontFamily: 'Roboto',
+    fontSize: 13,
+    color: theme.colors.error,
+    marginTop: 4,
+  },
+  importButton: {
+    backgroundColor: theme.colors.primary,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    height: 50,
+    borderRadius: 8,
+    marginTop: 12,
+    marginBottom: 32,
+  },
+  buttonText: {
+    fontFamily: 'Montserrat-SemiBold',
+    fontSize: 16,
+    color: theme.colors.white,
+  },
+});
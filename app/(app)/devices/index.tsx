@@ -1,75 +1,112 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, FlatList, TouchableOpacity, RefreshControl, TextInput } from 'react-native';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, RefreshControl, TextInput, ScrollView, ActivityIndicator } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
-import { Plus, Search, Filter } from 'lucide-react-native';
+import { Plus, Search, Filter, ArrowUpDown } from 'lucide-react-native';
 import { theme } from '../../../src/theme';
-import { fetchDevices } from '../../../src/services/deviceService';
+import { getDevices, subscribeToDeviceUpdates } from '../../../src/services/deviceService';
+import { getDeviceGroups } from '../../../src/services/groupService';
+import { DeviceFilters, DeviceWithStats } from '../../../src/types/device';
+import { DeviceGroupWithCount } from '../../../src/types/group';
+import { usePaginatedQuery } from '../../../src/hooks/usePaginatedQuery';
+import { useSync } from '../../../src/context/SyncContext';
 import DeviceCard from '../../../src/components/DeviceCard';
+import StaleDataBanner from '../../../src/components/StaleDataBanner';
 import Button from '../../../src/components/Button';
 
+const PAGE_SIZE = 20;
+
 export default function DevicesScreen() {
   const router = useRouter();
-  const [devices, setDevices] = useState([]);
-  const [filteredDevices, setFilteredDevices] = useState([]);
+  const [groups, setGroups] = useState<DeviceGroupWithCount[]>([]);
+  const [groupFilter, setGroupFilter] = useState<DeviceFilters['groupId']>(undefined);
   const [searchQuery, setSearchQuery] = useState('');
-  const [refreshing, setRefreshing] = useState(false);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState(null);
+  const [search, setSearch] = useState('');
+  const [sortByHealth, setSortByHealth] = useState(false);
+  const { lastSyncedAt } = useSync();
+
+  const {
+    items: devices,
+    setItems: setDevices,
+    loading,
+    loadingMore,
+    refreshing,
+    error,
+    cachedAt,
+    loadMore,
+    refresh,
+    reload,
+  } = usePaginatedQuery<DeviceWithStats>(
+    async cursor => {
+      const page = await getDevices(
+        {
+          search: search || undefined,
+          groupId: groupFilter,
+          sortBy: sortByHealth ? 'health' : undefined,
+        },
+        { cursor, pageSize: PAGE_SIZE }
+      );
+      return { items: page.devices, nextCursor: page.nextCursor, cachedAt: page.cachedAt };
+    },
+    [search, groupFilter, sortByHealth]
+  );
 
-  const loadDevices = async () => {
+  const loadGroups = async () => {
     try {
-      setLoading(true);
-      setError(null);
-      const data = await fetchDevices();
-      setDevices(data);
-      setFilteredDevices(data);
+      setGroups(await getDeviceGroups());
     } catch (err) {
-      console.error('Error loading devices:', err);
-      setError('Failed to load devices. Pull down to refresh.');
-    } finally {
-      setLoading(false);
+      console.error('Error loading device groups:', err);
     }
   };
 
   const onRefresh = async () => {
-    setRefreshing(true);
-    await loadDevices();
-    setRefreshing(false);
+    await Promise.all([refresh(), loadGroups()]);
   };
 
   useEffect(() => {
-    loadDevices();
+    loadGroups();
+
+    // Keep status live; health scores refresh with the next load
+    const subscription = subscribeToDeviceUpdates(updated => {
+      setDevices(current => current.map(device => (
+        device.id === updated.id ? { ...device, ...updated } : device
+      )));
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
   }, []);
 
   useEffect(() => {
-    if (searchQuery.trim() === '') {
-      setFilteredDevices(devices);
-    } else {
-      const filtered = devices.filter(device => 
-        device.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        device.serialNumber.toLowerCase().includes(searchQuery.toLowerCase())
-      );
-      setFilteredDevices(filtered);
+    // Replace cached rows once the sync engine has caught up
+    if (cachedAt && lastSyncedAt && lastSyncedAt > cachedAt) {
+      refresh();
     }
-  }, [searchQuery, devices]);
-
-  // Mock data for demonstration
-  const mockDevices = [
-    { id: '1', name: 'North Field Sensor', serialNumber: 'FS-1001', status: 'online', batteryLevel: 85, lastUpdated: new Date().toISOString() },
-    { id: '2', name: 'East Boundary', serialNumber: 'FS-1002', status: 'online', batteryLevel: 72, lastUpdated: new Date().toISOString() },
-    { id: '3', name: 'South Gate', serialNumber: 'FS-1003', status: 'offline', batteryLevel: 15, lastUpdated: new Date(Date.now() - 86400000).toISOString() },
-    { id: '4', name: 'West Perimeter', serialNumber: 'FS-1004', status: 'online', batteryLevel: 63, lastUpdated: new Date().toISOString() },
-    { id: '5', name: 'Central Hub', serialNumber: 'FS-1005', status: 'online', batteryLevel: 91, lastUpdated: new Date().toISOString() },
+  }, [lastSyncedAt]);
+
+  useEffect(() => {
+    // Debounce typing in the search box
+    const timeout = setTimeout(() => setSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const groupNames = new Map(groups.map(group => [group.id, group.name]));
+
+  const groupOptions: { label: string; value: DeviceFilters['groupId'] }[] = [
+    { label: 'All', value: undefined },
+    ...groups.map(group => ({ label: `${group.name} (${group.deviceCount})`, value: group.id })),
+    ...(groups.length > 0 ? [{ label: 'Ungrouped', value: null }] : []),
   ];
 
-  const handleDevicePress = (deviceId) => {
+  const handleDevicePress = (deviceId: string) => {
     router.push(`/devices/${deviceId}`);
   };
 
-  const renderDeviceItem = ({ item }) => (
+  const renderDeviceItem = ({ item }: { item: DeviceWithStats }) => (
     <DeviceCard 
       device={item} 
+      groupName={item.group_id ? groupNames.get(item.group_id) : null}
       onPress={() => handleDevicePress(item.id)} 
     />
   );
@@ -86,6 +123,8 @@ export default function DevicesScreen() {
         </TouchableOpacity>
       </View>
 
+      <StaleDataBanner cachedAt={cachedAt} />
+
       <View style={styles.searchContainer}>
         <View style={styles.searchInputContainer}>
           <Search size={20} color={theme.colors.textLight} style={styles.searchIcon} />
@@ -102,18 +141,50 @@ export default function DevicesScreen() {
         </TouchableOpacity>
       </View>
 
-      {error ? (
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.groupChips}
+        contentContainerStyle={styles.groupChipsContent}
+      >
+        {groupOptions.map(option => (
+          <TouchableOpacity
+            key={String(option.value)}
+            style={[styles.groupChip, groupFilter === option.value && styles.groupChipActive]}
+            onPress={() => setGroupFilter(option.value)}
+          >
+            <Text style={[styles.groupChipText, groupFilter === option.value && styles.groupChipTextActive]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity style={styles.groupChip} onPress={() => router.push('/devices/groups')}>
+          <Text style={styles.manageGroupsText}>Manage sites</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      <TouchableOpacity
+        style={[styles.sortButton, sortByHealth && styles.sortButtonActive]}
+        onPress={() => setSortByHealth(value => !value)}
+      >
+        <ArrowUpDown size={16} color={sortByHealth ? theme.colors.white : theme.colors.text} />
+        <Text style={[styles.sortText, sortByHealth && styles.sortTextActive]}>
+          {sortByHealth ? 'Least healthy first' : 'Sort by health'}
+        </Text>
+      </TouchableOpacity>
+
+      {error && devices.length === 0 ? (
         <View style={styles.errorContainer}>
           <Text style={styles.errorText}>{error}</Text>
           <Button 
             title="Retry" 
-            onPress={loadDevices} 
+            onPress={reload} 
             style={styles.retryButton}
           />
         </View>
       ) : (
         <FlatList
-          data={mockDevices}
+          data={devices}
           renderItem={renderDeviceItem}
           keyExtractor={item => item.id}
           contentContainerStyle={styles.listContent}
@@ -124,15 +195,22 @@ export default function DevicesScreen() {
               colors={[theme.colors.primary]} 
             />
           }
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            loadingMore ? <ActivityIndicator color={theme.colors.primary} style={styles.footerLoader} /> : null
+          }
           ListEmptyComponent={
-            <View style={styles.emptyContainer}>
-              <Text style={styles.emptyText}>No devices found</Text>
-              <Button 
-                title="Register New Device" 
-                onPress={() => router.push('/devices/register')} 
-                style={styles.registerButton}
-              />
-            </View>
+            loading ? null : (
+              <View style={styles.emptyContainer}>
+                <Text style={styles.emptyText}>No devices found</Text>
+                <Button 
+                  title="Register New Device" 
+                  onPress={() => router.push('/devices/register')} 
+                  style={styles.registerButton}
+                />
+              </View>
+            )
           }
         />
       )}
@@ -199,10 +277,66 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginLeft: 8,
   },
+  sortButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: theme.colors.backgroundLight,
+    marginHorizontal: 16,
+    marginBottom: 12,
+  },
+  sortButtonActive: {
+    backgroundColor: theme.colors.primary,
+  },
+  sortText: {
+    fontFamily: 'Roboto',
+    fontSize: 14,
+    color: theme.colors.text,
+    marginLeft: 6,
+  },
+  sortTextActive: {
+    color: theme.colors.white,
+  },
+  groupChips: {
+    flexGrow: 0,
+    marginBottom: 12,
+  },
+  groupChipsContent: {
+    paddingHorizontal: 16,
+  },
+  groupChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: theme.colors.backgroundLight,
+    marginRight: 8,
+  },
+  groupChipActive: {
+    backgroundColor: theme.colors.primary,
+  },
+  groupChipText: {
+    fontFamily: 'Roboto',
+    fontSize: 14,
+    color: theme.colors.text,
+  },
+  groupChipTextActive: {
+    color: theme.colors.white,
+  },
+  manageGroupsText: {
+    fontFamily: 'Roboto-Medium',
+    fontSize: 14,
+    color: theme.colors.accent,
+  },
   listContent: {
     padding: 16,
     paddingTop: 0,
   },
+  footerLoader: {
+    marginVertical: 16,
+  },
   errorContainer: {
     flex: 1,
     justifyContent: 'center',
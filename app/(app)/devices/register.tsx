@@ -1,20 +1,32 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, ScrollView, TextInput, Alert, ActivityIndicator } from 'react-native';
 import { useRouter } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { ArrowLeft, QrCode, Check } from 'lucide-react-native';
 import { BarCodeScanner } from 'expo-barcode-scanner';
 import { theme } from '../../../src/theme';
-import { registerDevice } from '../../../src/services/deviceService';
+import { useDevices } from '../../../src/context/DeviceContext';
+import { parseDeviceQrPayload } from '../../../src/lib/qrPayload';
 import Button from '../../../src/components/Button';
 import Input from '../../../src/components/Input';
+import DeviceLocationPicker from '../../../src/components/DeviceLocationPicker';
+import { Coordinates } from '../../../src/types/device';
+import { OrganizationWithRole } from '../../../src/types/organization';
+import { getOrganizations, MANAGER_ROLES } from '../../../src/services/organizationService';
 
 export default function RegisterDeviceScreen() {
   const router = useRouter();
+  const { registerDevice } = useDevices();
   const [serialNumber, setSerialNumber] = useState('');
+  const [claimCode, setClaimCode] = useState('');
   const [deviceName, setDeviceName] = useState('');
+  const [model, setModel] = useState('');
+  const [firmware, setFirmware] = useState('');
   const [location, setLocation] = useState('');
-  const [hasPermission, setHasPermission] = useState(null);
+  const [coordinate, setCoordinate] = useState<Coordinates | null>(null);
+  const [organizations, setOrganizations] = useState<OrganizationWithRole[]>([]);
+  const [organizationId, setOrganizationId] = useState<string | null>(null);
+  const [hasPermission, setHasPermission] = useState<boolean | null>(null);
   const [scanning, setScanning] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
@@ -29,10 +41,44 @@ export default function RegisterDeviceScreen() {
     }
   };
 
-  const handleBarCodeScanned = ({ data }) => {
+  useEffect(() => {
+    // Only organizations the user manages can take new devices
+    getOrganizations()
+      .then(data => {
+        const manageable = data.filter(organization => MANAGER_ROLES.includes(organization.role));
+        setOrganizations(manageable);
+        setOrganizationId(manageable.find(organization => organization.role === 'owner')?.id ?? manageable[0]?.id ?? null);
+      })
+      .catch(err => console.error('Error loading organizations:', err));
+  }, []);
+
+  const handleBarCodeScanned = ({ data }: { data: string }) => {
     setScanning(false);
-    // Assuming QR code contains the serial number
-    setSerialNumber(data);
+
+    const result = parseDeviceQrPayload(data);
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+
+    setError('');
+    setSerialNumber(result.payload.serial);
+
+    if (result.legacy) {
+      setModel('');
+      setFirmware('');
+      return;
+    }
+
+    const { serial, model: labelModel, firmware: labelFirmware, claimCode: labelClaimCode } = result.payload;
+    setClaimCode(labelClaimCode);
+    setModel(labelModel ?? '');
+    setFirmware(labelFirmware ?? '');
+
+    // Suggest a name unless the user already typed one
+    if (!deviceName) {
+      setDeviceName(labelModel ? `${labelModel} ${serial.slice(-4)}` : serial);
+    }
   };
 
   const handleRegister = async () => {
@@ -41,6 +87,11 @@ export default function RegisterDeviceScreen() {
       return;
     }
 
+    if (!claimCode) {
+      setError('Claim code is required. Scan the QR code or enter the code printed on the device label.');
+      return;
+    }
+
     if (!deviceName) {
       setError('Device name is required');
       return;
@@ -50,11 +101,18 @@ export default function RegisterDeviceScreen() {
     setLoading(true);
 
     try {
-      await registerDevice({
-        serialNumber,
-        name: deviceName,
-        location
-      });
+      await registerDevice(
+        {
+          serial_number: serialNumber.trim(),
+          name: deviceName,
+          location: location || null,
+          model: model || null,
+          latitude: coordinate?.latitude ?? null,
+          longitude: coordinate?.longitude ?? null,
+          organization_id: organizationId ?? undefined,
+        },
+        claimCode.trim()
+      );
       
       Alert.alert(
         'Success',
@@ -63,7 +121,7 @@ export default function RegisterDeviceScreen() {
       );
     } catch (err) {
       console.error('Error registering device:', err);
-      setError('Failed to register device. Please try again.');
+      setError(err instanceof Error ? err.message : 'Failed to register device. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -100,6 +158,10 @@ export default function RegisterDeviceScreen() {
           <ScrollView style={styles.content}>
             <Text style={styles.subtitle}>Enter device details or scan QR code</Text>
 
+            <TouchableOpacity onPress={() => router.push('/devices/import')} style={styles.importLink}>
+              <Text style={styles.importLinkText}>Registering many devices? Import from CSV</Text>
+            </TouchableOpacity>
+
             {error ? <Text style={styles.errorText}>{error}</Text> : null}
 
             <View style={styles.form}>
@@ -119,6 +181,27 @@ export default function RegisterDeviceScreen() {
                 </TouchableOpacity>
               </View>
 
+              <Input
+                label="Claim Code"
+                value={claimCode}
+                onChangeText={setClaimCode}
+                placeholder="Printed on the device label"
+                autoCapitalize="characters"
+              />
+
+              {model ? (
+                <Input
+                  label="Model"
+                  value={model}
+                  onChangeText={setModel}
+                  placeholder="Device model"
+                />
+              ) : null}
+
+              {firmware ? (
+                <Text style={styles.labelInfo}>Firmware {firmware} (from device label)</Text>
+              ) : null}
+
               <Input
                 label="Device Name"
                 value={deviceName}
@@ -133,6 +216,28 @@ export default function RegisterDeviceScreen() {
                 placeholder="Where is this device installed?"
               />
 
+              {organizations.length > 1 && (
+                <>
+                  <Text style={styles.sectionLabel}>Organization</Text>
+                  <View style={styles.organizationOptions}>
+                    {organizations.map(organization => (
+                      <TouchableOpacity
+                        key={organization.id}
+                        style={[styles.organizationOption, organizationId === organization.id && styles.organizationOptionActive]}
+                        onPress={() => setOrganizationId(organization.id)}
+                      >
+                        <Text style={[styles.organizationOptionText, organizationId === organization.id && styles.organizationOptionTextActive]}>
+                          {organization.name}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </>
+              )}
+
+              <Text style={styles.sectionLabel}>Position</Text>
+              <DeviceLocationPicker coordinate={coordinate} onChange={setCoordinate} autoLocate />
+
               <Button 
                 title="Register Device" 
                 onPress={handleRegister} 
@@ -188,6 +293,15 @@ const styles = StyleSheet.create({
     color: theme.colors.textLight,
     marginBottom: 20,
   },
+  importLink: {
+    marginTop: -8,
+    marginBottom: 20,
+  },
+  importLinkText: {
+    fontFamily: 'Roboto-Medium',
+    fontSize: 14,
+    color: theme.colors.accent,
+  },
   errorText: {
     fontFamily: 'Roboto',
     fontSize: 14,
@@ -197,6 +311,42 @@ const styles = StyleSheet.create({
   form: {
     marginBottom: 20,
   },
+  sectionLabel: {
+    fontFamily: 'Roboto-Bold',
+    fontSize: 14,
+    color: theme.colors.text,
+    marginBottom: 8,
+  },
+  organizationOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  organizationOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: theme.colors.backgroundLight,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  organizationOptionActive: {
+    backgroundColor: theme.colors.primary,
+  },
+  organizationOptionText: {
+    fontFamily: 'Roboto',
+    fontSize: 14,
+    color: theme.colors.text,
+  },
+  organizationOptionTextActive: {
+    color: theme.colors.white,
+  },
+  labelInfo: {
+    fontFamily: 'Roboto',
+    fontSize: 14,
+    color: theme.colors.textLight,
+    marginBottom: 16,
+  },
   serialNumberContainer: {
     flexDirection: 'row',
     alignItems: 'flex-end',
@@ -6,22 +6,40 @@ import { AlertTriangle, Bell, ChevronRight } from 'lucide-react-native';
 import { theme } from '../../src/theme';
 import { useAuth } from '../../src/context/AuthContext';
 import { fetchDashboardData } from '../../src/services/deviceService';
+import { evaluateAlerts, acknowledgeAlert, snoozeAlert } from '../../src/services/alertService';
+import { DashboardData } from '../../src/types/device';
+import { DetectionGrouping } from '../../src/types/detection';
 import DashboardMetricCard from '../../src/components/DashboardMetricCard';
 import DashboardChart from '../../src/components/DashboardChart';
 import AlertCard from '../../src/components/AlertCard';
+import GroupRollupCard from '../../src/components/GroupRollupCard';
+import DetectionTypeFilter from '../../src/components/DetectionTypeFilter';
+import DetectionTypeIcon from '../../src/components/DetectionTypeIcon';
+import { useDetectionTaxonomy } from '../../src/hooks/useDetectionTaxonomy';
+import {
+  getDetectionTypeColor,
+  getDetectionTypeIcon,
+  getDetectionTypeLabel,
+  groupDetectionData
+} from '../../src/lib/detectionTaxonomy';
 
 export default function DashboardScreen() {
   const { user } = useAuth();
   const router = useRouter();
-  const [dashboardData, setDashboardData] = useState(null);
+  const [dashboardData, setDashboardData] = useState<DashboardData | null>(null);
   const [refreshing, setRefreshing] = useState(false);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState(null);
+  const [error, setError] = useState<string | null>(null);
+  const [detectionFilter, setDetectionFilter] = useState<string | null>(null);
+  const [detectionGrouping, setDetectionGrouping] = useState<DetectionGrouping>('class');
+  const { taxonomy } = useDetectionTaxonomy();
 
   const loadDashboardData = async () => {
     try {
       setLoading(true);
       setError(null);
+      // Re-run the alert rules so time-based alerts are current
+      await evaluateAlerts().catch(err => console.error('Error evaluating alerts:', err));
       const data = await fetchDashboardData();
       setDashboardData(data);
     } catch (err) {
@@ -42,26 +60,45 @@ export default function DashboardScreen() {
     loadDashboardData();
   }, []);
 
-  // Mock data for demonstration
-  const mockDashboardData = {
-    totalDevices: 5,
-    activeDevices: 4,
-    totalDetections: 127,
-    recentAlerts: [
-      { id: 1, deviceId: 'FS-1001', message: 'Low battery detected', severity: 'warning', timestamp: new Date().toISOString() },
-      { id: 2, deviceId: 'FS-1003', message: 'Device offline for 24 hours', severity: 'critical', timestamp: new Date(Date.now() - 86400000).toISOString() }
-    ],
-    detectionData: [
-      { date: '2023-06-01', count: 12 },
-      { date: '2023-06-02', count: 8 },
-      { date: '2023-06-03', count: 15 },
-      { date: '2023-06-04', count: 10 },
-      { date: '2023-06-05', count: 20 },
-      { date: '2023-06-06', count: 18 },
-      { date: '2023-06-07', count: 25 }
-    ]
+  const removeAlert = (alertId: string) => {
+    setDashboardData(prev => prev && {
+      ...prev,
+      recentAlerts: prev.recentAlerts.filter(alert => alert.id !== alertId),
+    });
   };
 
+  const handleAcknowledgeAlert = async (alertId: string) => {
+    try {
+      const updated = await acknowledgeAlert(alertId);
+      setDashboardData(prev => prev && {
+        ...prev,
+        recentAlerts: prev.recentAlerts.map(alert =>
+          alert.id === alertId ? { ...alert, ...updated } : alert
+        ),
+      });
+    } catch (err) {
+      console.error('Error acknowledging alert:', err);
+    }
+  };
+
+  const handleSnoozeAlert = async (alertId: string) => {
+    try {
+      await snoozeAlert(alertId, new Date(Date.now() + 24 * 60 * 60 * 1000));
+      removeAlert(alertId);
+    } catch (err) {
+      console.error('Error snoozing alert:', err);
+    }
+  };
+
+  const detectionData = dashboardData?.detectionData ?? [];
+  const detectionTypes = Array.from(new Set(detectionData.flatMap(point => Object.keys(point.byType || {}))));
+  const groupedDetections = groupDetectionData(detectionData, taxonomy, detectionFilter, detectionGrouping);
+  // Totals for the week per type or class, in taxonomy order
+  const detectionBreakdown = groupedDetections.detectionTypes.map(type => [
+    type,
+    groupedDetections.data.reduce((sum, point) => sum + (point.byType?.[type] || 0), 0),
+  ] as const);
+
   return (
     <SafeAreaView style={styles.container}>
       <ScrollView
@@ -90,17 +127,17 @@ export default function DashboardScreen() {
             <View style={styles.metricsContainer}>
               <DashboardMetricCard
                 title="Total Devices"
-                value={mockDashboardData.totalDevices}
+                value={dashboardData?.totalDevices ?? 0}
                 icon="cpu"
               />
               <DashboardMetricCard
                 title="Active Devices"
-                value={mockDashboardData.activeDevices}
+                value={dashboardData?.activeDevices ?? 0}
                 icon="activity"
               />
               <DashboardMetricCard
                 title="Total Detections"
-                value={mockDashboardData.totalDetections}
+                value={dashboardData?.totalDetections ?? 0}
                 icon="eye"
               />
             </View>
@@ -117,9 +154,50 @@ export default function DashboardScreen() {
 
             <View style={styles.chartContainer}>
               <Text style={styles.chartTitle}>Wildlife Detections (Last 7 Days)</Text>
-              <DashboardChart data={mockDashboardData.detectionData} />
+              <DetectionTypeFilter
+                taxonomy={taxonomy}
+                detectionTypes={detectionTypes}
+                selected={detectionFilter}
+                onSelect={setDetectionFilter}
+                grouping={detectionGrouping}
+                onGroupingChange={setDetectionGrouping}
+              />
+              <DashboardChart
+                data={groupedDetections.data}
+                color={detectionFilter ? getDetectionTypeColor(taxonomy, detectionFilter) : undefined}
+              />
+              {detectionBreakdown.map(([type, count]) => (
+                <View key={type} style={styles.breakdownRow}>
+                  <DetectionTypeIcon
+                    icon={getDetectionTypeIcon(taxonomy, type)}
+                    color={getDetectionTypeColor(taxonomy, type)}
+                  />
+                  <Text style={styles.breakdownLabel}>{getDetectionTypeLabel(taxonomy, type)}</Text>
+                  <Text style={styles.breakdownCount}>{count}</Text>
+                </View>
+              ))}
             </View>
 
+            {dashboardData && dashboardData.groups.length > 0 && (
+              <>
+                <View style={styles.sectionHeader}>
+                  <Text style={styles.sectionTitle}>Sites</Text>
+                  <TouchableOpacity onPress={() => router.push('/devices/groups')}>
+                    <View style={styles.viewAllButton}>
+                      <Text style={styles.viewAllText}>Manage</Text>
+                      <ChevronRight size={16} color={theme.colors.primary} />
+                    </View>
+                  </TouchableOpacity>
+                </View>
+
+                <View style={styles.groupsContainer}>
+                  {dashboardData.groups.map(group => (
+                    <GroupRollupCard key={group.id ?? 'ungrouped'} group={group} />
+                  ))}
+                </View>
+              </>
+            )}
+
             <View style={styles.sectionHeader}>
               <Text style={styles.sectionTitle}>Recent Alerts</Text>
               <TouchableOpacity onPress={() => router.push('/alerts')}>
@@ -131,12 +209,18 @@ export default function DashboardScreen() {
             </View>
 
             <View style={styles.alertsContainer}>
-              {mockDashboardData.recentAlerts.length > 0 ? (
-                mockDashboardData.recentAlerts.map(alert => (
-                  <AlertCard key={alert.id} alert={alert} />
+              {dashboardData && dashboardData.recentAlerts.length > 0 ? (
+                dashboardData.recentAlerts.map(alert => (
+                  <AlertCard
+                    key={alert.id}
+                    alert={alert}
+                    onPress={() => router.push(`/devices/${alert.device_id}`)}
+                    onAcknowledge={() => handleAcknowledgeAlert(alert.id)}
+                    onSnooze={() => handleSnoozeAlert(alert.id)}
+                  />
                 ))
               ) : (
-                <Text style={styles.noAlertsText}>No recent alerts</Text>
+                <Text style={styles.noAlertsText}>{loading ? 'Loading alerts...' : 'No recent alerts'}</Text>
               )}
             </View>
           </>
@@ -235,6 +319,26 @@ const styles = StyleSheet.create({
     color: theme.colors.text,
     marginBottom: 16,
   },
+  breakdownRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  breakdownLabel: {
+    fontFamily: 'Roboto',
+    fontSize: 14,
+    color: theme.colors.text,
+    marginLeft: 8,
+    flex: 1,
+  },
+  breakdownCount: {
+    fontFamily: 'Roboto-Bold',
+    fontSize: 14,
+    color: theme.colors.text,
+  },
+  groupsContainer: {
+    marginBottom: 12,
+  },
   alertsContainer: {
     marginBottom: 24,
   },
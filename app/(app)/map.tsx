@@ -0,0 +1,290 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, FlatList } from 'react-native';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import MapView, { Marker, Callout } from 'react-native-maps';
+import * as Location from 'expo-location';
+import { LocateFixed } from 'lucide-react-native';
+import { theme } from '../../src/theme';
+import { getDeviceMapMarkers, getDevicesNear } from '../../src/services/deviceService';
+import { DeviceMapMarker, DeviceWithDistance } from '../../src/types/device';
+
+const NEARBY_RADIUS_METERS = 5000;
+
+const statusColor = (status: DeviceMapMarker['status']) =>
+  status === 'online' ? theme.colors.success : theme.colors.error;
+
+const formatDistance = (meters: number) =>
+  meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+
+export default function MapScreen() {
+  const router = useRouter();
+  const mapRef = useRef<MapView>(null);
+  const [markers, setMarkers] = useState<DeviceMapMarker[]>([]);
+  const [nearby, setNearby] = useState<DeviceWithDistance[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [locating, setLocating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadMarkers = async () => {
+      try {
+        setError(null);
+        const data = await getDeviceMapMarkers();
+        setMarkers(data);
+      } catch (err) {
+        console.error('Error loading device locations:', err);
+        setError('Failed to load device locations.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadMarkers();
+  }, []);
+
+  useEffect(() => {
+    if (markers.length > 0) {
+      mapRef.current?.fitToCoordinates(markers, {
+        edgePadding: { top: 60, right: 60, bottom: 60, left: 60 },
+        animated: false,
+      });
+    }
+  }, [markers]);
+
+  const handleFindNearby = async () => {
+    setError(null);
+    setLocating(true);
+
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted') {
+        setError('Location permission is needed to find nearby devices.');
+        return;
+      }
+
+      const { coords } = await Location.getCurrentPositionAsync({});
+      const devices = await getDevicesNear(coords.latitude, coords.longitude, NEARBY_RADIUS_METERS);
+      setNearby(devices);
+
+      mapRef.current?.animateToRegion({
+        latitude: coords.latitude,
+        longitude: coords.longitude,
+        latitudeDelta: 0.1,
+        longitudeDelta: 0.1,
+      });
+    } catch (err) {
+      console.error('Error finding nearby devices:', err);
+      setError('Failed to find nearby devices.');
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Device Map</Text>
+        <TouchableOpacity style={styles.nearbyButton} onPress={handleFindNearby} disabled={locating}>
+          {locating ? (
+            <ActivityIndicator size="small" color={theme.colors.accent} />
+          ) : (
+            <LocateFixed size={18} color={theme.colors.accent} />
+          )}
+          <Text style={styles.nearbyText}>Near me</Text>
+        </TouchableOpacity>
+      </View>
+
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+      <View style={styles.mapContainer}>
+        <MapView ref={mapRef} style={styles.map} showsUserLocation>
+          {markers.map(device => (
+            <Marker
+              key={device.id}
+              coordinate={{ latitude: device.latitude, longitude: device.longitude }}
+              pinColor={statusColor(device.status)}
+            >
+              <Callout onPress={() => router.push(`/devices/${device.id}`)}>
+                <View style={styles.callout}>
+                  <Text style={styles.calloutTitle}>{device.name}</Text>
+                  <Text style={styles.calloutDetail}>
+                    {device.status === 'online' ? 'Online' : 'Offline'} · {device.battery_level}% battery
+                  </Text>
+                  {device.location ? <Text style={styles.calloutDetail}>{device.location}</Text> : null}
+                </View>
+              </Callout>
+            </Marker>
+          ))}
+        </MapView>
+
+        {loading && (
+          <View style={styles.loadingOverlay}>
+            <ActivityIndicator size="large" color={theme.colors.primary} />
+          </View>
+        )}
+
+        {!loading && markers.length === 0 && (
+          <View style={styles.emptyOverlay}>
+            <Text style={styles.emptyText}>
+              No devices have a position yet. Set one from a device's Settings tab.
+            </Text>
+          </View>
+        )}
+      </View>
+
+      {nearby && (
+        <View style={styles.nearbyList}>
+          <View style={styles.nearbyHeader}>
+            <Text style={styles.nearbyTitle}>
+              {nearby.length} device{nearby.length === 1 ? '' : 's'} within {formatDistance(NEARBY_RADIUS_METERS)}
+            </Text>
+            <TouchableOpacity onPress={() => setNearby(null)}>
+              <Text style={styles.nearbyClose}>Close</Text>
+            </TouchableOpacity>
+          </View>
+          <FlatList
+            data={nearby}
+            keyExtractor={item => item.id}
+            renderItem={({ item }) => (
+              <TouchableOpacity style={styles.nearbyItem} onPress={() => router.push(`/devices/${item.id}`)}>
+                <View style={[styles.statusDot, { backgroundColor: statusColor(item.status) }]} />
+                <Text style={styles.nearbyName} numberOfLines={1}>{item.name}</Text>
+                <Text style={styles.nearbyDistance}>{formatDistance(item.distanceMeters)}</Text>
+              </TouchableOpacity>
+            )}
+          />
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  title: {
+    fontFamily: 'Montserrat-Bold',
+    fontSize: 20,
+    color: theme.colors.text,
+  },
+  nearbyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 4,
+  },
+  nearbyText: {
+    fontFamily: 'Roboto-Medium',
+    fontSize: 14,
+    color: theme.colors.accent,
+    marginLeft: 6,
+  },
+  errorText: {
+    fontFamily: 'Roboto',
+    fontSize: 14,
+    color: theme.colors.error,
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  mapContainer: {
+    flex: 1,
+  },
+  map: {
+    flex: 1,
+  },
+  loadingOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255,255,255,0.6)',
+  },
+  emptyOverlay: {
+    position: 'absolute',
+    top: 16,
+    left: 16,
+    right: 16,
+    backgroundColor: theme.colors.white,
+    borderRadius: 8,
+    padding: 12,
+  },
+  emptyText: {
+    fontFamily: 'Roboto',
+    fontSize: 14,
+    color: theme.colors.textLight,
+    textAlign: 'center',
+  },
+  callout: {
+    minWidth: 160,
+    padding: 4,
+  },
+  calloutTitle: {
+    fontFamily: 'Montserrat-SemiBold',
+    fontSize: 14,
+    color: theme.colors.text,
+    marginBottom: 2,
+  },
+  calloutDetail: {
+    fontFamily: 'Roboto',
+    fontSize: 12,
+    color: theme.colors.textLight,
+  },
+  nearbyList: {
+    maxHeight: 220,
+    backgroundColor: theme.colors.white,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border,
+  },
+  nearbyHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  nearbyTitle: {
+    fontFamily: 'Montserrat-SemiBold',
+    fontSize: 14,
+    color: theme.colors.text,
+  },
+  nearbyClose: {
+    fontFamily: 'Roboto-Medium',
+    fontSize: 14,
+    color: theme.colors.accent,
+  },
+  nearbyItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border,
+  },
+  statusDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 10,
+  },
+  nearbyName: {
+    flex: 1,
+    fontFamily: 'Roboto',
+    fontSize: 14,
+    color: theme.colors.text,
+  },
+  nearbyDistance: {
+    fontFamily: 'Roboto',
+    fontSize: 13,
+    color: theme.colors.textLight,
+  },
+});
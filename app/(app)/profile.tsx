@@ -1,17 +1,297 @@
-import React, { useState } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Switch, Alert, Image } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Switch, Alert, Image, ActivityIndicator } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
-import { CreditCard as Edit2, Bell, Shield, CircleHelp as HelpCircle, LogOut, ChevronRight, RefreshCw } from 'lucide-react-native';
+import { CreditCard as Edit2, Bell, Shield, CircleHelp as HelpCircle, LogOut, ChevronRight, RefreshCw, Users, Mail, X } from 'lucide-react-native';
 import { theme } from '../../src/theme';
 import { useAuth } from '../../src/context/AuthContext';
+import { useNotifications } from '../../src/context/NotificationContext';
 import Button from '../../src/components/Button';
+import Input from '../../src/components/Input';
+import {
+  getOrganizations,
+  getOrganizationMembers,
+  getOrganizationInvitations,
+  getMyInvitations,
+  inviteMember,
+  acceptInvitation,
+  deleteInvitation,
+  updateMemberRole,
+  removeMember,
+  MANAGER_ROLES
+} from '../../src/services/organizationService';
+import {
+  OrganizationWithRole,
+  OrganizationMember,
+  OrganizationInvitation,
+  OrganizationRole,
+  InvitationRole,
+  InvitationWithOrganization
+} from '../../src/types/organization';
+import {
+  getNotificationPreferences,
+  updateNotificationPreferences
+} from '../../src/services/notificationService';
+import {
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CATEGORY_LABELS,
+  DIGEST_FREQUENCIES,
+  DIGEST_FREQUENCY_LABELS,
+  DEFAULT_NOTIFICATION_PREFERENCES
+} from '../../src/lib/notificationPreferences';
+import {
+  NotificationPreferences,
+  NotificationCategory,
+  NotificationChannel,
+  DigestFrequency
+} from '../../src/types/notification';
+
+const ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  viewer: 'Viewer',
+};
+
+const INVITE_ROLES: InvitationRole[] = ['manager', 'viewer'];
 
 export default function ProfileScreen() {
   const { user, signOut } = useAuth();
   const router = useRouter();
-  const [pushNotifications, setPushNotifications] = useState(true);
-  const [emailNotifications, setEmailNotifications] = useState(true);
+  const { pushRegistered, registerForPush } = useNotifications();
+  const [notificationPreferences, setNotificationPreferences] =
+    useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+  const [notificationError, setNotificationError] = useState('');
+  const [organizations, setOrganizations] = useState<OrganizationWithRole[]>([]);
+  const [organizationId, setOrganizationId] = useState<string | null>(null);
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [pendingInvitations, setPendingInvitations] = useState<OrganizationInvitation[]>([]);
+  const [myInvitations, setMyInvitations] = useState<InvitationWithOrganization[]>([]);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<InvitationRole>('viewer');
+  const [inviting, setInviting] = useState(false);
+  const [organizationLoading, setOrganizationLoading] = useState(true);
+  const [organizationError, setOrganizationError] = useState('');
+
+  const organization = organizations.find(item => item.id === organizationId) ?? null;
+  const canInvite = organization ? MANAGER_ROLES.includes(organization.role) : false;
+  const isOwner = organization?.role === 'owner';
+
+  const loadOrganizations = async () => {
+    try {
+      const [organizationData, invitationData] = await Promise.all([getOrganizations(), getMyInvitations()]);
+      setOrganizations(organizationData);
+      setMyInvitations(invitationData);
+      setOrganizationId(current =>
+        organizationData.some(item => item.id === current) ? current : organizationData[0]?.id ?? null
+      );
+    } catch (err) {
+      console.error('Error loading organizations:', err);
+      setOrganizationError('Failed to load your organizations.');
+    } finally {
+      setOrganizationLoading(false);
+    }
+  };
+
+  const loadMembers = async () => {
+    if (!organization) return;
+
+    try {
+      const [memberData, invitationData] = await Promise.all([
+        getOrganizationMembers(organization.id),
+        canInvite ? getOrganizationInvitations(organization.id) : Promise.resolve([]),
+      ]);
+      setMembers(memberData);
+      setPendingInvitations(invitationData);
+    } catch (err) {
+      console.error('Error loading organization members:', err);
+      setOrganizationError('Failed to load members.');
+    }
+  };
+
+  useEffect(() => {
+    loadOrganizations();
+    getNotificationPreferences()
+      .then(setNotificationPreferences)
+      .catch(err => {
+        console.error('Error loading notification preferences:', err);
+        setNotificationError('Failed to load your notification settings.');
+      });
+  }, []);
+
+  const saveNotificationPreferences = async (preferences: NotificationPreferences) => {
+    const previous = notificationPreferences;
+    setNotificationPreferences(preferences);
+    setNotificationError('');
+
+    try {
+      setNotificationPreferences(await updateNotificationPreferences(preferences));
+    } catch (err) {
+      console.error('Error saving notification preferences:', err);
+      setNotificationPreferences(previous);
+      setNotificationError('Failed to save your notification settings.');
+    }
+  };
+
+  const toggleChannel = async (channel: NotificationChannel, enabled: boolean) => {
+    if (channel === 'push' && enabled && !pushRegistered && !(await registerForPush())) {
+      Alert.alert(
+        'Notifications Disabled',
+        'Allow notifications for Field Shield in your device settings to receive push notifications.'
+      );
+    }
+
+    saveNotificationPreferences({ ...notificationPreferences, [channel]: enabled });
+  };
+
+  const toggleCategory = (category: NotificationCategory, channel: NotificationChannel) => {
+    const switches = notificationPreferences.categories[category];
+    saveNotificationPreferences({
+      ...notificationPreferences,
+      categories: {
+        ...notificationPreferences.categories,
+        [category]: { ...switches, [channel]: !switches[channel] },
+      },
+    });
+  };
+
+  const setDigest = (digest: DigestFrequency) => {
+    if (digest === notificationPreferences.digest) return;
+    saveNotificationPreferences({ ...notificationPreferences, digest });
+  };
+
+  const renderCategoryChips = (channel: NotificationChannel) => (
+    <View style={[styles.chipRow, styles.categoryChips]}>
+      {NOTIFICATION_CATEGORIES.map(category => {
+        const selected = notificationPreferences.categories[category][channel];
+        return (
+          <TouchableOpacity
+            key={category}
+            style={[styles.chip, selected && styles.chipActive]}
+            onPress={() => toggleCategory(category, channel)}
+          >
+            <Text style={[styles.chipText, selected && styles.chipTextActive]}>
+              {NOTIFICATION_CATEGORY_LABELS[category]}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderDigestChips = () => (
+    <View style={styles.categoryChips}>
+      <Text style={styles.digestLabel}>Activity digest</Text>
+      <View style={styles.chipRow}>
+        {DIGEST_FREQUENCIES.map(frequency => {
+          const selected = notificationPreferences.digest === frequency;
+          return (
+            <TouchableOpacity
+              key={frequency}
+              style={[styles.chip, selected && styles.chipActive]}
+              onPress={() => setDigest(frequency)}
+            >
+              <Text style={[styles.chipText, selected && styles.chipTextActive]}>
+                {DIGEST_FREQUENCY_LABELS[frequency]}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+
+  useEffect(() => {
+    loadMembers();
+  }, [organization?.id, organization?.role]);
+
+  const handleInvite = async () => {
+    if (!organization) return;
+
+    setOrganizationError('');
+    setInviting(true);
+
+    try {
+      const { emailed } = await inviteMember(organization.id, inviteEmail, inviteRole);
+      setInviteEmail('');
+      await loadMembers();
+      if (!emailed) {
+        Alert.alert(
+          'Invitation Saved',
+          'We could not send the invitation email. Let them know to sign in with this address to accept it.'
+        );
+      }
+    } catch (err) {
+      console.error('Error inviting member:', err);
+      setOrganizationError(err instanceof Error ? err.message : 'Failed to send invitation.');
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleAcceptInvitation = async (invitation: InvitationWithOrganization) => {
+    try {
+      const joined = await acceptInvitation(invitation.id);
+      await loadOrganizations();
+      setOrganizationId(joined.id);
+    } catch (err) {
+      console.error('Error accepting invitation:', err);
+      setOrganizationError(err instanceof Error ? err.message : 'Failed to accept invitation.');
+    }
+  };
+
+  const handleDeleteInvitation = async (invitationId: string) => {
+    try {
+      await deleteInvitation(invitationId);
+      setMyInvitations(prev => prev.filter(item => item.id !== invitationId));
+      setPendingInvitations(prev => prev.filter(item => item.id !== invitationId));
+    } catch (err) {
+      console.error('Error removing invitation:', err);
+      setOrganizationError(err instanceof Error ? err.message : 'Failed to remove invitation.');
+    }
+  };
+
+  const handleMemberPress = (member: OrganizationMember) => {
+    if (!organization) return;
+
+    const isSelf = member.userId === user?.id;
+    if (!isOwner && !isSelf) return;
+
+    const runAction = async (action: () => Promise<void>) => {
+      try {
+        await action();
+        if (isSelf) {
+          await loadOrganizations();
+        }
+        await loadMembers();
+      } catch (err) {
+        console.error('Error updating member:', err);
+        setOrganizationError(err instanceof Error ? err.message : 'Failed to update member.');
+      }
+    };
+
+    const roleOptions = isOwner
+      ? (Object.keys(ROLE_LABELS) as OrganizationRole[])
+          .filter(role => role !== member.role)
+          .map(role => ({
+            text: `Make ${ROLE_LABELS[role]}`,
+            onPress: () => runAction(() => updateMemberRole(organization.id, member.userId, role)),
+          }))
+      : [];
+
+    Alert.alert(
+      member.fullName || member.email,
+      `${ROLE_LABELS[member.role]} of ${organization.name}`,
+      [
+        ...roleOptions,
+        {
+          text: isSelf ? 'Leave Organization' : 'Remove from Organization',
+          style: 'destructive' as const,
+          onPress: () => runAction(() => removeMember(organization.id, member.userId)),
+        },
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
 
   const handleSignOut = () => {
     Alert.alert(
@@ -46,6 +326,131 @@ export default function ProfileScreen() {
           </TouchableOpacity>
         </View>
         
+        {myInvitations.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Invitations</Text>
+            {myInvitations.map(invitation => (
+              <View key={invitation.id} style={styles.invitationItem}>
+                <View style={styles.memberInfo}>
+                  <Text style={styles.memberName}>{invitation.organization?.name ?? 'An organization'}</Text>
+                  <Text style={styles.memberDetail}>Join as {ROLE_LABELS[invitation.role]}</Text>
+                </View>
+                <TouchableOpacity style={styles.acceptButton} onPress={() => handleAcceptInvitation(invitation)}>
+                  <Text style={styles.acceptButtonText}>Accept</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.iconButton} onPress={() => handleDeleteInvitation(invitation.id)}>
+                  <X size={18} color={theme.colors.textLight} />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Organization</Text>
+
+          {organizationLoading ? (
+            <ActivityIndicator color={theme.colors.primary} />
+          ) : (
+            <>
+              {organizations.length > 1 && (
+                <View style={styles.chipRow}>
+                  {organizations.map(item => (
+                    <TouchableOpacity
+                      key={item.id}
+                      style={[styles.chip, organizationId === item.id && styles.chipActive]}
+                      onPress={() => setOrganizationId(item.id)}
+                    >
+                      <Text style={[styles.chipText, organizationId === item.id && styles.chipTextActive]}>
+                        {item.name}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+
+              {organization && (
+                <Text style={styles.organizationSummary}>
+                  {organization.name} · You are {ROLE_LABELS[organization.role].toLowerCase()}
+                </Text>
+              )}
+
+              {members.map(member => (
+                <TouchableOpacity
+                  key={member.userId}
+                  style={styles.memberItem}
+                  onPress={() => handleMemberPress(member)}
+                  disabled={!isOwner && member.userId !== user?.id}
+                >
+                  <View style={styles.iconContainer}>
+                    <Users size={20} color={theme.colors.primary} />
+                  </View>
+                  <View style={styles.memberInfo}>
+                    <Text style={styles.memberName}>
+                      {member.fullName || member.email}{member.userId === user?.id ? ' (you)' : ''}
+                    </Text>
+                    {member.fullName ? <Text style={styles.memberDetail}>{member.email}</Text> : null}
+                  </View>
+                  <Text style={styles.roleBadge}>{ROLE_LABELS[member.role]}</Text>
+                </TouchableOpacity>
+              ))}
+
+              {pendingInvitations.map(invitation => (
+                <View key={invitation.id} style={styles.memberItem}>
+                  <View style={styles.iconContainer}>
+                    <Mail size={20} color={theme.colors.textLight} />
+                  </View>
+                  <View style={styles.memberInfo}>
+                    <Text style={styles.memberName}>{invitation.email}</Text>
+                    <Text style={styles.memberDetail}>Invited as {ROLE_LABELS[invitation.role]}</Text>
+                  </View>
+                  <TouchableOpacity style={styles.iconButton} onPress={() => handleDeleteInvitation(invitation.id)}>
+                    <X size={18} color={theme.colors.textLight} />
+                  </TouchableOpacity>
+                </View>
+              ))}
+
+              {canInvite && (
+                <View style={styles.inviteForm}>
+                  <Input
+                    label="Invite by email"
+                    value={inviteEmail}
+                    onChangeText={setInviteEmail}
+                    placeholder="name@example.com"
+                    keyboardType="email-address"
+                  />
+                  <View style={styles.chipRow}>
+                    {INVITE_ROLES.map(role => (
+                      <TouchableOpacity
+                        key={role}
+                        style={[styles.chip, inviteRole === role && styles.chipActive]}
+                        onPress={() => setInviteRole(role)}
+                      >
+                        <Text style={[styles.chipText, inviteRole === role && styles.chipTextActive]}>
+                          {ROLE_LABELS[role]}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  <Text style={styles.roleHint}>
+                    {inviteRole === 'manager'
+                      ? 'Managers can register, configure and remove devices.'
+                      : 'Viewers can see devices, detections and images but not change them.'}
+                  </Text>
+                  <Button
+                    title="Send Invitation"
+                    onPress={handleInvite}
+                    loading={inviting}
+                    disabled={inviting || !inviteEmail.trim()}
+                  />
+                </View>
+              )}
+            </>
+          )}
+
+          {organizationError ? <Text style={styles.errorText}>{organizationError}</Text> : null}
+        </View>
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Notification Settings</Text>
           
@@ -57,12 +462,13 @@ export default function ProfileScreen() {
               <Text style={styles.settingText}>Push Notifications</Text>
             </View>
             <Switch
-              value={pushNotifications}
-              onValueChange={setPushNotifications}
+              value={notificationPreferences.push}
+              onValueChange={value => toggleChannel('push', value)}
               trackColor={{ false: theme.colors.disabled, true: theme.colors.primary }}
               thumbColor="#FFFFFF"
             />
           </View>
+          {notificationPreferences.push && renderCategoryChips('push')}
           
           <View style={styles.settingItem}>
             <View style={styles.settingInfo}>
@@ -72,12 +478,16 @@ export default function ProfileScreen() {
               <Text style={styles.settingText}>Email Notifications</Text>
             </View>
             <Switch
-              value={emailNotifications}
-              onValueChange={setEmailNotifications}
+              value={notificationPreferences.email}
+              onValueChange={value => toggleChannel('email', value)}
               trackColor={{ false: theme.colors.disabled, true: theme.colors.primary }}
               thumbColor="#FFFFFF"
             />
           </View>
+          {notificationPreferences.email && renderCategoryChips('email')}
+          {notificationPreferences.email && renderDigestChips()}
+
+          {notificationError ? <Text style={styles.errorText}>{notificationError}</Text> : null}
         </View>
         
         <View style={styles.section}>
@@ -247,6 +657,112 @@ const styles = StyleSheet.create({
     fontFamily: 'Roboto',
     fontSize: 16,
     color: theme.colors.text },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: theme.colors.backgroundLight,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipActive: {
+    backgroundColor: theme.colors.primary,
+  },
+  categoryChips: {
+    marginTop: 12,
+    marginLeft: 51,
+  },
+  digestLabel: {
+    fontFamily: 'Roboto-Medium',
+    fontSize: 14,
+    color: theme.colors.textLight,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontFamily: 'Roboto',
+    fontSize: 14,
+    color: theme.colors.text,
+  },
+  chipTextActive: {
+    color: theme.colors.white,
+  },
+  organizationSummary: {
+    fontFamily: 'Roboto',
+    fontSize: 14,
+    color: theme.colors.textLight,
+    marginBottom: 8,
+  },
+  memberItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  invitationItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  memberInfo: {
+    flex: 1,
+  },
+  memberName: {
+    fontFamily: 'Roboto',
+    fontSize: 16,
+    color: theme.colors.text,
+  },
+  memberDetail: {
+    fontFamily: 'Roboto',
+    fontSize: 13,
+    color: theme.colors.textLight,
+    marginTop: 2,
+  },
+  roleBadge: {
+    fontFamily: 'Roboto-Medium',
+    fontSize: 12,
+    color: theme.colors.primary,
+    backgroundColor: theme.colors.backgroundLight,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  iconButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+  acceptButton: {
+    backgroundColor: theme.colors.primary,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  acceptButtonText: {
+    fontFamily: 'Roboto-Bold',
+    fontSize: 14,
+    color: theme.colors.white,
+  },
+  inviteForm: {
+    marginTop: 16,
+  },
+  roleHint: {
+    fontFamily: 'Roboto',
+    fontSize: 13,
+    color: theme.colors.textLight,
+    marginBottom: 12,
+  },
+  errorText: {
+    fontFamily: 'Roboto',
+    fontSize: 14,
+    color: theme.colors.error,
+    marginTop: 8,
+  },
   menuItem: {
     flexDirection: 'row',
     alignItems: 'center',
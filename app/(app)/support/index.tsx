@@ -1,56 +1,54 @@
-import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, FlatList, TouchableOpacity, RefreshControl } from 'react-native';
+import React, { useEffect } from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, RefreshControl, ActivityIndicator } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import { Plus, MessageSquare } from 'lucide-react-native';
 import { theme } from '../../../src/theme';
-import { fetchSupportTickets } from '../../../src/services/supportService';
+import { getTickets } from '../../../src/services/supportService';
+import { SupportTicket } from '../../../src/types/support';
+import { usePaginatedQuery } from '../../../src/hooks/usePaginatedQuery';
+import { useSync } from '../../../src/context/SyncContext';
 import SupportTicketCard from '../../../src/components/SupportTicketCard';
+import StaleDataBanner from '../../../src/components/StaleDataBanner';
+import OutboxList from '../../../src/components/OutboxList';
 import Button from '../../../src/components/Button';
 
+const PAGE_SIZE = 20;
+
 export default function SupportScreen() {
   const router = useRouter();
-  const [tickets, setTickets] = useState([]);
-  const [refreshing, setRefreshing] = useState(false);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState(null);
-
-  const loadTickets = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const data = await fetchSupportTickets();
-      setTickets(data);
-    } catch (err) {
-      console.error('Error loading support tickets:', err);
-      setError('Failed to load support tickets. Pull down to refresh.');
-    } finally {
-      setLoading(false);
-    }
-  };
+  const { lastSyncedAt } = useSync();
 
-  const onRefresh = async () => {
-    setRefreshing(true);
-    await loadTickets();
-    setRefreshing(false);
-  };
+  const {
+    items: tickets,
+    loading,
+    loadingMore,
+    refreshing,
+    error,
+    cachedAt,
+    loadMore,
+    refresh,
+    reload,
+  } = usePaginatedQuery<SupportTicket>(
+    async cursor => {
+      const page = await getTickets({}, { cursor, pageSize: PAGE_SIZE });
+      return { items: page.tickets, nextCursor: page.nextCursor, cachedAt: page.cachedAt };
+    },
+    []
+  );
 
   useEffect(() => {
-    loadTickets();
-  }, []);
-
-  // Mock data for demonstration
-  const mockTickets = [
-    { id: '1', title: 'Device not connecting', status: 'open', createdAt: new Date().toISOString(), lastUpdated: new Date().toISOString(), description: 'My device has been offline for 3 days despite being powered on.' },
-    { id: '2', title: 'False alerts', status: 'in_progress', createdAt: new Date(Date.now() - 172800000).toISOString(), lastUpdated: new Date(Date.now() - 86400000).toISOString(), description: 'Getting too many false positive alerts from my south field sensor.' },
-    { id: '3', title: 'Battery draining quickly', status: 'closed', createdAt: new Date(Date.now() - 604800000).toISOString(), lastUpdated: new Date(Date.now() - 345600000).toISOString(), description: 'Battery is draining much faster than expected, only lasting about 2 days.' },
-  ];
+    // Replace cached rows once the sync engine has caught up
+    if (cachedAt && lastSyncedAt && lastSyncedAt > cachedAt) {
+      refresh();
+    }
+  }, [lastSyncedAt]);
 
-  const handleTicketPress = (ticketId) => {
+  const handleTicketPress = (ticketId: string) => {
     router.push(`/support/${ticketId}`);
   };
 
-  const renderTicketItem = ({ item }) => (
+  const renderTicketItem = ({ item }: { item: SupportTicket }) => (
     <SupportTicketCard 
       ticket={item} 
       onPress={() => handleTicketPress(item.id)} 
@@ -69,38 +67,48 @@ export default function SupportScreen() {
         </TouchableOpacity>
       </View>
 
-      {error ? (
+      <StaleDataBanner cachedAt={cachedAt} />
+
+      {error && tickets.length === 0 ? (
         <View style={styles.errorContainer}>
           <Text style={styles.errorText}>{error}</Text>
           <Button 
             title="Retry" 
-            onPress={loadTickets} 
+            onPress={reload} 
             style={styles.retryButton}
           />
         </View>
       ) : (
         <FlatList
-          data={mockTickets}
+          data={tickets}
           renderItem={renderTicketItem}
           keyExtractor={item => item.id}
           contentContainerStyle={styles.listContent}
           refreshControl={
             <RefreshControl 
               refreshing={refreshing} 
-              onRefresh={onRefresh} 
+              onRefresh={refresh} 
               colors={[theme.colors.primary]} 
             />
           }
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          ListHeaderComponent={<OutboxList filter={item => item.kind !== 'update_device'} />}
+          ListFooterComponent={
+            loadingMore ? <ActivityIndicator color={theme.colors.primary} style={styles.footerLoader} /> : null
+          }
           ListEmptyComponent={
-            <View style={styles.emptyContainer}>
-              <MessageSquare size={48} color={theme.colors.textLight} />
-              <Text style={styles.emptyText}>No support tickets found</Text>
-              <Button 
-                title="Create New Ticket" 
-                onPress={() => router.push('/support/new')} 
-                style={styles.createButton}
-              />
-            </View>
+            loading ? null : (
+              <View style={styles.emptyContainer}>
+                <MessageSquare size={48} color={theme.colors.textLight} />
+                <Text style={styles.emptyText}>No support tickets found</Text>
+                <Button 
+                  title="Create New Ticket" 
+                  onPress={() => router.push('/support/new')} 
+                  style={styles.createButton}
+                />
+              </View>
+            )
           }
         />
       )}
@@ -138,6 +146,9 @@ const styles = StyleSheet.create({
     padding: 16,
     paddingTop: 8,
   },
+  footerLoader: {
+    marginVertical: 16,
+  },
   errorContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -5,16 +5,18 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { ArrowLeft, Camera, X } from 'lucide-react-native';
 import * as ImagePicker from 'expo-image-picker';
 import { theme } from '../../../src/theme';
-import { createSupportTicket } from '../../../src/services/supportService';
+import { createTicket } from '../../../src/services/supportService';
+import { useSync } from '../../../src/context/SyncContext';
 import Input from '../../../src/components/Input';
 import Button from '../../../src/components/Button';
 
 export default function NewTicketScreen() {
   const router = useRouter();
+  const { isOnline } = useSync();
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [deviceId, setDeviceId] = useState('');
-  const [images, setImages] = useState([]);
+  const [images, setImages] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
@@ -57,7 +59,7 @@ export default function NewTicketScreen() {
     }
   };
 
-  const removeImage = (index) => {
+  const removeImage = (index: number) => {
     const newImages = [...images];
     newImages.splice(index, 1);
     setImages(newImages);
@@ -78,23 +80,30 @@ export default function NewTicketScreen() {
     setLoading(true);
 
     try {
-      await createSupportTicket({
+      await createTicket({
         title,
         description,
         deviceId: deviceId || null,
-        images
+        attachments: images.map(uri => ({
+          localUri: uri,
+          fileType: 'image/jpeg',
+          fileName: uri.split('/').pop() || 'photo.jpg',
+        })),
       });
       
       Alert.alert(
         'Success',
-        'Support ticket created successfully',
+        isOnline
+          ? 'Support ticket created successfully'
+          : 'Support ticket saved. It will be sent when you are back online.',
         [{ text: 'OK', onPress: () => router.push('/support') }]
       );
     } catch (err) {
       console.error('Error creating support ticket:', err);
       setError('Failed to create support ticket. Please try again.');
     } finally {
-      setLoading(false }
+      setLoading(false);
+    }
   };
 
   return (
@@ -7,6 +7,8 @@ import { AuthProvider } from '../src/context/AuthContext';
 import { ThemeProvider } from '../src/context/ThemeContext';
 import { DeviceProvider } from '../src/context/DeviceContext';
 import { SupportProvider } from '../src/context/SupportContext';
+import { SyncProvider } from '../src/context/SyncContext';
+import { NotificationProvider } from '../src/context/NotificationContext';
 
 // Keep the splash screen visible while we fetch resources
 SplashScreen.preventAutoHideAsync();
@@ -33,15 +35,19 @@ export default function RootLayout() {
   return (
     <ThemeProvider>
       <AuthProvider>
-        <DeviceProvider>
-          <SupportProvider>
-            <StatusBar style="dark" />
-            <Stack screenOptions={{ headerShown: false }}>
-              <Stack.Screen name="(auth)" options={{ headerShown: false }} />
-              <Stack.Screen name="(app)" options={{ headerShown: false }} />
-            </Stack>
-          </SupportProvider>
-        </DeviceProvider>
+        <SyncProvider>
+          <NotificationProvider>
+            <DeviceProvider>
+              <SupportProvider>
+                <StatusBar style="dark" />
+                <Stack screenOptions={{ headerShown: false }}>
+                  <Stack.Screen name="(auth)" options={{ headerShown: false }} />
+                  <Stack.Screen name="(app)" options={{ headerShown: false }} />
+                </Stack>
+              </SupportProvider>
+            </DeviceProvider>
+          </NotificationProvider>
+        </SyncProvider>
       </AuthProvider>
     </ThemeProvider>
   );
@@ -0,0 +1,263 @@
+/**
+ * Mock field device for local development
+ *
+ * Posts random detections, images and telemetry to the `device-ingest` edge
+ * function as if it were a deployed camera. Before each event it posts a
+ * heartbeat to `device-heartbeat` and polls `device-config`, acknowledging
+ * any settings pushed from the app as applied.
+ * Firmware updates offered in ingest responses are "installed" instantly and
+ * reported back with the next event.
+ *
+ * Usage:
+ *   DEVICE_SERIAL=FS-1001 DEVICE_SECRET=<secret> npm run simulate:device -- --count 10
+ *
+ * Options (flags override environment variables):
+ *   --url <url>          Functions base URL (FUNCTIONS_URL, defaults to
+ *                        $EXPO_PUBLIC_SUPABASE_URL/functions/v1)
+ *   --serial <serial>    Device serial number (DEVICE_SERIAL)
+ *   --secret <secret>    Device token (DEVICE_SECRET)
+ *   --claim-code <code>  Claim code (DEVICE_CLAIM_CODE); when no token is given
+ *                        the simulator provisions itself through
+ *                        `device-provision` after the device has been claimed
+ *   --interval <ms>      Delay between events, default 5000
+ *   --count <n>          Number of events to send, default unlimited
+ *   --image <path>       Image attached to roughly a third of detections,
+ *                        default assets/images/icon.png
+ *   --firmware <version> Firmware version to report, default 1.0.0
+ */
+const fs = require('fs');
+const path = require('path');
+const { randomUUID } = require('crypto');
+
+// Ids from the detection_types taxonomy
+const DETECTION_TYPES = ['deer', 'wild_boar', 'coyote', 'turkey', 'person', 'vehicle'];
+
+const parseArgs = (argv) => {
+  const args = {};
+  for (let i = 0; i < argv.length; i += 2) {
+    args[argv[i].replace(/^--/, '')] = argv[i + 1];
+  }
+  return args;
+};
+
+const args = parseArgs(process.argv.slice(2));
+const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
+const config = {
+  url: args.url || process.env.FUNCTIONS_URL || (supabaseUrl && `${supabaseUrl}/functions/v1`),
+  serial: args.serial || process.env.DEVICE_SERIAL,
+  secret: args.secret || process.env.DEVICE_SECRET,
+  claimCode: args['claim-code'] || process.env.DEVICE_CLAIM_CODE,
+  interval: Number(args.interval || 5000),
+  count: args.count ? Number(args.count) : Infinity,
+  image: args.image || path.join(__dirname, '..', 'assets', 'images', 'icon.png'),
+  firmware: args.firmware || '1.0.0',
+};
+
+if (!config.url || !config.serial || !(config.secret || config.claimCode)) {
+  console.error('Missing functions URL, device serial or device token/claim code. See the header of this script for usage.');
+  process.exit(1);
+}
+
+const randomBetween = (min, max) => min + Math.random() * (max - min);
+
+const headers = {
+  'x-device-serial': config.serial,
+  'x-device-secret': config.secret || '',
+};
+
+/**
+ * Exchange the claim code for a device token
+ */
+const provision = async () => {
+  const response = await fetch(`${config.url}/device-provision`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ serial_number: config.serial, claim_code: config.claimCode }),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`${response.status} ${result.error || response.statusText}`);
+  }
+
+  headers['x-device-secret'] = result.token;
+  console.info(`Provisioned device ${result.deviceId}, token expires ${result.expiresAt}`);
+};
+
+// Battery drains and the SD card fills slowly over the simulation
+let batteryLevel = 100;
+let storageUsed = 20;
+
+// Running firmware, and the outcome of an update to report with the next event
+let firmwareVersion = config.firmware;
+let firmwareUpdate = null;
+
+const buildFirmwareReport = () => {
+  const report = { version: firmwareVersion, ...(firmwareUpdate ? { update: firmwareUpdate } : {}) };
+  firmwareUpdate = null;
+  return report;
+};
+
+/**
+ * Pretend to install an offered update straight away
+ */
+const handleFirmwareOffer = (offer) => {
+  if (!offer || offer.version === firmwareVersion) return;
+
+  console.info(`Installing firmware ${offer.version} (${offer.size_bytes} bytes from ${offer.url})`);
+  firmwareVersion = offer.version;
+  firmwareUpdate = { rollout_id: offer.rollout_id, status: 'succeeded' };
+};
+
+const buildDetection = () => ({
+  id: randomUUID(),
+  detection_type: DETECTION_TYPES[Math.floor(Math.random() * DETECTION_TYPES.length)],
+  detection_data: {
+    confidence: Number(randomBetween(0.5, 0.99).toFixed(2)),
+    count: 1 + Math.floor(Math.random() * 3),
+  },
+  created_at: new Date().toISOString(),
+});
+
+const buildTelemetry = () => {
+  batteryLevel = Math.max(0, batteryLevel - Math.random());
+  storageUsed = Math.min(100, storageUsed + Math.random() / 2);
+  return {
+    recorded_at: new Date().toISOString(),
+    temperature: Number(randomBetween(5, 30).toFixed(1)),
+    humidity: Number(randomBetween(30, 90).toFixed(1)),
+    battery_level: Math.round(batteryLevel),
+    rssi: Math.round(randomBetween(-95, -55)),
+    storage_used_percent: Math.round(storageUsed),
+  };
+};
+
+const post = async (body, extraHeaders = {}) => {
+  const response = await fetch(`${config.url}/device-ingest`, {
+    method: 'POST',
+    headers: { ...headers, ...extraHeaders },
+    body,
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`${response.status} ${result.error || response.statusText}`);
+  }
+  return result;
+};
+
+const startedAt = Date.now();
+
+/**
+ * Tell the server the device is alive
+ */
+const sendHeartbeat = async () => {
+  const response = await fetch(`${config.url}/device-heartbeat`, {
+    method: 'POST',
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      uptime_seconds: Math.round((Date.now() - startedAt) / 1000),
+      battery_level: Math.round(batteryLevel),
+    }),
+  });
+
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}));
+    throw new Error(`${response.status} ${result.error || response.statusText}`);
+  }
+};
+
+/**
+ * Fetch pending settings and acknowledge them, as firmware would on wake-up
+ */
+const syncConfig = async () => {
+  const response = await fetch(`${config.url}/device-config`, { headers });
+
+  if (response.status === 204) {
+    return;
+  }
+
+  const pending = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`${response.status} ${pending.error || response.statusText}`);
+  }
+
+  const ack = await fetch(`${config.url}/device-config`, {
+    method: 'POST',
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ version: pending.version, status: 'applied' }),
+  });
+
+  const result = await ack.json().catch(() => ({}));
+  if (!ack.ok) {
+    throw new Error(`${ack.status} ${result.error || ack.statusText}`);
+  }
+  console.info(`Applied configuration v${pending.version}`, pending.settings);
+  if (pending.schedule) {
+    const until = new Date(pending.schedule.validUntil * 1000).toISOString();
+    console.info(`Capture schedule: ${pending.schedule.intervals.length} windows until ${until}`);
+  }
+};
+
+const sendEvent = async () => {
+  const detection = buildDetection();
+
+  if (fs.existsSync(config.image) && Math.random() < 0.33) {
+    const form = new FormData();
+    const extension = path.extname(config.image).toLowerCase();
+    const type = extension === '.png' ? 'image/png' : 'image/jpeg';
+    form.append('detection', JSON.stringify(detection));
+    form.append('image', new Blob([fs.readFileSync(config.image)], { type }), path.basename(config.image));
+
+    const result = await post(form);
+    console.info(`Sent ${detection.detection_type} detection with image`, result.detections[0]);
+    handleFirmwareOffer(result.firmware_update);
+    return;
+  }
+
+  const result = await post(
+    JSON.stringify({ detections: [detection], telemetry: [buildTelemetry()], firmware: buildFirmwareReport() }),
+    { 'Content-Type': 'application/json' }
+  );
+  console.info(`Sent ${detection.detection_type} detection and telemetry`, result);
+  handleFirmwareOffer(result.firmware_update);
+};
+
+const run = async () => {
+  console.info(`Simulating device ${config.serial} against ${config.url}`);
+
+  if (!config.secret) {
+    try {
+      await provision();
+    } catch (error) {
+      console.error('Failed to provision device:', error.message);
+      process.exit(1);
+    }
+  }
+
+  for (let sent = 0; sent < config.count; sent++) {
+    try {
+      await sendHeartbeat();
+    } catch (error) {
+      console.error('Failed to send heartbeat:', error.message);
+    }
+
+    try {
+      await syncConfig();
+    } catch (error) {
+      console.error('Failed to sync configuration:', error.message);
+    }
+
+    try {
+      await sendEvent();
+    } catch (error) {
+      console.error('Failed to send event:', error.message);
+    }
+
+    if (sent + 1 < config.count) {
+      await new Promise(resolve => setTimeout(resolve, config.interval));
+    }
+  }
+};
+
+run();
@@ -3,21 +3,17 @@ import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { TriangleAlert as AlertTriangle, CircleAlert as AlertCircle } from 'lucide-react-native';
 import { theme } from '../theme';
 import { format } from 'date-fns';
-
-interface Alert {
-  id: number;
-  deviceId: string;
-  message: string;
-  severity: 'warning' | 'critical';
-  timestamp: string;
-}
+import { AlertWithDevice } from '../types/alert';
 
 interface AlertCardProps {
-  alert: Alert;
+  alert: AlertWithDevice;
   onPress?: () => void;
+  onAcknowledge?: () => void;
+  onSnooze?: () => void;
+  onResolve?: () => void;
 }
 
-const AlertCard: React.FC<AlertCardProps> = ({ alert, onPress }) => {
+const AlertCard: React.FC<AlertCardProps> = ({ alert, onPress, onAcknowledge, onSnooze, onResolve }) => {
   const getSeverityColor = (severity: string) => {
     switch (severity) {
       case 'warning':
@@ -42,6 +38,8 @@ const AlertCard: React.FC<AlertCardProps> = ({ alert, onPress }) => {
     }
   };
 
+  const hasActions = Boolean(onAcknowledge || onSnooze || onResolve);
+
   return (
     <TouchableOpacity 
       style={[
@@ -55,11 +53,31 @@ const AlertCard: React.FC<AlertCardProps> = ({ alert, onPress }) => {
         {renderIcon(alert.severity)}
       </View>
       <View style={styles.contentContainer}>
-        <Text style={styles.deviceId}>{alert.deviceId}</Text>
+        <Text style={styles.deviceId}>{alert.device?.name || alert.device?.serial_number || 'Unknown device'}</Text>
         <Text style={styles.message}>{alert.message}</Text>
         <Text style={styles.timestamp}>
-          {format(new Date(alert.timestamp), 'MMM d, h:mm a')}
+          {format(new Date(alert.updated_at), 'MMM d, h:mm a')}
+          {alert.status === 'acknowledged' ? ' · Acknowledged' : ''}
         </Text>
+        {hasActions && (
+          <View style={styles.actions}>
+            {onAcknowledge && alert.status !== 'acknowledged' && (
+              <TouchableOpacity onPress={onAcknowledge} style={styles.actionButton}>
+                <Text style={styles.actionText}>Acknowledge</Text>
+              </TouchableOpacity>
+            )}
+            {onSnooze && (
+              <TouchableOpacity onPress={onSnooze} style={styles.actionButton}>
+                <Text style={styles.actionText}>Snooze</Text>
+              </TouchableOpacity>
+            )}
+            {onResolve && (
+              <TouchableOpacity onPress={onResolve} style={styles.actionButton}>
+                <Text style={styles.actionText}>Resolve</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
       </View>
     </TouchableOpacity>
   );
@@ -102,6 +120,19 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: theme.colors.textLight,
   },
+  actions: {
+    flexDirection: 'row',
+    marginTop: 8,
+  },
+  actionButton: {
+    marginRight: 16,
+    paddingVertical: 4,
+  },
+  actionText: {
+    fontFamily: 'Roboto-Bold',
+    fontSize: 13,
+    color: theme.colors.primary,
+  },
 });
 
 export default AlertCard;
\ No newline at end of file
@@ -0,0 +1,129 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { theme } from '../theme';
+import { DeviceConfigStatus, DeviceConfigVersionWithChanges } from '../types/device';
+
+interface ConfigVersionHistoryProps {
+  versions: DeviceConfigVersionWithChanges[];
+  reportedVersion: number | null;
+}
+
+const STATUS_LABELS: Record<DeviceConfigStatus, string> = {
+  pending: 'Pending',
+  applied: 'Applied',
+  failed: 'Failed',
+  superseded: 'Superseded',
+};
+
+const STATUS_COLORS: Record<DeviceConfigStatus, string> = {
+  pending: theme.colors.warning,
+  applied: theme.colors.success,
+  failed: theme.colors.error,
+  superseded: theme.colors.disabled,
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null) return 'not set';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'none';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export const ConfigStatusBadge: React.FC<{ status: DeviceConfigStatus }> = ({ status }) => (
+  <View style={[styles.badge, { backgroundColor: STATUS_COLORS[status] }]}>
+    <Text style={styles.badgeText}>{STATUS_LABELS[status]}</Text>
+  </View>
+);
+
+const ConfigVersionHistory: React.FC<ConfigVersionHistoryProps> = ({ versions, reportedVersion }) => {
+  if (versions.length === 0) {
+    return <Text style={styles.emptyText}>No settings have been pushed to this device yet.</Text>;
+  }
+
+  return (
+    <View>
+      {versions.map(version => (
+        <View key={version.id} style={styles.version}>
+          <View style={styles.versionHeader}>
+            <Text style={styles.versionNumber}>
+              v{version.version}
+              {version.version === reportedVersion ? ' · running' : ''}
+            </Text>
+            <ConfigStatusBadge status={version.status} />
+          </View>
+          <Text style={styles.versionDate}>
+            {new Date(version.created_at).toLocaleString()}
+            {version.acknowledged_at
+              ? ` · acknowledged ${new Date(version.acknowledged_at).toLocaleString()}`
+              : version.delivered_at
+                ? ` · delivered ${new Date(version.delivered_at).toLocaleString()}`
+                : ''}
+          </Text>
+          {version.error ? <Text style={styles.errorText}>{version.error}</Text> : null}
+          {version.changes.length === 0 ? (
+            <Text style={styles.changeText}>No changes from the previous version</Text>
+          ) : (
+            version.changes.map(change => (
+              <Text key={change.key} style={styles.changeText}>
+                {change.key}: {formatValue(change.previous)} → {formatValue(change.current)}
+              </Text>
+            ))
+          )}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  version: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  versionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 2,
+  },
+  versionNumber: {
+    fontFamily: 'Roboto-Bold',
+    fontSize: 14,
+    color: theme.colors.text,
+  },
+  versionDate: {
+    fontFamily: 'Roboto',
+    fontSize: 12,
+    color: theme.colors.textLight,
+    marginBottom: 4,
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  badgeText: {
+    fontFamily: 'Roboto-Bold',
+    fontSize: 12,
+    color: theme.colors.white,
+  },
+  changeText: {
+    fontFamily: 'Roboto',
+    fontSize: 13,
+    color: theme.colors.text,
+  },
+  errorText: {
+    fontFamily: 'Roboto',
+    fontSize: 13,
+    color: theme.colors.error,
+    marginBottom: 4,
+  },
+  emptyText: {
+    fontFamily: 'Roboto',
+    fontSize: 14,
+    color: theme.colors.textLight,
+  },
+});
+
+export default ConfigVersionHistory;
@@ -10,9 +10,10 @@ interface DataPoint {
 
 interface DashboardChartProps {
   data: DataPoint[];
+  color?: string;
 }
 
-const DashboardChart: React.FC<DashboardChartProps> = ({ data }) => {
+const DashboardChart: React.FC<DashboardChartProps> = ({ data, color = theme.colors.primary }) => {
   const formatDate = (date: string) => {
     return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
   };
@@ -44,8 +45,8 @@ const DashboardChart: React.FC<DashboardChartProps> = ({ data }) => {
           y="count"
           style={{
             data: {
-              fill: `${theme.colors.primary}40`,
-              stroke: theme.colors.primary,
+              fill: `${color}40`,
+              stroke: color,
               strokeWidth: 2,
             },
           }}
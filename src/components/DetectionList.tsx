@@ -0,0 +1,183 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { formatDistanceToNow } from 'date-fns';
+import { theme } from '../theme';
+import { DetectionTaxonomy } from '../types/detection';
+import { DeviceDetection } from '../types/device';
+import { getDeviceDetections } from '../services/detectionService';
+import { usePaginatedQuery } from '../hooks/usePaginatedQuery';
+import { readDetectionData } from '../lib/detectionData';
+import {
+  getDetectionTypeColor,
+  getDetectionTypeIcon,
+  getDetectionTypeLabel,
+  getDetectionTypeLineage
+} from '../lib/detectionTaxonomy';
+import DetectionTypeIcon from './DetectionTypeIcon';
+
+interface DetectionListProps {
+  deviceId: string;
+  taxonomy: DetectionTaxonomy;
+  // A detection type or class to show; null shows every detection
+  detectionType: string | null;
+  pageSize?: number;
+}
+
+/**
+ * Summarise a detection's classification metadata
+ * @param detection The detection
+ * @returns E.g. "92% confidence · 3 seen · model 2.1.0"
+ */
+const describeDetection = (detection: DeviceDetection): string => {
+  const data = readDetectionData(detection.detection_data);
+  const parts: string[] = [];
+
+  if (data.reported_type) parts.push(`reported as "${data.reported_type}"`);
+  if (data.confidence !== undefined) parts.push(`${Math.round(data.confidence * 100)}% confidence`);
+  if (data.count !== undefined && data.count > 1) parts.push(`${data.count} seen`);
+  if (data.bounding_boxes && data.bounding_boxes.length > 0 && data.count === undefined) {
+    parts.push(`${data.bounding_boxes.length} in frame`);
+  }
+  if (data.model_version) parts.push(`model ${data.model_version}`);
+
+  return parts.join(' · ');
+};
+
+const DetectionList: React.FC<DetectionListProps> = ({ deviceId, taxonomy, detectionType, pageSize = 10 }) => {
+  const { items, loading, loadingMore, error, hasMore, loadMore } = usePaginatedQuery(
+    async cursor => {
+      const page = await getDeviceDetections(deviceId, { detectionType }, { cursor, pageSize });
+      return { items: page.detections, nextCursor: page.nextCursor, cachedAt: page.cachedAt };
+    },
+    [deviceId, detectionType, pageSize]
+  );
+
+  if (loading) {
+    return <ActivityIndicator style={styles.loading} color={theme.colors.primary} />;
+  }
+
+  if (error && items.length === 0) {
+    return <Text style={styles.errorText}>{error}</Text>;
+  }
+
+  if (items.length === 0) {
+    return <Text style={styles.emptyText}>No detections recorded yet.</Text>;
+  }
+
+  return (
+    <View>
+      {items.map(detection => {
+        const color = getDetectionTypeColor(taxonomy, detection.detection_type);
+        const lineage = getDetectionTypeLineage(taxonomy, detection.detection_type);
+        const description = describeDetection(detection);
+
+        return (
+          <View key={detection.id} style={styles.item}>
+            <View style={[styles.iconContainer, { backgroundColor: `${color}20` }]}>
+              <DetectionTypeIcon icon={getDetectionTypeIcon(taxonomy, detection.detection_type)} color={color} />
+            </View>
+            <View style={styles.itemContent}>
+              <View style={styles.itemHeader}>
+                <Text style={styles.typeLabel}>{getDetectionTypeLabel(taxonomy, detection.detection_type)}</Text>
+                <Text style={styles.timeText}>
+                  {formatDistanceToNow(new Date(detection.created_at), { addSuffix: true })}
+                </Text>
+              </View>
+              {lineage.length > 1 && (
+                <Text style={styles.lineageText}>
+                  {lineage.slice(1).reverse().map(id => getDetectionTypeLabel(taxonomy, id)).join(' › ')}
+                </Text>
+              )}
+              {description ? <Text style={styles.detailText}>{description}</Text> : null}
+            </View>
+          </View>
+        );
+      })}
+
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+      {hasMore && (
+        <TouchableOpacity style={styles.moreButton} onPress={loadMore} disabled={loadingMore}>
+          {loadingMore
+            ? <ActivityIndicator color={theme.colors.primary} />
+            : <Text style={styles.moreText}>Show more</Text>}
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  loading: {
+    paddingVertical: 16,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  iconContainer: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  itemContent: {
+    flex: 1,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  typeLabel: {
+    fontFamily: 'Roboto-Bold',
+    fontSize: 14,
+    color: theme.colors.text,
+  },
+  timeText: {
+    fontFamily: 'Roboto',
+    fontSize: 12,
+    color: theme.colors.textLight,
+  },
+  lineageText: {
+    fontFamily: 'Roboto',
+    fontSize: 12,
+    color: theme.colors.textLight,
+    marginTop: 2,
+  },
+  detailText: {
+    fontFamily: 'Roboto',
+    fontSize: 13,
+    color: theme.colors.text,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontFamily: 'Roboto',
+    fontSize: 14,
+    color: theme.colors.textLight,
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  errorText: {
+    fontFamily: 'Roboto',
+    fontSize: 14,
+    color: theme.colors.error,
+    paddingVertical: 8,
+  },
+  moreButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  moreText: {
+    fontFamily: 'Roboto-Bold',
+    fontSize: 14,
+    color: theme.colors.primary,
+  },
+});
+
+export default DetectionList;
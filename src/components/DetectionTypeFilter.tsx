@@ -0,0 +1,143 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { theme } from '../theme';
+import { DetectionGrouping, DetectionTaxonomy } from '../types/detection';
+import { getDetectionClasses } from '../lib/detectionTaxonomy';
+
+interface DetectionTypeFilterProps {
+  taxonomy: DetectionTaxonomy;
+  // Types in the data shown; only classes containing one are offered
+  detectionTypes?: string[];
+  selected: string | null;
+  onSelect: (detectionType: string | null) => void;
+  // Shows the types/classes toggle when set
+  grouping?: DetectionGrouping;
+  onGroupingChange?: (grouping: DetectionGrouping) => void;
+}
+
+const GROUPING_OPTIONS: { label: string; value: DetectionGrouping }[] = [
+  { label: 'Types', value: 'type' },
+  { label: 'Classes', value: 'class' },
+];
+
+const DetectionTypeFilter: React.FC<DetectionTypeFilterProps> = ({
+  taxonomy,
+  detectionTypes,
+  selected,
+  onSelect,
+  grouping,
+  onGroupingChange,
+}) => {
+  const classes = getDetectionClasses(taxonomy, detectionTypes);
+
+  // Keep a selection the data no longer contains, so it can be cleared
+  const selectedClass = selected ? taxonomy.types.get(selected) : undefined;
+  if (selectedClass && !classes.some(type => type.id === selected)) {
+    classes.push(selectedClass);
+  }
+
+  if (classes.length === 0 && !onGroupingChange) return null;
+
+  return (
+    <View style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+        <TouchableOpacity
+          style={[styles.chip, selected === null && styles.chipActive]}
+          onPress={() => onSelect(null)}
+        >
+          <Text style={[styles.chipText, selected === null && styles.chipTextActive]}>All</Text>
+        </TouchableOpacity>
+        {classes.map(type => (
+          <TouchableOpacity
+            key={type.id}
+            style={[styles.chip, selected === type.id && styles.chipActive]}
+            onPress={() => onSelect(selected === type.id ? null : type.id)}
+          >
+            <View style={[styles.swatch, { backgroundColor: type.color }]} />
+            <Text style={[styles.chipText, selected === type.id && styles.chipTextActive]}>
+              {type.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {grouping && onGroupingChange && (
+        <View style={styles.groupingSelector}>
+          {GROUPING_OPTIONS.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.groupingOption, grouping === option.value && styles.groupingOptionActive]}
+              onPress={() => onGroupingChange(option.value)}
+            >
+              <Text style={[styles.groupingText, grouping === option.value && styles.groupingTextActive]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 8,
+  },
+  chips: {
+    paddingVertical: 4,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: theme.colors.backgroundLight,
+    marginRight: 8,
+  },
+  chipActive: {
+    backgroundColor: theme.colors.primary,
+  },
+  chipText: {
+    fontFamily: 'Roboto',
+    fontSize: 13,
+    color: theme.colors.text,
+  },
+  chipTextActive: {
+    color: theme.colors.white,
+  },
+  swatch: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 6,
+  },
+  groupingSelector: {
+    flexDirection: 'row',
+    alignSelf: 'flex-start',
+    backgroundColor: theme.colors.backgroundLight,
+    borderRadius: 8,
+    padding: 2,
+    marginTop: 8,
+  },
+  groupingOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 6,
+  },
+  groupingOptionActive: {
+    backgroundColor: theme.colors.white,
+  },
+  groupingText: {
+    fontFamily: 'Roboto',
+    fontSize: 12,
+    color: theme.colors.textLight,
+  },
+  groupingTextActive: {
+    fontFamily: 'Roboto-Bold',
+    color: theme.colors.primary,
+  },
+});
+
+export default DetectionTypeFilter;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Bird, Car, Cat, CircleHelp, Dog, PawPrint, Rabbit, Rat, Squirrel, User } from 'lucide-react-native';
+
+interface DetectionTypeIconProps {
+  // Icon name from detection_types
+  icon: string;
+  size?: number;
+  color?: string;
+}
+
+const DetectionTypeIcon: React.FC<DetectionTypeIconProps> = ({ icon, size = 16, color }) => {
+  switch (icon) {
+    case 'paw-print':
+      return <PawPrint size={size} color={color} />;
+    case 'bird':
+      return <Bird size={size} color={color} />;
+    case 'rabbit':
+      return <Rabbit size={size} color={color} />;
+    case 'squirrel':
+      return <Squirrel size={size} color={color} />;
+    case 'rat':
+      return <Rat size={size} color={color} />;
+    case 'dog':
+      return <Dog size={size} color={color} />;
+    case 'cat':
+      return <Cat size={size} color={color} />;
+    case 'user':
+      return <User size={size} color={color} />;
+    case 'car':
+      return <Car size={size} color={color} />;
+    default:
+      return <CircleHelp size={size} color={color} />;
+  }
+};
+
+export default DetectionTypeIcon;
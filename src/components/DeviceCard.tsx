@@ -1,30 +1,29 @@
 import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
-import { Battery, Clock } from 'lucide-react-native';
+import { Activity, Battery, Camera, Clock, Eye } from 'lucide-react-native';
 import { theme } from '../theme';
-import { format, formatDistanceToNow } from 'date-fns';
-
-interface Device {
-  id: string;
-  name: string;
-  serialNumber: string;
-  status: 'online' | 'offline';
-  batteryLevel: number;
-  lastUpdated: string;
-}
+import { formatDistanceToNow } from 'date-fns';
+import { DeviceWithStats } from '../types/device';
 
 interface DeviceCardProps {
-  device: Device;
+  device: DeviceWithStats;
+  groupName?: string | null;
   onPress: () => void;
 }
 
-const DeviceCard: React.FC<DeviceCardProps> = ({ device, onPress }) => {
+const DeviceCard: React.FC<DeviceCardProps> = ({ device, groupName, onPress }) => {
   const getBatteryColor = (level: number) => {
     if (level > 50) return theme.colors.success;
     if (level > 20) return theme.colors.warning;
     return theme.colors.error;
   };
 
+  const getHealthColor = (score: number) => {
+    if (score >= 70) return theme.colors.success;
+    if (score >= 40) return theme.colors.warning;
+    return theme.colors.error;
+  };
+
   const getStatusColor = (status: string) => {
     return status === 'online' ? theme.colors.success : theme.colors.error;
   };
@@ -43,21 +42,50 @@ const DeviceCard: React.FC<DeviceCardProps> = ({ device, onPress }) => {
       <View style={styles.header}>
         <View style={styles.titleContainer}>
           <Text style={styles.name}>{device.name}</Text>
-          <Text style={styles.serialNumber}>S/N: {device.serialNumber}</Text>
+          <Text style={styles.serialNumber}>S/N: {device.serial_number}</Text>
+          {groupName ? <Text style={styles.groupName}>{groupName}</Text> : null}
         </View>
+        {device.health_score != null && (
+          <View style={styles.healthContainer}>
+            <Activity size={14} color={getHealthColor(device.health_score)} />
+            <Text style={[styles.healthText, { color: getHealthColor(device.health_score) }]}>
+              {device.health_score}
+            </Text>
+          </View>
+        )}
         <View style={[styles.statusIndicator, { backgroundColor: getStatusColor(device.status) }]} />
       </View>
+
+      <View style={styles.stats}>
+        <View style={styles.stat}>
+          <Eye size={14} color={theme.colors.textLight} />
+          <Text style={styles.statText}>
+            {device.detection_count} detection{device.detection_count === 1 ? '' : 's'}
+          </Text>
+        </View>
+        <View style={styles.stat}>
+          <Camera size={14} color={theme.colors.textLight} />
+          <Text style={styles.statText}>
+            {device.image_count} image{device.image_count === 1 ? '' : 's'}
+          </Text>
+        </View>
+      </View>
       
       <View style={styles.footer}>
         <View style={styles.batteryContainer}>
-          <Battery size={16} color={getBatteryColor(device.batteryLevel)} />
-          <Text style={styles.batteryText}>{device.batteryLevel}%</Text>
+          <Battery size={16} color={getBatteryColor(device.battery_level)} />
+          <Text style={styles.batteryText}>{device.battery_level}%</Text>
+          {device.battery_days_remaining != null && (
+            <Text style={styles.depletionText}>
+              ~{Math.round(device.battery_days_remaining)} days left
+            </Text>
+          )}
         </View>
         
         <View style={styles.lastUpdatedContainer}>
           <Clock size={14} color={theme.colors.textLight} />
           <Text style={styles.lastUpdatedText}>
-            {getLastUpdatedText(device.lastUpdated)}
+            {getLastUpdatedText(device.last_detection_date || device.last_detection || device.updated_at)}
           </Text>
         </View>
       </View>
@@ -97,12 +125,43 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: theme.colors.textLight,
   },
+  groupName: {
+    fontFamily: 'Roboto',
+    fontSize: 13,
+    color: theme.colors.accent,
+    marginTop: 2,
+  },
+  healthContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  healthText: {
+    fontFamily: 'Roboto-Bold',
+    fontSize: 14,
+    marginLeft: 4,
+  },
   statusIndicator: {
     width: 12,
     height: 12,
     borderRadius: 6,
     marginLeft: 8,
   },
+  stats: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  stat: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 16,
+  },
+  statText: {
+    fontFamily: 'Roboto',
+    fontSize: 13,
+    color: theme.colors.text,
+    marginLeft: 4,
+  },
   footer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -118,6 +177,12 @@ const styles = StyleSheet.create({
     color: theme.colors.text,
     marginLeft: 6,
   },
+  depletionText: {
+    fontFamily: 'Roboto',
+    fontSize: 12,
+    color: theme.colors.textLight,
+    marginLeft: 6,
+  },
   lastUpdatedContainer: {
     flexDirection: 'row',
     alignItems: 'center',
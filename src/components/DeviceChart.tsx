@@ -1,24 +1,88 @@
 import React from 'react';
-import { View, Dimensions, StyleSheet } from 'react-native';
-import { VictoryChart, VictoryBar, VictoryTheme, VictoryAxis } from 'victory-native';
+import { View, Text, Dimensions, StyleSheet, TouchableOpacity } from 'react-native';
+import { VictoryChart, VictoryBar, VictoryLine, VictoryStack, VictoryLegend, VictoryTheme, VictoryAxis } from 'victory-native';
 import { theme } from '../theme';
 
 interface DataPoint {
   date: string;
-  count: number;
+  byType?: Record<string, number>;
+}
+
+// Colours for stacked series without one in stackColors, assigned in order
+const STACK_COLORS = [
+  theme.colors.primary,
+  theme.colors.secondary,
+  theme.colors.accent,
+  theme.colors.warning,
+  theme.colors.error,
+  theme.colors.success,
+];
+
+interface RangeOption {
+  label: string;
+  value: string;
 }
 
 interface DeviceChartProps {
   data: DataPoint[];
+  yKey?: string;
+  variant?: 'bar' | 'line';
+  color?: string;
+  formatTick?: (date: string) => string;
+  stackKeys?: string[];
+  // Colour and legend label for each stack key, e.g. from the detection taxonomy
+  stackColors?: Record<string, string>;
+  stackLabels?: Record<string, string>;
+  ranges?: RangeOption[];
+  selectedRange?: string;
+  onRangeChange?: (range: string) => void;
 }
 
-const DeviceChart: React.FC<DeviceChartProps> = ({ data }) => {
+const DeviceChart: React.FC<DeviceChartProps> = ({
+  data,
+  yKey = 'count',
+  variant = 'bar',
+  color = theme.colors.primary,
+  formatTick,
+  stackKeys,
+  stackColors,
+  stackLabels,
+  ranges,
+  selectedRange,
+  onRangeChange,
+}) => {
   const formatDate = (date: string) => {
     return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
   };
 
+  // Line charts skip buckets without a reading rather than plotting zero
+  const chartData = variant === 'line'
+    ? data.filter(point => (point as unknown as Record<string, unknown>)[yKey] != null)
+    : data;
+
+  const getStackColor = (key: string, index: number) =>
+    stackColors?.[key] || STACK_COLORS[index % STACK_COLORS.length];
+
+  // Narrow the bars as the number of buckets grows
+  const barWidth = Math.max(4, Math.min(20, 240 / Math.max(chartData.length, 1)));
+
   return (
     <View style={styles.container}>
+      {ranges && ranges.length > 0 && (
+        <View style={styles.rangeSelector}>
+          {ranges.map(range => (
+            <TouchableOpacity
+              key={range.value}
+              style={[styles.rangeOption, selectedRange === range.value && styles.rangeOptionActive]}
+              onPress={() => onRangeChange?.(range.value)}
+            >
+              <Text style={[styles.rangeText, selectedRange === range.value && styles.rangeTextActive]}>
+                {range.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
       <VictoryChart
         theme={VictoryTheme.material}
         domainPadding={20}
@@ -26,7 +90,8 @@ const DeviceChart: React.FC<DeviceChartProps> = ({ data }) => {
         height={250}
       >
         <VictoryAxis
-          tickFormat={(date) => formatDate(date)}
+          tickFormat={(date) => (formatTick || formatDate)(date)}
+          fixLabelOverlap
           style={{
             tickLabels: { fontSize: 10, padding: 5 },
           }}
@@ -38,21 +103,73 @@ const DeviceChart: React.FC<DeviceChartProps> = ({ data }) => {
             tickLabels: { fontSize: 10, padding: 5 },
           }}
         />
-        <VictoryBar
-          data={data}
-          x="date"
-          y="count"
-          style={{
-            data: {
-              fill: theme.colors.primary,
-              width: 20,
-            },
-          }}
-          animate={{
-            duration: 500,
-            onLoad: { duration: 500 },
-          }}
-        />
+        {stackKeys && stackKeys.length > 0 && (
+          <VictoryLegend
+            orientation="horizontal"
+            itemsPerRow={3}
+            gutter={12}
+            style={{ labels: { fontSize: 10 } }}
+            data={stackKeys.map((key, index) => ({
+              name: stackLabels?.[key] || key,
+              symbol: { fill: getStackColor(key, index) },
+            }))}
+          />
+        )}
+        {variant === 'bar' && stackKeys && stackKeys.length > 0 ? (
+          <VictoryStack
+            animate={{
+              duration: 500,
+              onLoad: { duration: 500 },
+            }}
+          >
+            {stackKeys.map((key, index) => (
+              <VictoryBar
+                key={key}
+                data={chartData}
+                x="date"
+                y={(point: DataPoint) => point.byType?.[key] ?? 0}
+                style={{
+                  data: {
+                    fill: getStackColor(key, index),
+                    width: barWidth,
+                  },
+                }}
+              />
+            ))}
+          </VictoryStack>
+        ) : variant === 'line' ? (
+          <VictoryLine
+            data={chartData}
+            x="date"
+            y={yKey}
+            style={{
+              data: {
+                stroke: color,
+                strokeWidth: 2,
+              },
+            }}
+            animate={{
+              duration: 500,
+              onLoad: { duration: 500 },
+            }}
+          />
+        ) : (
+          <VictoryBar
+            data={chartData}
+            x="date"
+            y={yKey}
+            style={{
+              data: {
+                fill: color,
+                width: barWidth,
+              },
+            }}
+            animate={{
+              duration: 500,
+              onLoad: { duration: 500 },
+            }}
+          />
+        )}
       </VictoryChart>
     </View>
   );
@@ -63,6 +180,31 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  rangeSelector: {
+    flexDirection: 'row',
+    alignSelf: 'stretch',
+    backgroundColor: theme.colors.backgroundLight,
+    borderRadius: 8,
+    padding: 2,
+  },
+  rangeOption: {
+    flex: 1,
+    paddingVertical: 6,
+    alignItems: 'center',
+    borderRadius: 6,
+  },
+  rangeOptionActive: {
+    backgroundColor: theme.colors.white,
+  },
+  rangeText: {
+    fontFamily: 'Roboto',
+    fontSize: 12,
+    color: theme.colors.textLight,
+  },
+  rangeTextActive: {
+    fontFamily: 'Roboto-Bold',
+    color: theme.colors.primary,
+  },
 });
 
-export default DeviceChart;
\ No newline at end of file
+export default DeviceChart;
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import MapView, { Marker } from 'react-native-maps';
+import * as Location from 'expo-location';
+import { LocateFixed } from 'lucide-react-native';
+import { theme } from '../theme';
+import { Coordinates } from '../types/device';
+
+interface DeviceLocationPickerProps {
+  coordinate: Coordinates | null;
+  onChange: (coordinate: Coordinates) => void;
+  autoLocate?: boolean;
+  // Read-only pickers show the pin without letting it move
+  editable?: boolean;
+}
+
+// Roughly 500m across, close enough to place a camera on a trail
+const PIN_DELTA = 0.005;
+
+const DeviceLocationPicker: React.FC<DeviceLocationPickerProps> = ({ coordinate, onChange, autoLocate = false, editable = true }) => {
+  const [locating, setLocating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const locate = async () => {
+    setError(null);
+    setLocating(true);
+
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted') {
+        setError('Location permission is needed to use your current position.');
+        return;
+      }
+
+      const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.High });
+      onChange({
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+      });
+    } catch (err) {
+      console.error('Error getting current location:', err);
+      setError('Could not determine your current location.');
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  useEffect(() => {
+    if (autoLocate && !coordinate) {
+      locate();
+    }
+  }, []);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.mapContainer}>
+        {coordinate ? (
+          <MapView
+            style={styles.map}
+            region={{ ...coordinate, latitudeDelta: PIN_DELTA, longitudeDelta: PIN_DELTA }}
+            onPress={editable ? event => onChange(event.nativeEvent.coordinate) : undefined}
+          >
+            <Marker
+              coordinate={coordinate}
+              draggable={editable}
+              onDragEnd={event => onChange(event.nativeEvent.coordinate)}
+              pinColor={theme.colors.primary}
+            />
+          </MapView>
+        ) : (
+          <View style={styles.placeholder}>
+            {locating ? (
+              <ActivityIndicator color={theme.colors.primary} />
+            ) : (
+              <Text style={styles.placeholderText}>No location set</Text>
+            )}
+          </View>
+        )}
+      </View>
+
+      <View style={styles.footer}>
+        <Text style={styles.coordinates}>
+          {coordinate
+            ? `${coordinate.latitude.toFixed(5)}, ${coordinate.longitude.toFixed(5)}`
+            : editable ? 'Drag the pin or tap the map to adjust' : 'No location set'}
+        </Text>
+        {editable && (
+          <TouchableOpacity style={styles.locateButton} onPress={locate} disabled={locating}>
+            <LocateFixed size={16} color={theme.colors.accent} />
+            <Text style={styles.locateText}>Use my location</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  mapContainer: {
+    height: 200,
+    borderRadius: 8,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  map: {
+    flex: 1,
+  },
+  placeholder: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: theme.colors.backgroundLight,
+  },
+  placeholderText: {
+    fontFamily: 'Roboto',
+    fontSize: 14,
+    color: theme.colors.textLight,
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  coordinates: {
+    fontFamily: 'Roboto',
+    fontSize: 13,
+    color: theme.colors.textLight,
+  },
+  locateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  locateText: {
+    fontFamily: 'Roboto-Medium',
+    fontSize: 14,
+    color: theme.colors.accent,
+    marginLeft: 4,
+  },
+  errorText: {
+    fontFamily: 'Roboto',
+    fontSize: 13,
+    color: theme.colors.error,
+    marginTop: 4,
+  },
+});
+
+export default DeviceLocationPicker;
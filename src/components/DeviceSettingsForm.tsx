@@ -0,0 +1,203 @@
+import React from 'react';
+import { View, Text, StyleSheet, Switch, TouchableOpacity } from 'react-native';
+import { theme } from '../theme';
+import Stepper from './Stepper';
+import ScheduleEditor from './ScheduleEditor';
+import {
+  BURST_COUNT_RANGE,
+  CAPTURE_INTERVALS,
+  CAPTURE_INTERVAL_LABELS,
+  NOTIFICATION_EVENTS,
+  NOTIFICATION_EVENT_LABELS,
+  SENSITIVITY_RANGE,
+  VIDEO_LENGTH_RANGE
+} from '../lib/deviceSettings';
+import { DeviceSettings, NotificationEvent } from '../types/device';
+
+interface DeviceSettingsFormProps {
+  settings: DeviceSettings;
+  onChange: (settings: DeviceSettings) => void;
+  // Whether the device has a position, needed for sunrise and sunset windows
+  hasCoordinates: boolean;
+  editable?: boolean;
+}
+
+const DeviceSettingsForm: React.FC<DeviceSettingsFormProps> = ({ settings, onChange, hasCoordinates, editable = true }) => {
+  const update = <K extends keyof DeviceSettings>(key: K, value: DeviceSettings[K]) => {
+    onChange({ ...settings, [key]: value });
+  };
+
+  const toggleNotification = (event: NotificationEvent) => {
+    const current = settings.notificationPreferences;
+    update(
+      'notificationPreferences',
+      current.includes(event)
+        ? current.filter(item => item !== event)
+        : NOTIFICATION_EVENTS.filter(item => item === event || current.includes(item))
+    );
+  };
+
+  return (
+    <View>
+      <View style={styles.field}>
+        <Text style={styles.label}>Capture Interval</Text>
+        <View style={styles.options}>
+          {CAPTURE_INTERVALS.map(interval => (
+            <TouchableOpacity
+              key={interval}
+              style={[styles.option, settings.captureInterval === interval && styles.optionActive]}
+              onPress={() => update('captureInterval', interval)}
+              disabled={!editable}
+            >
+              <Text style={[styles.optionText, settings.captureInterval === interval && styles.optionTextActive]}>
+                {CAPTURE_INTERVAL_LABELS[interval]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <View style={[styles.field, styles.row]}>
+        <View style={styles.rowText}>
+          <Text style={styles.label}>Sensitivity</Text>
+          <Text style={styles.hint}>Higher values trigger on smaller movements</Text>
+        </View>
+        <Stepper
+          value={settings.sensitivityLevel}
+          min={SENSITIVITY_RANGE.min}
+          max={SENSITIVITY_RANGE.max}
+          onChange={value => update('sensitivityLevel', value)}
+          disabled={!editable}
+        />
+      </View>
+
+      <View style={[styles.field, styles.row]}>
+        <View style={styles.rowText}>
+          <Text style={styles.label}>Burst Count</Text>
+          <Text style={styles.hint}>Photos taken per trigger</Text>
+        </View>
+        <Stepper
+          value={settings.burstCount}
+          min={BURST_COUNT_RANGE.min}
+          max={BURST_COUNT_RANGE.max}
+          onChange={value => update('burstCount', value)}
+          disabled={!editable}
+        />
+      </View>
+
+      <View style={[styles.field, styles.row]}>
+        <View style={styles.rowText}>
+          <Text style={styles.label}>Video Length</Text>
+          <Text style={styles.hint}>Clip recorded after the photos</Text>
+        </View>
+        <Stepper
+          value={settings.videoLengthSeconds}
+          min={VIDEO_LENGTH_RANGE.min}
+          max={VIDEO_LENGTH_RANGE.max}
+          step={5}
+          format={value => (value === 0 ? 'Off' : `${value}s`)}
+          onChange={value => update('videoLengthSeconds', value)}
+          disabled={!editable}
+        />
+      </View>
+
+      <View style={[styles.field, styles.row]}>
+        <View style={styles.rowText}>
+          <Text style={styles.label}>Night Mode</Text>
+          <Text style={styles.hint}>Use infrared flash in the dark</Text>
+        </View>
+        <Switch
+          value={settings.nightMode}
+          onValueChange={value => update('nightMode', value)}
+          disabled={!editable}
+          trackColor={{ false: theme.colors.disabled, true: theme.colors.primary }}
+        />
+      </View>
+
+      <View style={styles.field}>
+        <Text style={styles.label}>Capture Schedule</Text>
+        <ScheduleEditor
+          schedule={settings.schedule}
+          onChange={schedule => update('schedule', schedule)}
+          hasCoordinates={hasCoordinates}
+          editable={editable}
+        />
+      </View>
+
+      <View style={styles.field}>
+        <Text style={styles.label}>Notifications</Text>
+        <View style={styles.options}>
+          {NOTIFICATION_EVENTS.map(event => {
+            const selected = settings.notificationPreferences.includes(event);
+            return (
+              <TouchableOpacity
+                key={event}
+                style={[styles.option, selected && styles.optionActive]}
+                onPress={() => toggleNotification(event)}
+                disabled={!editable}
+              >
+                <Text style={[styles.optionText, selected && styles.optionTextActive]}>
+                  {NOTIFICATION_EVENT_LABELS[event]}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  field: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  rowText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  label: {
+    fontFamily: 'Roboto',
+    fontSize: 16,
+    color: theme.colors.text,
+    marginBottom: 4,
+  },
+  hint: {
+    fontFamily: 'Roboto',
+    fontSize: 12,
+    color: theme.colors.textLight,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 4,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: theme.colors.backgroundLight,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  optionActive: {
+    backgroundColor: theme.colors.primary,
+  },
+  optionText: {
+    fontFamily: 'Roboto',
+    fontSize: 14,
+    color: theme.colors.text,
+  },
+  optionTextActive: {
+    color: theme.colors.white,
+  },
+});
+
+export default DeviceSettingsForm;
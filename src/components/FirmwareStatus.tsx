@@ -0,0 +1,119 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { theme } from '../theme';
+import { DeviceFirmwareStatus, FirmwareUpdateStatus } from '../types/firmware';
+import Button from './Button';
+
+interface FirmwareStatusProps {
+  status: DeviceFirmwareStatus;
+  canManage: boolean;
+  updating: boolean;
+  onUpdate: (releaseId: string) => void;
+}
+
+const UPDATE_LABELS: Record<FirmwareUpdateStatus, string> = {
+  offered: 'Waiting for device',
+  downloading: 'Downloading',
+  installing: 'Installing',
+  succeeded: 'Updated',
+  failed: 'Failed',
+};
+
+const UPDATE_COLORS: Record<FirmwareUpdateStatus, string> = {
+  offered: theme.colors.warning,
+  downloading: theme.colors.info,
+  installing: theme.colors.info,
+  succeeded: theme.colors.success,
+  failed: theme.colors.error,
+};
+
+const FirmwareStatus: React.FC<FirmwareStatusProps> = ({ status, canManage, updating, onUpdate }) => {
+  const { currentVersion, reportedAt, latestRelease, updateAvailable, lastUpdate } = status;
+  const updateInProgress = lastUpdate !== null && !['succeeded', 'failed'].includes(lastUpdate.status);
+
+  return (
+    <View>
+      <Text style={styles.value}>
+        {currentVersion ? `Version ${currentVersion}` : 'Version not reported yet'}
+        {reportedAt ? ` · reported ${new Date(reportedAt).toLocaleDateString()}` : ''}
+      </Text>
+
+      {lastUpdate && (
+        <View style={styles.updateRow}>
+          <Text style={styles.value}>Update to {lastUpdate.release.version}</Text>
+          <View style={[styles.badge, { backgroundColor: UPDATE_COLORS[lastUpdate.status] }]}>
+            <Text style={styles.badgeText}>{UPDATE_LABELS[lastUpdate.status]}</Text>
+          </View>
+        </View>
+      )}
+      {lastUpdate?.error ? <Text style={styles.errorText}>{lastUpdate.error}</Text> : null}
+
+      {updateAvailable && latestRelease ? (
+        <>
+          <Text style={styles.available}>Version {latestRelease.version} is available</Text>
+          {latestRelease.release_notes ? (
+            <Text style={styles.notes}>{latestRelease.release_notes}</Text>
+          ) : null}
+          {canManage && !updateInProgress && (
+            <Button
+              title={`Update to ${latestRelease.version}`}
+              onPress={() => onUpdate(latestRelease.id)}
+              loading={updating}
+              style={styles.updateButton}
+            />
+          )}
+        </>
+      ) : (
+        latestRelease && <Text style={styles.value}>Up to date</Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  value: {
+    fontFamily: 'Roboto',
+    fontSize: 14,
+    color: theme.colors.textLight,
+  },
+  updateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  badgeText: {
+    fontFamily: 'Roboto-Bold',
+    fontSize: 12,
+    color: theme.colors.white,
+  },
+  errorText: {
+    fontFamily: 'Roboto',
+    fontSize: 13,
+    color: theme.colors.error,
+    marginTop: 4,
+  },
+  available: {
+    fontFamily: 'Roboto-Bold',
+    fontSize: 14,
+    color: theme.colors.primary,
+    marginTop: 8,
+  },
+  notes: {
+    fontFamily: 'Roboto',
+    fontSize: 13,
+    color: theme.colors.text,
+    marginTop: 4,
+  },
+  updateButton: {
+    backgroundColor: theme.colors.accent,
+    marginTop: 12,
+  },
+});
+
+export default FirmwareStatus;
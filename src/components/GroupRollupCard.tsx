@@ -0,0 +1,106 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { MapPin, AlertTriangle } from 'lucide-react-native';
+import { theme } from '../theme';
+import { DeviceGroupRollup } from '../types/group';
+
+interface GroupRollupCardProps {
+  group: DeviceGroupRollup;
+  onPress?: () => void;
+}
+
+const GroupRollupCard: React.FC<GroupRollupCardProps> = ({ group, onPress }) => {
+  const offlineDevices = group.totalDevices - group.activeDevices;
+
+  return (
+    <TouchableOpacity style={styles.card} onPress={onPress} disabled={!onPress}>
+      <View style={styles.header}>
+        <MapPin size={16} color={theme.colors.primary} />
+        <Text style={styles.name} numberOfLines={1}>{group.name}</Text>
+        {group.openAlerts > 0 && (
+          <View style={styles.alertBadge}>
+            <AlertTriangle size={12} color={theme.colors.white} />
+            <Text style={styles.alertBadgeText}>{group.openAlerts}</Text>
+          </View>
+        )}
+      </View>
+      <View style={styles.stats}>
+        <View style={styles.stat}>
+          <Text style={styles.statValue}>{group.activeDevices}/{group.totalDevices}</Text>
+          <Text style={styles.statLabel}>Online</Text>
+        </View>
+        <View style={styles.stat}>
+          <Text style={[styles.statValue, offlineDevices > 0 && { color: theme.colors.error }]}>
+            {offlineDevices}
+          </Text>
+          <Text style={styles.statLabel}>Offline</Text>
+        </View>
+        <View style={styles.stat}>
+          <Text style={styles.statValue}>{group.detections}</Text>
+          <Text style={styles.statLabel}>Detections</Text>
+        </View>
+      </View>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: theme.colors.white,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: theme.colors.shadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  name: {
+    flex: 1,
+    fontFamily: 'Montserrat-SemiBold',
+    fontSize: 16,
+    color: theme.colors.text,
+    marginLeft: 6,
+  },
+  alertBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.warning,
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  alertBadgeText: {
+    fontFamily: 'Roboto-Bold',
+    fontSize: 12,
+    color: theme.colors.white,
+    marginLeft: 4,
+  },
+  stats: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  stat: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  statValue: {
+    fontFamily: 'Montserrat-Bold',
+    fontSize: 18,
+    color: theme.colors.text,
+  },
+  statLabel: {
+    fontFamily: 'Roboto',
+    fontSize: 12,
+    color: theme.colors.textLight,
+    marginTop: 2,
+  },
+});
+
+export default GroupRollupCard;
@@ -0,0 +1,420 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Switch } from 'react-native';
+import { Trash2 } from 'lucide-react-native';
+import { theme } from '../theme';
+import { NOTIFICATION_EVENTS, NOTIFICATION_EVENT_LABELS } from '../lib/deviceSettings';
+import { NOTIFICATION_CHANNELS } from '../lib/notificationPreferences';
+import {
+  BATCH_MINUTES_OPTIONS,
+  BATCH_MINUTES_LABELS,
+  MAX_PER_HOUR_RANGE,
+  MIN_CONFIDENCE_RANGE,
+  createNotificationRule,
+  toNotificationRuleInput
+} from '../lib/notificationRules';
+import {
+  getNotificationRules,
+  saveNotificationRule,
+  deleteNotificationRule
+} from '../services/notificationService';
+import { EMPTY_TAXONOMY, getDetectionTypeLabel } from '../lib/detectionTaxonomy';
+import { DeviceNotificationRule, NotificationRuleInput, NotificationChannel } from '../types/notification';
+import { DetectionTaxonomy } from '../types/detection';
+import Stepper from './Stepper';
+import Input from './Input';
+import Button from './Button';
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  push: 'Push',
+  email: 'Email',
+};
+
+const DEFAULT_QUIET_HOURS = { start: '22:00', end: '06:00' };
+
+interface NotificationRulesEditorProps {
+  deviceId: string;
+  // Detection types and classes offered as rule targets; a rule for a
+  // class also covers the types below it
+  detectionTypes: string[];
+  taxonomy?: DetectionTaxonomy;
+}
+
+/**
+ * Summarise a rule for the list, e.g. "Push · 70%+ · quiet 22:00–06:00"
+ */
+const describeRule = (rule: DeviceNotificationRule) => {
+  const parts = [rule.channels.map(channel => CHANNEL_LABELS[channel]).join(' & ')];
+
+  if (rule.min_confidence !== null) parts.push(`${Math.round(rule.min_confidence * 100)}%+`);
+  if (rule.quiet_start && rule.quiet_end) {
+    parts.push(`quiet ${rule.quiet_start.slice(0, 5)}–${rule.quiet_end.slice(0, 5)}`);
+  }
+  if (rule.max_per_hour !== null) parts.push(`max ${rule.max_per_hour}/hour`);
+  if (rule.batch_minutes !== null) parts.push(`batched ${BATCH_MINUTES_LABELS[rule.batch_minutes] ?? `${rule.batch_minutes} min`}`);
+
+  return parts.join(' · ');
+};
+
+const NotificationRulesEditor: React.FC<NotificationRulesEditorProps> = ({
+  deviceId,
+  detectionTypes,
+  taxonomy = EMPTY_TAXONOMY,
+}) => {
+  const [rules, setRules] = useState<DeviceNotificationRule[]>([]);
+  // The rule being edited; editingId is null for a new rule
+  const [draft, setDraft] = useState<NotificationRuleInput | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getNotificationRules(deviceId)
+      .then(setRules)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load notification rules'));
+  }, [deviceId]);
+
+  const update = <K extends keyof NotificationRuleInput>(key: K, value: NotificationRuleInput[K]) => {
+    setDraft(current => current ? { ...current, [key]: value } : current);
+  };
+
+  const startEditing = (rule: DeviceNotificationRule | null) => {
+    setError('');
+    setEditingId(rule?.id ?? null);
+    setDraft(rule ? toNotificationRuleInput(rule) : createNotificationRule('detection'));
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    try {
+      setSaving(true);
+      setError('');
+      const saved = await saveNotificationRule(deviceId, draft, editingId ?? undefined);
+      setRules(current => editingId
+        ? current.map(rule => rule.id === saved.id ? saved : rule)
+        : [...current, saved]);
+      setDraft(null);
+      setEditingId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save notification rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: DeviceNotificationRule, enabled: boolean) => {
+    try {
+      setError('');
+      const saved = await saveNotificationRule(deviceId, { ...toNotificationRuleInput(rule), enabled }, rule.id);
+      setRules(current => current.map(item => item.id === saved.id ? saved : item));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update notification rule');
+    }
+  };
+
+  const handleDelete = async (ruleId: string) => {
+    try {
+      setError('');
+      await deleteNotificationRule(ruleId);
+      setRules(current => current.filter(rule => rule.id !== ruleId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete notification rule');
+    }
+  };
+
+  const toggleChannel = (channel: NotificationChannel) => {
+    if (!draft) return;
+    const channels = draft.channels.includes(channel)
+      ? draft.channels.filter(item => item !== channel)
+      : [...draft.channels, channel];
+    update('channels', channels);
+  };
+
+  const renderOption = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.option, selected && styles.optionActive]}
+      onPress={onPress}
+    >
+      <Text style={[styles.optionText, selected && styles.optionTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderDraft = (rule: NotificationRuleInput) => (
+    <View style={styles.editor}>
+      <View style={styles.field}>
+        <Text style={styles.label}>Event</Text>
+        <View style={styles.options}>
+          {NOTIFICATION_EVENTS.map(event => renderOption(
+            event,
+            NOTIFICATION_EVENT_LABELS[event],
+            rule.event === event,
+            () => setDraft({ ...rule, event, detection_type: null, min_confidence: null })
+          ))}
+        </View>
+      </View>
+
+      {rule.event === 'detection' && (
+        <>
+          <View style={styles.field}>
+            <Text style={styles.label}>Detection type</Text>
+            <View style={styles.options}>
+              {renderOption('any', 'Any', rule.detection_type === null, () => update('detection_type', null))}
+              {detectionTypes.map(type => renderOption(
+                type,
+                getDetectionTypeLabel(taxonomy, type),
+                rule.detection_type === type,
+                () => update('detection_type', type)
+              ))}
+            </View>
+          </View>
+
+          <View style={[styles.field, styles.row]}>
+            <Text style={styles.label}>Minimum confidence</Text>
+            <Stepper
+              value={rule.min_confidence === null ? 0 : Math.round(rule.min_confidence * 100)}
+              min={MIN_CONFIDENCE_RANGE.min}
+              max={MIN_CONFIDENCE_RANGE.max}
+              step={MIN_CONFIDENCE_RANGE.step}
+              format={value => value === 0 ? 'Any' : `${value}%`}
+              onChange={value => update('min_confidence', value === 0 ? null : value / 100)}
+            />
+          </View>
+        </>
+      )}
+
+      <View style={styles.field}>
+        <Text style={styles.label}>Send by</Text>
+        <View style={styles.options}>
+          {NOTIFICATION_CHANNELS.map(channel => renderOption(
+            channel,
+            CHANNEL_LABELS[channel],
+            rule.channels.includes(channel),
+            () => toggleChannel(channel)
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.field}>
+        <View style={styles.row}>
+          <Text style={styles.label}>Quiet hours</Text>
+          <Switch
+            value={rule.quiet_start !== null}
+            onValueChange={value => setDraft({
+              ...rule,
+              quiet_start: value ? DEFAULT_QUIET_HOURS.start : null,
+              quiet_end: value ? DEFAULT_QUIET_HOURS.end : null,
+            })}
+            trackColor={{ false: theme.colors.disabled, true: theme.colors.primary }}
+            thumbColor="#FFFFFF"
+          />
+        </View>
+        {rule.quiet_start !== null && (
+          <>
+            <View style={styles.quietHours}>
+              <Input
+                label="From"
+                value={rule.quiet_start}
+                onChangeText={value => update('quiet_start', value)}
+                placeholder="22:00"
+                containerStyle={styles.timeInput}
+              />
+              <Input
+                label="Until"
+                value={rule.quiet_end ?? ''}
+                onChangeText={value => update('quiet_end', value)}
+                placeholder="06:00"
+                containerStyle={styles.timeInput}
+              />
+            </View>
+            <Text style={styles.hint}>
+              Held back and sent together when quiet hours end ({rule.time_zone})
+            </Text>
+          </>
+        )}
+      </View>
+
+      <View style={[styles.field, styles.row]}>
+        <Text style={styles.label}>Limit per hour</Text>
+        <Stepper
+          value={rule.max_per_hour ?? 0}
+          min={MAX_PER_HOUR_RANGE.min}
+          max={MAX_PER_HOUR_RANGE.max}
+          format={value => value === 0 ? 'None' : `${value}`}
+          onChange={value => update('max_per_hour', value === 0 ? null : value)}
+        />
+      </View>
+
+      <View style={styles.field}>
+        <Text style={styles.label}>Batch into one notification</Text>
+        <View style={styles.options}>
+          {BATCH_MINUTES_OPTIONS.map(minutes => renderOption(
+            String(minutes),
+            BATCH_MINUTES_LABELS[String(minutes)],
+            rule.batch_minutes === minutes,
+            () => update('batch_minutes', minutes)
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.cancelButton} onPress={() => setDraft(null)}>
+          <Text style={styles.cancelText}>Cancel</Text>
+        </TouchableOpacity>
+        <Button title="Save Rule" onPress={handleSave} loading={saving} style={styles.saveButton} />
+      </View>
+    </View>
+  );
+
+  return (
+    <View>
+      <Text style={styles.hint}>
+        Your own rules for this device. Events you have no rule for are sent by push.
+      </Text>
+
+      {rules.map(rule => (
+        <View key={rule.id} style={styles.rule}>
+          <TouchableOpacity style={styles.ruleInfo} onPress={() => startEditing(rule)}>
+            <Text style={styles.ruleTitle}>
+              {NOTIFICATION_EVENT_LABELS[rule.event]}
+              {rule.event === 'detection'
+                ? `: ${rule.detection_type ? getDetectionTypeLabel(taxonomy, rule.detection_type) : 'any type'}`
+                : ''}
+            </Text>
+            <Text style={styles.ruleSummary}>{describeRule(rule)}</Text>
+          </TouchableOpacity>
+          <Switch
+            value={rule.enabled}
+            onValueChange={value => handleToggle(rule, value)}
+            trackColor={{ false: theme.colors.disabled, true: theme.colors.primary }}
+            thumbColor="#FFFFFF"
+          />
+          <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(rule.id)}>
+            <Trash2 size={18} color={theme.colors.error} />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      {error ? <Text style={styles.error}>{error}</Text> : null}
+
+      {draft ? renderDraft(draft) : (
+        <Button title="Add Notification Rule" onPress={() => startEditing(null)} style={styles.addButton} />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  hint: {
+    fontFamily: 'Roboto',
+    fontSize: 12,
+    color: theme.colors.textLight,
+    marginBottom: 8,
+  },
+  rule: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  ruleInfo: {
+    flex: 1,
+  },
+  ruleTitle: {
+    fontFamily: 'Roboto',
+    fontSize: 16,
+    color: theme.colors.text,
+  },
+  ruleSummary: {
+    fontFamily: 'Roboto',
+    fontSize: 13,
+    color: theme.colors.textLight,
+    marginTop: 2,
+  },
+  deleteButton: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  error: {
+    fontFamily: 'Roboto',
+    fontSize: 13,
+    color: theme.colors.error,
+    marginTop: 8,
+  },
+  editor: {
+    marginTop: 8,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: theme.colors.backgroundLight,
+  },
+  field: {
+    paddingVertical: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  label: {
+    fontFamily: 'Roboto',
+    fontSize: 16,
+    color: theme.colors.text,
+    marginBottom: 4,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 4,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: theme.colors.white,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  optionActive: {
+    backgroundColor: theme.colors.primary,
+  },
+  optionText: {
+    fontFamily: 'Roboto',
+    fontSize: 14,
+    color: theme.colors.text,
+  },
+  optionTextActive: {
+    color: theme.colors.white,
+  },
+  quietHours: {
+    flexDirection: 'row',
+    marginTop: 8,
+  },
+  timeInput: {
+    flex: 1,
+    marginRight: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  cancelButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  cancelText: {
+    fontFamily: 'Roboto',
+    fontSize: 16,
+    color: theme.colors.textLight,
+  },
+  saveButton: {
+    paddingHorizontal: 24,
+  },
+  addButton: {
+    marginTop: 12,
+  },
+});
+
+export default NotificationRulesEditor;
@@ -0,0 +1,179 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { formatDistanceToNow } from 'date-fns';
+import { theme } from '../theme';
+import { OutboxItem, OutboxItemStatus } from '../types/outbox';
+import { useOutbox } from '../hooks/useOutbox';
+
+interface OutboxListProps {
+  // Which queued items belong on this screen
+  filter?: (item: OutboxItem) => boolean;
+}
+
+const OutboxList: React.FC<OutboxListProps> = ({ filter }) => {
+  const { items, allItems, error, retry, discard } = useOutbox(filter);
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  const getStatusColor = (status: OutboxItemStatus) => {
+    switch (status) {
+      case 'pending':
+        return theme.colors.textLight;
+      case 'syncing':
+        return theme.colors.info;
+      case 'failed':
+        return theme.colors.error;
+      case 'conflict':
+        return theme.colors.warning;
+      default:
+        return theme.colors.textLight;
+    }
+  };
+
+  const getStatusText = (item: OutboxItem) => {
+    switch (item.status) {
+      case 'pending': {
+        const dependency = item.dependsOn && allItems.find(other => other.id === item.dependsOn);
+        return dependency ? `Waiting for ${dependency.label}` : 'Waiting to send';
+      }
+      case 'syncing':
+        return 'Sending';
+      case 'failed':
+        return 'Failed';
+      case 'conflict':
+        return 'Conflict';
+      default:
+        return 'Unknown';
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.heading}>Pending changes</Text>
+      {error && <Text style={styles.error}>{error}</Text>}
+
+      {items.map(item => (
+        <View key={item.id} style={styles.item}>
+          <View style={styles.header}>
+            <Text style={styles.label} numberOfLines={1}>{item.label}</Text>
+            <View style={[styles.statusBadge, { backgroundColor: getStatusColor(item.status) }]}>
+              <Text style={styles.statusText}>{getStatusText(item)}</Text>
+            </View>
+          </View>
+
+          <Text style={styles.meta}>
+            Queued {formatDistanceToNow(new Date(item.createdAt), { addSuffix: true })}
+            {item.attempts > 0 ? ` · ${item.attempts} attempt${item.attempts === 1 ? '' : 's'}` : ''}
+          </Text>
+
+          {item.lastError && item.status !== 'syncing' && (
+            <Text style={styles.lastError}>{item.lastError}</Text>
+          )}
+
+          {(item.status === 'failed' || item.status === 'conflict') && (
+            <View style={styles.actions}>
+              {item.status === 'conflict' ? (
+                <TouchableOpacity style={styles.action} onPress={() => retry(item.id, true)}>
+                  <Text style={styles.actionText}>Keep mine</Text>
+                </TouchableOpacity>
+              ) : (
+                <TouchableOpacity style={styles.action} onPress={() => retry(item.id)}>
+                  <Text style={styles.actionText}>Retry</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={styles.action} onPress={() => discard(item.id)}>
+                <Text style={[styles.actionText, styles.discardText]}>Discard</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: theme.colors.white,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: theme.colors.shadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  heading: {
+    fontFamily: 'Montserrat-SemiBold',
+    fontSize: 16,
+    color: theme.colors.text,
+    marginBottom: 8,
+  },
+  error: {
+    fontFamily: 'Roboto',
+    fontSize: 13,
+    color: theme.colors.error,
+    marginBottom: 8,
+  },
+  item: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  label: {
+    fontFamily: 'Roboto',
+    fontSize: 14,
+    color: theme.colors.text,
+    flex: 1,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 4,
+    marginLeft: 8,
+  },
+  statusText: {
+    fontFamily: 'Roboto',
+    fontSize: 12,
+    color: theme.colors.white,
+  },
+  meta: {
+    fontFamily: 'Roboto',
+    fontSize: 12,
+    color: theme.colors.textLight,
+    marginTop: 4,
+  },
+  lastError: {
+    fontFamily: 'Roboto',
+    fontSize: 12,
+    color: theme.colors.error,
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  action: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  actionText: {
+    fontFamily: 'Roboto-Medium',
+    fontSize: 14,
+    color: theme.colors.primary,
+  },
+  discardText: {
+    color: theme.colors.error,
+  },
+});
+
+export default OutboxList;
@@ -0,0 +1,360 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Plus, Trash2 } from 'lucide-react-native';
+import { theme } from '../theme';
+import Input from './Input';
+import Stepper from './Stepper';
+import {
+  ALL_WEEKDAYS,
+  MAX_BLACKOUT_PERIODS,
+  MAX_SCHEDULE_WINDOWS,
+  SOLAR_OFFSET_LIMIT_MINUTES,
+  WEEKDAY_LABELS,
+  usesSolarTimes
+} from '../lib/deviceSettings';
+import { CaptureSchedule, CaptureWindow, WindowBoundary } from '../types/device';
+
+interface ScheduleEditorProps {
+  schedule: CaptureSchedule;
+  onChange: (schedule: CaptureSchedule) => void;
+  hasCoordinates: boolean;
+  editable?: boolean;
+}
+
+const BOUNDARY_TYPES: { label: string; value: WindowBoundary['type'] }[] = [
+  { label: 'Time', value: 'time' },
+  { label: 'Sunrise', value: 'sunrise' },
+  { label: 'Sunset', value: 'sunset' },
+];
+
+const formatOffset = (minutes: number) => {
+  if (minutes === 0) return 'At';
+  const sign = minutes > 0 ? '+' : '−';
+  const absolute = Math.abs(minutes);
+  return absolute % 60 === 0 ? `${sign}${absolute / 60}h` : `${sign}${absolute}m`;
+};
+
+const describeBoundary = (boundary: WindowBoundary) =>
+  boundary.type === 'time'
+    ? boundary.time
+    : `${boundary.offsetMinutes === 0 ? '' : `${formatOffset(boundary.offsetMinutes)} `}${boundary.type}`;
+
+const getDeviceTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+interface BoundaryEditorProps {
+  label: string;
+  boundary: WindowBoundary;
+  onChange: (boundary: WindowBoundary) => void;
+}
+
+const BoundaryEditor: React.FC<BoundaryEditorProps> = ({ label, boundary, onChange }) => (
+  <View style={styles.boundary}>
+    <Text style={styles.boundaryLabel}>{label}</Text>
+    <View style={styles.options}>
+      {BOUNDARY_TYPES.map(option => (
+        <TouchableOpacity
+          key={option.value}
+          style={[styles.option, boundary.type === option.value && styles.optionActive]}
+          onPress={() => onChange(
+            option.value === 'time'
+              ? { type: 'time', time: boundary.type === 'time' ? boundary.time : '12:00' }
+              : { type: option.value, offsetMinutes: boundary.type === 'time' ? 0 : boundary.offsetMinutes }
+          )}
+        >
+          <Text style={[styles.optionText, boundary.type === option.value && styles.optionTextActive]}>
+            {option.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+    {boundary.type === 'time' ? (
+      <Input
+        value={boundary.time}
+        onChangeText={time => onChange({ type: 'time', time })}
+        placeholder="HH:MM"
+        keyboardType="numeric"
+        containerStyle={styles.boundaryInput}
+      />
+    ) : (
+      <Stepper
+        value={boundary.offsetMinutes}
+        min={-SOLAR_OFFSET_LIMIT_MINUTES}
+        max={SOLAR_OFFSET_LIMIT_MINUTES}
+        step={15}
+        format={formatOffset}
+        onChange={offsetMinutes => onChange({ ...boundary, offsetMinutes })}
+      />
+    )}
+  </View>
+);
+
+const ScheduleEditor: React.FC<ScheduleEditorProps> = ({ schedule, onChange, hasCoordinates, editable = true }) => {
+  const deviceTimeZone = getDeviceTimeZone();
+
+  const updateWindow = (index: number, window: CaptureWindow) => {
+    onChange({ ...schedule, windows: schedule.windows.map((item, i) => (i === index ? window : item)) });
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const window = schedule.windows[index];
+    updateWindow(index, {
+      ...window,
+      days: window.days.includes(day)
+        ? window.days.filter(item => item !== day)
+        : ALL_WEEKDAYS.filter(item => item === day || window.days.includes(item)),
+    });
+  };
+
+  const addWindow = () => {
+    onChange({
+      ...schedule,
+      // Times are easiest to reason about in the zone of whoever sets them up
+      timeZone: schedule.windows.length === 0 ? deviceTimeZone : schedule.timeZone,
+      windows: [
+        ...schedule.windows,
+        { days: ALL_WEEKDAYS, start: { type: 'sunset', offsetMinutes: -30 }, end: { type: 'sunrise', offsetMinutes: 30 } },
+      ],
+    });
+  };
+
+  const addBlackout = () => {
+    onChange({ ...schedule, blackouts: [...schedule.blackouts, { start: today(), end: today() }] });
+  };
+
+  if (!editable) {
+    return (
+      <View>
+        {schedule.windows.length === 0 ? (
+          <Text style={styles.hint}>Captures around the clock</Text>
+        ) : (
+          schedule.windows.map((window, index) => (
+            <Text key={index} style={styles.hint}>
+              {window.days.length === 7 ? 'Every day' : window.days.map(day => WEEKDAY_LABELS[day]).join(', ')}
+              {': '}
+              {describeBoundary(window.start)} – {describeBoundary(window.end)}
+            </Text>
+          ))
+        )}
+        {schedule.blackouts.map((blackout, index) => (
+          <Text key={index} style={styles.hint}>
+            Off {blackout.start === blackout.end ? blackout.start : `${blackout.start} – ${blackout.end}`}
+            {blackout.reason ? ` (${blackout.reason})` : ''}
+          </Text>
+        ))}
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      <Text style={styles.hint}>
+        {schedule.windows.length === 0
+          ? 'Captures around the clock. Add a window to capture only at certain times.'
+          : `Times are in ${schedule.timeZone}.`}
+      </Text>
+      {schedule.windows.length > 0 && schedule.timeZone !== deviceTimeZone && (
+        <TouchableOpacity onPress={() => onChange({ ...schedule, timeZone: deviceTimeZone })}>
+          <Text style={styles.link}>Use {deviceTimeZone}</Text>
+        </TouchableOpacity>
+      )}
+      {usesSolarTimes(schedule) && !hasCoordinates && (
+        <Text style={styles.warning}>
+          Set the device position so sunrise and sunset can be worked out. Until then those windows are skipped.
+        </Text>
+      )}
+
+      {schedule.windows.map((window, index) => (
+        <View key={index} style={styles.window}>
+          <View style={styles.windowHeader}>
+            <Text style={styles.windowTitle}>Window {index + 1}</Text>
+            <TouchableOpacity
+              onPress={() => onChange({ ...schedule, windows: schedule.windows.filter((_, i) => i !== index) })}
+            >
+              <Trash2 size={16} color={theme.colors.error} />
+            </TouchableOpacity>
+          </View>
+          <View style={styles.days}>
+            {ALL_WEEKDAYS.map(day => (
+              <TouchableOpacity
+                key={day}
+                style={[styles.day, window.days.includes(day) && styles.optionActive]}
+                onPress={() => toggleDay(index, day)}
+              >
+                <Text style={[styles.optionText, window.days.includes(day) && styles.optionTextActive]}>
+                  {WEEKDAY_LABELS[day].charAt(0)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <BoundaryEditor
+            label="From"
+            boundary={window.start}
+            onChange={start => updateWindow(index, { ...window, start })}
+          />
+          <BoundaryEditor
+            label="Until"
+            boundary={window.end}
+            onChange={end => updateWindow(index, { ...window, end })}
+          />
+        </View>
+      ))}
+
+      {schedule.windows.length < MAX_SCHEDULE_WINDOWS && (
+        <TouchableOpacity style={styles.addButton} onPress={addWindow}>
+          <Plus size={16} color={theme.colors.primary} />
+          <Text style={styles.link}>Add window</Text>
+        </TouchableOpacity>
+      )}
+
+      <Text style={styles.sectionLabel}>Blackout Dates</Text>
+      {schedule.blackouts.length === 0 && (
+        <Text style={styles.hint}>No blackouts. Add one to pause capturing, e.g. during maintenance.</Text>
+      )}
+      {schedule.blackouts.map((blackout, index) => (
+        <View key={index} style={styles.blackoutRow}>
+          <Input
+            value={blackout.start}
+            onChangeText={start => onChange({
+              ...schedule,
+              blackouts: schedule.blackouts.map((item, i) => (i === index ? { ...item, start } : item)),
+            })}
+            placeholder="YYYY-MM-DD"
+            containerStyle={styles.blackoutInput}
+          />
+          <Input
+            value={blackout.end}
+            onChangeText={end => onChange({
+              ...schedule,
+              blackouts: schedule.blackouts.map((item, i) => (i === index ? { ...item, end } : item)),
+            })}
+            placeholder="YYYY-MM-DD"
+            containerStyle={styles.blackoutInput}
+          />
+          <TouchableOpacity
+            onPress={() => onChange({ ...schedule, blackouts: schedule.blackouts.filter((_, i) => i !== index) })}
+          >
+            <Trash2 size={16} color={theme.colors.error} />
+          </TouchableOpacity>
+        </View>
+      ))}
+      {schedule.blackouts.length < MAX_BLACKOUT_PERIODS && (
+        <TouchableOpacity style={styles.addButton} onPress={addBlackout}>
+          <Plus size={16} color={theme.colors.primary} />
+          <Text style={styles.link}>Add blackout</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  hint: {
+    fontFamily: 'Roboto',
+    fontSize: 12,
+    color: theme.colors.textLight,
+    marginBottom: 4,
+  },
+  warning: {
+    fontFamily: 'Roboto',
+    fontSize: 12,
+    color: theme.colors.warning,
+    marginBottom: 4,
+  },
+  link: {
+    fontFamily: 'Roboto-Bold',
+    fontSize: 14,
+    color: theme.colors.primary,
+    marginLeft: 4,
+  },
+  sectionLabel: {
+    fontFamily: 'Roboto',
+    fontSize: 14,
+    color: theme.colors.text,
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  window: {
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 8,
+  },
+  windowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  windowTitle: {
+    fontFamily: 'Roboto-Bold',
+    fontSize: 14,
+    color: theme.colors.text,
+  },
+  days: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  day: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: theme.colors.backgroundLight,
+    marginRight: 6,
+  },
+  boundary: {
+    marginTop: 8,
+  },
+  boundaryLabel: {
+    fontFamily: 'Roboto',
+    fontSize: 12,
+    color: theme.colors.textLight,
+    marginBottom: 4,
+  },
+  boundaryInput: {
+    marginBottom: 0,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: theme.colors.backgroundLight,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  optionActive: {
+    backgroundColor: theme.colors.primary,
+  },
+  optionText: {
+    fontFamily: 'Roboto',
+    fontSize: 14,
+    color: theme.colors.text,
+  },
+  optionTextActive: {
+    color: theme.colors.white,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  blackoutRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  blackoutInput: {
+    flex: 1,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+});
+
+export default ScheduleEditor;
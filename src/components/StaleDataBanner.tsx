@@ -0,0 +1,54 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { CloudOff, RefreshCw } from 'lucide-react-native';
+import { formatDistanceToNow } from 'date-fns';
+import { theme } from '../theme';
+import { useSync } from '../context/SyncContext';
+
+interface StaleDataBannerProps {
+  // When the data on screen was fetched; null while it is live
+  cachedAt: string | null | undefined;
+}
+
+const StaleDataBanner: React.FC<StaleDataBannerProps> = ({ cachedAt }) => {
+  const { isOnline, isSyncing } = useSync();
+
+  if (!cachedAt) {
+    return null;
+  }
+
+  const age = formatDistanceToNow(new Date(cachedAt), { addSuffix: true });
+  const reason = isOnline ? "Can't reach the server" : 'Offline';
+
+  return (
+    <View style={styles.banner}>
+      {isSyncing ? (
+        <RefreshCw size={16} color={theme.colors.white} />
+      ) : (
+        <CloudOff size={16} color={theme.colors.white} />
+      )}
+      <Text style={styles.text}>
+        {isSyncing ? 'Syncing' : reason} · showing data saved {age}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.warning,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  text: {
+    flex: 1,
+    fontFamily: 'Roboto',
+    fontSize: 13,
+    color: theme.colors.white,
+    marginLeft: 8,
+  },
+});
+
+export default StaleDataBanner;
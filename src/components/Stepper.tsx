@@ -0,0 +1,58 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Minus, Plus } from 'lucide-react-native';
+import { theme } from '../theme';
+
+interface StepperProps {
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  format?: (value: number) => string;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+}
+
+const Stepper: React.FC<StepperProps> = ({ value, min, max, step = 1, format, onChange, disabled }) => (
+  <View style={styles.stepper}>
+    <TouchableOpacity
+      style={styles.stepperButton}
+      onPress={() => onChange(Math.max(min, value - step))}
+      disabled={disabled || value <= min}
+    >
+      <Minus size={16} color={disabled || value <= min ? theme.colors.disabled : theme.colors.primary} />
+    </TouchableOpacity>
+    <Text style={styles.stepperValue}>{format ? format(value) : value}</Text>
+    <TouchableOpacity
+      style={styles.stepperButton}
+      onPress={() => onChange(Math.min(max, value + step))}
+      disabled={disabled || value >= max}
+    >
+      <Plus size={16} color={disabled || value >= max ? theme.colors.disabled : theme.colors.primary} />
+    </TouchableOpacity>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: theme.colors.backgroundLight,
+  },
+  stepperValue: {
+    fontFamily: 'Roboto-Bold',
+    fontSize: 16,
+    color: theme.colors.text,
+    minWidth: 44,
+    textAlign: 'center',
+  },
+});
+
+export default Stepper;
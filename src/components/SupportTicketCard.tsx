@@ -2,18 +2,10 @@ import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { theme } from '../theme';
 import { format } from 'date-fns';
-
-interface Ticket {
-  id: string;
-  title: string;
-  status: 'open' | 'in_progress' | 'closed';
-  createdAt: string;
-  lastUpdated: string;
-  description: string;
-}
+import { SupportTicket } from '../types/support';
 
 interface SupportTicketCardProps {
-  ticket: Ticket;
+  ticket: SupportTicket;
   onPress: () => void;
 }
 
@@ -57,10 +49,10 @@ const SupportTicketCard: React.FC<SupportTicketCardProps> = ({ ticket, onPress }
       </Text>
       <View style={styles.footer}>
         <Text style={styles.date}>
-          Created: {format(new Date(ticket.createdAt), 'MMM d, yyyy')}
+          Created: {format(new Date(ticket.created_at), 'MMM d, yyyy')}
         </Text>
         <Text style={styles.date}>
-          Updated: {format(new Date(ticket.lastUpdated), 'MMM d, yyyy')}
+          Updated: {format(new Date(ticket.updated_at), 'MMM d, yyyy')}
         </Text>
       </View>
     </TouchableOpacity>
@@ -10,6 +10,7 @@ import {
   updatePassword as authUpdatePassword,
   refreshSession as authRefreshSession
 } from '../services/authService';
+import { unregisterPushToken } from '../services/notificationService';
 import { 
   AuthContextType, 
   SignUpCredentials, 
@@ -149,6 +150,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setError(null);
     
     try {
+      // While still signed in, so the next user of this phone gets nothing
+      // meant for this one
+      await unregisterPushToken().catch(error => console.error('Unregister push token error:', error));
       await authSignOut();
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred during sign out';
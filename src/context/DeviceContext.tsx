@@ -1,6 +1,8 @@
 import React, { createContext, useState, useContext, useEffect } from 'react';
 import { 
   Device, 
+  DeviceInsert,
+  DeviceUpdate,
   DeviceFilters, 
   PaginationParams, 
   DeviceListResponse,
@@ -18,7 +20,7 @@ import { useAuth } from './AuthContext';
 
 interface DeviceContextType {
   devices: Device[];
-  totalDevices: number;
+  nextDeviceCursor: string | null;
   hasMoreDevices: boolean;
   selectedDevice: Device | null;
   deviceDetails: DeviceDetailsResponse | null;
@@ -26,15 +28,15 @@ interface DeviceContextType {
   error: string | null;
   fetchDevices: (filters?: DeviceFilters, pagination?: PaginationParams) => Promise<void>;
   fetchDeviceDetails: (deviceId: string) => Promise<void>;
-  registerDevice: (deviceData: Omit<Device, 'id' | 'user_id' | 'created_at' | 'updated_at'>) => Promise<Device>;
-  updateDeviceInfo: (deviceId: string, deviceData: Partial<Device>) => Promise<Device>;
+  registerDevice: (deviceData: Pick<DeviceInsert, 'name' | 'serial_number' | 'location' | 'model' | 'latitude' | 'longitude' | 'organization_id'>, claimCode: string) => Promise<Device>;
+  updateDeviceInfo: (deviceId: string, deviceData: DeviceUpdate) => Promise<Device>;
   removeDevice: (deviceId: string) => Promise<void>;
   clearDeviceError: () => void;
 }
 
 const DeviceContext = createContext<DeviceContextType>({
   devices: [],
-  totalDevices: 0,
+  nextDeviceCursor: null,
   hasMoreDevices: false,
   selectedDevice: null,
   deviceDetails: null,
@@ -53,7 +55,7 @@ export const useDevices = () => useContext(DeviceContext);
 export const DeviceProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { user } = useAuth();
   const [devices, setDevices] = useState<Device[]>([]);
-  const [totalDevices, setTotalDevices] = useState<number>(0);
+  const [nextDeviceCursor, setNextDeviceCursor] = useState<string | null>(null);
   const [hasMoreDevices, setHasMoreDevices] = useState<boolean>(false);
   const [selectedDevice, setSelectedDevice] = useState<Device | null>(null);
   const [deviceDetails, setDeviceDetails] = useState<DeviceDetailsResponse | null>(null);
@@ -64,7 +66,7 @@ export const DeviceProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   useEffect(() => {
     if (!user) {
       setDevices([]);
-      setTotalDevices(0);
+      setNextDeviceCursor(null);
       setHasMoreDevices(false);
       setSelectedDevice(null);
       setDeviceDetails(null);
@@ -74,7 +76,7 @@ export const DeviceProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   // Fetch devices
   const fetchDevices = async (
     filters: DeviceFilters = {},
-    pagination: PaginationParams = { page: 1, pageSize: 10 }
+    pagination: PaginationParams = { pageSize: 10 }
   ) => {
     if (!user) return;
     
@@ -84,13 +86,14 @@ export const DeviceProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     try {
       const response = await getDevices(filters, pagination);
       
-      if (pagination.page === 1) {
-        setDevices(response.devices);
-      } else {
+      // A cursor continues the list; without one the list starts over
+      if (pagination.cursor) {
         setDevices(prev => [...prev, ...response.devices]);
+      } else {
+        setDevices(response.devices);
       }
       
-      setTotalDevices(response.totalCount);
+      setNextDeviceCursor(response.nextCursor);
       setHasMoreDevices(response.hasMore);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to fetch devices';
@@ -120,18 +123,20 @@ export const DeviceProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   };
 
   // Register a new device
-  const registerDevice = async (deviceData: Omit<Device, 'id' | 'user_id' | 'created_at' | 'updated_at'>) => {
+  const registerDevice = async (
+    deviceData: Pick<DeviceInsert, 'name' | 'serial_number' | 'location' | 'model' | 'latitude' | 'longitude' | 'organization_id'>,
+    claimCode: string
+  ) => {
     if (!user) throw new Error('User not authenticated');
     
     setIsLoading(true);
     setError(null);
     
     try {
-      const newDevice = await addDevice(deviceData);
+      const newDevice = await addDevice(deviceData, claimCode);
       
       // Update the devices list
       setDevices(prev => [newDevice, ...prev]);
-      setTotalDevices(prev => prev + 1);
       
       return newDevice;
     } catch (error) {
@@ -144,7 +149,7 @@ export const DeviceProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   };
 
   // Update device information
-  const updateDeviceInfo = async (deviceId: string, deviceData: Partial<Device>) => {
+  const updateDeviceInfo = async (deviceId: string, deviceData: DeviceUpdate) => {
     if (!user) throw new Error('User not authenticated');
     
     setIsLoading(true);
@@ -195,7 +200,6 @@ export const DeviceProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       
       // Update the devices list
       setDevices(prev => prev.filter(device => device.id !== deviceId));
-      setTotalDevices(prev => prev - 1);
       
       // Clear selected device if it's the one being deleted
       if (selectedDevice && selectedDevice.id === deviceId) {
@@ -249,7 +253,7 @@ export const DeviceProvider: React.FC<{ children: React.ReactNode }> = ({ childr
 
   const value: DeviceContextType = {
     devices,
-    totalDevices,
+    nextDeviceCursor,
     hasMoreDevices,
     selectedDevice,
     deviceDetails,
@@ -0,0 +1,80 @@
+import React, { createContext, useState, useContext, useEffect } from 'react';
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { router } from 'expo-router';
+import { registerPushToken } from '../services/notificationService';
+import { PushNotificationData } from '../types/notification';
+import { useAuth } from './AuthContext';
+
+interface NotificationContextType {
+  // Whether this installation receives push notifications for the user
+  pushRegistered: boolean;
+  registerForPush: () => Promise<boolean>;
+}
+
+const NotificationContext = createContext<NotificationContextType>({
+  pushRegistered: false,
+  registerForPush: async () => false,
+});
+
+export const useNotifications = () => useContext(NotificationContext);
+
+// Show notifications that arrive while the app is open
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowAlert: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [pushRegistered, setPushRegistered] = useState(false);
+
+  const registerForPush = async () => {
+    try {
+      const token = await registerPushToken();
+      setPushRegistered(Boolean(token));
+      return Boolean(token);
+    } catch (error) {
+      console.error('Push registration error:', error);
+      setPushRegistered(false);
+      return false;
+    }
+  };
+
+  // Register whenever a user signs in on this installation
+  useEffect(() => {
+    if (user) {
+      registerForPush();
+    } else {
+      setPushRegistered(false);
+    }
+  }, [user?.id]);
+
+  // Open the screen a notification is about when it is tapped
+  useEffect(() => {
+    if (Platform.OS === 'web') return;
+
+    const subscription = Notifications.addNotificationResponseReceivedListener(response => {
+      const data = response.notification.request.content.data as Partial<PushNotificationData>;
+      if (data?.url) {
+        router.push(data.url as never);
+      }
+    });
+
+    return () => subscription.remove();
+  }, []);
+
+  return (
+    <NotificationContext.Provider
+      value={{
+        pushRegistered,
+        registerForPush,
+      }}
+    >
+      {children}
+    </NotificationContext.Provider>
+  );
+};
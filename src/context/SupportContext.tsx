@@ -21,7 +21,7 @@ import { useAuth } from './AuthContext';
 
 interface SupportContextType {
   tickets: SupportTicket[];
-  totalTickets: number;
+  nextTicketCursor: string | null;
   hasMoreTickets: boolean;
   selectedTicket: SupportTicket | null;
   ticketDetails: TicketDetailsResponse | null;
@@ -37,7 +37,7 @@ interface SupportContextType {
 
 const SupportContext = createContext<SupportContextType>({
   tickets: [],
-  totalTickets: 0,
+  nextTicketCursor: null,
   hasMoreTickets: false,
   selectedTicket: null,
   ticketDetails: null,
@@ -56,7 +56,7 @@ export const useSupport = () => useContext(SupportContext);
 export const SupportProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { user } = useAuth();
   const [tickets, setTickets] = useState<SupportTicket[]>([]);
-  const [totalTickets, setTotalTickets] = useState<number>(0);
+  const [nextTicketCursor, setNextTicketCursor] = useState<string | null>(null);
   const [hasMoreTickets, setHasMoreTickets] = useState<boolean>(false);
   const [selectedTicket, setSelectedTicket] = useState<SupportTicket | null>(null);
   const [ticketDetails, setTicketDetails] = useState<TicketDetailsResponse | null>(null);
@@ -68,7 +68,7 @@ export const SupportProvider: React.FC<{ children: React.ReactNode }> = ({ child
   useEffect(() => {
     if (!user) {
       setTickets([]);
-      setTotalTickets(0);
+      setNextTicketCursor(null);
       setHasMoreTickets(false);
       setSelectedTicket(null);
       setTicketDetails(null);
@@ -84,7 +84,7 @@ export const SupportProvider: React.FC<{ children: React.ReactNode }> = ({ child
   // Fetch tickets
   const fetchTickets = async (
     filters: TicketFilters = {},
-    pagination: PaginationParams = { page: 1, pageSize: 10 }
+    pagination: PaginationParams = { pageSize: 10 }
   ) => {
     if (!user) return;
     
@@ -94,13 +94,14 @@ export const SupportProvider: React.FC<{ children: React.ReactNode }> = ({ child
     try {
       const response = await getTickets(filters, pagination);
       
-      if (pagination.page === 1) {
-        setTickets(response.tickets);
-      } else {
+      // A cursor continues the list; without one the list starts over
+      if (pagination.cursor) {
         setTickets(prev => [...prev, ...response.tickets]);
+      } else {
+        setTickets(response.tickets);
       }
       
-      setTotalTickets(response.totalCount);
+      setNextTicketCursor(response.nextCursor);
       setHasMoreTickets(response.hasMore);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to fetch tickets';
@@ -155,7 +156,6 @@ export const SupportProvider: React.FC<{ children: React.ReactNode }> = ({ child
       
       // Update the tickets list
       setTickets(prev => [newTicket, ...prev]);
-      setTotalTickets(prev => prev + 1);
       
       return newTicket;
     } catch (error) {
@@ -243,7 +243,7 @@ export const SupportProvider: React.FC<{ children: React.ReactNode }> = ({ child
 
   const value: SupportContextType = {
     tickets,
-    totalTickets,
+    nextTicketCursor,
     hasMoreTickets,
     selectedTicket,
     ticketDetails,
@@ -0,0 +1,57 @@
+import React, { createContext, useState, useContext, useEffect, useRef } from 'react';
+import { getSyncService, SyncStatus } from '../services/syncService';
+import { clearOfflineCache } from '../services/offlineCacheService';
+import { useAuth } from './AuthContext';
+
+interface SyncContextType extends SyncStatus {
+  syncNow: () => Promise<void>;
+}
+
+const SyncContext = createContext<SyncContextType>({
+  isOnline: true,
+  isSyncing: false,
+  lastSyncedAt: null,
+  error: null,
+  syncNow: async () => {},
+});
+
+export const useSync = () => useContext(SyncContext);
+
+export const SyncProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<SyncStatus>(() => getSyncService().getStatus());
+  const previousUserId = useRef<string | null>(null);
+
+  useEffect(() => getSyncService().subscribe(setStatus), []);
+
+  // Mirror the signed in user's data; drop it on sign-out
+  useEffect(() => {
+    const service = getSyncService();
+
+    if (user) {
+      previousUserId.current = user.id;
+      service.start(user.id).catch(error => console.error('Start sync error:', error));
+      return () => service.stop();
+    }
+
+    if (previousUserId.current) {
+      previousUserId.current = null;
+      clearOfflineCache().catch(error => console.error('Clear offline cache error:', error));
+    }
+  }, [user?.id]);
+
+  const syncNow = async () => {
+    await getSyncService().syncNow();
+  };
+
+  return (
+    <SyncContext.Provider
+      value={{
+        ...status,
+        syncNow,
+      }}
+    >
+      {children}
+    </SyncContext.Provider>
+  );
+};
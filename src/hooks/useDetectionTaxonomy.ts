@@ -0,0 +1,35 @@
+import { useState, useEffect } from 'react';
+import { DetectionTaxonomy } from '../types/detection';
+import { EMPTY_TAXONOMY } from '../lib/detectionTaxonomy';
+import { getDetectionTaxonomy } from '../services/detectionService';
+
+/**
+ * Hook for the detection type taxonomy
+ *
+ * Until it loads, or if it cannot be loaded, the taxonomy is empty and
+ * detection types are shown with generated labels and neutral colours.
+ * @returns Object with the taxonomy and any load error
+ */
+export const useDetectionTaxonomy = () => {
+  const [taxonomy, setTaxonomy] = useState<DetectionTaxonomy>(EMPTY_TAXONOMY);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+
+    getDetectionTaxonomy()
+      .then(result => {
+        if (active) setTaxonomy(result);
+      })
+      .catch(err => {
+        console.error('Error loading detection types:', err);
+        if (active) setError(err instanceof Error ? err.message : 'Failed to load detection types');
+      });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  return { taxonomy, error };
+};
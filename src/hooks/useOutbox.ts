@@ -0,0 +1,48 @@
+import { useState, useEffect } from 'react';
+import { OutboxItem } from '../types/outbox';
+import {
+  subscribeToOutbox,
+  retryOutboxItem,
+  discardOutboxItem
+} from '../services/outboxService';
+
+/**
+ * Hook for the signed in user's queued changes
+ * @param filter Optional test selecting which items to show
+ * @returns Object with the items and functions to retry or discard them
+ */
+export const useOutbox = (filter?: (item: OutboxItem) => boolean) => {
+  const [allItems, setAllItems] = useState<OutboxItem[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    return subscribeToOutbox(setAllItems);
+  }, []);
+
+  const retry = async (id: string, overwrite = false) => {
+    try {
+      setError(null);
+      await retryOutboxItem(id, { overwrite });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to retry change');
+    }
+  };
+
+  const discard = async (id: string) => {
+    try {
+      setError(null);
+      await discardOutboxItem(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to discard change');
+    }
+  };
+
+  return {
+    // Every item, so dependencies outside the filter can still be named
+    allItems,
+    items: filter ? allItems.filter(filter) : allItems,
+    error,
+    retry,
+    discard,
+  };
+};
@@ -0,0 +1,137 @@
+import { useState, useEffect, useRef, DependencyList } from 'react';
+
+export interface CursorPage<T> {
+  items: T[];
+  nextCursor: string | null;
+  // Set when the page was served from the offline cache
+  cachedAt?: string | null;
+}
+
+/**
+ * Hook for lists loaded a page at a time with cursors
+ *
+ * The list starts over from the first page whenever `deps` change. Pulling to
+ * refresh reloads the first page but keeps the pages loaded after it, so the
+ * list does not jump back to the top; rows that came back in the fresh page
+ * replace their older copies, and loaded rows that sort after it are kept.
+ * @param fetchPage Loads the page after a cursor, or the first page for null
+ * @param deps Values the query depends on, such as filters
+ * @returns Object with the loaded items, list state and control functions
+ */
+export const usePaginatedQuery = <T extends { id: string }>(
+  fetchPage: (cursor: string | null) => Promise<CursorPage<T>>,
+  deps: DependencyList
+) => {
+  const [items, setItems] = useState<T[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Oldest fetch time of the cached pages shown, or null when all are live
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+
+  // Bumped when deps change so responses for the previous query are dropped
+  const generation = useRef(0);
+  const fetchPageRef = useRef(fetchPage);
+  fetchPageRef.current = fetchPage;
+
+  const reload = async () => {
+    const current = ++generation.current;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const page = await fetchPageRef.current(null);
+      if (current !== generation.current) return;
+
+      setItems(page.items);
+      setCursor(page.nextCursor);
+      setCachedAt(page.cachedAt ?? null);
+    } catch (err) {
+      if (current !== generation.current) return;
+      setError(err instanceof Error ? err.message : 'Failed to load');
+    } finally {
+      if (current === generation.current) setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, deps);
+
+  const loadMore = async () => {
+    if (loading || loadingMore || refreshing || !cursor) return;
+    const current = generation.current;
+
+    try {
+      setLoadingMore(true);
+      const page = await fetchPageRef.current(cursor);
+      if (current !== generation.current) return;
+
+      // Rows added live since the last page may already be in the list
+      setItems(previous => {
+        const loaded = new Set(previous.map(item => item.id));
+        return [...previous, ...page.items.filter(item => !loaded.has(item.id))];
+      });
+      setCursor(page.nextCursor);
+      if (page.cachedAt) {
+        setCachedAt(previous => previous && previous < page.cachedAt! ? previous : page.cachedAt!);
+      }
+    } catch (err) {
+      if (current !== generation.current) return;
+      setError(err instanceof Error ? err.message : 'Failed to load more');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const refresh = async () => {
+    if (loading) return;
+    const current = generation.current;
+
+    try {
+      setRefreshing(true);
+      setError(null);
+      const page = await fetchPageRef.current(null);
+      if (current !== generation.current) return;
+
+      // Loaded rows after the last one the fresh page still holds sort after
+      // it; rows inserted above push the page down, so its length is no guide.
+      // With no row in common, more rows may have been inserted than fit in
+      // the page, so the list starts over from it
+      const fresh = new Set(page.items.map(item => item.id));
+      let lastFresh = -1;
+      items.forEach((item, index) => {
+        if (fresh.has(item.id)) lastFresh = index;
+      });
+      const laterPages = lastFresh >= 0 && page.nextCursor
+        ? items.slice(lastFresh + 1).filter(item => !fresh.has(item.id))
+        : [];
+
+      setItems([...page.items, ...laterPages]);
+      // Later pages end where the old cursor points
+      setCursor(laterPages.length > 0 ? cursor : page.nextCursor);
+      setCachedAt(page.cachedAt ?? null);
+    } catch (err) {
+      if (current !== generation.current) return;
+      setError(err instanceof Error ? err.message : 'Failed to refresh');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  return {
+    items,
+    setItems,
+    loading,
+    loadingMore,
+    refreshing,
+    error,
+    cachedAt,
+    hasMore: cursor !== null,
+    loadMore,
+    refresh,
+    reload,
+  };
+};
@@ -0,0 +1,85 @@
+import { z } from 'zod';
+
+/**
+ * Detection classification metadata
+ *
+ * The shape of `device_detections.detection_data`, validated by the
+ * `device-ingest` function with the same schema
+ * (`supabase/functions/_shared/detectionData.ts`). Ingest stores taxonomy
+ * ids for detection types, so they are checked as slugs here. Every field is optional,
+ * and detections stored before validation existed may hold anything, so
+ * read stored data with `readDetectionData`.
+ */
+
+export const DetectionTypeIdSchema = z.string().regex(/^[a-z0-9_]{1,64}$/, 'Detection types must be lowercase slugs, e.g. wild_boar');
+
+// Coordinates are fractions of the image size, from its top left corner
+export const BoundingBoxSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().gt(0).max(1),
+  height: z.number().gt(0).max(1),
+  // A different type for this box when one image holds several
+  detection_type: DetectionTypeIdSchema.optional(),
+  confidence: z.number().min(0).max(1).optional(),
+  // The box's type as reported, when it is not a taxonomy id
+  reported_type: z.string().max(64).optional(),
+})
+  .refine(box => box.x + box.width <= 1.0001 && box.y + box.height <= 1.0001, {
+    message: 'Bounding boxes must lie within the image',
+  });
+
+export const DetectionDataSchema = z.object({
+  // Classifier confidence in the detection type, 0 to 1
+  confidence: z.number().min(0).max(1).optional(),
+  // Number of individuals seen
+  count: z.number().int().min(1).max(1000).optional(),
+  bounding_boxes: z.array(BoundingBoxSchema).max(100).optional(),
+  model_version: z.string().trim().min(1).max(64).optional(),
+  // The detection type as reported, when it is not a taxonomy id
+  reported_type: z.string().max(64).optional(),
+}).passthrough();
+
+export type DetectionData = z.infer<typeof DetectionDataSchema>;
+export type BoundingBox = z.infer<typeof BoundingBoxSchema>;
+
+/**
+ * Read stored detection data for display
+ *
+ * Fields that do not match the schema are dropped rather than failing the
+ * whole detection.
+ * @param value - Raw detection_data JSON, possibly null
+ * @returns Valid detection data, empty when nothing is usable
+ */
+export const readDetectionData = (value: unknown): DetectionData => {
+  const result = DetectionDataSchema.safeParse(value);
+  if (result.success) return result.data;
+
+  const raw = value && typeof value === 'object' && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : {};
+  const shape = DetectionDataSchema.shape;
+  const data: DetectionData = {};
+
+  const confidence = shape.confidence.safeParse(raw.confidence);
+  if (confidence.success) data.confidence = confidence.data;
+
+  const count = shape.count.safeParse(raw.count);
+  if (count.success) data.count = count.data;
+
+  const modelVersion = shape.model_version.safeParse(raw.model_version);
+  if (modelVersion.success) data.model_version = modelVersion.data;
+
+  const reportedType = shape.reported_type.safeParse(raw.reported_type);
+  if (reportedType.success) data.reported_type = reportedType.data;
+
+  if (Array.isArray(raw.bounding_boxes)) {
+    const boxes = raw.bounding_boxes.flatMap(box => {
+      const parsed = BoundingBoxSchema.safeParse(box);
+      return parsed.success ? [parsed.data] : [];
+    });
+    if (boxes.length > 0) data.bounding_boxes = boxes;
+  }
+
+  return data;
+};
@@ -0,0 +1,270 @@
+import { theme } from '../theme';
+import { DetectionGrouping, DetectionTaxonomy, DetectionType } from '../types/detection';
+import { DeviceDetectionData } from '../types/device';
+
+/**
+ * Detection type taxonomy
+ *
+ * Detection types form a hierarchy stored in `detection_types`: species
+ * such as deer sit under classes such as mammals, which sit under animals.
+ * Any node can be a detection's type. Charts and lists filter by a node,
+ * which includes everything below it, and can group counts by class,
+ * rolling species up into the classes directly below the filter.
+ *
+ * Types missing from the taxonomy, e.g. in data cached before it loaded,
+ * are shown with a generated label and a neutral colour.
+ */
+
+const FALLBACK_COLOR = theme.colors.disabled;
+const FALLBACK_ICON = 'circle-help';
+
+// Lineages are short; this only guards against a cycle added by hand
+const MAX_DEPTH = 16;
+
+export const EMPTY_TAXONOMY: DetectionTaxonomy = {
+  types: new Map(),
+  children: new Map(),
+};
+
+const compareTypes = (a: DetectionType, b: DetectionType) =>
+  a.sort_order - b.sort_order || a.label.localeCompare(b.label);
+
+/**
+ * Index detection types by id and by parent
+ * @param types - Rows from detection_types
+ * @returns Taxonomy with each node's children in display order
+ */
+export const buildDetectionTaxonomy = (types: DetectionType[]): DetectionTaxonomy => {
+  const byId = new Map<string, DetectionType>();
+  const children = new Map<string | null, DetectionType[]>();
+
+  for (const type of types) {
+    byId.set(type.id, type);
+  }
+
+  for (const type of types) {
+    // Children of a missing parent are shown at the top level
+    const parentId = type.parent_id && byId.has(type.parent_id) ? type.parent_id : null;
+    children.set(parentId, [...(children.get(parentId) || []), type]);
+  }
+
+  children.forEach(siblings => siblings.sort(compareTypes));
+
+  return { types: byId, children };
+};
+
+/**
+ * A detection type and its ancestors
+ * @param taxonomy - The taxonomy
+ * @param typeId - Detection type id
+ * @returns Ids from the type itself up to its top level class
+ */
+export const getDetectionTypeLineage = (taxonomy: DetectionTaxonomy, typeId: string): string[] => {
+  const lineage = [typeId];
+  let current = taxonomy.types.get(typeId);
+
+  while (current?.parent_id && lineage.length < MAX_DEPTH) {
+    lineage.push(current.parent_id);
+    current = taxonomy.types.get(current.parent_id);
+  }
+
+  return lineage;
+};
+
+/**
+ * Whether a detection type is a node or anywhere below it
+ * @param taxonomy - The taxonomy
+ * @param typeId - Detection type id
+ * @param ancestorId - The node to test against; null matches every type
+ * @returns True when the type is within the node
+ */
+export const isDetectionTypeWithin = (
+  taxonomy: DetectionTaxonomy,
+  typeId: string,
+  ancestorId: string | null
+): boolean => ancestorId === null || getDetectionTypeLineage(taxonomy, typeId).includes(ancestorId);
+
+/**
+ * A node and every type below it
+ * @param taxonomy - The taxonomy
+ * @param typeId - Detection type id
+ * @returns Ids in tree order, starting with the node itself
+ */
+export const getDetectionTypeDescendants = (taxonomy: DetectionTaxonomy, typeId: string): string[] => {
+  const ids: string[] = [];
+  const visit = (id: string, depth: number) => {
+    ids.push(id);
+    if (depth >= MAX_DEPTH) return;
+    for (const child of taxonomy.children.get(id) || []) {
+      visit(child.id, depth + 1);
+    }
+  };
+
+  visit(typeId, 0);
+  return ids;
+};
+
+/**
+ * Display label for a detection type
+ * @param taxonomy - The taxonomy
+ * @param typeId - Detection type id
+ * @returns The taxonomy label, or one made from the id, e.g. Wild boar
+ */
+export const getDetectionTypeLabel = (taxonomy: DetectionTaxonomy, typeId: string): string => {
+  const type = taxonomy.types.get(typeId);
+  if (type) return type.label;
+
+  const words = typeId.replace(/_/g, ' ').trim();
+  return words ? words.charAt(0).toUpperCase() + words.slice(1) : 'Unknown';
+};
+
+/**
+ * Colour for a detection type
+ * @param taxonomy - The taxonomy
+ * @param typeId - Detection type id
+ * @returns Hex colour
+ */
+export const getDetectionTypeColor = (taxonomy: DetectionTaxonomy, typeId: string): string =>
+  taxonomy.types.get(typeId)?.color || FALLBACK_COLOR;
+
+/**
+ * Icon name for a detection type, as used by DetectionTypeIcon
+ * @param taxonomy - The taxonomy
+ * @param typeId - Detection type id
+ * @returns Lucide icon name
+ */
+export const getDetectionTypeIcon = (taxonomy: DetectionTaxonomy, typeId: string): string =>
+  taxonomy.types.get(typeId)?.icon || FALLBACK_ICON;
+
+/**
+ * Classes to offer as filters: top level nodes and the nodes directly below
+ * them that have children of their own, in tree order
+ * @param taxonomy - The taxonomy
+ * @param presentTypes - Only offer classes containing one of these types
+ * @returns Detection types
+ */
+export const getDetectionClasses = (
+  taxonomy: DetectionTaxonomy,
+  presentTypes?: string[]
+): DetectionType[] => {
+  const classes: DetectionType[] = [];
+
+  for (const root of taxonomy.children.get(null) || []) {
+    classes.push(root);
+    for (const child of taxonomy.children.get(root.id) || []) {
+      if (taxonomy.children.has(child.id)) classes.push(child);
+    }
+  }
+
+  if (!presentTypes) return classes;
+
+  return classes.filter(type =>
+    presentTypes.some(present => isDetectionTypeWithin(taxonomy, present, type.id))
+  );
+};
+
+/**
+ * The key a detection type is counted under
+ * @param taxonomy - The taxonomy
+ * @param typeId - Detection type id
+ * @param filter - Selected node, or null for all types
+ * @param grouping - Count each type, or roll types up by class
+ * @returns Key, or null when the type is outside the filter
+ */
+const getGroupKey = (
+  taxonomy: DetectionTaxonomy,
+  typeId: string,
+  filter: string | null,
+  grouping: DetectionGrouping
+): string | null => {
+  const lineage = getDetectionTypeLineage(taxonomy, typeId);
+
+  if (filter === null) {
+    return grouping === 'class' ? lineage[lineage.length - 1] : typeId;
+  }
+
+  const index = lineage.indexOf(filter);
+  if (index === -1) return null;
+
+  // The node directly below the filter, or the filter itself
+  return grouping === 'class' ? lineage[Math.max(index - 1, 0)] : typeId;
+};
+
+/**
+ * Sort keys into taxonomy order, unknown types last
+ * @param taxonomy - The taxonomy
+ * @param keys - Detection type ids
+ * @returns Sorted ids
+ */
+export const sortDetectionTypes = (taxonomy: DetectionTaxonomy, keys: string[]): string[] => {
+  const order = new Map<string, number>();
+  let position = 0;
+  const visit = (parentId: string | null, depth: number) => {
+    for (const type of taxonomy.children.get(parentId) || []) {
+      order.set(type.id, position++);
+      if (depth < MAX_DEPTH) visit(type.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+
+  return [...keys].sort((a, b) =>
+    (order.get(a) ?? Infinity) - (order.get(b) ?? Infinity) || a.localeCompare(b)
+  );
+};
+
+/**
+ * Filter and group per-type counts
+ * @param byType - Counts keyed by detection type
+ * @param taxonomy - The taxonomy
+ * @param filter - Selected node, or null for all types
+ * @param grouping - Count each type, or roll types up by class
+ * @returns Counts keyed by type or class
+ */
+export const groupDetectionCounts = (
+  byType: Record<string, number>,
+  taxonomy: DetectionTaxonomy,
+  filter: string | null,
+  grouping: DetectionGrouping
+): Record<string, number> => {
+  const grouped: Record<string, number> = {};
+
+  for (const [typeId, count] of Object.entries(byType)) {
+    const key = getGroupKey(taxonomy, typeId, filter, grouping);
+    if (key !== null) grouped[key] = (grouped[key] || 0) + count;
+  }
+
+  return grouped;
+};
+
+/**
+ * Filter and group bucketed detection counts for a chart
+ * @param data - Detection counts per bucket, with per-type counts
+ * @param taxonomy - The taxonomy
+ * @param filter - Selected node, or null for all types
+ * @param grouping - Count each type, or roll types up by class
+ * @returns Regrouped buckets and the keys present, in taxonomy order
+ */
+export const groupDetectionData = (
+  data: DeviceDetectionData[],
+  taxonomy: DetectionTaxonomy,
+  filter: string | null,
+  grouping: DetectionGrouping
+): { data: DeviceDetectionData[]; detectionTypes: string[] } => {
+  const keys = new Set<string>();
+
+  const grouped = data.map(point => {
+    // Points without a breakdown can only be shown unfiltered
+    if (!point.byType) return filter ? { ...point, count: 0 } : point;
+
+    const byType = groupDetectionCounts(point.byType, taxonomy, filter, grouping);
+    Object.keys(byType).forEach(key => keys.add(key));
+
+    return {
+      ...point,
+      byType,
+      count: Object.values(byType).reduce((sum, count) => sum + count, 0),
+    };
+  });
+
+  return { data: grouped, detectionTypes: sortDetectionTypes(taxonomy, Array.from(keys)) };
+};
@@ -0,0 +1,236 @@
+import { z } from 'zod';
+
+/**
+ * Device settings
+ *
+ * The shape of `devices.settings`, `device_groups.settings` and every pushed
+ * configuration version. The database normalises rows written in the legacy
+ * shape (free-text `captureFrequency`, `["All alerts"]`, `activeHours`) with
+ * `normalize_device_settings`; `readDeviceSettings` does the same for values
+ * that reach the app, such as settings reported by older firmware.
+ *
+ * The capture schedule is stored as written here and compiled into UTC
+ * intervals for the hardware by the device-config endpoint.
+ */
+
+export const CAPTURE_INTERVALS = ['5m', '15m', '30m', '1h', '2h', '4h', '6h', '12h', '24h'] as const;
+
+export const CAPTURE_INTERVAL_LABELS: Record<CaptureInterval, string> = {
+  '5m': 'Every 5 minutes',
+  '15m': 'Every 15 minutes',
+  '30m': 'Every 30 minutes',
+  '1h': 'Every hour',
+  '2h': 'Every 2 hours',
+  '4h': 'Every 4 hours',
+  '6h': 'Every 6 hours',
+  '12h': 'Every 12 hours',
+  '24h': 'Once a day',
+};
+
+export const NOTIFICATION_EVENTS = ['detection', 'low_battery', 'offline'] as const;
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEvent, string> = {
+  detection: 'Detections',
+  low_battery: 'Low battery',
+  offline: 'Offline',
+};
+
+export const SENSITIVITY_RANGE = { min: 1, max: 10 };
+export const BURST_COUNT_RANGE = { min: 1, max: 10 };
+// 0 records photos only
+export const VIDEO_LENGTH_RANGE = { min: 0, max: 60 };
+
+// Sunday first, matching Date.getDay()
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+export const ALL_WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+
+export const SOLAR_OFFSET_LIMIT_MINUTES = 180;
+export const MAX_SCHEDULE_WINDOWS = 8;
+export const MAX_BLACKOUT_PERIODS = 20;
+
+// 24 hour clock, e.g. 06:30
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Rejects dates that do not exist, e.g. 2025-02-30
+const isValidDate = (value: string) => {
+  const date = new Date(`${value}T00:00:00Z`);
+  return DATE_PATTERN.test(value) && !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+const isValidTimeZone = (value: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const WindowBoundarySchema = z.union([
+  z.object({
+    type: z.literal('time'),
+    time: z.string().regex(TIME_PATTERN, 'Times must be HH:MM'),
+  }).strict(),
+  z.object({
+    type: z.enum(['sunrise', 'sunset']),
+    offsetMinutes: z.number().int().min(-SOLAR_OFFSET_LIMIT_MINUTES).max(SOLAR_OFFSET_LIMIT_MINUTES),
+  }).strict(),
+]);
+
+// A window whose end is not after its start runs into the next day
+const CaptureWindowSchema = z.object({
+  days: z
+    .array(z.number().int().min(0).max(6))
+    .min(1, 'Pick at least one day')
+    .refine(days => new Set(days).size === days.length, 'Days must not repeat'),
+  start: WindowBoundarySchema,
+  end: WindowBoundarySchema,
+}).strict().refine(
+  window => JSON.stringify(window.start) !== JSON.stringify(window.end),
+  'Start and end must differ'
+);
+
+const BlackoutPeriodSchema = z.object({
+  start: z.string().refine(isValidDate, 'Dates must be YYYY-MM-DD'),
+  end: z.string().refine(isValidDate, 'Dates must be YYYY-MM-DD'),
+  reason: z.string().trim().max(100).optional(),
+}).strict().refine(period => period.start <= period.end, 'Blackouts must end on or after their start');
+
+export const CaptureScheduleSchema = z.object({
+  timeZone: z.string().refine(isValidTimeZone, 'Unknown time zone'),
+  // No windows captures around the clock
+  windows: z.array(CaptureWindowSchema).max(MAX_SCHEDULE_WINDOWS, `Use at most ${MAX_SCHEDULE_WINDOWS} windows`),
+  blackouts: z.array(BlackoutPeriodSchema).max(MAX_BLACKOUT_PERIODS, `Use at most ${MAX_BLACKOUT_PERIODS} blackouts`),
+}).strict();
+
+export const DeviceSettingsSchema = z.object({
+  captureInterval: z.enum(CAPTURE_INTERVALS),
+  sensitivityLevel: z.number().int().min(SENSITIVITY_RANGE.min).max(SENSITIVITY_RANGE.max),
+  nightMode: z.boolean(),
+  burstCount: z.number().int().min(BURST_COUNT_RANGE.min).max(BURST_COUNT_RANGE.max),
+  videoLengthSeconds: z.number().int().min(VIDEO_LENGTH_RANGE.min).max(VIDEO_LENGTH_RANGE.max),
+  schedule: CaptureScheduleSchema,
+  notificationPreferences: z.array(z.enum(NOTIFICATION_EVENTS)),
+}).strict();
+
+export type DeviceSettings = z.infer<typeof DeviceSettingsSchema>;
+export type CaptureInterval = DeviceSettings['captureInterval'];
+export type NotificationEvent = DeviceSettings['notificationPreferences'][number];
+export type CaptureSchedule = DeviceSettings['schedule'];
+export type CaptureWindow = CaptureSchedule['windows'][number];
+export type WindowBoundary = CaptureWindow['start'];
+export type BlackoutPeriod = CaptureSchedule['blackouts'][number];
+
+// Keep in sync with normalize_device_settings in the database
+export const DEFAULT_DEVICE_SETTINGS: DeviceSettings = {
+  captureInterval: '4h',
+  sensitivityLevel: 5,
+  nightMode: true,
+  burstCount: 1,
+  videoLengthSeconds: 0,
+  schedule: { timeZone: 'UTC', windows: [], blackouts: [] },
+  notificationPreferences: [...NOTIFICATION_EVENTS],
+};
+
+const CAPTURE_INTERVAL_MINUTES: Record<CaptureInterval, number> = {
+  '5m': 5,
+  '15m': 15,
+  '30m': 30,
+  '1h': 60,
+  '2h': 120,
+  '4h': 240,
+  '6h': 360,
+  '12h': 720,
+  '24h': 1440,
+};
+
+/**
+ * Map a legacy free-text frequency such as "Every 4 hours" to the shortest
+ * interval that is at least as long
+ * @param frequency - The legacy `captureFrequency` value
+ * @returns The matching interval, or undefined if it cannot be read
+ */
+const parseLegacyCaptureFrequency = (frequency: string): CaptureInterval | undefined => {
+  const text = frequency.toLowerCase();
+  const unit = /min/.test(text) ? 1 : /hour/.test(text) ? 60 : /day/.test(text) ? 1440 : null;
+  if (unit === null) return undefined;
+
+  const count = Number(/(\d+)/.exec(text)?.[1] ?? 1);
+  const minutes = count * unit;
+
+  return CAPTURE_INTERVALS.find(interval => CAPTURE_INTERVAL_MINUTES[interval] >= minutes)
+    ?? CAPTURE_INTERVALS[CAPTURE_INTERVALS.length - 1];
+};
+
+/**
+ * Validate settings before they are saved or pushed to a device
+ * @param settings - The settings to check
+ * @returns The parsed settings
+ * @throws Error naming the first invalid setting
+ */
+export const validateDeviceSettings = (settings: unknown): DeviceSettings => {
+  const result = DeviceSettingsSchema.safeParse(settings);
+
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.join('.');
+    throw new Error(path ? `Invalid setting ${path}: ${issue.message}` : issue.message);
+  }
+
+  return result.data;
+};
+
+/**
+ * Read stored settings for display or editing
+ *
+ * Each setting falls back to its default on its own, so one bad value does
+ * not discard the rest. Unknown keys are dropped.
+ * @param value - Raw settings JSON, possibly null or in the legacy shape
+ * @returns Complete, valid settings
+ */
+export const readDeviceSettings = (value: unknown): DeviceSettings => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { ...DEFAULT_DEVICE_SETTINGS };
+  }
+
+  const raw = { ...(value as Record<string, unknown>) };
+
+  if (raw.captureInterval === undefined && typeof raw.captureFrequency === 'string') {
+    raw.captureInterval = parseLegacyCaptureFrequency(raw.captureFrequency);
+  }
+  if (Array.isArray(raw.notificationPreferences) && raw.notificationPreferences.includes('All alerts')) {
+    raw.notificationPreferences = [...NOTIFICATION_EVENTS];
+  }
+  if (raw.schedule === undefined && raw.activeHours && typeof raw.activeHours === 'object') {
+    const hours = raw.activeHours as { start?: unknown; end?: unknown };
+    raw.schedule = {
+      timeZone: 'UTC',
+      windows: [{
+        days: ALL_WEEKDAYS,
+        start: { type: 'time', time: hours.start },
+        end: { type: 'time', time: hours.end },
+      }],
+      blackouts: [],
+    };
+  }
+
+  const shape = DeviceSettingsSchema.shape;
+  const settings: Record<string, unknown> = {};
+
+  for (const key of Object.keys(shape) as (keyof DeviceSettings)[]) {
+    const parsed = shape[key].safeParse(raw[key]);
+    settings[key] = parsed.success ? parsed.data : DEFAULT_DEVICE_SETTINGS[key];
+  }
+
+  return settings as DeviceSettings;
+};
+
+/**
+ * Whether a schedule has windows that depend on sunrise or sunset, which
+ * need the device's coordinates
+ * @param schedule - The capture schedule
+ * @returns True if any window bound is solar
+ */
+export const usesSolarTimes = (schedule: CaptureSchedule): boolean =>
+  schedule.windows.some(window => window.start.type !== 'time' || window.end.type !== 'time');
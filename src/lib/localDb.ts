@@ -0,0 +1,116 @@
+import * as SQLite from 'expo-sqlite';
+
+/**
+ * On-device SQLite store backing the offline cache
+ *
+ * Rows are kept as the JSON returned by Supabase in a `data` column, next to
+ * the keys used to look them up and `synced_at`, the time the row was last
+ * fetched from the server. The `outbox` table queues writes made offline
+ * until they can be sent. Schema changes are appended to MIGRATIONS and
+ * applied in order, tracked with SQLite's `user_version`.
+ */
+
+const DATABASE_NAME = 'field-shield-cache.db';
+
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE devices (
+    id TEXT PRIMARY KEY NOT NULL,
+    organization_id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    telemetry TEXT,
+    synced_at TEXT NOT NULL
+  );
+  CREATE INDEX devices_organization_id_idx ON devices(organization_id);
+
+  CREATE TABLE device_detections (
+    id TEXT PRIMARY KEY NOT NULL,
+    device_id TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL,
+    synced_at TEXT NOT NULL
+  );
+  CREATE INDEX device_detections_device_id_created_at_idx ON device_detections(device_id, created_at);
+
+  CREATE TABLE device_images (
+    id TEXT PRIMARY KEY NOT NULL,
+    device_id TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL,
+    synced_at TEXT NOT NULL
+  );
+  CREATE INDEX device_images_device_id_created_at_idx ON device_images(device_id, created_at);
+
+  CREATE TABLE support_tickets (
+    id TEXT PRIMARY KEY NOT NULL,
+    data TEXT NOT NULL,
+    synced_at TEXT NOT NULL
+  );
+
+  CREATE TABLE organization_roles (
+    organization_id TEXT PRIMARY KEY NOT NULL,
+    role TEXT NOT NULL,
+    synced_at TEXT NOT NULL
+  );
+
+  CREATE TABLE sync_state (
+    key TEXT PRIMARY KEY NOT NULL,
+    value TEXT NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE outbox (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    user_id TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    label TEXT NOT NULL,
+    depends_on TEXT,
+    status TEXT NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  `,
+];
+
+let databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+/**
+ * Apply migrations the database has not seen yet
+ * @param db - The open database
+ */
+const migrate = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  const version = row?.user_version ?? 0;
+
+  for (let index = version; index < MIGRATIONS.length; index++) {
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      await txn.execAsync(MIGRATIONS[index]);
+      await txn.execAsync(`PRAGMA user_version = ${index + 1}`);
+    });
+  }
+};
+
+/**
+ * Open the local database, creating and migrating it on first use
+ * @returns Promise with the shared database connection
+ */
+export const getLocalDb = (): Promise<SQLite.SQLiteDatabase> => {
+  if (!databasePromise) {
+    databasePromise = (async () => {
+      const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+      await db.execAsync('PRAGMA journal_mode = WAL');
+      await migrate(db);
+      return db;
+    })().catch(error => {
+      // Let the next call try again
+      databasePromise = null;
+      throw error;
+    });
+  }
+
+  return databasePromise;
+};
@@ -0,0 +1,101 @@
+import { z } from 'zod';
+
+/**
+ * Notification preferences
+ *
+ * The shape of `profiles.notification_preferences`. `push` and `email` switch
+ * a channel off entirely; `categories` choose what is sent on each channel.
+ * The server reads the same JSON with `wants_notification`, where anything
+ * missing counts as on, so profiles saved before categories existed keep
+ * receiving everything.
+ *
+ * `digest` chooses how often the email digest of detection activity is
+ * sent, and also needs `email` on; missing reads as weekly.
+ */
+
+export const NOTIFICATION_CATEGORIES = ['detections', 'alerts', 'support'] as const;
+
+export const NOTIFICATION_CATEGORY_LABELS: Record<NotificationCategory, string> = {
+  detections: 'Detections',
+  alerts: 'Device alerts',
+  support: 'Support replies',
+};
+
+export const NOTIFICATION_CHANNELS = ['push', 'email'] as const;
+
+export const DIGEST_FREQUENCIES = ['off', 'daily', 'weekly'] as const;
+
+export const DIGEST_FREQUENCY_LABELS: Record<DigestFrequency, string> = {
+  off: 'Off',
+  daily: 'Daily',
+  weekly: 'Weekly',
+};
+
+const ChannelSwitchesSchema = z.object({
+  push: z.boolean(),
+  email: z.boolean(),
+});
+
+export const NotificationPreferencesSchema = z.object({
+  push: z.boolean(),
+  email: z.boolean(),
+  digest: z.enum(DIGEST_FREQUENCIES),
+  categories: z.object({
+    detections: ChannelSwitchesSchema,
+    alerts: ChannelSwitchesSchema,
+    support: ChannelSwitchesSchema,
+  }),
+});
+
+export type NotificationPreferences = z.infer<typeof NotificationPreferencesSchema>;
+export type NotificationCategory = typeof NOTIFICATION_CATEGORIES[number];
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+export type DigestFrequency = typeof DIGEST_FREQUENCIES[number];
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  push: true,
+  email: true,
+  digest: 'weekly',
+  categories: {
+    detections: { push: true, email: true },
+    alerts: { push: true, email: true },
+    support: { push: true, email: true },
+  },
+};
+
+/**
+ * Read stored preferences for display or editing
+ *
+ * Missing or invalid switches are read as on and a missing digest as
+ * weekly, matching the server.
+ * @param value - Raw preferences JSON, possibly null or without categories
+ * @returns Complete, valid preferences
+ */
+export const readNotificationPreferences = (value: unknown): NotificationPreferences => {
+  const raw = value && typeof value === 'object' && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : {};
+  const rawCategories = raw.categories && typeof raw.categories === 'object'
+    ? raw.categories as Record<string, Record<string, unknown> | undefined>
+    : {};
+
+  const readSwitch = (switchValue: unknown) => typeof switchValue === 'boolean' ? switchValue : true;
+
+  const categories = {} as NotificationPreferences['categories'];
+  for (const category of NOTIFICATION_CATEGORIES) {
+    const switches = rawCategories[category];
+    categories[category] = {
+      push: readSwitch(switches?.push),
+      email: readSwitch(switches?.email),
+    };
+  }
+
+  const digest = DIGEST_FREQUENCIES.find(frequency => frequency === raw.digest) ?? 'weekly';
+
+  return {
+    push: readSwitch(raw.push),
+    email: readSwitch(raw.email),
+    digest,
+    categories,
+  };
+};
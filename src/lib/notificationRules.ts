@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import { NOTIFICATION_EVENTS } from './deviceSettings';
+import { NOTIFICATION_CHANNELS } from './notificationPreferences';
+import { DetectionTypeIdSchema } from './detectionData';
+
+/**
+ * Device notification rules
+ *
+ * A user's rules for one device, stored in `device_notification_rules` and
+ * evaluated by the server before anything is queued. The most specific rule
+ * for an event wins, so a rule for deer overrides one for mammals, which
+ * overrides one for any detection. Once a user has a rule for an event,
+ * events no rule covers are not sent; events without rules are sent by push
+ * as before.
+ */
+
+// Batching windows offered in the editor; null sends each event straight away
+export const BATCH_MINUTES_OPTIONS = [null, 15, 30, 60, 240, 1440] as const;
+
+export const BATCH_MINUTES_LABELS: Record<string, string> = {
+  null: 'Off',
+  15: '15 min',
+  30: '30 min',
+  60: '1 hour',
+  240: '4 hours',
+  1440: 'Daily',
+};
+
+// 0 means no limit
+export const MAX_PER_HOUR_RANGE = { min: 0, max: 60 };
+// Percent; 0 means any confidence
+export const MIN_CONFIDENCE_RANGE = { min: 0, max: 95, step: 5 };
+
+// 24 hour clock, e.g. 22:00
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const NotificationRuleSchema = z.object({
+  event: z.enum(NOTIFICATION_EVENTS),
+  detection_type: DetectionTypeIdSchema.nullable(),
+  enabled: z.boolean(),
+  channels: z.array(z.enum(NOTIFICATION_CHANNELS)).min(1, 'Choose at least one channel'),
+  min_confidence: z.number().gt(0).max(1).nullable(),
+  quiet_start: z.string().regex(TIME_PATTERN, 'Times must be HH:MM').nullable(),
+  quiet_end: z.string().regex(TIME_PATTERN, 'Times must be HH:MM').nullable(),
+  time_zone: z.string().min(1),
+  max_per_hour: z.number().int().positive().nullable(),
+  batch_minutes: z.number().int().min(5).max(1440).nullable(),
+})
+  .refine(rule => rule.event === 'detection' || rule.detection_type === null, {
+    message: 'Only detection rules can name a detection type',
+    path: ['detection_type'],
+  })
+  .refine(rule => (rule.quiet_start === null) === (rule.quiet_end === null), {
+    message: 'Quiet hours need a start and an end',
+    path: ['quiet_end'],
+  })
+  .refine(rule => rule.quiet_start === null || rule.quiet_start !== rule.quiet_end, {
+    message: 'Quiet hours must start and end at different times',
+    path: ['quiet_end'],
+  });
+
+export type NotificationRuleInput = z.infer<typeof NotificationRuleSchema>;
+
+/**
+ * A new rule for an event, with every option off
+ * @param event - The event the rule is for
+ * @returns Rule input using the phone's time zone
+ */
+export const createNotificationRule = (event: NotificationRuleInput['event']): NotificationRuleInput => ({
+  event,
+  detection_type: null,
+  enabled: true,
+  channels: ['push'],
+  min_confidence: null,
+  quiet_start: null,
+  quiet_end: null,
+  time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+  max_per_hour: null,
+  batch_minutes: null,
+});
+
+/**
+ * Validate a rule before saving it
+ * @param rule - The rule to check
+ * @returns The validated rule
+ * @throws Error naming the first invalid field
+ */
+export const validateNotificationRule = (rule: unknown): NotificationRuleInput => {
+  const result = NotificationRuleSchema.safeParse(rule);
+
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.join('.');
+    throw new Error(path ? `Invalid rule ${path}: ${issue.message}` : issue.message);
+  }
+
+  return result.data;
+};
+
+/**
+ * Read a stored rule into the editable shape; Postgres returns times with
+ * seconds, e.g. 22:00:00
+ * @param rule - A device_notification_rules row
+ * @returns Rule input
+ */
+export const toNotificationRuleInput = (rule: NotificationRuleInput): NotificationRuleInput => ({
+  event: rule.event,
+  detection_type: rule.detection_type,
+  enabled: rule.enabled,
+  channels: rule.channels,
+  min_confidence: rule.min_confidence,
+  quiet_start: rule.quiet_start?.slice(0, 5) ?? null,
+  quiet_end: rule.quiet_end?.slice(0, 5) ?? null,
+  time_zone: rule.time_zone,
+  max_per_hour: rule.max_per_hour,
+  batch_minutes: rule.batch_minutes,
+});
@@ -0,0 +1,92 @@
+/**
+ * Keyset (cursor) pagination helpers for PostgREST queries
+ *
+ * Lists are ordered by a sort column and then by `id` in the same direction,
+ * with nulls last. A cursor records the sort value and id of the last row of
+ * a page, and the next page is every row after it. Unlike offsets, rows
+ * inserted or deleted while paging do not shift later pages.
+ */
+
+export interface KeysetSort {
+  column: string;
+  ascending: boolean;
+}
+
+export type CursorValue = string | number | boolean | null;
+
+export interface KeysetPage<T> {
+  items: T[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+const encodeCursor = (value: CursorValue, id: string): string => JSON.stringify([value, id]);
+
+/**
+ * Read the sort value and id recorded in a cursor
+ * @param cursor - Cursor returned with a page
+ * @returns The last row's sort value and id
+ */
+export const decodeCursor = (cursor: string): [CursorValue, string] => {
+  try {
+    const parsed = JSON.parse(cursor);
+    if (Array.isArray(parsed) && parsed.length === 2 && typeof parsed[1] === 'string') {
+      return [parsed[0] as CursorValue, parsed[1]];
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error('Invalid page cursor');
+};
+
+// Quote values so commas, dots and parentheses survive PostgREST's filter syntax
+const quote = (value: string | number | boolean): string =>
+  `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+/**
+ * Build an `or` filter selecting the rows after a cursor
+ * @param sort - The list's sort column and direction
+ * @param cursor - Cursor returned with the previous page
+ * @returns Filter string for the query builder's `or()`
+ */
+export const keysetFilter = (sort: KeysetSort, cursor: string): string => {
+  const [value, id] = decodeCursor(cursor);
+  const op = sort.ascending ? 'gt' : 'lt';
+
+  // Nulls sort last, so past a null only other nulls remain
+  if (value === null) {
+    return `and(${sort.column}.is.null,id.${op}.${quote(id)})`;
+  }
+
+  return [
+    `${sort.column}.${op}.${quote(value)}`,
+    `and(${sort.column}.eq.${quote(value)},id.${op}.${quote(id)})`,
+    `${sort.column}.is.null`,
+  ].join(',');
+};
+
+/**
+ * Split a result fetched with `limit(pageSize + 1)` into a page and the
+ * cursor for the next one
+ * @param rows - Rows in list order, at most one more than the page size
+ * @param sort - The list's sort column and direction
+ * @param pageSize - Number of rows per page
+ * @returns The page's rows and the next page's cursor, if there is one
+ */
+export const toKeysetPage = <T extends { id: string }>(
+  rows: T[],
+  sort: KeysetSort,
+  pageSize: number
+): KeysetPage<T> => {
+  const items = rows.slice(0, pageSize);
+  const hasMore = rows.length > pageSize;
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    nextCursor: hasMore && last
+      ? encodeCursor((last as unknown as Record<string, CursorValue>)[sort.column] ?? null, last.id)
+      : null,
+    hasMore,
+  };
+};
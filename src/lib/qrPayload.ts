@@ -0,0 +1,75 @@
+import { z } from 'zod';
+
+/**
+ * Device label QR codes
+ *
+ * Labels encode a versioned JSON payload, e.g.
+ * `{"v":1,"vendor":"fieldshield","serial":"FS-1001","model":"Trail Cam Pro","firmware":"1.4.2","claimCode":"7KQ2-MX9P"}`.
+ * Labels printed before the payload format existed carry the serial number
+ * only.
+ */
+
+const QR_VENDOR = 'fieldshield';
+
+// Newest payload version this app understands
+const LATEST_QR_VERSION = 1;
+
+// Serial numbers on legacy labels, e.g. FS-1001
+const SERIAL_PATTERN = /^[A-Z0-9][A-Z0-9-]{3,63}$/i;
+
+const QrPayloadV1Schema = z.object({
+  v: z.literal(1),
+  vendor: z.literal(QR_VENDOR),
+  serial: z.string().trim().regex(SERIAL_PATTERN, 'Serial number is malformed'),
+  model: z.string().trim().min(1).max(64).optional(),
+  firmware: z.string().trim().min(1).max(32).optional(),
+  claimCode: z.string().trim().min(4).max(64),
+});
+
+export type DeviceQrPayload = z.infer<typeof QrPayloadV1Schema>;
+
+export type DeviceQrParseResult =
+  | { success: true; payload: DeviceQrPayload; legacy: false }
+  | { success: true; payload: Pick<DeviceQrPayload, 'serial'>; legacy: true }
+  | { success: false; error: string };
+
+/**
+ * Parse the contents of a scanned device label
+ * @param data - Raw QR code contents
+ * @returns The parsed payload, or an error message suitable for display
+ */
+export const parseDeviceQrPayload = (data: string): DeviceQrParseResult => {
+  const raw = data.trim();
+
+  if (!raw.startsWith('{')) {
+    if (SERIAL_PATTERN.test(raw)) {
+      return { success: true, payload: { serial: raw }, legacy: true };
+    }
+
+    return { success: false, error: 'This QR code is not a FieldShield device label.' };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    return { success: false, error: 'This QR code could not be read. Try scanning it again.' };
+  }
+
+  const header = z.object({ v: z.number().int(), vendor: z.string() }).safeParse(json);
+  if (!header.success || header.data.vendor !== QR_VENDOR) {
+    return { success: false, error: 'This QR code is not a FieldShield device label.' };
+  }
+
+  if (header.data.v > LATEST_QR_VERSION) {
+    return { success: false, error: 'This device label is newer than the app. Please update the app and try again.' };
+  }
+
+  const parsed = QrPayloadV1Schema.safeParse(json);
+  if (!parsed.success) {
+    const fields = parsed.error.issues.map(issue => issue.path.join('.')).join(', ');
+    return { success: false, error: `This device label is damaged or incomplete (${fields}). Enter the details manually.` };
+  }
+
+  return { success: true, payload: parsed.data, legacy: false };
+};
@@ -0,0 +1,42 @@
+import { SettingsChange } from '../types/device';
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  // Settings are plain JSON, so key order is the only thing stringify can disagree on
+  const normalise = (value: unknown): unknown =>
+    Array.isArray(value)
+      ? value.map(normalise)
+      : value && typeof value === 'object'
+        ? Object.fromEntries(
+            Object.keys(value as Record<string, unknown>)
+              .sort()
+              .map(key => [key, normalise((value as Record<string, unknown>)[key])])
+          )
+        : value;
+  return JSON.stringify(normalise(a)) === JSON.stringify(normalise(b));
+};
+
+/**
+ * Compare two settings objects key by key
+ *
+ * Only top-level keys are compared; nested values such as arrays are treated
+ * as a single setting. A key missing on one side is reported with `undefined`.
+ * @param previous - The earlier settings, or null when there were none
+ * @param current - The later settings
+ * @returns Changed keys in alphabetical order
+ */
+export const diffSettings = (
+  previous: Record<string, unknown> | null,
+  current: Record<string, unknown> | null
+): SettingsChange[] => {
+  const before = previous ?? {};
+  const after = current ?? {};
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+
+  return keys
+    .filter(key => !isEqual(before[key], after[key]))
+    .map(key => ({ key, previous: before[key], current: after[key] }));
+};
@@ -0,0 +1,248 @@
+import { supabase, handleSupabaseError } from '../lib/supabase';
+import {
+  Alert,
+  AlertWithDevice,
+  AlertFilters,
+  AlertThresholds,
+  AlertThresholdsUpdate
+} from '../types/alert';
+import { getCurrentUser } from './authService';
+
+/**
+ * Fetch alerts for devices in the current user's organizations
+ * @param filters - Optional filters for the query
+ * @returns Promise with alerts and their device names
+ */
+export const getAlerts = async (filters: AlertFilters = {}): Promise<AlertWithDevice[]> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    let query = supabase
+      .from('alerts')
+      .select('*, device:devices(name, serial_number)');
+
+    // Apply filters
+    if (filters.status === 'open') {
+      query = query.neq('status', 'resolved');
+    } else if (filters.status && filters.status !== 'all') {
+      query = query.eq('status', filters.status);
+    }
+
+    if (filters.severity && filters.severity !== 'all') {
+      query = query.eq('severity', filters.severity);
+    }
+
+    if (filters.deviceId) {
+      query = query.eq('device_id', filters.deviceId);
+    }
+
+    query = query
+      .order('updated_at', { ascending: false })
+      .limit(filters.limit || 50);
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    return (data || []) as unknown as AlertWithDevice[];
+  } catch (error) {
+    console.error('Get alerts error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Update the lifecycle status of an alert
+ * @param alertId - The ID of the alert to update
+ * @param changes - The status fields to update
+ * @returns Promise with the updated alert
+ */
+const updateAlertStatus = async (
+  alertId: string,
+  changes: Pick<Alert, 'status'> & Partial<Pick<Alert, 'acknowledged_at' | 'snoozed_until' | 'resolved_at'>>
+): Promise<Alert> => {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+
+  // RLS only lets owners and managers update alerts
+  const { data, error } = await supabase
+    .from('alerts')
+    .update(changes)
+    .eq('id', alertId)
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new Error('Alert not found or you do not have permission to update it');
+
+  return data;
+};
+
+/**
+ * Acknowledge an alert
+ * @param alertId - The ID of the alert to acknowledge
+ * @returns Promise with the updated alert
+ */
+export const acknowledgeAlert = async (alertId: string): Promise<Alert> => {
+  try {
+    return await updateAlertStatus(alertId, {
+      status: 'acknowledged',
+      acknowledged_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Acknowledge alert error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Snooze an alert until a given time
+ * @param alertId - The ID of the alert to snooze
+ * @param until - When the alert should become active again
+ * @returns Promise with the updated alert
+ */
+export const snoozeAlert = async (alertId: string, until: Date): Promise<Alert> => {
+  try {
+    if (until.getTime() <= Date.now()) {
+      throw new Error('Snooze time must be in the future');
+    }
+
+    return await updateAlertStatus(alertId, {
+      status: 'snoozed',
+      snoozed_until: until.toISOString(),
+    });
+  } catch (error) {
+    console.error('Snooze alert error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Resolve an alert
+ * @param alertId - The ID of the alert to resolve
+ * @returns Promise with the updated alert
+ */
+export const resolveAlert = async (alertId: string): Promise<Alert> => {
+  try {
+    return await updateAlertStatus(alertId, {
+      status: 'resolved',
+      resolved_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Resolve alert error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Re-evaluate alert rules for all of the current user's devices
+ * @returns Promise<void>
+ */
+export const evaluateAlerts = async (): Promise<void> => {
+  try {
+    const { error } = await supabase.rpc('evaluate_alerts');
+    if (error) throw error;
+  } catch (error) {
+    console.error('Evaluate alerts error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Fetch the alert thresholds for the current user
+ * @returns Promise with the thresholds, or null if the defaults are in use
+ */
+export const getAlertThresholds = async (): Promise<AlertThresholds | null> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('alert_thresholds')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return data;
+  } catch (error) {
+    console.error('Get alert thresholds error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Update the alert thresholds for the current user
+ * @param thresholds - The thresholds to update
+ * @returns Promise with the updated thresholds
+ */
+export const updateAlertThresholds = async (thresholds: AlertThresholdsUpdate): Promise<AlertThresholds> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (
+      thresholds.low_battery_warning !== undefined &&
+      thresholds.low_battery_critical !== undefined &&
+      thresholds.low_battery_critical > thresholds.low_battery_warning
+    ) {
+      throw new Error('Critical battery threshold must not exceed the warning threshold');
+    }
+
+    const { data, error } = await supabase
+      .from('alert_thresholds')
+      .upsert({
+        ...thresholds,
+        user_id: user.id,
+        updated_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    if (!data) throw new Error('Failed to update alert thresholds');
+
+    return data;
+  } catch (error) {
+    console.error('Update alert thresholds error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Subscribe to real-time alert changes
+ * @param callback - Function to call when an alert is raised or updated
+ * @returns Subscription object with unsubscribe method
+ */
+export const subscribeToAlerts = (callback: (alert: Alert) => void) => {
+  const subscription = supabase
+    .channel('alert-updates')
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'alerts',
+      },
+      (payload) => {
+        callback(payload.new as Alert);
+      }
+    )
+    .subscribe();
+
+  return {
+    unsubscribe: () => {
+      supabase.removeChannel(subscription);
+    },
+  };
+};
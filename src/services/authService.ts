@@ -1,6 +1,7 @@
 import { AuthError, User } from '@supabase/supabase-js';
 import { supabase, handleSupabaseError } from '../lib/supabase';
 import { SignUpCredentials, SignInCredentials, ResetPasswordParams, UpdatePasswordParams } from '../types/auth';
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '../lib/notificationPreferences';
 
 /**
  * Register a new user with email and password
@@ -37,10 +38,7 @@ export const signUp = async (credentials: SignUpCredentials) => {
           id: data.user.id,
           full_name: fullName,
           username: email.split('@')[0],
-          notification_preferences: {
-            email: true,
-            push: true,
-          },
+          notification_preferences: DEFAULT_NOTIFICATION_PREFERENCES,
         });
       
       if (profileError) {
@@ -0,0 +1,173 @@
+import { supabase, handleSupabaseError } from '../lib/supabase';
+import { KeysetSort, decodeCursor, keysetFilter, toKeysetPage } from '../lib/pagination';
+import { buildDetectionTaxonomy, getDetectionTypeDescendants } from '../lib/detectionTaxonomy';
+import { DetectionFilters, DetectionListResponse, DetectionTaxonomy } from '../types/detection';
+import { DeviceDetection, PaginationParams } from '../types/device';
+import { getSession } from './authService';
+import { withOfflineFallback, getCachedDevice, getCachedDetections } from './offlineCacheService';
+
+// Newest first; id breaks ties so every row has a unique position
+const DETECTION_SORT: KeysetSort = { column: 'created_at', ascending: false };
+
+// The taxonomy rarely changes, so it is fetched once per session
+let taxonomyRequest: Promise<DetectionTaxonomy> | null = null;
+
+/**
+ * Fetch the detection type taxonomy. The result is kept for the rest of the
+ * session; a failed request is tried again on the next call.
+ * @returns Promise with the taxonomy
+ */
+export const getDetectionTaxonomy = async (): Promise<DetectionTaxonomy> => {
+  if (!taxonomyRequest) {
+    taxonomyRequest = (async () => {
+      const { data, error } = await supabase
+        .from('detection_types')
+        .select('*');
+
+      if (error) throw error;
+
+      return buildDetectionTaxonomy(data || []);
+    })();
+  }
+
+  try {
+    return await taxonomyRequest;
+  } catch (error) {
+    taxonomyRequest = null;
+    console.error('Get detection types error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Resolve a type filter into the detection types it covers
+ * @param detectionType - A detection type or class, or null for all
+ * @returns Promise with the type ids, or null for all types
+ */
+const resolveTypeFilter = async (detectionType?: string | null): Promise<string[] | null> => {
+  if (!detectionType) return null;
+
+  // Without the taxonomy a class can only match itself
+  const taxonomy = await getDetectionTaxonomy().catch(() => null);
+  return taxonomy ? getDetectionTypeDescendants(taxonomy, detectionType) : [detectionType];
+};
+
+/**
+ * Fetch a page of a device's detections from Supabase
+ * @param deviceId - The ID of the device
+ * @param filters - Filters for the query
+ * @param pagination - Page size and the cursor returned with the previous page
+ * @returns Promise with detections, newest first, and the next page's cursor
+ */
+const fetchDeviceDetections = async (
+  deviceId: string,
+  filters: DetectionFilters,
+  pagination: PaginationParams
+): Promise<DetectionListResponse> => {
+  try {
+    const session = await getSession();
+    if (!session) {
+      throw new Error('User not authenticated');
+    }
+
+    const { cursor, pageSize } = pagination;
+
+    let query = supabase
+      .from('device_detections')
+      .select('*')
+      .eq('device_id', deviceId);
+
+    const types = await resolveTypeFilter(filters.detectionType);
+    if (types) {
+      query = query.in('detection_type', types);
+    }
+
+    query = query
+      .order(DETECTION_SORT.column, { ascending: DETECTION_SORT.ascending })
+      .order('id', { ascending: DETECTION_SORT.ascending });
+
+    if (cursor) {
+      query = query.or(keysetFilter(DETECTION_SORT, cursor));
+    }
+
+    const { data, error } = await query.limit(pageSize + 1);
+
+    if (error) throw error;
+
+    const page = toKeysetPage(data || [], DETECTION_SORT, pageSize);
+
+    return {
+      detections: page.items,
+      nextCursor: page.nextCursor,
+      hasMore: page.hasMore,
+    };
+  } catch (error) {
+    console.error('Get device detections error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Whether a detection comes after a cursor in newest first order
+ * @param detection - The detection
+ * @param cursor - Decoded cursor of the previous page's last row
+ * @returns True when the detection belongs on a later page
+ */
+const isAfterCursor = (detection: DeviceDetection, [createdAt, id]: [unknown, string]): boolean =>
+  detection.created_at < String(createdAt) ||
+  (detection.created_at === createdAt && detection.id < id);
+
+/**
+ * Read a page of a device's detections from the offline cache
+ * @param deviceId - The ID of the device
+ * @param filters - Filters for the query
+ * @param pagination - Page size and the cursor returned with the previous page
+ * @returns Promise with the page, or null when the device is not cached
+ */
+const loadCachedDeviceDetections = async (
+  deviceId: string,
+  filters: DetectionFilters,
+  pagination: PaginationParams
+): Promise<DetectionListResponse | null> => {
+  const cached = await getCachedDevice(deviceId);
+  if (!cached) return null;
+
+  const types = await resolveTypeFilter(filters.detectionType);
+  const after = pagination.cursor ? decodeCursor(pagination.cursor) : null;
+
+  // Cached detections come oldest first
+  const rows = (await getCachedDetections(deviceId, new Date(0), new Date()))
+    .filter(detection => !types || types.includes(detection.detection_type))
+    .reverse()
+    .filter(detection => !after || isAfterCursor(detection, after));
+
+  const page = toKeysetPage(rows.slice(0, pagination.pageSize + 1), DETECTION_SORT, pagination.pageSize);
+
+  return {
+    detections: page.items,
+    nextCursor: page.nextCursor,
+    hasMore: page.hasMore,
+    cachedAt: cached.cachedAt,
+  };
+};
+
+/**
+ * Fetch a page of a device's detections, newest first, optionally limited to
+ * a detection type or class. Offline, or when Supabase cannot be reached,
+ * the page comes from the offline cache with `cachedAt` set.
+ * @param deviceId - The ID of the device
+ * @param filters - Optional filters for the query
+ * @param pagination - Page size and the cursor returned with the previous page
+ * @returns Promise with detections and the next page's cursor
+ */
+export const getDeviceDetections = async (
+  deviceId: string,
+  filters: DetectionFilters = {},
+  pagination: PaginationParams = { pageSize: 20 }
+): Promise<DetectionListResponse> =>
+  withOfflineFallback(
+    () => fetchDeviceDetections(deviceId, filters, pagination),
+    () => loadCachedDeviceDetections(deviceId, filters, pagination),
+    // The sync engine caches detections
+    async () => {}
+  );
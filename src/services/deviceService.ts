@@ -1,4 +1,10 @@
+import { z } from 'zod';
+import { addDays, addHours, addWeeks, format, startOfDay, startOfHour, startOfWeek } from 'date-fns';
 import { supabase, handleSupabaseError } from '../lib/supabase';
+import { parseCsv } from '../lib/csv';
+import { diffSettings } from '../lib/settingsDiff';
+import { DeviceSettingsSchema, validateDeviceSettings } from '../lib/deviceSettings';
+import { KeysetSort, keysetFilter, toKeysetPage } from '../lib/pagination';
 import { 
   Device, 
   DeviceInsert, 
@@ -7,91 +13,370 @@ import {
   PaginationParams, 
   DeviceListResponse,
   DeviceDetailsResponse,
-  DeviceSettings
+  DeviceSettings,
+  DeviceTelemetry,
+  DashboardData,
+  TelemetryRange,
+  TelemetryPoint,
+  TelemetryReading,
+  DetectionBucket,
+  DetectionHistory,
+  DetectionHistoryOptions,
+  DeviceImportPreview,
+  DeviceImportPreviewRow,
+  DeviceWithDistance,
+  DeviceWithStats,
+  DeviceDetection,
+  DeviceMetrics,
+  DeviceMapMarker,
+  DeviceConfigVersion,
+  DeviceConfigVersionWithChanges
 } from '../types/device';
-import { getCurrentUser } from './authService';
+import { Json } from '../types/supabase';
+import { getCurrentUser, getSession } from './authService';
+import { MANAGER_ROLES, getOrganizationRole, requireDeviceRole } from './organizationService';
+import {
+  withOfflineFallback,
+  isOnline,
+  cacheDevices,
+  getCachedDevices,
+  cacheDeviceDetails,
+  getCachedDevice,
+  getCachedDetections,
+  getCachedImages
+} from './offlineCacheService';
+import { MutationHandler, OutboxConflictError, registerMutationHandler, queueMutation } from './outboxService';
+
+// Lookback window and bucket width for each telemetry chart range
+const TELEMETRY_RANGES: Record<TelemetryRange, { hours: number; bucketSeconds: number }> = {
+  '24h': { hours: 24, bucketSeconds: 60 * 60 },
+  '7d': { hours: 24 * 7, bucketSeconds: 6 * 60 * 60 },
+  '30d': { hours: 24 * 30, bucketSeconds: 24 * 60 * 60 },
+};
+
+// Number of buckets and bucket width for each preset detection range
+const DETECTION_RANGES: Record<Exclude<DetectionHistoryOptions['range'], 'custom'>, { buckets: number; bucket: DetectionBucket }> = {
+  '24h': { buckets: 24, bucket: 'hour' },
+  '7d': { buckets: 7, bucket: 'day' },
+  '30d': { buckets: 30, bucket: 'day' },
+  '90d': { buckets: 13, bucket: 'week' },
+};
+
+const BUCKET_MS: Record<DetectionBucket, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Bucket boundaries matching Postgres date_trunc, whose weeks start on Monday
+const BUCKET_START: Record<DetectionBucket, (date: Date) => Date> = {
+  hour: startOfHour,
+  day: startOfDay,
+  week: date => startOfWeek(date, { weekStartsOn: 1 }),
+};
+
+const NEXT_BUCKET: Record<DetectionBucket, (date: Date) => Date> = {
+  hour: date => addHours(date, 1),
+  day: date => addDays(date, 1),
+  week: date => addWeeks(date, 1),
+};
+
+// Number of recent images shown on the device detail screen
+const DETAIL_IMAGE_LIMIT = 10;
+
+// Columns accepted in a bulk import CSV; settings holds a JSON object
+const IMPORT_REQUIRED_COLUMNS = ['name', 'serial_number', 'claim_code'];
+const IMPORT_OPTIONAL_COLUMNS = ['location', 'settings'];
+const MAX_IMPORT_ROWS = 500;
+
+// Settings in an import row override the defaults key by key
+const ImportSettingsSchema = DeviceSettingsSchema.partial().strict();
+
+const DeviceImportRowSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be 100 characters or fewer'),
+  serial_number: z.string().trim().min(1, 'Serial number is required').max(64, 'Serial number is too long'),
+  claim_code: z.string().trim().min(1, 'Claim code is required'),
+  location: z.string().trim().max(200, 'Location is too long').transform(value => value || null),
+  settings: z
+    .string()
+    .trim()
+    .transform((value, ctx) => {
+      if (!value) return null;
+      try {
+        return JSON.parse(value);
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Settings must be a JSON object' });
+        return z.NEVER;
+      }
+    })
+    .pipe(ImportSettingsSchema.nullable()),
+});
 
 /**
- * Fetch devices with pagination and filtering
- * @param filters - Optional filters for the query
- * @param pagination - Pagination parameters
- * @returns Promise with devices data
+ * Resolve detection history options into a concrete time window
+ * @param options - Range, optional custom bounds and bucket override
+ * @returns The window start, end and bucket width
  */
-export const getDevices = async (
-  filters: DeviceFilters = {},
-  pagination: PaginationParams = { page: 1, pageSize: 10 }
+const resolveDetectionWindow = (options: DetectionHistoryOptions) => {
+  const to = options.to || new Date();
+
+  if (options.range === 'custom') {
+    if (!options.from) {
+      throw new Error('A start date is required for a custom range');
+    }
+    if (options.from >= to) {
+      throw new Error('The start date must be before the end date');
+    }
+
+    // Default to roughly 7-60 points whatever the span
+    const spanMs = to.getTime() - options.from.getTime();
+    const bucket = options.bucket || (
+      spanMs <= 2 * BUCKET_MS.day ? 'hour' : spanMs <= 60 * BUCKET_MS.day ? 'day' : 'week'
+    );
+
+    return { from: options.from, to, bucket };
+  }
+
+  const preset = DETECTION_RANGES[options.range];
+  const bucket = options.bucket || preset.bucket;
+  const buckets = Math.max(1, Math.round(preset.buckets * BUCKET_MS[preset.bucket] / BUCKET_MS[bucket]));
+  const from = new Date(to.getTime() - (buckets - 1) * BUCKET_MS[bucket]);
+
+  return { from, to, bucket };
+};
+
+/**
+ * Fetch a device's detection counts per time bucket and detection type
+ * @param deviceId - The ID of the device
+ * @param options - Range, bucketing and time zone
+ * @returns Promise with the bucketed detection history
+ */
+const fetchDetectionHistory = async (
+  deviceId: string,
+  options: DetectionHistoryOptions
+): Promise<DetectionHistory> => {
+  const { from, to, bucket } = resolveDetectionWindow(options);
+  const timeZone = options.timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+  const { data, error } = await supabase.rpc('get_detection_histogram', {
+    p_device_id: deviceId,
+    p_from: from.toISOString(),
+    p_to: to.toISOString(),
+    p_bucket: bucket,
+    p_timezone: timeZone,
+  });
+
+  if (error) throw error;
+
+  // Merge the per-type rows into one point per bucket
+  const points = new Map<string, { date: string; count: number; byType: Record<string, number> }>();
+  const detectionTypes = new Set<string>();
+  let total = 0;
+
+  (data || []).forEach(row => {
+    const point = points.get(row.bucket) || { date: row.bucket, count: 0, byType: {} };
+
+    if (row.detection_type) {
+      point.byType[row.detection_type] = row.count;
+      point.count += row.count;
+      detectionTypes.add(row.detection_type);
+      total += row.count;
+    }
+
+    points.set(row.bucket, point);
+  });
+
+  return {
+    bucket,
+    data: Array.from(points.values()),
+    detectionTypes: Array.from(detectionTypes).sort(),
+    total,
+  };
+};
+
+/**
+ * Count detections per time bucket and detection type in the device's own
+ * time zone, as get_detection_histogram does on the server
+ * @param detections - Detections in the window
+ * @param from - Start of the window
+ * @param to - End of the window
+ * @param bucket - Bucket width
+ * @returns The bucketed detection history, with empty buckets included
+ */
+const bucketDetections = (
+  detections: DeviceDetection[],
+  from: Date,
+  to: Date,
+  bucket: DetectionBucket
+): DetectionHistory => {
+  const toKey = (date: Date) => format(BUCKET_START[bucket](date), "yyyy-MM-dd'T'HH:mm:ss");
+  const points = new Map<string, { date: string; count: number; byType: Record<string, number> }>();
+  const detectionTypes = new Set<string>();
+
+  for (let start = BUCKET_START[bucket](from); start < to; start = NEXT_BUCKET[bucket](start)) {
+    points.set(toKey(start), { date: toKey(start), count: 0, byType: {} });
+  }
+
+  detections.forEach(detection => {
+    const point = points.get(toKey(new Date(detection.created_at)));
+    if (!point) return;
+
+    point.byType[detection.detection_type] = (point.byType[detection.detection_type] || 0) + 1;
+    point.count += 1;
+    detectionTypes.add(detection.detection_type);
+  });
+
+  const data = Array.from(points.values());
+
+  return {
+    bucket,
+    data,
+    detectionTypes: Array.from(detectionTypes).sort(),
+    total: data.reduce((sum, point) => sum + point.count, 0),
+  };
+};
+
+/**
+ * Map an RSSI reading (dBm) to a human readable signal strength
+ * @param rssi - Received signal strength in dBm
+ * @returns Signal strength label
+ */
+export const getSignalStrengthLabel = (rssi: number): string => {
+  if (rssi >= -60) return 'Excellent';
+  if (rssi >= -70) return 'Good';
+  if (rssi >= -85) return 'Fair';
+  return 'Poor';
+};
+
+/**
+ * Fetch the most recent telemetry reading for a device
+ * @param deviceId - The ID of the device
+ * @returns Promise with the latest reading or null if none exist
+ */
+const fetchLatestTelemetry = async (deviceId: string): Promise<DeviceTelemetry | null> => {
+  const { data, error } = await supabase
+    .from('device_telemetry')
+    .select('*')
+    .eq('device_id', deviceId)
+    .order('recorded_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+};
+
+/**
+ * Build the metrics shown on the device detail screen
+ * @param device - The device
+ * @param detections - Detections in the selected range
+ * @param telemetry - Latest telemetry reading, if any
+ * @returns The device's metrics
+ */
+const buildDeviceMetrics = (
+  device: Device,
+  detections: number,
+  telemetry: DeviceTelemetry | null
+): DeviceMetrics => ({
+  batteryLevel: device.battery_level,
+  detections,
+  temperature: telemetry?.temperature ?? undefined,
+  humidity: telemetry?.humidity ?? undefined,
+  rssi: telemetry?.rssi ?? undefined,
+  signalStrength: telemetry?.rssi != null ? getSignalStrengthLabel(telemetry.rssi) : undefined,
+  telemetryRecordedAt: telemetry?.recorded_at ?? null,
+});
+
+/**
+ * Resolve a device list's sort column and direction
+ * @param filters - The list's filters
+ * @returns Sort column in devices_with_stats and direction
+ */
+const getDeviceSort = (filters: DeviceFilters): KeysetSort => {
+  if (!filters.sortBy) {
+    return { column: 'created_at', ascending: false };
+  }
+
+  const ascending = (filters.sortOrder || 'asc') === 'asc';
+
+  switch (filters.sortBy) {
+    case 'health':
+      // Least healthy first by default; devices without a score go last
+      return { column: 'health_score', ascending };
+    case 'last_detection':
+      // Devices that never detected anything go last
+      return { column: 'last_detection_date', ascending };
+    default:
+      return { column: filters.sortBy, ascending };
+  }
+};
+
+/**
+ * Fetch a page of devices from Supabase
+ * @param filters - Filters for the query
+ * @param pagination - Page size and the cursor returned with the previous page
+ * @returns Promise with devices data and the next page's cursor
+ */
+const fetchDevices = async (
+  filters: DeviceFilters,
+  pagination: PaginationParams
 ): Promise<DeviceListResponse> => {
   try {
-    const user = await getCurrentUser();
-    if (!user) {
+    const session = await getSession();
+    if (!session) {
       throw new Error('User not authenticated');
     }
 
-    const { page, pageSize } = pagination;
-    const from = (page - 1) * pageSize;
-    const to = from + pageSize - 1;
+    const { cursor, pageSize } = pagination;
 
-    // Start building the query
+    // Start building the query; RLS limits it to the user's organizations
     let query = supabase
-      .from('devices')
-      .select('*', { count: 'exact' })
-      .eq('user_id', user.id);
+      .from('devices_with_stats')
+      .select('*');
 
     // Apply filters
     if (filters.status && filters.status !== 'all') {
       query = query.eq('status', filters.status);
     }
 
+    if (filters.organizationId) {
+      query = query.eq('organization_id', filters.organizationId);
+    }
+
+    if (filters.groupId === null) {
+      query = query.is('group_id', null);
+    } else if (filters.groupId) {
+      query = query.eq('group_id', filters.groupId);
+    }
+
     if (filters.search) {
       query = query.or(`name.ilike.%${filters.search}%,serial_number.ilike.%${filters.search}%`);
     }
 
-    // Apply sorting
-    if (filters.sortBy) {
-      const order = filters.sortOrder || 'asc';
-      query = query.order(filters.sortBy, { ascending: order === 'asc' });
-    } else {
-      query = query.order('created_at', { ascending: false });
-    }
+    // Apply sorting; id breaks ties so every row has a unique position
+    const sort = getDeviceSort(filters);
+    query = query
+      .order(sort.column, { ascending: sort.ascending, nullsFirst: false })
+      .order('id', { ascending: sort.ascending });
 
     // Apply pagination
-    query = query.range(from, to);
+    if (cursor) {
+      query = query.or(keysetFilter(sort, cursor));
+    }
+    query = query.limit(pageSize + 1);
 
     // Execute the query
-    const { data, error, count } = await query;
+    const { data, error } = await query;
 
     if (error) throw error;
 
-    // Fetch additional stats for each device
-    const devicesWithStats = await Promise.all(
-      (data || []).map(async (device) => {
-        // Get detection count
-        const { count: detectionCount, error: detectionError } = await supabase
-          .from('device_detections')
-          .select('*', { count: 'exact', head: true })
-          .eq('device_id', device.id);
-
-        // Get image count
-        const { count: imageCount, error: imageError } = await supabase
-          .from('device_images')
-          .select('*', { count: 'exact', head: true })
-          .eq('device_id', device.id);
-
-        if (detectionError) console.error('Error fetching detection count:', detectionError);
-        if (imageError) console.error('Error fetching image count:', imageError);
-
-        return {
-          ...device,
-          detectionCount: detectionCount || 0,
-          imageCount: imageCount || 0,
-        };
-      })
-    );
+    const page = toKeysetPage(data || [], sort, pageSize);
 
     return {
-      devices: devicesWithStats,
-      totalCount: count || 0,
-      hasMore: count ? from + pageSize < count : false,
+      devices: page.items,
+      nextCursor: page.nextCursor,
+      hasMore: page.hasMore,
     };
   } catch (error) {
     console.error('Get devices error:', error);
@@ -100,14 +385,44 @@ export const getDevices = async (
 };
 
 /**
- * Fetch a single device by ID with detailed information
+ * Fetch a page of devices with their detection and image counts and health
+ * scores, with filtering. Offline, or when Supabase cannot be reached, the
+ * page comes from the offline cache with `cachedAt` set.
+ * @param filters - Optional filters for the query
+ * @param pagination - Page size and the cursor returned with the previous page
+ * @returns Promise with devices data and the next page's cursor
+ */
+export const getDevices = async (
+  filters: DeviceFilters = {},
+  pagination: PaginationParams = { pageSize: 10 }
+): Promise<DeviceListResponse> =>
+  withOfflineFallback(
+    () => fetchDevices(filters, pagination),
+    async () => {
+      const page = await getCachedDevices(filters, getDeviceSort(filters), pagination);
+      return page && {
+        devices: page.items,
+        nextCursor: page.nextCursor,
+        hasMore: page.hasMore,
+        cachedAt: page.cachedAt,
+      };
+    },
+    response => cacheDevices(response.devices)
+  );
+
+/**
+ * Fetch a single device by ID with detailed information from Supabase
  * @param deviceId - The ID of the device to fetch
+ * @param historyOptions - Range and bucketing for the detection history
  * @returns Promise with device details
  */
-export const getDeviceDetails = async (deviceId: string): Promise<DeviceDetailsResponse> => {
+const fetchDeviceDetails = async (
+  deviceId: string,
+  historyOptions: DetectionHistoryOptions
+): Promise<DeviceDetailsResponse> => {
   try {
-    const user = await getCurrentUser();
-    if (!user) {
+    const session = await getSession();
+    if (!session) {
       throw new Error('User not authenticated');
     }
 
@@ -116,24 +431,16 @@ export const getDeviceDetails = async (deviceId: string): Promise<DeviceDetailsR
       .from('devices')
       .select('*')
       .eq('id', deviceId)
-      .eq('user_id', user.id)
       .single();
 
     if (deviceError) throw deviceError;
     if (!device) throw new Error('Device not found');
 
-    // Fetch detection data for the last 7 days
-    const sevenDaysAgo = new Date();
-    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
+    const role = await getOrganizationRole(device.organization_id);
+    if (!role) throw new Error('Device not found');
 
-    const { data: detections, error: detectionsError } = await supabase
-      .from('device_detections')
-      .select('*')
-      .eq('device_id', deviceId)
-      .gte('created_at', sevenDaysAgo.toISOString())
-      .order('created_at', { ascending: true });
-
-    if (detectionsError) throw detectionsError;
+    // Fetch detection history for the requested range
+    const history = await fetchDetectionHistory(deviceId, historyOptions);
 
     // Fetch images
     const { data: images, error: imagesError } = await supabase
@@ -141,63 +448,310 @@ export const getDeviceDetails = async (deviceId: string): Promise<DeviceDetailsR
       .select('*')
       .eq('device_id', deviceId)
       .order('created_at', { ascending: false })
-      .limit(10);
+      .limit(DETAIL_IMAGE_LIMIT);
 
     if (imagesError) throw imagesError;
 
-    // Process detection data for chart
-    const detectionsByDay = (detections || []).reduce((acc, detection) => {
-      const date = new Date(detection.created_at).toISOString().split('T')[0];
-      acc[date] = (acc[date] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
+    // Fetch the latest telemetry reading
+    const telemetry = await fetchLatestTelemetry(deviceId);
+
+    return {
+      device,
+      metrics: buildDeviceMetrics(device, history.total, telemetry),
+      telemetry,
+      detectionData: history.data,
+      detectionTypes: history.detectionTypes,
+      detectionBucket: history.bucket,
+      images: images || [],
+      role,
+    };
+  } catch (error) {
+    console.error('Get device details error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Bucket a device's cached detections. Buckets use the device's own time
+ * zone rather than options.timeZone.
+ * @param deviceId - The ID of the device
+ * @param options - Range and bucketing
+ * @returns Promise with the bucketed detection history
+ */
+const loadCachedDetectionHistory = async (
+  deviceId: string,
+  options: DetectionHistoryOptions
+): Promise<DetectionHistory> => {
+  const { from, to, bucket } = resolveDetectionWindow(options);
+  const start = BUCKET_START[bucket](from);
+
+  return bucketDetections(await getCachedDetections(deviceId, start, to), start, to, bucket);
+};
+
+/**
+ * Build a device's details from the offline cache
+ * @param deviceId - The ID of the device
+ * @param historyOptions - Range and bucketing for the detection history
+ * @returns Promise with device details, or null when the device is not cached
+ */
+const loadCachedDeviceDetails = async (
+  deviceId: string,
+  historyOptions: DetectionHistoryOptions
+): Promise<DeviceDetailsResponse | null> => {
+  const cached = await getCachedDevice(deviceId);
+  if (!cached || !cached.role) return null;
+
+  const history = await loadCachedDetectionHistory(deviceId, historyOptions);
+
+  return {
+    device: cached.device,
+    metrics: buildDeviceMetrics(cached.device, history.total, cached.telemetry),
+    telemetry: cached.telemetry,
+    detectionData: history.data,
+    detectionTypes: history.detectionTypes,
+    detectionBucket: history.bucket,
+    images: await getCachedImages(deviceId, DETAIL_IMAGE_LIMIT),
+    role: cached.role,
+    cachedAt: cached.cachedAt,
+  };
+};
+
+/**
+ * Fetch a single device by ID with detailed information. Offline, or when
+ * Supabase cannot be reached, the details are built from the offline cache
+ * with `cachedAt` set.
+ * @param deviceId - The ID of the device to fetch
+ * @param historyOptions - Range and bucketing for the detection history
+ * @returns Promise with device details
+ */
+export const getDeviceDetails = async (
+  deviceId: string,
+  historyOptions: DetectionHistoryOptions = { range: '7d' }
+): Promise<DeviceDetailsResponse> =>
+  withOfflineFallback(
+    () => fetchDeviceDetails(deviceId, historyOptions),
+    () => loadCachedDeviceDetails(deviceId, historyOptions),
+    details => cacheDeviceDetails(details.device, details.telemetry, details.role, details.images)
+  );
+
+/**
+ * Fetch the latest telemetry reading for a device
+ * @param deviceId - The ID of the device
+ * @returns Promise with the latest reading or null if none exist
+ */
+export const getLatestTelemetry = async (deviceId: string): Promise<DeviceTelemetry | null> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    return await fetchLatestTelemetry(deviceId);
+  } catch (error) {
+    console.error('Get latest telemetry error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Fetch downsampled telemetry history for a device
+ * @param deviceId - The ID of the device
+ * @param range - The time range to fetch
+ * @returns Promise with averaged readings per time bucket
+ */
+export const getTelemetryHistory = async (
+  deviceId: string,
+  range: TelemetryRange = '24h'
+): Promise<TelemetryPoint[]> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
 
-    const detectionData = Object.entries(detectionsByDay).map(([date, count]) => ({
-      date,
-      count,
+    const { hours, bucketSeconds } = TELEMETRY_RANGES[range];
+    const from = new Date(Date.now() - hours * 60 * 60 * 1000);
+
+    const { data, error } = await supabase.rpc('get_device_telemetry_history', {
+      p_device_id: deviceId,
+      p_from: from.toISOString(),
+      p_bucket_seconds: bucketSeconds,
+    });
+
+    if (error) throw error;
+
+    return (data || []).map(row => ({
+      date: row.bucket,
+      temperature: row.temperature,
+      humidity: row.humidity,
+      batteryLevel: row.battery_level,
+      rssi: row.rssi,
+      sampleCount: row.sample_count,
     }));
+  } catch (error) {
+    console.error('Get telemetry history error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Report a batch of telemetry readings for a device
+ * @param deviceId - The ID of the device the readings belong to
+ * @param readings - The readings to store
+ * @returns Promise with the number of readings stored
+ */
+export const reportTelemetry = async (deviceId: string, readings: TelemetryReading[]): Promise<number> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (readings.length === 0) {
+      return 0;
+    }
+
+    const { data, error } = await supabase.rpc('ingest_device_telemetry', {
+      p_device_id: deviceId,
+      p_readings: readings as unknown as Json,
+    });
+
+    if (error) throw error;
+
+    return data ?? 0;
+  } catch (error) {
+    console.error('Report telemetry error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Fetch aggregated dashboard data for the current user
+ * @param days - Number of days to include in the detection series
+ * @returns Promise with dashboard totals, detection series and alerts
+ */
+export const fetchDashboardData = async (days: number = 7): Promise<DashboardData> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase.rpc('get_dashboard_data', { p_days: days });
+
+    if (error) throw error;
+    if (!data) throw new Error('Failed to load dashboard data');
+
+    return data as unknown as DashboardData;
+  } catch (error) {
+    console.error('Fetch dashboard data error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Fetch detection history for a device
+ * @param deviceId - The ID of the device
+ * @param options - Range (24h/7d/30d/90d/custom), bucketing and time zone
+ * @returns Promise with detection counts per bucket and detection type
+ */
+export const getDetectionHistory = async (
+  deviceId: string,
+  options: DetectionHistoryOptions = { range: '7d' }
+): Promise<DetectionHistory> =>
+  withOfflineFallback(
+    async () => {
+      try {
+        const session = await getSession();
+        if (!session) {
+          throw new Error('User not authenticated');
+        }
 
-    // Fill in missing days
-    const today = new Date();
-    for (let i = 0; i < 7; i++) {
-      const date = new Date(today);
-      date.setDate(date.getDate() - i);
-      const dateStr = date.toISOString().split('T')[0];
-      if (!detectionsByDay[dateStr]) {
-        detectionData.push({ date: dateStr, count: 0 });
+        return await fetchDetectionHistory(deviceId, options);
+      } catch (error) {
+        console.error('Get detection history error:', error);
+        throw new Error(handleSupabaseError(error));
       }
+    },
+    async () => {
+      // Detections are cached by the sync engine, not per query
+      const cached = await getCachedDevice(deviceId);
+      return cached && { ...(await loadCachedDetectionHistory(deviceId, options)), cachedAt: cached.cachedAt };
+    },
+    async () => {}
+  );
+
+/**
+ * Fetch the current user's devices within a radius of a point
+ * @param latitude - Latitude of the centre point
+ * @param longitude - Longitude of the centre point
+ * @param radiusMeters - Search radius in meters
+ * @returns Promise with matching devices, nearest first
+ */
+export const getDevicesNear = async (
+  latitude: number,
+  longitude: number,
+  radiusMeters: number
+): Promise<DeviceWithDistance[]> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
     }
 
-    // Sort by date
-    detectionData.sort((a, b) => a.date.localeCompare(b.date));
+    const { data, error } = await supabase.rpc('get_devices_near', {
+      p_latitude: latitude,
+      p_longitude: longitude,
+      p_radius_meters: radiusMeters,
+    });
 
-    // Prepare metrics
-    const metrics = {
-      batteryLevel: device.battery_level,
-      detections: detections?.length || 0,
-      temperature: 24.5, // Mock data, would come from device.settings in a real app
-      humidity: 68, // Mock data, would come from device.settings in a real app
-      signalStrength: 'Good', // Mock data, would come from device.settings in a real app
-    };
+    if (error) throw error;
 
-    return {
-      device,
-      metrics,
-      detectionData,
-      images: images || [],
-    };
+    return (data || []) as unknown as DeviceWithDistance[];
   } catch (error) {
-    console.error('Get device details error:', error);
+    console.error('Get devices near error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Fetch every device that has coordinates, for the fleet map
+ * @returns Promise with map markers for the current user's devices
+ */
+export const getDeviceMapMarkers = async (): Promise<DeviceMapMarker[]> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('devices')
+      .select('id, name, status, battery_level, location, latitude, longitude')
+      .not('latitude', 'is', null)
+      .not('longitude', 'is', null)
+      .order('name');
+
+    if (error) throw error;
+
+    return (data || []) as DeviceMapMarker[];
+  } catch (error) {
+    console.error('Get device map markers error:', error);
     throw new Error(handleSupabaseError(error));
   }
 };
 
 /**
- * Add a new device
- * @param deviceData - The device data to insert
+ * Add a new device by claiming it from the factory registry
+ * @param deviceData - The serial number, name, location, coordinates and label model of the device,
+ * and the organization to register it to (defaults to the first one the user owns)
+ * @param claimCode - The claim code printed on the device label or QR code
  * @returns Promise with the created device
  */
-export const addDevice = async (deviceData: Omit<DeviceInsert, 'user_id'>): Promise<Device> => {
+export const addDevice = async (
+  deviceData: Pick<DeviceInsert, 'name' | 'serial_number' | 'location' | 'model' | 'latitude' | 'longitude' | 'organization_id'>,
+  claimCode: string
+): Promise<Device> => {
   try {
     const user = await getCurrentUser();
     if (!user) {
@@ -209,36 +763,21 @@ export const addDevice = async (deviceData: Omit<DeviceInsert, 'user_id'>): Prom
       throw new Error('Device name and serial number are required');
     }
 
-    // Check if device with this serial number already exists
-    const { data: existingDevice, error: checkError } = await supabase
-      .from('devices')
-      .select('id')
-      .eq('serial_number', deviceData.serial_number)
-      .eq('user_id', user.id)
-      .maybeSingle();
-
-    if (checkError) throw checkError;
-    if (existingDevice) {
-      throw new Error('A device with this serial number is already registered');
+    if (!claimCode) {
+      throw new Error('Claim code is required');
     }
 
-    // Insert the new device
-    const { data, error } = await supabase
-      .from('devices')
-      .insert({
-        ...deviceData,
-        user_id: user.id,
-        status: 'online',
-        battery_level: 100,
-        settings: {
-          captureFrequency: 'Every 4 hours',
-          notificationPreferences: ['All alerts'],
-          sensitivityLevel: 5,
-          nightMode: true,
-        },
-      })
-      .select()
-      .single();
+    // Verify the claim code, create the device and record the claim
+    const { data, error } = await supabase.rpc('claim_device', {
+      p_serial_number: deviceData.serial_number,
+      p_claim_code: claimCode,
+      p_name: deviceData.name,
+      p_location: deviceData.location ?? null,
+      p_model: deviceData.model ?? null,
+      p_latitude: deviceData.latitude ?? null,
+      p_longitude: deviceData.longitude ?? null,
+      p_organization_id: deviceData.organization_id ?? null,
+    });
 
     if (error) throw error;
     if (!data) throw new Error('Failed to create device');
@@ -251,46 +790,249 @@ export const addDevice = async (deviceData: Omit<DeviceInsert, 'user_id'>): Prom
 };
 
 /**
- * Update an existing device
- * @param deviceId - The ID of the device to update
- * @param deviceData - The device data to update
- * @returns Promise with the updated device
+ * Validate a bulk import CSV and check it for duplicate serial numbers
+ * @param csvText - CSV contents with a header row
+ * @returns Promise with the per-row validation result
  */
-export const updateDevice = async (deviceId: string, deviceData: DeviceUpdate): Promise<Device> => {
+export const previewDeviceImport = async (csvText: string): Promise<DeviceImportPreview> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const [header, ...records] = parseCsv(csvText);
+    if (!header || records.length === 0) {
+      throw new Error('The file has no devices to import');
+    }
+
+    if (records.length > MAX_IMPORT_ROWS) {
+      throw new Error(`A maximum of ${MAX_IMPORT_ROWS} devices can be imported at once`);
+    }
+
+    const columns = header.map(column => column.trim().toLowerCase());
+    const missing = IMPORT_REQUIRED_COLUMNS.filter(column => !columns.includes(column));
+    if (missing.length > 0) {
+      throw new Error(`Missing required columns: ${missing.join(', ')}`);
+    }
+
+    const rows: DeviceImportPreviewRow[] = records.map((record, index) => {
+      const raw: Record<string, string> = {};
+      [...IMPORT_REQUIRED_COLUMNS, ...IMPORT_OPTIONAL_COLUMNS].forEach(column => {
+        const position = columns.indexOf(column);
+        raw[column] = position === -1 ? '' : record[position] ?? '';
+      });
+
+      const parsed = DeviceImportRowSchema.safeParse(raw);
+      return {
+        // Header is line 1
+        line: index + 2,
+        status: parsed.success ? 'valid' : 'invalid',
+        raw,
+        data: parsed.success ? parsed.data : null,
+        errors: parsed.success
+          ? []
+          : parsed.error.issues.map(issue => issue.path.length > 1
+            ? `${issue.path.join('.')}: ${issue.message}`
+            : issue.message),
+      };
+    });
+
+    // Duplicates within the file
+    const seen = new Map<string, number>();
+    rows.forEach(row => {
+      if (!row.data) return;
+      const firstLine = seen.get(row.data.serial_number);
+      if (firstLine !== undefined) {
+        row.status = 'duplicate';
+        row.errors.push(`Serial number also appears on line ${firstLine}`);
+      } else {
+        seen.set(row.data.serial_number, row.line);
+      }
+    });
+
+    // Duplicates against devices already registered in the user's organizations
+    if (seen.size > 0) {
+      const { data: existing, error } = await supabase
+        .from('devices')
+        .select('serial_number')
+        .in('serial_number', Array.from(seen.keys()));
+
+      if (error) throw error;
+
+      const registered = new Set((existing || []).map(device => device.serial_number));
+      rows.forEach(row => {
+        if (row.status === 'valid' && row.data && registered.has(row.data.serial_number)) {
+          row.status = 'duplicate';
+          row.errors.push('A device with this serial number is already registered');
+        }
+      });
+    }
+
+    return {
+      rows,
+      validCount: rows.filter(row => row.status === 'valid').length,
+      invalidCount: rows.filter(row => row.status === 'invalid').length,
+      duplicateCount: rows.filter(row => row.status === 'duplicate').length,
+    };
+  } catch (error) {
+    console.error('Preview device import error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Import the valid rows of a bulk import preview in a single transaction
+ * @param rows - Preview rows; rows that are not valid are skipped
+ * @param organizationId - The organization to import into (defaults to the first one the user owns)
+ * @returns Promise with the created devices
+ */
+export const importDevices = async (rows: DeviceImportPreviewRow[], organizationId?: string): Promise<Device[]> => {
   try {
     const user = await getCurrentUser();
     if (!user) {
       throw new Error('User not authenticated');
     }
 
-    // Check if device exists and belongs to user
-    const { data: existingDevice, error: checkError } = await supabase
+    const devices = rows
+      .filter(row => row.status === 'valid' && row.data)
+      .map(row => ({ ...row.data, line: row.line }));
+
+    if (devices.length === 0) {
+      throw new Error('There are no valid devices to import');
+    }
+
+    const { data, error } = await supabase.rpc('import_devices', {
+      p_devices: devices as unknown as Json,
+      p_organization_id: organizationId ?? null,
+    });
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error('Import devices error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Send a queued device edit
+ *
+ * Every write to a device, heartbeats included, moves its updated_at, so a
+ * changed updated_at alone is not a conflict. The edit conflicts only when a
+ * field it changes was also changed on the server since the edit was made.
+ * @param payload - The queued edit
+ * @returns Promise with the updated device
+ */
+const sendDeviceUpdate: MutationHandler<'update_device'> = async payload => {
+  // Viewers can see the device but not change it
+  await requireDeviceRole(payload.deviceId, MANAGER_ROLES, 'update');
+
+  // Edits queued before settings were versioned may still carry them
+  const { settings: _settings, ...changes } = payload.changes as DeviceUpdate & { settings?: unknown };
+  const keys = Object.keys(changes);
+
+  // Retry if another write lands between the check and the update
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data: current, error: currentError } = await supabase
       .from('devices')
       .select('*')
-      .eq('id', deviceId)
-      .eq('user_id', user.id)
+      .eq('id', payload.deviceId)
       .single();
 
-    if (checkError) throw checkError;
-    if (!existingDevice) {
-      throw new Error('Device not found or you do not have permission to update it');
+    if (currentError) throw currentError;
+    if (!current) throw new Error('Device not found');
+
+    if (!payload.overwrite && current.updated_at !== payload.baseUpdatedAt) {
+      const serverValues: Record<string, unknown> = Object.fromEntries(
+        keys.map(key => [key, current[key as keyof Device]])
+      );
+      const changedOnServer = new Set(diffSettings(payload.base, serverValues).map(change => change.key));
+      const conflicts = diffSettings(changes, serverValues)
+        .map(change => change.key)
+        .filter(key => changedOnServer.has(key));
+
+      if (conflicts.length > 0) {
+        throw new OutboxConflictError(`Changed elsewhere since your edit: ${conflicts.join(', ')}`);
+      }
     }
 
-    // Update the device
     const { data, error } = await supabase
       .from('devices')
       .update({
-        ...deviceData,
+        ...changes,
         updated_at: new Date().toISOString(),
       })
-      .eq('id', deviceId)
+      .eq('id', payload.deviceId)
+      .eq('updated_at', current.updated_at)
       .select()
-      .single();
+      .maybeSingle();
 
     if (error) throw error;
-    if (!data) throw new Error('Failed to update device');
+    if (data) return data;
+  }
 
-    return data;
+  throw new Error('The device kept changing while saving; try again');
+};
+
+registerMutationHandler('update_device', sendDeviceUpdate);
+
+/**
+ * Update an existing device. Without a connection the edit is queued in the
+ * outbox and sent once the device is back online.
+ * @param deviceId - The ID of the device to update
+ * @param deviceData - The device data to update
+ * @returns Promise with the updated device, or the device as it will look
+ * once a queued edit is sent
+ */
+export const updateDevice = async (deviceId: string, deviceData: DeviceUpdate): Promise<Device> => {
+  try {
+    // Settings only reach the hardware as a config version
+    const { updated_at: _ignored, settings: _settings, ...changes } = deviceData as DeviceUpdate & { settings?: unknown };
+
+    // Reject what the server would, rather than queue it to fail later
+    const cached = await getCachedDevice(deviceId);
+    if (cached?.role && !MANAGER_ROLES.includes(cached.role)) {
+      throw new Error('Device not found or you do not have permission to update it');
+    }
+
+    // The copy the user edited; the server copy when it was never cached
+    let base: Device | null = cached?.device ?? null;
+    if (!base && (await isOnline())) {
+      const { data, error } = await supabase
+        .from('devices')
+        .select('*')
+        .eq('id', deviceId)
+        .single();
+
+      if (error) throw error;
+      base = data;
+    }
+    if (!base) {
+      throw new Error('You are offline and this device has not been saved on this device yet');
+    }
+
+    const baseDevice = base;
+    const device = await queueMutation(
+      'update_device',
+      {
+        deviceId,
+        changes,
+        baseUpdatedAt: baseDevice.updated_at,
+        base: Object.fromEntries(Object.keys(changes).map(key => [key, baseDevice[key as keyof Device] ?? null])),
+      },
+      { label: `Edit ${baseDevice.name}` }
+    );
+
+    // Keep the cached copy in step, with the edit applied if it is queued
+    const updated: Device = device ?? { ...baseDevice, ...changes };
+    if (cached) {
+      await cacheDevices([{ ...cached.device, ...updated }])
+        .catch(error => console.error('Cache updated device error:', error));
+    }
+
+    return updated;
   } catch (error) {
     console.error('Update device error:', error);
     throw new Error(handleSupabaseError(error));
@@ -298,9 +1040,13 @@ export const updateDevice = async (deviceId: string, deviceData: DeviceUpdate):
 };
 
 /**
- * Update device settings
- * @param deviceId - The ID of the device to update
- * @param settings - The settings to update
+ * Push new settings to a device
+ *
+ * The settings become the device's desired configuration straight away and
+ * are recorded as a new pending config version until the hardware picks them
+ * up and acknowledges them.
+ * @param deviceId - The ID of the device
+ * @param settings - The new settings
  * @returns Promise with the updated device
  */
 export const updateDeviceSettings = async (deviceId: string, settings: DeviceSettings): Promise<Device> => {
@@ -310,28 +1056,22 @@ export const updateDeviceSettings = async (deviceId: string, settings: DeviceSet
       throw new Error('User not authenticated');
     }
 
-    // Check if device exists and belongs to user
-    const { data: existingDevice, error: checkError } = await supabase
-      .from('devices')
-      .select('*')
-      .eq('id', deviceId)
-      .eq('user_id', user.id)
-      .single();
+    const validated = validateDeviceSettings(settings);
 
-    if (checkError) throw checkError;
-    if (!existingDevice) {
-      throw new Error('Device not found or you do not have permission to update it');
-    }
+    // Viewers can see the device but not change it
+    await requireDeviceRole(deviceId, MANAGER_ROLES, 'update');
+
+    const { error: pushError } = await supabase.rpc('push_device_config', {
+      p_device_id: deviceId,
+      p_settings: validated as unknown as Json,
+    });
+
+    if (pushError) throw pushError;
 
-    // Update the device settings
     const { data, error } = await supabase
       .from('devices')
-      .update({
-        settings,
-        updated_at: new Date().toISOString(),
-      })
+      .select('*')
       .eq('id', deviceId)
-      .select()
       .single();
 
     if (error) throw error;
@@ -344,6 +1084,96 @@ export const updateDeviceSettings = async (deviceId: string, settings: DeviceSet
   }
 };
 
+/**
+ * Fetch the configuration versions pushed to a device
+ * @param deviceId - The ID of the device
+ * @param limit - Maximum number of versions to return
+ * @returns Promise with versions, newest first, each with its changes from the previous one
+ */
+export const getDeviceConfigVersions = async (
+  deviceId: string,
+  limit: number = 20
+): Promise<DeviceConfigVersionWithChanges[]> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    // One extra row so the oldest returned version can still be diffed
+    const { data, error } = await supabase
+      .from('device_config_versions')
+      .select('*')
+      .eq('device_id', deviceId)
+      .order('version', { ascending: false })
+      .limit(limit + 1);
+
+    if (error) throw error;
+
+    const versions: DeviceConfigVersion[] = data || [];
+
+    return versions.slice(0, limit).map((version, index) => {
+      const previous = versions[index + 1];
+      return {
+        ...version,
+        changes: diffSettings(
+          (previous?.settings as Record<string, unknown> | undefined) ?? null,
+          version.settings as Record<string, unknown>
+        ),
+      };
+    });
+  } catch (error) {
+    console.error('Get device config versions error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Issue a new ingestion secret for a device, replacing any existing one
+ * @param deviceId - The ID of the device
+ * @returns Promise with the secret; it cannot be retrieved again later
+ */
+export const generateDeviceSecret = async (deviceId: string): Promise<string> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase.rpc('generate_device_secret', { p_device_id: deviceId });
+
+    if (error) throw error;
+    if (!data) throw new Error('Failed to generate device secret');
+
+    return data;
+  } catch (error) {
+    console.error('Generate device secret error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Drop a device's token so the hardware can provision again with its claim
+ * code, e.g. after a factory reset. The device stops authenticating at once.
+ * @param deviceId - The ID of the device
+ * @returns Promise<void>
+ */
+export const resetDeviceProvisioning = async (deviceId: string): Promise<void> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { error } = await supabase.rpc('reset_device_provisioning', { p_device_id: deviceId });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Reset device provisioning error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
 /**
  * Delete a device
  * @param deviceId - The ID of the device to delete
@@ -356,20 +1186,12 @@ export const deleteDevice = async (deviceId: string): Promise<void> => {
       throw new Error('User not authenticated');
     }
 
-    // Check if device exists and belongs to user
-    const { data: existingDevice, error: checkError } = await supabase
-      .from('devices')
-      .select('*')
-      .eq('id', deviceId)
-      .eq('user_id', user.id)
-      .single();
-
-    if (checkError) throw checkError;
-    if (!existingDevice) {
-      throw new Error('Device not found or you do not have permission to delete it');
-    }
+    // Viewers can see the device but not delete it
+    await requireDeviceRole(deviceId, MANAGER_ROLES, 'delete');
 
-    // Delete the device (cascade deletion will handle related records)
+    // Delete the device (cascade deletion will handle related records, and
+    // the revoke_device_claim trigger revokes the claim and device token so
+    // the hardware can be claimed again)
     const { error } = await supabase
       .from('devices')
       .delete()
@@ -382,20 +1204,29 @@ export const deleteDevice = async (deviceId: string): Promise<void> => {
   }
 };
 
+// Joining the same realtime topic twice closes the first subscription, so
+// every subscriber gets its own channel
+let deviceChannelCount = 0;
+
 /**
- * Subscribe to real-time device status updates
- * @param callback - Function to call when device status changes
+ * Subscribe to real-time device updates, including online/offline transitions
+ * made by the server when devices check in or go silent
+ * @param callback - Function to call with the updated device
+ * @param deviceId - Optionally only listen to one device
  * @returns Subscription object with unsubscribe method
  */
-export const subscribeToDeviceUpdates = (callback: (device: Device) => void) => {
+export const subscribeToDeviceUpdates = (callback: (device: Device) => void, deviceId?: string) => {
+  deviceChannelCount += 1;
+
   const subscription = supabase
-    .channel('device-updates')
+    .channel(`device-updates-${deviceId ?? 'all'}-${deviceChannelCount}`)
     .on(
       'postgres_changes',
       {
         event: 'UPDATE',
         schema: 'public',
         table: 'devices',
+        ...(deviceId ? { filter: `id=eq.${deviceId}` } : {}),
       },
       (payload) => {
         callback(payload.new as Device);
@@ -408,4 +1239,37 @@ export const subscribeToDeviceUpdates = (callback: (device: Device) => void) =>
       supabase.removeChannel(subscription);
     },
   };
-};
\ No newline at end of file
+};
+
+/**
+ * Subscribe to configuration versions being pushed to and acknowledged by a device
+ * @param deviceId - The ID of the device
+ * @param callback - Function to call with the changed version
+ * @returns Subscription object with unsubscribe method
+ */
+export const subscribeToConfigVersions = (
+  deviceId: string,
+  callback: (version: DeviceConfigVersion) => void
+) => {
+  const subscription = supabase
+    .channel(`device-config-${deviceId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'device_config_versions',
+        filter: `device_id=eq.${deviceId}`,
+      },
+      (payload) => {
+        callback(payload.new as DeviceConfigVersion);
+      }
+    )
+    .subscribe();
+
+  return {
+    unsubscribe: () => {
+      supabase.removeChannel(subscription);
+    },
+  };
+};
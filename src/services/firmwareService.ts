@@ -0,0 +1,298 @@
+import { supabase, handleSupabaseError } from '../lib/supabase';
+import {
+  CreateFirmwareRolloutParams,
+  DeviceFirmwareStatus,
+  DeviceFirmwareUpdateWithRelease,
+  FirmwareRelease,
+  FirmwareRollout,
+  FirmwareRolloutStatus,
+  FirmwareRolloutWithProgress,
+  FirmwareUpdateStatus
+} from '../types/firmware';
+import { getCurrentUser } from './authService';
+import { MANAGER_ROLES, requireDeviceRole, requireOrganizationRole } from './organizationService';
+
+/**
+ * Compare dotted version strings numerically, e.g. 1.10.0 is newer than 1.9.2
+ * @param a - First version
+ * @param b - Second version
+ * @returns Negative if a is older, positive if newer, 0 if equal
+ */
+export const compareFirmwareVersions = (a: string, b: string): number => {
+  const partsA = (a.match(/\d+/g) || []).map(Number);
+  const partsB = (b.match(/\d+/g) || []).map(Number);
+
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const difference = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (difference !== 0) return difference;
+  }
+
+  return 0;
+};
+
+/**
+ * Fetch the firmware release catalogue
+ * @param model - Optionally limit to releases for one device model
+ * @returns Promise with releases, newest version first
+ */
+export const getFirmwareReleases = async (model?: string | null): Promise<FirmwareRelease[]> => {
+  try {
+    let query = supabase
+      .from('firmware_releases')
+      .select('*');
+
+    if (model) {
+      // Releases without a model apply to every model
+      query = query.or(`model.is.null,model.eq."${model}"`);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    return (data || []).sort((a, b) => compareFirmwareVersions(b.version, a.version));
+  } catch (error) {
+    console.error('Get firmware releases error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Fetch a device's firmware version and whether a newer release exists
+ * @param deviceId - The ID of the device
+ * @returns Promise with the current version, latest release and last update attempt
+ */
+export const getDeviceFirmwareStatus = async (deviceId: string): Promise<DeviceFirmwareStatus> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data: device, error: deviceError } = await supabase
+      .from('devices')
+      .select('model, firmware_version, firmware_reported_at')
+      .eq('id', deviceId)
+      .single();
+
+    if (deviceError) throw deviceError;
+
+    const [releases, updateResult] = await Promise.all([
+      getFirmwareReleases(device.model),
+      supabase
+        .from('device_firmware_updates')
+        .select('*, release:firmware_releases(*)')
+        .eq('device_id', deviceId)
+        .order('updated_at', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+    ]);
+
+    if (updateResult.error) throw updateResult.error;
+
+    const latestRelease = releases.find(release => release.channel === 'stable') ?? null;
+
+    return {
+      currentVersion: device.firmware_version,
+      reportedAt: device.firmware_reported_at,
+      latestRelease,
+      updateAvailable: Boolean(
+        latestRelease &&
+        (!device.firmware_version || compareFirmwareVersions(latestRelease.version, device.firmware_version) > 0)
+      ),
+      lastUpdate: updateResult.data as unknown as DeviceFirmwareUpdateWithRelease | null,
+    };
+  } catch (error) {
+    console.error('Get device firmware status error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Fetch an organization's firmware rollouts
+ * @param organizationId - The ID of the organization
+ * @returns Promise with rollouts, newest first, with per-status device counts
+ */
+export const getFirmwareRollouts = async (organizationId: string): Promise<FirmwareRolloutWithProgress[]> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('firmware_rollouts')
+      .select('*, release:firmware_releases(*), updates:device_firmware_updates(status)')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map(({ updates, ...rollout }) => {
+      const progress: Record<FirmwareUpdateStatus, number> = {
+        offered: 0,
+        downloading: 0,
+        installing: 0,
+        succeeded: 0,
+        failed: 0,
+      };
+      for (const update of (updates as unknown as { status: FirmwareUpdateStatus }[]) || []) {
+        progress[update.status] += 1;
+      }
+
+      return { ...(rollout as unknown as FirmwareRolloutWithProgress), progress };
+    });
+  } catch (error) {
+    console.error('Get firmware rollouts error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Stage a firmware release to an organization's devices
+ *
+ * Devices are offered the update the next time they report in. With a
+ * percentage below 100 only that share of the targeted devices is offered
+ * it; raising the percentage later keeps the devices already included.
+ * @param params - Release, targets and percentage
+ * @returns Promise with the created rollout
+ */
+export const createFirmwareRollout = async (params: CreateFirmwareRolloutParams): Promise<FirmwareRollout> => {
+  try {
+    const { organizationId, releaseId, groupId, deviceIds, percentage = 100 } = params;
+
+    if (groupId && deviceIds) {
+      throw new Error('Target either a site or a list of devices, not both');
+    }
+    if (deviceIds && deviceIds.length === 0) {
+      throw new Error('Select at least one device');
+    }
+    if (!Number.isInteger(percentage) || percentage < 1 || percentage > 100) {
+      throw new Error('Rollout percentage must be between 1 and 100');
+    }
+
+    const { user } = await requireOrganizationRole(
+      organizationId,
+      MANAGER_ROLES,
+      'Only owners and managers can update firmware'
+    );
+
+    const { data, error } = await supabase
+      .from('firmware_rollouts')
+      .insert({
+        organization_id: organizationId,
+        release_id: releaseId,
+        created_by: user.id,
+        group_id: groupId ?? null,
+        device_ids: deviceIds ?? null,
+        percentage,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    if (!data) throw new Error('Failed to create firmware rollout');
+
+    return data;
+  } catch (error) {
+    console.error('Create firmware rollout error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Update a device to a release straight away
+ * @param deviceId - The ID of the device
+ * @param releaseId - The ID of the firmware release
+ * @returns Promise with the created single-device rollout
+ */
+export const updateDeviceFirmware = async (deviceId: string, releaseId: string): Promise<FirmwareRollout> => {
+  try {
+    const { device } = await requireDeviceRole(deviceId, MANAGER_ROLES, 'update');
+
+    return await createFirmwareRollout({
+      organizationId: device.organization_id,
+      releaseId,
+      deviceIds: [deviceId],
+    });
+  } catch (error) {
+    console.error('Update device firmware error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Change a rollout's percentage or status
+ * @param rolloutId - The ID of the rollout
+ * @param changes - New percentage and/or status; paused rollouts stop
+ * offering the update until resumed, cancelled ones for good
+ * @returns Promise with the updated rollout
+ */
+export const updateFirmwareRollout = async (
+  rolloutId: string,
+  changes: { percentage?: number; status?: FirmwareRolloutStatus }
+): Promise<FirmwareRollout> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (changes.percentage !== undefined &&
+      (!Number.isInteger(changes.percentage) || changes.percentage < 1 || changes.percentage > 100)) {
+      throw new Error('Rollout percentage must be between 1 and 100');
+    }
+
+    const { data: rollout, error: rolloutError } = await supabase
+      .from('firmware_rollouts')
+      .select('*')
+      .eq('id', rolloutId)
+      .maybeSingle();
+
+    if (rolloutError) throw rolloutError;
+    if (!rollout) throw new Error('Firmware rollout not found');
+    if (rollout.status === 'cancelled') throw new Error('Cancelled rollouts cannot be changed');
+
+    // Shrinking would not take the update back from devices already offered it
+    if (changes.percentage !== undefined && changes.percentage < rollout.percentage) {
+      throw new Error('Rollout percentage can only be increased');
+    }
+
+    await requireOrganizationRole(
+      rollout.organization_id,
+      MANAGER_ROLES,
+      'Only owners and managers can update firmware'
+    );
+
+    const { data, error } = await supabase
+      .from('firmware_rollouts')
+      .update(changes)
+      .eq('id', rolloutId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    if (!data) throw new Error('Failed to update firmware rollout');
+
+    return data;
+  } catch (error) {
+    console.error('Update firmware rollout error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Stop offering a rollout's update until it is resumed
+ * @param rolloutId - The ID of the rollout
+ * @returns Promise with the updated rollout
+ */
+export const pauseFirmwareRollout = (rolloutId: string) =>
+  updateFirmwareRollout(rolloutId, { status: 'paused' });
+
+/**
+ * Resume a paused rollout
+ * @param rolloutId - The ID of the rollout
+ * @returns Promise with the updated rollout
+ */
+export const resumeFirmwareRollout = (rolloutId: string) =>
+  updateFirmwareRollout(rolloutId, { status: 'active' });
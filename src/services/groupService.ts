@@ -0,0 +1,219 @@
+import { supabase, handleSupabaseError } from '../lib/supabase';
+import { validateDeviceSettings } from '../lib/deviceSettings';
+import {
+  DeviceGroup,
+  DeviceGroupInsert,
+  DeviceGroupUpdate,
+  DeviceGroupWithCount
+} from '../types/group';
+import { Device, DeviceSettings } from '../types/device';
+import { Json } from '../types/supabase';
+import { getCurrentUser } from './authService';
+import { updateDeviceSettings } from './deviceService';
+
+/**
+ * Fetch device groups in the current user's organizations
+ * @param organizationId - Optionally limit the groups to one organization
+ * @returns Promise with groups and the number of devices in each
+ */
+export const getDeviceGroups = async (organizationId?: string): Promise<DeviceGroupWithCount[]> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    // RLS limits groups to the user's organizations
+    let query = supabase
+      .from('device_groups')
+      .select('*, devices(count)')
+      .order('name');
+
+    if (organizationId) {
+      query = query.eq('organization_id', organizationId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    return (data || []).map(({ devices, ...group }) => ({
+      ...group,
+      deviceCount: (devices as unknown as { count: number }[])?.[0]?.count ?? 0,
+    }));
+  } catch (error) {
+    console.error('Get device groups error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Create a device group
+ * @param groupData - The group data to insert; without an organization_id it
+ * goes to the first organization the user owns
+ * @returns Promise with the created group
+ */
+export const createDeviceGroup = async (groupData: DeviceGroupInsert): Promise<DeviceGroup> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!groupData.name?.trim()) {
+      throw new Error('Group name is required');
+    }
+
+    const { data, error } = await supabase
+      .from('device_groups')
+      .insert({
+        ...groupData,
+        name: groupData.name.trim(),
+        user_id: user.id,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    if (!data) throw new Error('Failed to create device group');
+
+    return data;
+  } catch (error) {
+    console.error('Create device group error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Update a device group
+ * @param groupId - The ID of the group to update
+ * @param groupData - The group data to update
+ * @returns Promise with the updated group
+ */
+export const updateDeviceGroup = async (groupId: string, groupData: DeviceGroupUpdate): Promise<DeviceGroup> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('device_groups')
+      .update({
+        ...groupData,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', groupId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    if (!data) throw new Error('Device group not found or you do not have permission to update it');
+
+    return data;
+  } catch (error) {
+    console.error('Update device group error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Delete a device group; its devices become ungrouped
+ * @param groupId - The ID of the group to delete
+ * @returns Promise<void>
+ */
+export const deleteDeviceGroup = async (groupId: string): Promise<void> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    // RLS only lets owners and managers delete groups
+    const { data, error } = await supabase
+      .from('device_groups')
+      .delete()
+      .eq('id', groupId)
+      .select('id');
+
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      throw new Error('Device group not found or you do not have permission to delete it');
+    }
+  } catch (error) {
+    console.error('Delete device group error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Move devices into a group, or out of all groups
+ * @param deviceIds - The IDs of the devices to move
+ * @param groupId - The target group, or null to ungroup the devices
+ * @returns Promise with the updated devices
+ */
+export const assignDevicesToGroup = async (deviceIds: string[], groupId: string | null): Promise<Device[]> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (deviceIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('devices')
+      .update({
+        group_id: groupId,
+        updated_at: new Date().toISOString(),
+      })
+      .in('id', deviceIds)
+      .select();
+
+    if (error) throw error;
+    if (!data || data.length < deviceIds.length) {
+      throw new Error('Some devices were not found or you do not have permission to update them');
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Assign devices to group error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Save settings as a group's defaults and push them to every device in it
+ * @param groupId - The ID of the group
+ * @param settings - The settings to apply
+ * @returns Promise with the updated devices
+ */
+export const updateGroupSettings = async (groupId: string, settings: DeviceSettings): Promise<Device[]> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const validated = validateDeviceSettings(settings);
+
+    await updateDeviceGroup(groupId, { settings: validated as unknown as Json });
+
+    const { data: devices, error } = await supabase
+      .from('devices')
+      .select('id')
+      .eq('group_id', groupId);
+
+    if (error) throw error;
+
+    // Each device goes through the same path as a single-device change
+    return await Promise.all(
+      (devices || []).map(device => updateDeviceSettings(device.id, validated))
+    );
+  } catch (error) {
+    console.error('Update group settings error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
@@ -0,0 +1,250 @@
+import * as Notifications from 'expo-notifications';
+import Constants from 'expo-constants';
+import { Platform } from 'react-native';
+import { supabase, handleSupabaseError } from '../lib/supabase';
+import {
+  NotificationPreferencesSchema,
+  readNotificationPreferences
+} from '../lib/notificationPreferences';
+import { validateNotificationRule } from '../lib/notificationRules';
+import {
+  NotificationPreferences,
+  PushToken,
+  DeviceNotificationRule,
+  NotificationRuleInput
+} from '../types/notification';
+import { getCurrentUser } from './authService';
+
+// The token registered by this installation, removed again on sign-out
+let registeredToken: string | null = null;
+
+/**
+ * Register this installation for push notifications to the current user
+ *
+ * Asks for permission the first time. Push notifications need the iOS or
+ * Android app, so nothing is registered on web.
+ * @returns Promise with the stored token, or null when push is unavailable
+ * or permission was refused
+ */
+export const registerPushToken = async (): Promise<PushToken | null> => {
+  try {
+    if (Platform.OS !== 'ios' && Platform.OS !== 'android') {
+      return null;
+    }
+
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    let { status } = await Notifications.getPermissionsAsync();
+    if (status !== 'granted') {
+      ({ status } = await Notifications.requestPermissionsAsync());
+    }
+    if (status !== 'granted') {
+      return null;
+    }
+
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync('default', {
+        name: 'Default',
+        importance: Notifications.AndroidImportance.HIGH,
+      });
+    }
+
+    const projectId = Constants.expoConfig?.extra?.eas?.projectId;
+    const { data: token } = await Notifications.getExpoPushTokenAsync({ projectId });
+
+    const { data, error } = await supabase.rpc('register_push_token', {
+      p_token: token,
+      p_platform: Platform.OS,
+      p_device_name: Constants.deviceName ?? null,
+    });
+
+    if (error) throw error;
+
+    registeredToken = token;
+    return data;
+  } catch (error) {
+    console.error('Register push token error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Stop sending push notifications for the current user to this
+ * installation; call before signing out
+ * @returns Promise<void>
+ */
+export const unregisterPushToken = async (): Promise<void> => {
+  if (!registeredToken) return;
+
+  try {
+    const { error } = await supabase
+      .from('push_tokens')
+      .delete()
+      .eq('token', registeredToken);
+
+    if (error) throw error;
+
+    registeredToken = null;
+  } catch (error) {
+    console.error('Unregister push token error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Fetch the current user's notification preferences
+ * @returns Promise with the preferences, with missing switches read as on
+ */
+export const getNotificationPreferences = async (): Promise<NotificationPreferences> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('notification_preferences')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return readNotificationPreferences(data?.notification_preferences);
+  } catch (error) {
+    console.error('Get notification preferences error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Save the current user's notification preferences
+ * @param preferences - The complete preferences
+ * @returns Promise with the saved preferences
+ */
+export const updateNotificationPreferences = async (
+  preferences: NotificationPreferences
+): Promise<NotificationPreferences> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const parsed = NotificationPreferencesSchema.safeParse(preferences);
+    if (!parsed.success) {
+      throw new Error('Invalid notification preferences');
+    }
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .update({ notification_preferences: parsed.data })
+      .eq('id', user.id)
+      .select('notification_preferences')
+      .single();
+
+    if (error) throw error;
+
+    return readNotificationPreferences(data.notification_preferences);
+  } catch (error) {
+    console.error('Update notification preferences error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Fetch the current user's notification rules for a device
+ * @param deviceId - The ID of the device
+ * @returns Promise with the rules, detection rules first
+ */
+export const getNotificationRules = async (deviceId: string): Promise<DeviceNotificationRule[]> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('device_notification_rules')
+      .select('*')
+      .eq('device_id', deviceId)
+      .eq('user_id', user.id)
+      .order('event')
+      .order('detection_type', { nullsFirst: true });
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error('Get notification rules error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Add or update one of the current user's notification rules for a device
+ * @param deviceId - The ID of the device
+ * @param rule - The rule's settings
+ * @param ruleId - The rule to update, or undefined to add one
+ * @returns Promise with the saved rule
+ */
+export const saveNotificationRule = async (
+  deviceId: string,
+  rule: NotificationRuleInput,
+  ruleId?: string
+): Promise<DeviceNotificationRule> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const validated = validateNotificationRule(rule);
+
+    const query = ruleId
+      ? supabase
+        .from('device_notification_rules')
+        .update(validated)
+        .eq('id', ruleId)
+        .eq('user_id', user.id)
+      : supabase
+        .from('device_notification_rules')
+        .insert({ ...validated, device_id: deviceId, user_id: user.id });
+
+    const { data, error } = await query.select().single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('You already have a rule for this event and detection type');
+      }
+      throw error;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Save notification rule error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Delete one of the current user's notification rules
+ * @param ruleId - The ID of the rule
+ * @returns Promise<void>
+ */
+export const deleteNotificationRule = async (ruleId: string): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('device_notification_rules')
+      .delete()
+      .eq('id', ruleId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Delete notification rule error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
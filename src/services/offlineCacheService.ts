@@ -0,0 +1,593 @@
+import NetInfo from '@react-native-community/netinfo';
+import { supabase } from '../lib/supabase';
+import { getLocalDb } from '../lib/localDb';
+import { KeysetPage, KeysetSort, decodeCursor, toKeysetPage } from '../lib/pagination';
+import {
+  Device,
+  DeviceWithStats,
+  DeviceFilters,
+  DeviceDetection,
+  DeviceImage,
+  DeviceTelemetry,
+  PaginationParams
+} from '../types/device';
+import { SupportTicket, TicketFilters } from '../types/support';
+import { OrganizationRole } from '../types/organization';
+
+// Stats for devices cached from a detail screen before any list included them
+const EMPTY_DEVICE_STATS: Omit<DeviceWithStats, keyof Device> = {
+  detection_count: 0,
+  last_detection_date: null,
+  image_count: 0,
+  battery_days_remaining: null,
+  battery_score: null,
+  heartbeat_score: null,
+  detection_score: null,
+  storage_used_percent: null,
+  storage_score: null,
+  health_score: null,
+};
+
+const NETWORK_ERROR_PATTERN = /network request failed|failed to fetch|network error|load failed|timed? ?out/i;
+
+interface CachedRow {
+  data: string;
+  synced_at: string;
+}
+
+export interface CachedPage<T> extends KeysetPage<T> {
+  cachedAt: string;
+}
+
+export interface CachedDevice {
+  device: DeviceWithStats;
+  telemetry: DeviceTelemetry | null;
+  role: OrganizationRole | null;
+  cachedAt: string;
+}
+
+/**
+ * Check whether the device currently has a usable connection
+ * @returns Promise with false when NetInfo reports no connection or no
+ * internet access
+ */
+export const isOnline = async (): Promise<boolean> => {
+  const state = await NetInfo.fetch();
+  return state.isConnected !== false && state.isInternetReachable !== false;
+};
+
+/**
+ * Check whether an error came from a request that never reached the server
+ * @param error - The error thrown by a request
+ * @returns True for connection failures and timeouts
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  const message = error instanceof Error ? error.message : String(error);
+  return NETWORK_ERROR_PATTERN.test(message);
+};
+
+/**
+ * Read from Supabase when online, falling back to the offline cache when the
+ * device is offline or the request fails for lack of a connection
+ * @param load - Fetches the live result. It should check the stored session
+ * rather than call getCurrentUser, which reports a network failure as being
+ * signed out, so the failure would not fall back to the cache
+ * @param loadCached - Reads the result from the cache, or null when it has
+ * not been cached
+ * @param save - Stores a live result in the cache
+ * @returns Promise with the live result, or the cached one with `cachedAt` set
+ */
+export const withOfflineFallback = async <T extends { cachedAt?: string | null }>(
+  load: () => Promise<T>,
+  loadCached: () => Promise<T | null>,
+  save: (result: T) => Promise<void>
+): Promise<T> => {
+  const readCache = async (cause?: unknown): Promise<T> => {
+    // getCurrentUser asks the server, so check the stored session instead
+    const { data } = await supabase.auth.getSession();
+    if (!data.session) {
+      throw new Error('User not authenticated');
+    }
+
+    const cached = await loadCached().catch(error => {
+      console.error('Read offline cache error:', error);
+      return null;
+    });
+
+    if (!cached) {
+      throw cause ?? new Error('You are offline and this has not been saved on this device yet');
+    }
+
+    return cached;
+  };
+
+  if (!(await isOnline())) {
+    return readCache();
+  }
+
+  let result: T;
+  try {
+    result = await load();
+  } catch (error) {
+    if (isNetworkError(error) || !(await isOnline())) {
+      return readCache(error);
+    }
+    throw error;
+  }
+
+  // A failed write only costs the offline copy, so never fail the read
+  await save(result).catch(error => console.error('Write offline cache error:', error));
+
+  return { ...result, cachedAt: null };
+};
+
+/**
+ * Build the ORDER BY and keyset WHERE clauses for a cached list, matching
+ * the ordering of the Supabase query: sort column then id, nulls last
+ * @param sort - Sort column (a key of the cached JSON) and direction
+ * @param cursor - Cursor returned with the previous page
+ * @returns SQL fragments and their parameters
+ */
+const keysetClauses = (sort: KeysetSort, cursor?: string | null) => {
+  if (!/^[a-z_]+$/.test(sort.column)) {
+    throw new Error(`Invalid sort column: ${sort.column}`);
+  }
+
+  const value = `json_extract(data, '$.${sort.column}')`;
+  const direction = sort.ascending ? 'ASC' : 'DESC';
+  const op = sort.ascending ? '>' : '<';
+  const orderBy = `ORDER BY ${value} IS NULL, ${value} ${direction}, id ${direction}`;
+
+  if (!cursor) {
+    return { where: null, params: [], orderBy };
+  }
+
+  const [cursorValue, cursorId] = decodeCursor(cursor);
+
+  if (cursorValue === null) {
+    return { where: `(${value} IS NULL AND id ${op} ?)`, params: [cursorId], orderBy };
+  }
+
+  const bound = typeof cursorValue === 'boolean' ? Number(cursorValue) : cursorValue;
+  return {
+    where: `(${value} ${op} ? OR (${value} = ? AND id ${op} ?) OR ${value} IS NULL)`,
+    params: [bound, bound, cursorId],
+    orderBy,
+  };
+};
+
+// Escape LIKE wildcards so search text matches literally
+const likePattern = (search: string): string => `%${search.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+
+/**
+ * Read a page of a cached list
+ * @param table - Cache table holding the rows
+ * @param conditions - WHERE conditions and their parameters
+ * @param sort - The list's sort column and direction
+ * @param pagination - Page size and cursor
+ * @param resource - Sync state key recording when the table was last synced
+ * @returns Promise with the page, or null when nothing has been cached
+ */
+const readCachedPage = async <T extends { id: string }>(
+  table: string,
+  conditions: { sql: string; params: (string | number)[] }[],
+  sort: KeysetSort,
+  pagination: PaginationParams,
+  resource: string
+): Promise<CachedPage<T> | null> => {
+  const db = await getLocalDb();
+  const keyset = keysetClauses(sort, pagination.cursor);
+
+  const where = [...conditions.map(condition => condition.sql), ...(keyset.where ? [keyset.where] : [])];
+  const params = [...conditions.flatMap(condition => condition.params), ...keyset.params];
+
+  const rows = await db.getAllAsync<CachedRow>(
+    `SELECT data, synced_at FROM ${table}
+     ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+     ${keyset.orderBy}
+     LIMIT ?`,
+    [...params, pagination.pageSize + 1]
+  );
+
+  const syncedAt = rows.length > 0
+    ? rows.map(row => row.synced_at).sort()[0]
+    : await getSyncState(resource);
+
+  // An empty table that has never synced has nothing to show
+  if (!syncedAt) {
+    return null;
+  }
+
+  return {
+    ...toKeysetPage(rows.map(row => JSON.parse(row.data) as T), sort, pagination.pageSize),
+    cachedAt: syncedAt,
+  };
+};
+
+/**
+ * Read a value recorded by the sync engine
+ * @param key - The state key
+ * @returns Promise with the value, or null when unset
+ */
+export const getSyncState = async (key: string): Promise<string | null> => {
+  const db = await getLocalDb();
+  const row = await db.getFirstAsync<{ value: string }>('SELECT value FROM sync_state WHERE key = ?', [key]);
+  return row?.value ?? null;
+};
+
+/**
+ * Record a sync engine value
+ * @param key - The state key
+ * @param value - The value to store
+ */
+export const setSyncState = async (key: string, value: string): Promise<void> => {
+  const db = await getLocalDb();
+  await db.runAsync(
+    'INSERT INTO sync_state (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value',
+    [key, value]
+  );
+};
+
+/**
+ * Store devices from a list query
+ * @param devices - Devices with their stats
+ * @param syncedAt - When the rows were fetched, defaults to now
+ */
+export const cacheDevices = async (devices: DeviceWithStats[], syncedAt = new Date().toISOString()): Promise<void> => {
+  if (devices.length === 0) return;
+
+  const db = await getLocalDb();
+  await db.withTransactionAsync(async () => {
+    const statement = await db.prepareAsync(
+      `INSERT INTO devices (id, organization_id, data, synced_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         organization_id = excluded.organization_id,
+         data = excluded.data,
+         synced_at = excluded.synced_at`
+    );
+
+    try {
+      for (const device of devices) {
+        await statement.executeAsync([device.id, device.organization_id, JSON.stringify(device), syncedAt]);
+      }
+    } finally {
+      await statement.finalizeAsync();
+    }
+  });
+};
+
+/**
+ * Read a page of cached devices with the same filters as the live list
+ * @param filters - The list's filters
+ * @param sort - Sort column in devices_with_stats and direction
+ * @param pagination - Page size and cursor
+ * @returns Promise with the page, or null when no devices have been cached
+ */
+export const getCachedDevices = async (
+  filters: DeviceFilters,
+  sort: KeysetSort,
+  pagination: PaginationParams
+): Promise<CachedPage<DeviceWithStats> | null> => {
+  const conditions: { sql: string; params: (string | number)[] }[] = [];
+
+  if (filters.status && filters.status !== 'all') {
+    conditions.push({ sql: "json_extract(data, '$.status') = ?", params: [filters.status] });
+  }
+
+  if (filters.organizationId) {
+    conditions.push({ sql: 'organization_id = ?', params: [filters.organizationId] });
+  }
+
+  if (filters.groupId === null) {
+    conditions.push({ sql: "json_extract(data, '$.group_id') IS NULL", params: [] });
+  } else if (filters.groupId) {
+    conditions.push({ sql: "json_extract(data, '$.group_id') = ?", params: [filters.groupId] });
+  }
+
+  if (filters.search) {
+    const pattern = likePattern(filters.search);
+    conditions.push({
+      sql: "(json_extract(data, '$.name') LIKE ? ESCAPE '\\' OR json_extract(data, '$.serial_number') LIKE ? ESCAPE '\\')",
+      params: [pattern, pattern],
+    });
+  }
+
+  return readCachedPage<DeviceWithStats>('devices', conditions, sort, pagination, 'devices');
+};
+
+/**
+ * Store a device fetched for its detail screen, with its latest telemetry,
+ * the user's role and its recent images
+ * @param device - The device row
+ * @param telemetry - Latest telemetry reading, if any
+ * @param role - The user's role in the device's organization
+ * @param images - The device's recent images
+ */
+export const cacheDeviceDetails = async (
+  device: Device,
+  telemetry: DeviceTelemetry | null,
+  role: OrganizationRole,
+  images: DeviceImage[]
+): Promise<void> => {
+  const db = await getLocalDb();
+  const syncedAt = new Date().toISOString();
+
+  // Keep the stats from the last list query; the devices table has none
+  const existing = await db.getFirstAsync<{ data: string }>('SELECT data FROM devices WHERE id = ?', [device.id]);
+  const data: DeviceWithStats = {
+    ...EMPTY_DEVICE_STATS,
+    ...(existing ? JSON.parse(existing.data) : {}),
+    ...device,
+  };
+
+  await db.withTransactionAsync(async () => {
+    await db.runAsync(
+      `INSERT INTO devices (id, organization_id, data, telemetry, synced_at) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         organization_id = excluded.organization_id,
+         data = excluded.data,
+         telemetry = excluded.telemetry,
+         synced_at = excluded.synced_at`,
+      [device.id, device.organization_id, JSON.stringify(data), telemetry ? JSON.stringify(telemetry) : null, syncedAt]
+    );
+
+    await db.runAsync(
+      `INSERT INTO organization_roles (organization_id, role, synced_at) VALUES (?, ?, ?)
+       ON CONFLICT(organization_id) DO UPDATE SET role = excluded.role, synced_at = excluded.synced_at`,
+      [device.organization_id, role, syncedAt]
+    );
+  });
+
+  await cacheImages(images, syncedAt);
+};
+
+/**
+ * Read a cached device with its telemetry and the user's role
+ * @param deviceId - The ID of the device
+ * @returns Promise with the cached device, or null when it has not been cached
+ */
+export const getCachedDevice = async (deviceId: string): Promise<CachedDevice | null> => {
+  const db = await getLocalDb();
+  const row = await db.getFirstAsync<CachedRow & { telemetry: string | null; role: OrganizationRole | null }>(
+    `SELECT d.data, d.telemetry, d.synced_at, r.role
+     FROM devices d
+     LEFT JOIN organization_roles r ON r.organization_id = d.organization_id
+     WHERE d.id = ?`,
+    [deviceId]
+  );
+
+  if (!row) return null;
+
+  return {
+    device: JSON.parse(row.data),
+    telemetry: row.telemetry ? JSON.parse(row.telemetry) : null,
+    role: row.role,
+    cachedAt: row.synced_at,
+  };
+};
+
+/**
+ * Store detections
+ * @param detections - Detection rows
+ * @param syncedAt - When the rows were fetched, defaults to now
+ */
+export const cacheDetections = async (
+  detections: DeviceDetection[],
+  syncedAt = new Date().toISOString()
+): Promise<void> => {
+  await cacheDeviceRows('device_detections', detections, syncedAt);
+};
+
+/**
+ * Read a device's cached detections in a time window
+ * @param deviceId - The ID of the device
+ * @param from - Start of the window, inclusive
+ * @param to - End of the window, exclusive
+ * @returns Promise with the detections, oldest first
+ */
+export const getCachedDetections = async (deviceId: string, from: Date, to: Date): Promise<DeviceDetection[]> => {
+  const db = await getLocalDb();
+  const rows = await db.getAllAsync<CachedRow>(
+    `SELECT data, synced_at FROM device_detections
+     WHERE device_id = ? AND created_at >= ? AND created_at < ?
+     ORDER BY created_at`,
+    [deviceId, from.toISOString(), to.toISOString()]
+  );
+
+  return rows.map(row => JSON.parse(row.data));
+};
+
+/**
+ * Store device images
+ * @param images - Image rows
+ * @param syncedAt - When the rows were fetched, defaults to now
+ */
+export const cacheImages = async (images: DeviceImage[], syncedAt = new Date().toISOString()): Promise<void> => {
+  await cacheDeviceRows('device_images', images, syncedAt);
+};
+
+/**
+ * Read a device's most recent cached images
+ * @param deviceId - The ID of the device
+ * @param limit - Maximum number of images
+ * @returns Promise with the images, newest first
+ */
+export const getCachedImages = async (deviceId: string, limit: number): Promise<DeviceImage[]> => {
+  const db = await getLocalDb();
+  const rows = await db.getAllAsync<CachedRow>(
+    `SELECT data, synced_at FROM device_images
+     WHERE device_id = ?
+     ORDER BY created_at DESC
+     LIMIT ?`,
+    [deviceId, limit]
+  );
+
+  return rows.map(row => JSON.parse(row.data));
+};
+
+/**
+ * Upsert detection or image rows
+ * @param table - device_detections or device_images
+ * @param rows - Rows to store
+ * @param syncedAt - When the rows were fetched
+ */
+const cacheDeviceRows = async (
+  table: 'device_detections' | 'device_images',
+  rows: { id: string; device_id: string; created_at: string }[],
+  syncedAt: string
+): Promise<void> => {
+  if (rows.length === 0) return;
+
+  const db = await getLocalDb();
+  await db.withTransactionAsync(async () => {
+    const statement = await db.prepareAsync(
+      `INSERT INTO ${table} (id, device_id, created_at, data, synced_at) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET data = excluded.data, synced_at = excluded.synced_at`
+    );
+
+    try {
+      for (const row of rows) {
+        // Normalize so string comparisons order timestamps correctly
+        const createdAt = new Date(row.created_at).toISOString();
+        await statement.executeAsync([row.id, row.device_id, createdAt, JSON.stringify(row), syncedAt]);
+      }
+    } finally {
+      await statement.finalizeAsync();
+    }
+  });
+};
+
+/**
+ * Store tickets from a list query
+ * @param tickets - Ticket rows
+ * @param syncedAt - When the rows were fetched, defaults to now
+ */
+export const cacheTickets = async (tickets: SupportTicket[], syncedAt = new Date().toISOString()): Promise<void> => {
+  if (tickets.length === 0) return;
+
+  const db = await getLocalDb();
+  await db.withTransactionAsync(async () => {
+    const statement = await db.prepareAsync(
+      `INSERT INTO support_tickets (id, data, synced_at) VALUES (?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET data = excluded.data, synced_at = excluded.synced_at`
+    );
+
+    try {
+      for (const ticket of tickets) {
+        await statement.executeAsync([ticket.id, JSON.stringify(ticket), syncedAt]);
+      }
+    } finally {
+      await statement.finalizeAsync();
+    }
+  });
+};
+
+/**
+ * Read a page of cached tickets with the same filters as the live list
+ * @param filters - The list's filters
+ * @param sort - Sort column and direction
+ * @param pagination - Page size and cursor
+ * @returns Promise with the page, or null when no tickets have been cached
+ */
+export const getCachedTickets = async (
+  filters: TicketFilters,
+  sort: KeysetSort,
+  pagination: PaginationParams
+): Promise<CachedPage<SupportTicket> | null> => {
+  const conditions: { sql: string; params: (string | number)[] }[] = [];
+
+  if (filters.status && filters.status !== 'all') {
+    conditions.push({ sql: "json_extract(data, '$.status') = ?", params: [filters.status] });
+  }
+
+  if (filters.search) {
+    const pattern = likePattern(filters.search);
+    conditions.push({
+      sql: "(json_extract(data, '$.title') LIKE ? ESCAPE '\\' OR json_extract(data, '$.description') LIKE ? ESCAPE '\\')",
+      params: [pattern, pattern],
+    });
+  }
+
+  return readCachedPage<SupportTicket>('support_tickets', conditions, sort, pagination, 'tickets');
+};
+
+/**
+ * Store the user's organization roles
+ * @param roles - The user's memberships
+ * @param syncedAt - When the rows were fetched, defaults to now
+ */
+export const cacheOrganizationRoles = async (
+  roles: { organization_id: string; role: OrganizationRole }[],
+  syncedAt = new Date().toISOString()
+): Promise<void> => {
+  const db = await getLocalDb();
+  await db.withTransactionAsync(async () => {
+    for (const { organization_id, role } of roles) {
+      await db.runAsync(
+        `INSERT INTO organization_roles (organization_id, role, synced_at) VALUES (?, ?, ?)
+         ON CONFLICT(organization_id) DO UPDATE SET role = excluded.role, synced_at = excluded.synced_at`,
+        [organization_id, role, syncedAt]
+      );
+    }
+  });
+};
+
+/**
+ * Delete cached rows a full sync did not return, so rows deleted on the
+ * server or no longer visible to the user disappear locally
+ * @param syncStartedAt - When the full sync began; rows it stored carry this
+ * time or later
+ * @param tables - The fully synced tables
+ */
+export const pruneUnsyncedRows = async (
+  syncStartedAt: string,
+  tables: ('devices' | 'support_tickets' | 'organization_roles')[]
+): Promise<void> => {
+  const db = await getLocalDb();
+  await db.withTransactionAsync(async () => {
+    for (const table of tables) {
+      await db.runAsync(`DELETE FROM ${table} WHERE synced_at < ?`, [syncStartedAt]);
+    }
+
+    // Detections and images follow their devices
+    await db.runAsync('DELETE FROM device_detections WHERE device_id NOT IN (SELECT id FROM devices)');
+    await db.runAsync('DELETE FROM device_images WHERE device_id NOT IN (SELECT id FROM devices)');
+  });
+};
+
+/**
+ * Delete cached detections and images older than the retention window
+ * @param before - Rows created before this time are removed
+ */
+export const pruneDeviceHistory = async (before: Date): Promise<void> => {
+  const db = await getLocalDb();
+  await db.runAsync('DELETE FROM device_detections WHERE created_at < ?', [before.toISOString()]);
+  await db.runAsync('DELETE FROM device_images WHERE created_at < ?', [before.toISOString()]);
+};
+
+/**
+ * Delete everything in the offline cache
+ */
+export const clearOfflineCache = async (): Promise<void> => {
+  const db = await getLocalDb();
+  await db.execAsync(`
+    DELETE FROM devices;
+    DELETE FROM device_detections;
+    DELETE FROM device_images;
+    DELETE FROM support_tickets;
+    DELETE FROM organization_roles;
+    DELETE FROM sync_state;
+  `);
+};
+
+/**
+ * Make sure the cache holds only the given user's data, clearing it when
+ * another user signed in on this device
+ * @param userId - The signed in user's ID
+ */
+export const claimOfflineCache = async (userId: string): Promise<void> => {
+  if ((await getSyncState('user_id')) === userId) return;
+
+  await clearOfflineCache();
+  await setSyncState('user_id', userId);
+};
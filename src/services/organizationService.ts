@@ -0,0 +1,359 @@
+import { User } from '@supabase/supabase-js';
+import { supabase, handleSupabaseError } from '../lib/supabase';
+import {
+  Organization,
+  OrganizationRole,
+  OrganizationWithRole,
+  OrganizationMember,
+  OrganizationInvitation,
+  InvitationRole,
+  InvitationWithOrganization,
+  InviteMemberResult
+} from '../types/organization';
+import { Device } from '../types/device';
+import { getCurrentUser } from './authService';
+
+// Roles that can change devices, sites and settings; viewers are read-only
+export const MANAGER_ROLES: OrganizationRole[] = ['owner', 'manager'];
+
+/**
+ * Fetch the current user's role in an organization
+ * @param organizationId - The ID of the organization
+ * @returns Promise with the role, or null if the user is not a member
+ */
+export const getOrganizationRole = async (organizationId: string): Promise<OrganizationRole | null> => {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data?.role ?? null;
+};
+
+/**
+ * Ensure the current user holds one of the given roles in an organization
+ * @param organizationId - The ID of the organization
+ * @param roles - Roles that are allowed
+ * @param message - Error message when the user lacks the role
+ * @returns Promise with the user and their role
+ */
+export const requireOrganizationRole = async (
+  organizationId: string,
+  roles: OrganizationRole[],
+  message = 'You do not have permission to do this in this organization'
+): Promise<{ user: User; role: OrganizationRole }> => {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+
+  const role = await getOrganizationRole(organizationId);
+  if (!role || !roles.includes(role)) {
+    throw new Error(message);
+  }
+
+  return { user, role };
+};
+
+/**
+ * Ensure the current user holds one of the given roles in a device's organization
+ * @param deviceId - The ID of the device
+ * @param roles - Roles that are allowed
+ * @param action - Verb used in the error message, e.g. 'update'
+ * @returns Promise with the device and the user's role
+ */
+export const requireDeviceRole = async (
+  deviceId: string,
+  roles: OrganizationRole[],
+  action = 'manage'
+): Promise<{ device: Device; role: OrganizationRole }> => {
+  const message = `Device not found or you do not have permission to ${action} it`;
+
+  // RLS only returns devices in the user's organizations
+  const { data: device, error } = await supabase
+    .from('devices')
+    .select('*')
+    .eq('id', deviceId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!device) throw new Error(message);
+
+  const { role } = await requireOrganizationRole(device.organization_id, roles, message);
+
+  return { device, role };
+};
+
+/**
+ * Fetch the organizations the current user belongs to
+ * @returns Promise with each organization and the user's role in it
+ */
+export const getOrganizations = async (): Promise<OrganizationWithRole[]> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('organization_members')
+      .select('role, organization:organizations(*)')
+      .eq('user_id', user.id);
+
+    if (error) throw error;
+
+    return (data || [])
+      .filter(membership => membership.organization)
+      .map(membership => ({
+        ...(membership.organization as unknown as Organization),
+        role: membership.role,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('Get organizations error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Create an organization owned by the current user
+ * @param name - The organization name
+ * @returns Promise with the created organization
+ */
+export const createOrganization = async (name: string): Promise<Organization> => {
+  try {
+    if (!name.trim()) {
+      throw new Error('Organization name is required');
+    }
+
+    const { data, error } = await supabase.rpc('create_organization', { p_name: name.trim() });
+
+    if (error) throw error;
+    if (!data) throw new Error('Failed to create organization');
+
+    return data;
+  } catch (error) {
+    console.error('Create organization error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Fetch the members of an organization
+ * @param organizationId - The ID of the organization
+ * @returns Promise with members, owners first
+ */
+export const getOrganizationMembers = async (organizationId: string): Promise<OrganizationMember[]> => {
+  try {
+    const { data, error } = await supabase.rpc('get_organization_members', {
+      p_organization_id: organizationId,
+    });
+
+    if (error) throw error;
+
+    return (data || []) as unknown as OrganizationMember[];
+  } catch (error) {
+    console.error('Get organization members error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Change a member's role; only owners can do this
+ * @param organizationId - The ID of the organization
+ * @param userId - The ID of the member
+ * @param role - The new role
+ * @returns Promise<void>
+ */
+export const updateMemberRole = async (
+  organizationId: string,
+  userId: string,
+  role: OrganizationRole
+): Promise<void> => {
+  try {
+    await requireOrganizationRole(organizationId, ['owner'], 'Only owners can change member roles');
+
+    const { error } = await supabase
+      .from('organization_members')
+      .update({ role })
+      .eq('organization_id', organizationId)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Update member role error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Remove a member from an organization; owners can remove anyone and
+ * members can remove themselves
+ * @param organizationId - The ID of the organization
+ * @param userId - The ID of the member to remove
+ * @returns Promise<void>
+ */
+export const removeMember = async (organizationId: string, userId: string): Promise<void> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (userId !== user.id) {
+      await requireOrganizationRole(organizationId, ['owner'], 'Only owners can remove members');
+    }
+
+    const { error } = await supabase
+      .from('organization_members')
+      .delete()
+      .eq('organization_id', organizationId)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Remove member error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Fetch an organization's pending invitations
+ * @param organizationId - The ID of the organization
+ * @returns Promise with invitations that have not been accepted
+ */
+export const getOrganizationInvitations = async (organizationId: string): Promise<OrganizationInvitation[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('organization_invitations')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .is('accepted_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error('Get organization invitations error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Fetch pending invitations sent to the current user's email
+ * @returns Promise with unexpired invitations and the organization name
+ */
+export const getMyInvitations = async (): Promise<InvitationWithOrganization[]> => {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.email) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('organization_invitations')
+      .select('*, organization:organizations(id, name)')
+      .eq('email', user.email.toLowerCase())
+      .is('accepted_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []) as unknown as InvitationWithOrganization[];
+  } catch (error) {
+    console.error('Get my invitations error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Invite someone to an organization by email
+ * @param organizationId - The ID of the organization
+ * @param email - The email address to invite
+ * @param role - The role they will join with
+ * @returns Promise with the invitation and whether an email was sent
+ */
+export const inviteMember = async (
+  organizationId: string,
+  email: string,
+  role: InvitationRole
+): Promise<InviteMemberResult> => {
+  try {
+    const normalizedEmail = email.trim().toLowerCase();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail)) {
+      throw new Error('Enter a valid email address');
+    }
+
+    await requireOrganizationRole(organizationId, MANAGER_ROLES, 'Only owners and managers can invite members');
+
+    const { data, error } = await supabase.functions.invoke('invite-member', {
+      body: { organization_id: organizationId, email: normalizedEmail, role },
+    });
+
+    if (error) {
+      // Surface the endpoint's message, e.g. a duplicate invitation
+      const body = await error.context?.json?.().catch(() => null);
+      throw new Error(body?.error || error.message);
+    }
+
+    return data as InviteMemberResult;
+  } catch (error) {
+    console.error('Invite member error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Accept an invitation sent to the current user's email
+ * @param invitationId - The ID of the invitation
+ * @returns Promise with the organization that was joined
+ */
+export const acceptInvitation = async (invitationId: string): Promise<Organization> => {
+  try {
+    const { data, error } = await supabase.rpc('accept_organization_invitation', {
+      p_invitation_id: invitationId,
+    });
+
+    if (error) throw error;
+    if (!data) throw new Error('Failed to accept invitation');
+
+    return data;
+  } catch (error) {
+    console.error('Accept invitation error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
+
+/**
+ * Delete a pending invitation; managers revoke it, invitees decline it
+ * @param invitationId - The ID of the invitation
+ * @returns Promise<void>
+ */
+export const deleteInvitation = async (invitationId: string): Promise<void> => {
+  try {
+    const { data, error } = await supabase
+      .from('organization_invitations')
+      .delete()
+      .eq('id', invitationId)
+      .select('id');
+
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      throw new Error('Invitation not found or you do not have permission to remove it');
+    }
+  } catch (error) {
+    console.error('Delete invitation error:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+};
@@ -0,0 +1,402 @@
+import * as Crypto from 'expo-crypto';
+import * as FileSystem from 'expo-file-system';
+import { getLocalDb } from '../lib/localDb';
+import {
+  OutboxItem,
+  OutboxItemStatus,
+  OutboxMutationKind,
+  OutboxMutations,
+  OutboxResults,
+  OutboxAttachment
+} from '../types/outbox';
+import { getSession } from './authService';
+import { isNetworkError, isOnline } from './offlineCacheService';
+
+// Copies of files picked while offline, kept until they are uploaded
+const OUTBOX_FILES_DIR = FileSystem.documentDirectory + 'outbox/';
+
+/**
+ * Thrown by a mutation handler when the server copy changed the same fields
+ * as the queued edit; the item waits for the user to keep or discard it
+ */
+export class OutboxConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OutboxConflictError';
+  }
+}
+
+/**
+ * Sends a queued mutation. Handlers must be idempotent: a mutation that
+ * reached the server but whose response was lost is sent again.
+ */
+export type MutationHandler<K extends OutboxMutationKind> = (
+  payload: OutboxMutations[K],
+  userId: string
+) => Promise<OutboxResults[K]>;
+
+interface OutboxRow {
+  id: string;
+  user_id: string;
+  kind: OutboxMutationKind;
+  payload: string;
+  label: string;
+  depends_on: string | null;
+  status: OutboxItemStatus;
+  attempts: number;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+  seq: number;
+}
+
+type OutboxListener = (items: OutboxItem[]) => void;
+
+const handlers: { [K in OutboxMutationKind]?: MutationHandler<K> } = {};
+const listeners: Set<OutboxListener> = new Set();
+
+// Results of items sent in this session, for callers waiting on them
+const results = new Map<string, unknown>();
+
+let currentReplay: Promise<void> | null = null;
+
+const toItem = (row: OutboxRow): OutboxItem => ({
+  id: row.id,
+  kind: row.kind,
+  payload: JSON.parse(row.payload),
+  userId: row.user_id,
+  label: row.label,
+  dependsOn: row.depends_on,
+  status: row.status,
+  attempts: row.attempts,
+  lastError: row.last_error,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+} as OutboxItem);
+
+/**
+ * Get the signed in user's ID without a network request
+ * @returns Promise with the user ID
+ */
+const requireUserId = async (): Promise<string> => {
+  const session = await getSession();
+  if (!session) {
+    throw new Error('User not authenticated');
+  }
+  return session.user.id;
+};
+
+/**
+ * Read a queued item
+ * @param id - The item ID
+ * @returns Promise with the item, or null once it has been sent or discarded
+ */
+const getOutboxItem = async (id: string): Promise<OutboxItem | null> => {
+  const db = await getLocalDb();
+  const row = await db.getFirstAsync<OutboxRow>('SELECT * FROM outbox WHERE id = ?', [id]);
+  return row ? toItem(row) : null;
+};
+
+/**
+ * Update a queued item's status
+ * @param id - The item ID
+ * @param status - The new status
+ * @param lastError - Error from the last attempt, or null
+ */
+const setItemStatus = async (id: string, status: OutboxItemStatus, lastError: string | null = null): Promise<void> => {
+  const db = await getLocalDb();
+  await db.runAsync(
+    'UPDATE outbox SET status = ?, last_error = ?, updated_at = ? WHERE id = ?',
+    [status, lastError, new Date().toISOString(), id]
+  );
+};
+
+/**
+ * Delete the local copies of an item's attachments
+ * @param item - The sent or discarded item
+ */
+const deleteOutboxFiles = async (item: OutboxItem): Promise<void> => {
+  const attachments: OutboxAttachment[] = 'attachments' in item.payload ? item.payload.attachments : [];
+
+  for (const attachment of attachments) {
+    if (attachment.localUri?.startsWith(OUTBOX_FILES_DIR)) {
+      await FileSystem.deleteAsync(attachment.localUri, { idempotent: true })
+        .catch(error => console.error('Delete outbox file error:', error));
+    }
+  }
+};
+
+/**
+ * Tell listeners the signed in user's queue changed
+ */
+const notifyListeners = async (): Promise<void> => {
+  if (listeners.size === 0) return;
+
+  try {
+    const items = await getOutboxItems();
+    listeners.forEach(listener => listener(items));
+  } catch (error) {
+    console.error('Notify outbox listeners error:', error);
+  }
+};
+
+/**
+ * Register the function that sends a kind of mutation
+ * @param kind - The mutation kind
+ * @param handler - Idempotent function sending the mutation
+ */
+export const registerMutationHandler = <K extends OutboxMutationKind>(kind: K, handler: MutationHandler<K>): void => {
+  (handlers as Record<K, MutationHandler<K>>)[kind] = handler;
+};
+
+/**
+ * Generate an ID for a row created through the outbox
+ * @returns A random UUID
+ */
+export const generateOutboxId = (): string => Crypto.randomUUID();
+
+/**
+ * Copy a picked file somewhere it survives until the outbox uploads it;
+ * image pickers return files in a cache directory the OS may clear
+ * @param uri - The picked file's local URI
+ * @param id - The attachment ID, used as the copy's name
+ * @returns Promise with the copy's URI
+ */
+export const keepOutboxFile = async (uri: string, id: string): Promise<string> => {
+  await FileSystem.makeDirectoryAsync(OUTBOX_FILES_DIR, { intermediates: true });
+
+  const extension = uri.split('.').pop();
+  const copy = `${OUTBOX_FILES_DIR}${id}.${extension}`;
+  await FileSystem.copyAsync({ from: uri, to: copy });
+
+  return copy;
+};
+
+/**
+ * Queue a mutation and, when online, send the queue straight away
+ *
+ * Mutations are always sent in the order they were queued, so a write made
+ * online never overtakes one still waiting from offline. When the mutation
+ * is rejected on this first attempt it is removed from the queue and its
+ * error thrown, as it would be without the outbox.
+ * @param kind - The mutation kind
+ * @param payload - The mutation's data, including generated row IDs
+ * @param options - Label for the pending changes list and the item it
+ * depends on
+ * @returns Promise with the server's result, or null when the mutation is
+ * queued until the device is back online
+ */
+export const queueMutation = async <K extends OutboxMutationKind>(
+  kind: K,
+  payload: OutboxMutations[K],
+  options: { label: string; dependsOn?: string | null }
+): Promise<OutboxResults[K] | null> => {
+  const userId = await requireUserId();
+  const db = await getLocalDb();
+  const id = generateOutboxId();
+  const now = new Date().toISOString();
+
+  await db.runAsync(
+    `INSERT INTO outbox (id, user_id, kind, payload, label, depends_on, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [id, userId, kind, JSON.stringify(payload), options.label, options.dependsOn ?? null, now, now]
+  );
+  await notifyListeners();
+
+  if (await isOnline()) {
+    await replayOutbox();
+  }
+
+  if (results.has(id)) {
+    const result = results.get(id) as OutboxResults[K];
+    results.delete(id);
+    return result;
+  }
+
+  const item = await getOutboxItem(id);
+  if (item && (item.status === 'failed' || item.status === 'conflict')) {
+    await discardOutboxItem(id);
+    throw new Error(item.lastError || 'Failed to save changes');
+  }
+
+  return null;
+};
+
+/**
+ * List the signed in user's queued mutations, oldest first
+ * @returns Promise with the queued items
+ */
+export const getOutboxItems = async (): Promise<OutboxItem[]> => {
+  const session = await getSession();
+  if (!session) return [];
+
+  const db = await getLocalDb();
+  const rows = await db.getAllAsync<OutboxRow>(
+    'SELECT * FROM outbox WHERE user_id = ? ORDER BY seq',
+    [session.user.id]
+  );
+
+  return rows.map(toItem);
+};
+
+/**
+ * Listen for changes to the signed in user's queue
+ * @param listener - Called with the queue straight away and after every change
+ * @returns Function that removes the listener
+ */
+export const subscribeToOutbox = (listener: OutboxListener): (() => void) => {
+  listeners.add(listener);
+  getOutboxItems()
+    .then(listener)
+    .catch(error => console.error('Read outbox error:', error));
+
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Send the signed in user's queued mutations in order
+ *
+ * Stops at the first mutation that cannot reach the server so later ones
+ * wait their turn. Mutations the server rejects are marked failed or in
+ * conflict and skipped, together with the items that depend on them.
+ * Joins a replay already in progress.
+ * @returns Promise that resolves when the replay is complete
+ */
+export const replayOutbox = (): Promise<void> => {
+  if (!currentReplay) {
+    currentReplay = runReplay().finally(() => {
+      currentReplay = null;
+    });
+  }
+
+  return currentReplay;
+};
+
+/**
+ * Replay loop; reads the next item each time round so items queued during
+ * the replay are included
+ */
+const runReplay = async (): Promise<void> => {
+  const session = await getSession();
+  if (!session) return;
+
+  const userId = session.user.id;
+  const db = await getLocalDb();
+
+  // A replay interrupted by the app closing leaves items marked as syncing
+  await db.runAsync("UPDATE outbox SET status = 'pending' WHERE status = 'syncing' AND user_id = ?", [userId]);
+
+  let lastSeq = 0;
+
+  while (true) {
+    const row = await db.getFirstAsync<OutboxRow>(
+      `SELECT * FROM outbox
+       WHERE user_id = ? AND status = 'pending' AND seq > ?
+       ORDER BY seq
+       LIMIT 1`,
+      [userId, lastSeq]
+    );
+
+    if (!row) break;
+    lastSeq = row.seq;
+
+    // Wait while what this item builds on has not reached the server
+    if (row.depends_on && (await getOutboxItem(row.depends_on))) {
+      continue;
+    }
+
+    const item = toItem(row);
+    const handler = handlers[item.kind] as MutationHandler<typeof item.kind> | undefined;
+    if (!handler) {
+      console.warn(`[Outbox] No handler registered for ${item.kind}`);
+      continue;
+    }
+
+    await db.runAsync(
+      "UPDATE outbox SET status = 'syncing', attempts = attempts + 1, updated_at = ? WHERE id = ?",
+      [new Date().toISOString(), item.id]
+    );
+    await notifyListeners();
+
+    try {
+      const result = await handler(item.payload as never, userId);
+
+      await db.runAsync('DELETE FROM outbox WHERE id = ?', [item.id]);
+      await deleteOutboxFiles(item);
+      results.set(item.id, result);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to save changes';
+
+      if (error instanceof OutboxConflictError) {
+        await setItemStatus(item.id, 'conflict', message);
+      } else if (isNetworkError(error) || !(await isOnline())) {
+        // Try again in order once the connection is back
+        await setItemStatus(item.id, 'pending', message);
+        await notifyListeners();
+        break;
+      } else {
+        console.error(`[Outbox] ${item.kind} rejected:`, error);
+        await setItemStatus(item.id, 'failed', message);
+      }
+    }
+
+    await notifyListeners();
+  }
+};
+
+/**
+ * Send a failed or conflicting item again
+ * @param id - The item ID
+ * @param options - Set `overwrite` to keep a conflicting device edit over
+ * the server's copy
+ * @returns Promise that resolves when the replay is complete
+ */
+export const retryOutboxItem = async (id: string, options: { overwrite?: boolean } = {}): Promise<void> => {
+  const item = await getOutboxItem(id);
+  if (!item) return;
+
+  const db = await getLocalDb();
+  const payload = options.overwrite && item.kind === 'update_device'
+    ? { ...item.payload, overwrite: true }
+    : item.payload;
+
+  await db.runAsync(
+    "UPDATE outbox SET status = 'pending', payload = ?, last_error = NULL, updated_at = ? WHERE id = ?",
+    [JSON.stringify(payload), new Date().toISOString(), id]
+  );
+  await notifyListeners();
+
+  if (await isOnline()) {
+    await replayOutbox();
+  }
+};
+
+/**
+ * Remove an item from the queue without sending it, together with the items
+ * that depend on it
+ * @param id - The item ID
+ */
+export const discardOutboxItem = async (id: string): Promise<void> => {
+  const db = await getLocalDb();
+  const discarded: OutboxItem[] = [];
+  const queue = [id];
+
+  while (queue.length > 0) {
+    const next = queue.shift()!;
+    const item = await getOutboxItem(next);
+    if (!item) continue;
+
+    discarded.push(item);
+    const dependents = await db.getAllAsync<{ id: string }>('SELECT id FROM outbox WHERE depends_on = ?', [next]);
+    queue.push(...dependents.map(row => row.id));
+  }
+
+  for (const item of discarded) {
+    await db.runAsync('DELETE FROM outbox WHERE id = ?', [item.id]);
+    await deleteOutboxFiles(item);
+  }
+
+  await notifyListeners();
+};
@@ -2,6 +2,7 @@ import { supabase } from '../lib/supabase';
 import * as ImagePicker from 'expo-image-picker';
 import { Platform } from 'react-native';
 import { getCurrentUser } from './authService';
+import { isNetworkError } from './offlineCacheService';
 
 /**
  * Request camera and media library permissions
@@ -76,12 +77,15 @@ export const takePhoto = async () => {
  * @param uri - The local URI of the file to upload
  * @param bucket - The storage bucket to upload to
  * @param path - The path within the bucket
+ * @param fileId - Stable name for the file; uploading again with the same ID
+ * replaces the earlier copy instead of adding another, so retries are safe
  * @returns Promise with the uploaded file URL
  */
 export const uploadFile = async (
   uri: string,
   bucket: string,
-  path: string
+  path: string,
+  fileId?: string
 ): Promise<string> => {
   try {
     const user = await getCurrentUser();
@@ -95,13 +99,13 @@ export const uploadFile = async (
     
     // Generate a unique filename
     const fileExt = uri.split('.').pop();
-    const fileName = `${Date.now()}.${fileExt}`;
+    const fileName = `${fileId || Date.now()}.${fileExt}`;
     const filePath = `${path}/${fileName}`;
     
     // Upload to Supabase Storage
     const { data, error } = await supabase.storage
       .from(bucket)
-      .upload(filePath, blob);
+      .upload(filePath, blob, { upsert: Boolean(fileId) });
     
     if (error) throw error;
     if (!data) throw new Error('Upload failed');
@@ -114,6 +118,8 @@ export const uploadFile = async (
     return publicUrlData.publicUrl;
   } catch (error) {
     console.error('Upload file error:', error);
+    // Keep connection failures recognisable so queued uploads are retried
+    if (isNetworkError(error)) throw error;
     throw new Error('Failed to upload file');
   }
 };
@@ -132,10 +138,11 @@ export const uploadDeviceImage = async (deviceId: string, uri: string): Promise<
  * Upload an attachment for a support ticket
  * @param ticketId - The ID of the ticket
  * @param uri - The local URI of the file
+ * @param attachmentId - The attachment's ID, used as a stable file name
  * @returns Promise with the uploaded file URL
  */
-export const uploadTicketAttachment = async (ticketId: string, uri: string): Promise<string> => {
-  return uploadFile(uri, 'ticket-attachments', `tickets/${ticketId}`);
+export const uploadTicketAttachment = async (ticketId: string, uri: string, attachmentId?: string): Promise<string> => {
+  return uploadFile(uri, 'ticket-attachments', `tickets/${ticketId}`, attachmentId);
 };
 
 /**
@@ -1,4 +1,5 @@
 import { supabase, handleSupabaseError } from '../lib/supabase';
+import { KeysetSort, keysetFilter, toKeysetPage } from '../lib/pagination';
 import { 
   SupportTicket, 
   SupportTicketInsert, 
@@ -7,37 +8,58 @@ import {
   PaginationParams, 
   TicketListResponse,
   TicketDetailsResponse,
+  TicketMessage,
   CreateTicketParams,
   AddTicketMessageParams,
   UpdateTicketStatusParams
 } from '../types/support';
-import { getCurrentUser } from './authService';
+import { CreateTicketMutation, OutboxAttachment } from '../types/outbox';
+import { getCurrentUser, getSession } from './authService';
+import { MANAGER_ROLES, requireOrganizationRole } from './organizationService';
+import { withOfflineFallback, cacheTickets, getCachedTickets } from './offlineCacheService';
+import {
+  MutationHandler,
+  registerMutationHandler,
+  queueMutation,
+  generateOutboxId,
+  keepOutboxFile,
+  getOutboxItems
+} from './outboxService';
+import { uploadTicketAttachment } from './storageService';
 
 /**
- * Fetch support tickets with pagination and filtering
- * @param filters - Optional filters for the query
- * @param pagination - Pagination parameters
- * @returns Promise with tickets data
+ * Resolve a ticket list's sort column and direction
+ * @param filters - The list's filters
+ * @returns Sort column and direction, most recently updated first by default
  */
-export const getTickets = async (
-  filters: TicketFilters = {},
-  pagination: PaginationParams = { page: 1, pageSize: 10 }
+const getTicketSort = (filters: TicketFilters): KeysetSort => ({
+  column: filters.sortBy || 'updated_at',
+  ascending: (filters.sortOrder || 'desc') === 'asc',
+});
+
+/**
+ * Fetch a page of support tickets from Supabase
+ * @param filters - Filters for the query
+ * @param pagination - Page size and the cursor returned with the previous page
+ * @returns Promise with tickets data and the next page's cursor
+ */
+const fetchTickets = async (
+  filters: TicketFilters,
+  pagination: PaginationParams
 ): Promise<TicketListResponse> => {
   try {
-    const user = await getCurrentUser();
-    if (!user) {
+    const session = await getSession();
+    if (!session) {
       throw new Error('User not authenticated');
     }
 
-    const { page, pageSize } = pagination;
-    const from = (page - 1) * pageSize;
-    const to = from + pageSize - 1;
+    const { cursor, pageSize } = pagination;
 
-    // Start building the query
+    // Start building the query; RLS returns the user's own tickets and
+    // those filed in their organizations
     let query = supabase
       .from('support_tickets')
-      .select('*', { count: 'exact' })
-      .eq('user_id', user.id);
+      .select('*');
 
     // Apply filters
     if (filters.status && filters.status !== 'all') {
@@ -48,26 +70,29 @@ export const getTickets = async (
       query = query.or(`title.ilike.%${filters.search}%,description.ilike.%${filters.search}%`);
     }
 
-    // Apply sorting
-    if (filters.sortBy) {
-      const order = filters.sortOrder || 'desc';
-      query = query.order(filters.sortBy, { ascending: order === 'asc' });
-    } else {
-      query = query.order('updated_at', { ascending: false });
-    }
+    // Apply sorting; id breaks ties so every row has a unique position
+    const sort = getTicketSort(filters);
+    query = query
+      .order(sort.column, { ascending: sort.ascending, nullsFirst: false })
+      .order('id', { ascending: sort.ascending });
 
     // Apply pagination
-    query = query.range(from, to);
+    if (cursor) {
+      query = query.or(keysetFilter(sort, cursor));
+    }
+    query = query.limit(pageSize + 1);
 
     // Execute the query
-    const { data, error, count } = await query;
+    const { data, error } = await query;
 
     if (error) throw error;
 
+    const page = toKeysetPage(data || [], sort, pageSize);
+
     return {
-      tickets: data || [],
-      totalCount: count || 0,
-      hasMore: count ? from + pageSize < count : false,
+      tickets: page.items,
+      nextCursor: page.nextCursor,
+      hasMore: page.hasMore,
     };
   } catch (error) {
     console.error('Get tickets error:', error);
@@ -75,6 +100,31 @@ export const getTickets = async (
   }
 };
 
+/**
+ * Fetch a page of support tickets with filtering. Offline, or when Supabase
+ * cannot be reached, the page comes from the offline cache with `cachedAt` set.
+ * @param filters - Optional filters for the query
+ * @param pagination - Page size and the cursor returned with the previous page
+ * @returns Promise with tickets data and the next page's cursor
+ */
+export const getTickets = async (
+  filters: TicketFilters = {},
+  pagination: PaginationParams = { pageSize: 10 }
+): Promise<TicketListResponse> =>
+  withOfflineFallback(
+    () => fetchTickets(filters, pagination),
+    async () => {
+      const page = await getCachedTickets(filters, getTicketSort(filters), pagination);
+      return page && {
+        tickets: page.items,
+        nextCursor: page.nextCursor,
+        hasMore: page.hasMore,
+        cachedAt: page.cachedAt,
+      };
+    },
+    response => cacheTickets(response.tickets)
+  );
+
 /**
  * Fetch a single ticket by ID with messages and attachments
  * @param ticketId - The ID of the ticket to fetch
@@ -92,7 +142,6 @@ export const getTicketDetails = async (ticketId: string): Promise<TicketDetailsR
       .from('support_tickets')
       .select('*')
       .eq('id', ticketId)
-      .eq('user_id', user.id)
       .single();
 
     if (ticketError) throw ticketError;
@@ -144,14 +193,195 @@ export const getTicketDetails = async (ticketId: string): Promise<TicketDetailsR
 };
 
 /**
- * Create a new support ticket
- * @param params - The ticket data to create
+ * Upload an attachment's local file, if it has not been uploaded yet
+ * @param ticketId - The ticket the attachment belongs to
+ * @param attachment - The queued attachment
+ * @returns Promise with the file URL
+ */
+const resolveAttachmentUrl = async (ticketId: string, attachment: OutboxAttachment): Promise<string> => {
+  if (attachment.fileUrl) return attachment.fileUrl;
+  if (!attachment.localUri) throw new Error(`Attachment ${attachment.fileName} has no file`);
+
+  return uploadTicketAttachment(ticketId, attachment.localUri, attachment.id);
+};
+
+/**
+ * Insert attachment rows, uploading their files first so no row points at
+ * a missing file
+ * @param ticketId - The ticket the attachments belong to
+ * @param messageId - The message they were sent with, if any
+ * @param attachments - The queued attachments
+ */
+const insertAttachments = async (
+  ticketId: string,
+  messageId: string | null,
+  attachments: OutboxAttachment[]
+): Promise<void> => {
+  if (attachments.length === 0) return;
+
+  const attachmentsToInsert = [];
+  for (const attachment of attachments) {
+    attachmentsToInsert.push({
+      id: attachment.id,
+      ticket_id: ticketId,
+      message_id: messageId,
+      file_url: await resolveAttachmentUrl(ticketId, attachment),
+      file_type: attachment.fileType,
+      file_name: attachment.fileName,
+    });
+  }
+
+  const { error } = await supabase
+    .from('ticket_attachments')
+    .upsert(attachmentsToInsert, { onConflict: 'id', ignoreDuplicates: true });
+
+  if (error) throw error;
+};
+
+/**
+ * Prepare attachments for the outbox, keeping copies of local files
+ * @param attachments - Attachments passed by the caller
+ * @returns Promise with the queued attachments
+ */
+const toOutboxAttachments = async (
+  attachments: CreateTicketParams['attachments'] = []
+): Promise<OutboxAttachment[]> => {
+  const queued: OutboxAttachment[] = [];
+
+  for (const attachment of attachments) {
+    const id = generateOutboxId();
+    queued.push({
+      id,
+      fileType: attachment.fileType,
+      fileName: attachment.fileName,
+      fileUrl: attachment.fileUrl,
+      localUri: attachment.localUri ? await keepOutboxFile(attachment.localUri, id) : undefined,
+    });
+  }
+
+  return queued;
+};
+
+/**
+ * Send a queued ticket. Rows are inserted with the IDs generated when it was
+ * queued, ignoring ones that already exist, so a replay completes a ticket
+ * that only partly reached the server instead of duplicating it.
+ * @param payload - The queued ticket
+ * @param userId - The user who queued it
  * @returns Promise with the created ticket
  */
+const sendCreateTicket: MutationHandler<'create_ticket'> = async (payload, userId) => {
+  const { error: ticketError } = await supabase
+    .from('support_tickets')
+    .upsert({
+      id: payload.ticketId,
+      title: payload.title,
+      description: payload.description,
+      status: 'open',
+      user_id: userId,
+      device_id: payload.deviceId,
+    }, { onConflict: 'id', ignoreDuplicates: true });
+
+  if (ticketError) throw ticketError;
+
+  // Add the initial message (the description)
+  const { error: messageError } = await supabase
+    .from('ticket_messages')
+    .upsert({
+      id: payload.messageId,
+      ticket_id: payload.ticketId,
+      user_id: userId,
+      message: payload.description,
+      is_from_support: false,
+    }, { onConflict: 'id', ignoreDuplicates: true });
+
+  if (messageError) throw messageError;
+
+  await insertAttachments(payload.ticketId, null, payload.attachments);
+
+  const { data: ticket, error } = await supabase
+    .from('support_tickets')
+    .select('*')
+    .eq('id', payload.ticketId)
+    .single();
+
+  if (error) throw error;
+  if (!ticket) throw new Error('Failed to create ticket');
+
+  return ticket;
+};
+
+/**
+ * Send a queued message, inserted with the ID generated when it was queued
+ * so a replay does not post it twice
+ * @param payload - The queued message
+ * @param userId - The user who queued it
+ * @returns Promise with the created message
+ */
+const sendTicketMessage: MutationHandler<'add_ticket_message'> = async (payload, userId) => {
+  // Any member who can see the ticket can reply to it
+  const { data: ticket, error: ticketError } = await supabase
+    .from('support_tickets')
+    .select('*')
+    .eq('id', payload.ticketId)
+    .single();
+
+  if (ticketError) throw ticketError;
+  if (!ticket) {
+    throw new Error('Ticket not found or you do not have permission to add a message');
+  }
+
+  // Add the message
+  const { error: messageError } = await supabase
+    .from('ticket_messages')
+    .upsert({
+      id: payload.messageId,
+      ticket_id: payload.ticketId,
+      user_id: userId,
+      message: payload.message,
+      is_from_support: false,
+    }, { onConflict: 'id', ignoreDuplicates: true });
+
+  if (messageError) throw messageError;
+
+  // Update ticket's updated_at timestamp
+  const { error: updateError } = await supabase
+    .from('support_tickets')
+    .update({
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', payload.ticketId);
+
+  if (updateError) throw updateError;
+
+  await insertAttachments(payload.ticketId, payload.messageId, payload.attachments);
+
+  const { data: message, error } = await supabase
+    .from('ticket_messages')
+    .select('*')
+    .eq('id', payload.messageId)
+    .single();
+
+  if (error) throw error;
+  if (!message) throw new Error('Failed to add message');
+
+  return message;
+};
+
+registerMutationHandler('create_ticket', sendCreateTicket);
+registerMutationHandler('add_ticket_message', sendTicketMessage);
+
+/**
+ * Create a new support ticket. Without a connection the ticket is queued in
+ * the outbox and sent, attachments first, once the device is back online.
+ * @param params - The ticket data to create
+ * @returns Promise with the created ticket, or the queued ticket as it will
+ * look once sent
+ */
 export const createTicket = async (params: CreateTicketParams): Promise<SupportTicket> => {
   try {
-    const user = await getCurrentUser();
-    if (!user) {
+    const session = await getSession();
+    if (!session) {
       throw new Error('User not authenticated');
     }
 
@@ -164,51 +394,34 @@ export const createTicket = async (params: CreateTicketParams): Promise<SupportT
       throw new Error('Ticket description is required');
     }
 
-    // Start a transaction
-    const { data: ticket, error: ticketError } = await supabase
-      .from('support_tickets')
-      .insert({
-        title: params.title,
-        description: params.description,
-        status: 'open',
-        user_id: user.id,
-        device_id: params.deviceId || null,
-      })
-      .select()
-      .single();
-
-    if (ticketError) throw ticketError;
-    if (!ticket) throw new Error('Failed to create ticket');
-
-    // Add the initial message (the description)
-    const { error: messageError } = await supabase
-      .from('ticket_messages')
-      .insert({
-        ticket_id: ticket.id,
-        user_id: user.id,
-        message: params.description,
-        is_from_support: false,
-      });
-
-    if (messageError) throw messageError;
-
-    // Add attachments if any
-    if (params.attachments && params.attachments.length > 0) {
-      const attachmentsToInsert = params.attachments.map(attachment => ({
-        ticket_id: ticket.id,
-        file_url: attachment.fileUrl,
-        file_type: attachment.fileType,
-        file_name: attachment.fileName,
-      }));
-
-      const { error: attachmentsError } = await supabase
-        .from('ticket_attachments')
-        .insert(attachmentsToInsert);
+    const payload = {
+      ticketId: generateOutboxId(),
+      messageId: generateOutboxId(),
+      title: params.title,
+      description: params.description,
+      deviceId: params.deviceId || null,
+      attachments: await toOutboxAttachments(params.attachments),
+    };
 
-      if (attachmentsError) throw attachmentsError;
-    }
+    const ticket = await queueMutation('create_ticket', payload, { label: `New ticket: ${params.title}` });
+    if (ticket) return ticket;
+
+    // Queued: show it in cached lists until the real one syncs
+    const now = new Date().toISOString();
+    const queuedTicket: SupportTicket = {
+      id: payload.ticketId,
+      created_at: now,
+      updated_at: now,
+      title: payload.title,
+      description: payload.description,
+      status: 'open',
+      user_id: session.user.id,
+      device_id: payload.deviceId,
+      organization_id: null,
+    };
+    await cacheTickets([queuedTicket]).catch(error => console.error('Cache queued ticket error:', error));
 
-    return ticket;
+    return queuedTicket;
   } catch (error) {
     console.error('Create ticket error:', error);
     throw new Error(handleSupabaseError(error));
@@ -216,14 +429,16 @@ export const createTicket = async (params: CreateTicketParams): Promise<SupportT
 };
 
 /**
- * Add a message to an existing ticket
+ * Add a message to an existing ticket. Without a connection the message is
+ * queued in the outbox, after the ticket itself if that is still queued.
  * @param params - The message data to add
- * @returns Promise with the created message
+ * @returns Promise with the created message, or the queued message as it
+ * will look once sent
  */
-export const addTicketMessage = async (params: AddTicketMessageParams) => {
+export const addTicketMessage = async (params: AddTicketMessageParams): Promise<TicketMessage> => {
   try {
-    const user = await getCurrentUser();
-    if (!user) {
+    const session = await getSession();
+    if (!session) {
       throw new Error('User not authenticated');
     }
 
@@ -236,62 +451,32 @@ export const addTicketMessage = async (params: AddTicketMessageParams) => {
       throw new Error('Message content is required');
     }
 
-    // Check if ticket exists and belongs to user
-    const { data: ticket, error: ticketError } = await supabase
-      .from('support_tickets')
-      .select('*')
-      .eq('id', params.ticketId)
-      .eq('user_id', user.id)
-      .single();
-
-    if (ticketError) throw ticketError;
-    if (!ticket) {
-      throw new Error('Ticket not found or you do not have permission to add a message');
-    }
-
-    // Add the message
-    const { data: message, error: messageError } = await supabase
-      .from('ticket_messages')
-      .insert({
-        ticket_id: params.ticketId,
-        user_id: user.id,
-        message: params.message,
-        is_from_support: false,
-      })
-      .select()
-      .single();
-
-    if (messageError) throw messageError;
-    if (!message) throw new Error('Failed to add message');
-
-    // Update ticket's updated_at timestamp
-    const { error: updateError } = await supabase
-      .from('support_tickets')
-      .update({
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', params.ticketId);
-
-    if (updateError) throw updateError;
-
-    // Add attachments if any
-    if (params.attachments && params.attachments.length > 0) {
-      const attachmentsToInsert = params.attachments.map(attachment => ({
-        ticket_id: params.ticketId,
-        message_id: message.id,
-        file_url: attachment.fileUrl,
-        file_type: attachment.fileType,
-        file_name: attachment.fileName,
-      }));
+    const payload = {
+      ticketId: params.ticketId,
+      messageId: generateOutboxId(),
+      message: params.message,
+      attachments: await toOutboxAttachments(params.attachments),
+    };
 
-      const { error: attachmentsError } = await supabase
-        .from('ticket_attachments')
-        .insert(attachmentsToInsert);
+    // Replies to a ticket created offline wait for the ticket
+    const queuedTicket = (await getOutboxItems()).find(item =>
+      item.kind === 'create_ticket' && (item.payload as CreateTicketMutation).ticketId === params.ticketId
+    );
 
-      if (attachmentsError) throw attachmentsError;
-    }
+    const message = await queueMutation('add_ticket_message', payload, {
+      label: `Reply: ${params.message.slice(0, 40)}`,
+      dependsOn: queuedTicket?.id ?? null,
+    });
+    if (message) return message;
 
-    return message;
+    return {
+      id: payload.messageId,
+      created_at: new Date().toISOString(),
+      ticket_id: payload.ticketId,
+      user_id: session.user.id,
+      message: payload.message,
+      is_from_support: false,
+    };
   } catch (error) {
     console.error('Add ticket message error:', error);
     throw new Error(handleSupabaseError(error));
@@ -310,12 +495,11 @@ export const updateTicketStatus = async (params: UpdateTicketStatusParams): Prom
       throw new Error('User not authenticated');
     }
 
-    // Check if ticket exists and belongs to user
+    // The author, or an owner or manager of the ticket's organization
     const { data: ticket, error: ticketError } = await supabase
       .from('support_tickets')
-      . select('*')
+      .select('*')
       .eq('id', params.ticketId)
-      .eq('user_id', user.id)
       .single();
 
     if (ticketError) throw ticketError;
@@ -323,6 +507,17 @@ export const updateTicketStatus = async (params: UpdateTicketStatusParams): Prom
       throw new Error('Ticket not found or you do not have permission to update it');
     }
 
+    if (ticket.user_id !== user.id) {
+      if (!ticket.organization_id) {
+        throw new Error('Ticket not found or you do not have permission to update it');
+      }
+      await requireOrganizationRole(
+        ticket.organization_id,
+        MANAGER_ROLES,
+        'Ticket not found or you do not have permission to update it'
+      );
+    }
+
     // Update the ticket status
     const { data: updatedTicket, error: updateError } = await supabase
       .from('support_tickets')
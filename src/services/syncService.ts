@@ -0,0 +1,349 @@
+import NetInfo, { NetInfoState, NetInfoSubscription } from '@react-native-community/netinfo';
+import { supabase } from '../lib/supabase';
+import { KeysetSort, keysetFilter, toKeysetPage } from '../lib/pagination';
+import { getCurrentUser } from './authService';
+import {
+  cacheDevices,
+  cacheDetections,
+  cacheImages,
+  cacheTickets,
+  cacheOrganizationRoles,
+  claimOfflineCache,
+  getSyncState,
+  setSyncState,
+  pruneUnsyncedRows,
+  pruneDeviceHistory
+} from './offlineCacheService';
+import { replayOutbox } from './outboxService';
+
+// Detections and images are mirrored for the longest chart range
+const HISTORY_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Devices may upload detections late with their original timestamps, so
+// each incremental pull reaches back this far past the previous one
+const HISTORY_OVERLAP_MS = DAY_MS;
+
+const SYNC_PAGE_SIZE = 500;
+const SYNC_SORT: KeysetSort = { column: 'created_at', ascending: true };
+
+const LAST_SYNC_KEY = 'last_synced_at';
+const HISTORY_SYNC_KEY = 'history_synced_at';
+
+export interface SyncStatus {
+  isOnline: boolean;
+  isSyncing: boolean;
+  // When the last full reconciliation started; rows cached then are current
+  // as of this time
+  lastSyncedAt: string | null;
+  error: string | null;
+}
+
+type SyncListener = (status: SyncStatus) => void;
+
+const isConnected = (state: NetInfoState): boolean =>
+  state.isConnected !== false && state.isInternetReachable !== false;
+
+/**
+ * Pull every row of a resource a page at a time, oldest first
+ * @param fetchRows - Fetches up to SYNC_PAGE_SIZE + 1 rows ordered by
+ * created_at and id, after the given keyset filter when there is one
+ * @param store - Stores a page of rows in the cache
+ */
+const pullAll = async <T extends { id: string }>(
+  fetchRows: (after: string | null) => Promise<T[] | null>,
+  store: (rows: T[]) => Promise<void>
+): Promise<void> => {
+  let cursor: string | null = null;
+
+  do {
+    const rows = await fetchRows(cursor ? keysetFilter(SYNC_SORT, cursor) : null);
+    const page = toKeysetPage(rows || [], SYNC_SORT, SYNC_PAGE_SIZE);
+    await store(page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+};
+
+/**
+ * Sync Service
+ * Keeps the offline cache in step with Supabase: reconciles when started and
+ * whenever connectivity returns, and reports connectivity and sync progress
+ */
+export class SyncService {
+  private status: SyncStatus = {
+    isOnline: true,
+    isSyncing: false,
+    lastSyncedAt: null,
+    error: null,
+  };
+  private listeners: Set<SyncListener> = new Set();
+  private netInfoSubscription: NetInfoSubscription | null = null;
+  private currentSync: Promise<void> | null = null;
+
+  /**
+   * Start watching connectivity for a signed in user
+   * @param userId The signed in user's ID; the cache is cleared when it
+   * belongs to someone else
+   * @returns Promise that resolves once the service is watching
+   */
+  public async start(userId: string): Promise<void> {
+    if (this.netInfoSubscription) {
+      this.logInfo('Service is already running');
+      return;
+    }
+
+    await claimOfflineCache(userId);
+    this.setStatus({ lastSyncedAt: await getSyncState(LAST_SYNC_KEY) });
+
+    this.netInfoSubscription = NetInfo.addEventListener(state => {
+      const online = isConnected(state);
+      const reconnected = online && !this.status.isOnline;
+
+      this.setStatus({ isOnline: online });
+
+      if (reconnected) {
+        this.logInfo('Connectivity restored, reconciling');
+        this.syncNow().catch(() => {});
+      }
+    });
+
+    const online = isConnected(await NetInfo.fetch());
+    this.setStatus({ isOnline: online });
+
+    if (online) {
+      this.syncNow().catch(() => {});
+    }
+  }
+
+  /**
+   * Stop watching connectivity
+   */
+  public stop(): void {
+    if (this.netInfoSubscription) {
+      this.netInfoSubscription();
+      this.netInfoSubscription = null;
+    }
+  }
+
+  /**
+   * Get the current connectivity and sync status
+   * @returns Current status
+   */
+  public getStatus(): SyncStatus {
+    return { ...this.status };
+  }
+
+  /**
+   * Listen for status changes
+   * @param listener Called with the current status straight away and after
+   * every change
+   * @returns Function that removes the listener
+   */
+  public subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getStatus());
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Reconcile the cache with Supabase now, joining a sync already in progress
+   * @returns Promise that resolves when the sync is complete
+   */
+  public syncNow(): Promise<void> {
+    if (!this.currentSync) {
+      this.currentSync = this.reconcile().finally(() => {
+        this.currentSync = null;
+      });
+    }
+
+    return this.currentSync;
+  }
+
+  /**
+   * Send queued writes, then pull devices, tickets and memberships in full,
+   * and detections and images since the previous sync, and drop local rows
+   * the server no longer has
+   * @private
+   */
+  private async reconcile(): Promise<void> {
+    const user = await getCurrentUser();
+    if (!user) {
+      this.logInfo('No authenticated user, skipping sync');
+      return;
+    }
+
+    this.setStatus({ isSyncing: true, error: null });
+
+    // Send writes made offline first so the pull below includes them
+    try {
+      await replayOutbox();
+    } catch (error) {
+      this.logError('Outbox replay failed', error);
+    }
+
+    const startedAt = new Date().toISOString();
+
+    try {
+      await pullAll(
+        async after => {
+          let query = supabase
+            .from('devices_with_stats')
+            .select('*')
+            .order('created_at')
+            .order('id')
+            .limit(SYNC_PAGE_SIZE + 1);
+          if (after) query = query.or(after);
+
+          const { data, error } = await query;
+          if (error) throw error;
+          return data;
+        },
+        rows => cacheDevices(rows, startedAt)
+      );
+
+      await pullAll(
+        async after => {
+          let query = supabase
+            .from('support_tickets')
+            .select('*')
+            .order('created_at')
+            .order('id')
+            .limit(SYNC_PAGE_SIZE + 1);
+          if (after) query = query.or(after);
+
+          const { data, error } = await query;
+          if (error) throw error;
+          return data;
+        },
+        rows => cacheTickets(rows, startedAt)
+      );
+
+      const { data: memberships, error: membershipsError } = await supabase
+        .from('organization_members')
+        .select('organization_id, role')
+        .eq('user_id', user.id);
+
+      if (membershipsError) throw membershipsError;
+      await cacheOrganizationRoles(memberships || [], startedAt);
+
+      await pruneUnsyncedRows(startedAt, ['devices', 'support_tickets', 'organization_roles']);
+
+      await this.pullHistory(startedAt);
+
+      await setSyncState(LAST_SYNC_KEY, startedAt);
+      await setSyncState('devices', startedAt);
+      await setSyncState('tickets', startedAt);
+
+      this.setStatus({ isSyncing: false, lastSyncedAt: startedAt });
+      this.logInfo('Offline cache reconciled');
+    } catch (error) {
+      this.logError('Sync failed', error);
+      this.setStatus({
+        isSyncing: false,
+        error: error instanceof Error ? error.message : 'Sync failed',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Pull detections and images created since shortly before the previous
+   * history sync, within the retention window, and drop older ones
+   * @param startedAt When this sync began
+   * @private
+   */
+  private async pullHistory(startedAt: string): Promise<void> {
+    const retainFrom = Date.now() - HISTORY_DAYS * DAY_MS;
+    const previous = await getSyncState(HISTORY_SYNC_KEY);
+    const since = new Date(
+      Math.max(retainFrom, previous ? new Date(previous).getTime() - HISTORY_OVERLAP_MS : retainFrom)
+    ).toISOString();
+
+    await pullAll(
+      async after => {
+        let query = supabase
+          .from('device_detections')
+          .select('*')
+          .gte('created_at', since)
+          .order('created_at')
+          .order('id')
+          .limit(SYNC_PAGE_SIZE + 1);
+        if (after) query = query.or(after);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return data;
+      },
+      rows => cacheDetections(rows, startedAt)
+    );
+
+    await pullAll(
+      async after => {
+        let query = supabase
+          .from('device_images')
+          .select('*')
+          .gte('created_at', since)
+          .order('created_at')
+          .order('id')
+          .limit(SYNC_PAGE_SIZE + 1);
+        if (after) query = query.or(after);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return data;
+      },
+      rows => cacheImages(rows, startedAt)
+    );
+
+    await pruneDeviceHistory(new Date(retainFrom));
+    await setSyncState(HISTORY_SYNC_KEY, startedAt);
+  }
+
+  /**
+   * Update the status and notify listeners
+   * @param changes Fields that changed
+   * @private
+   */
+  private setStatus(changes: Partial<SyncStatus>): void {
+    this.status = { ...this.status, ...changes };
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+
+  /**
+   * Log an info message
+   * @param message Message to log
+   * @private
+   */
+  private logInfo(message: string): void {
+    console.info(`[SyncService] ${message}`);
+  }
+
+  /**
+   * Log an error message
+   * @param message Message to log
+   * @param error Error object
+   * @private
+   */
+  private logError(message: string, error?: any): void {
+    console.error(`[SyncService] ${message}`, error);
+  }
+}
+
+// Singleton instance
+let instance: SyncService | null = null;
+
+/**
+ * Get the SyncService instance
+ * @returns SyncService instance
+ */
+export const getSyncService = (): SyncService => {
+  if (!instance) {
+    instance = new SyncService();
+  }
+
+  return instance;
+};
@@ -0,0 +1,23 @@
+import { Database } from './supabase';
+import { Device } from './device';
+
+export type Alert = Database['public']['Tables']['alerts']['Row'];
+export type AlertUpdate = Database['public']['Tables']['alerts']['Update'];
+
+export type AlertThresholds = Database['public']['Tables']['alert_thresholds']['Row'];
+export type AlertThresholdsUpdate = Omit<Database['public']['Tables']['alert_thresholds']['Update'], 'user_id'>;
+
+export type AlertType = Alert['alert_type'];
+export type AlertSeverity = Alert['severity'];
+export type AlertStatus = Alert['status'];
+
+export interface AlertWithDevice extends Alert {
+  device: Pick<Device, 'name' | 'serial_number'> | null;
+}
+
+export interface AlertFilters {
+  status?: AlertStatus | 'open' | 'all';
+  severity?: AlertSeverity | 'all';
+  deviceId?: string;
+  limit?: number;
+}
@@ -0,0 +1,30 @@
+import { Database } from './supabase';
+import { DeviceDetection } from './device';
+
+export type DetectionType = Database['public']['Tables']['detection_types']['Row'];
+
+export interface DetectionTaxonomy {
+  types: Map<string, DetectionType>;
+  // Children of each node in display order; null holds the top level
+  children: Map<string | null, DetectionType[]>;
+}
+
+// Count each detection type, or roll types up into their classes
+export type DetectionGrouping = 'type' | 'class';
+
+export interface DetectionFilters {
+  // A detection type or class; classes include every type below them
+  detectionType?: string | null;
+}
+
+export interface DetectionListResponse {
+  detections: DeviceDetection[];
+  nextCursor: string | null;
+  hasMore: boolean;
+  // When served from the offline cache, the time the device was last
+  // fetched from the server; null for live data
+  cachedAt?: string | null;
+}
+
+// Validated by DetectionDataSchema
+export type { DetectionData, BoundingBox } from '../lib/detectionData';
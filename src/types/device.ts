@@ -1,34 +1,70 @@
 import { Database } from './supabase';
+import { AlertWithDevice } from './alert';
+import { DeviceGroupRollup } from './group';
+import { OrganizationRole } from './organization';
+import { DeviceSettings } from '../lib/deviceSettings';
 
 export type Device = Database['public']['Tables']['devices']['Row'];
 export type DeviceInsert = Database['public']['Tables']['devices']['Insert'];
-export type DeviceUpdate = Database['public']['Tables']['devices']['Update'];
+// Settings are changed with updateDeviceSettings, which records a config
+// version for the hardware to pull
+export type DeviceUpdate = Omit<Database['public']['Tables']['devices']['Update'], 'settings'>;
 
 export type DeviceDetection = Database['public']['Tables']['device_detections']['Row'];
 export type DeviceImage = Database['public']['Tables']['device_images']['Row'];
+export type DeviceTelemetry = Database['public']['Tables']['device_telemetry']['Row'];
 
-export interface DeviceWithStats extends Device {
-  detectionCount?: number;
-  lastDetectionDate?: string | null;
-  imageCount?: number;
+// Devices with detection_count, image_count and last_detection_date, which
+// replace the detectionCount, imageCount and lastDetectionDate fields
+export type DeviceWithStats = Database['public']['Views']['devices_with_stats']['Row'];
+
+// Component scores run from 0 (failing) to 100 (healthy); null when the
+// device has not reported enough data yet
+export type DeviceHealth = Pick<
+  DeviceWithStats,
+  | 'battery_days_remaining'
+  | 'battery_score'
+  | 'heartbeat_score'
+  | 'detection_score'
+  | 'storage_used_percent'
+  | 'storage_score'
+  | 'health_score'
+>;
+
+export interface DeviceWithDistance extends Device {
+  distanceMeters: number;
+}
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
 }
 
+export type DeviceMapMarker = Pick<Device, 'id' | 'name' | 'status' | 'battery_level' | 'location'> & Coordinates;
+
 export interface DeviceFilters {
   status?: 'online' | 'offline' | 'all';
+  organizationId?: string;
+  // null selects devices that are not in any group
+  groupId?: string | null;
   search?: string;
-  sortBy?: 'name' | 'created_at' | 'battery_level' | 'last_detection';
+  sortBy?: 'name' | 'created_at' | 'battery_level' | 'last_detection' | 'health';
   sortOrder?: 'asc' | 'desc';
 }
 
 export interface PaginationParams {
-  page: number;
+  // Cursor returned with the previous page; omit for the first page
+  cursor?: string | null;
   pageSize: number;
 }
 
 export interface DeviceListResponse {
   devices: DeviceWithStats[];
-  totalCount: number;
+  nextCursor: string | null;
   hasMore: boolean;
+  // When the list was served from the offline cache, the oldest time any
+  // of its rows was fetched from the server; null for live data
+  cachedAt?: string | null;
 }
 
 export interface DeviceMetrics {
@@ -37,23 +73,128 @@ export interface DeviceMetrics {
   temperature?: number;
   humidity?: number;
   signalStrength?: string;
+  rssi?: number;
+  telemetryRecordedAt?: string | null;
+}
+
+export type TelemetryRange = '24h' | '7d' | '30d';
+
+export interface TelemetryReading {
+  recorded_at?: string;
+  temperature?: number | null;
+  humidity?: number | null;
+  battery_level?: number | null;
+  rssi?: number | null;
 }
 
-export interface DeviceSettings {
-  captureFrequency: string;
-  notificationPreferences: string[];
-  sensitivityLevel?: number;
-  nightMode?: boolean;
+export interface TelemetryPoint {
+  date: string;
+  temperature: number | null;
+  humidity: number | null;
+  batteryLevel: number | null;
+  rssi: number | null;
+  sampleCount: number;
+}
+
+// Validated by DeviceSettingsSchema
+export type {
+  DeviceSettings,
+  CaptureInterval,
+  NotificationEvent,
+  CaptureSchedule,
+  CaptureWindow,
+  WindowBoundary,
+  BlackoutPeriod
+} from '../lib/deviceSettings';
+
+export type DeviceConfigVersion = Database['public']['Tables']['device_config_versions']['Row'];
+export type DeviceConfigStatus = DeviceConfigVersion['status'];
+
+export interface SettingsChange {
+  key: string;
+  previous: unknown;
+  current: unknown;
+}
+
+export interface DeviceConfigVersionWithChanges extends DeviceConfigVersion {
+  // Differences from the version before it; every key for the first version
+  changes: SettingsChange[];
 }
 
 export interface DeviceDetectionData {
   date: string;
   count: number;
+  byType?: Record<string, number>;
+}
+
+export type DetectionRange = '24h' | '7d' | '30d' | '90d' | 'custom';
+
+export type DetectionBucket = 'hour' | 'day' | 'week';
+
+export interface DetectionHistoryOptions {
+  range: DetectionRange;
+  from?: Date;
+  to?: Date;
+  bucket?: DetectionBucket;
+  timeZone?: string;
+}
+
+export interface DetectionHistory {
+  bucket: DetectionBucket;
+  data: DeviceDetectionData[];
+  detectionTypes: string[];
+  total: number;
+  // When built from the offline cache, the time the device was last fetched
+  // from the server; null for live data
+  cachedAt?: string | null;
 }
 
 export interface DeviceDetailsResponse {
   device: Device;
   metrics: DeviceMetrics;
   detectionData: DeviceDetectionData[];
+  detectionTypes: string[];
+  detectionBucket: DetectionBucket;
   images: DeviceImage[];
-}
\ No newline at end of file
+  // Latest telemetry reading, if the device has reported any
+  telemetry: DeviceTelemetry | null;
+  // The current user's role in the device's organization
+  role: OrganizationRole;
+  // When served from the offline cache, the time the device was last
+  // fetched from the server; null for live data
+  cachedAt?: string | null;
+}
+
+export interface DashboardData {
+  totalDevices: number;
+  activeDevices: number;
+  totalDetections: number;
+  detectionData: DeviceDetectionData[];
+  recentAlerts: AlertWithDevice[];
+  groups: DeviceGroupRollup[];
+}
+
+export interface DeviceImportRow {
+  name: string;
+  serial_number: string;
+  claim_code: string;
+  location: string | null;
+  settings: Partial<DeviceSettings> | null;
+}
+
+export type DeviceImportRowStatus = 'valid' | 'invalid' | 'duplicate';
+
+export interface DeviceImportPreviewRow {
+  line: number;
+  status: DeviceImportRowStatus;
+  raw: Record<string, string>;
+  data: DeviceImportRow | null;
+  errors: string[];
+}
+
+export interface DeviceImportPreview {
+  rows: DeviceImportPreviewRow[];
+  validCount: number;
+  invalidCount: number;
+  duplicateCount: number;
+}
@@ -0,0 +1,37 @@
+import { Database } from './supabase';
+
+export type FirmwareRelease = Database['public']['Tables']['firmware_releases']['Row'];
+export type FirmwareRollout = Database['public']['Tables']['firmware_rollouts']['Row'];
+export type DeviceFirmwareUpdate = Database['public']['Tables']['device_firmware_updates']['Row'];
+
+export type FirmwareRolloutStatus = FirmwareRollout['status'];
+export type FirmwareUpdateStatus = DeviceFirmwareUpdate['status'];
+
+export interface CreateFirmwareRolloutParams {
+  organizationId: string;
+  releaseId: string;
+  // Leave both unset to target every device in the organization
+  groupId?: string;
+  deviceIds?: string[];
+  percentage?: number;
+}
+
+export interface FirmwareRolloutWithProgress extends FirmwareRollout {
+  release: FirmwareRelease;
+  // Devices that have been offered the update, by their latest status
+  progress: Record<FirmwareUpdateStatus, number>;
+}
+
+export interface DeviceFirmwareUpdateWithRelease extends DeviceFirmwareUpdate {
+  release: FirmwareRelease;
+}
+
+export interface DeviceFirmwareStatus {
+  currentVersion: string | null;
+  reportedAt: string | null;
+  // Newest stable release for the device's model
+  latestRelease: FirmwareRelease | null;
+  updateAvailable: boolean;
+  // Most recent update the device has been offered
+  lastUpdate: DeviceFirmwareUpdateWithRelease | null;
+}
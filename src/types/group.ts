@@ -0,0 +1,18 @@
+import { Database } from './supabase';
+
+export type DeviceGroup = Database['public']['Tables']['device_groups']['Row'];
+export type DeviceGroupInsert = Omit<Database['public']['Tables']['device_groups']['Insert'], 'user_id'>;
+export type DeviceGroupUpdate = Omit<Database['public']['Tables']['device_groups']['Update'], 'user_id'>;
+
+export interface DeviceGroupWithCount extends DeviceGroup {
+  deviceCount: number;
+}
+
+export interface DeviceGroupRollup {
+  id: string | null;
+  name: string;
+  totalDevices: number;
+  activeDevices: number;
+  detections: number;
+  openAlerts: number;
+}
@@ -0,0 +1,27 @@
+import { Database } from './supabase';
+
+export type PushToken = Database['public']['Tables']['push_tokens']['Row'];
+
+// What the app receives with a push notification, set by the server
+export interface PushNotificationData {
+  type: 'detection' | 'alert' | 'support';
+  // Screen to open when the notification is tapped
+  url: string;
+  deviceId?: string;
+  detectionId?: string;
+  alertId?: string;
+  ticketId?: string;
+}
+
+// Validated by NotificationPreferencesSchema
+export type {
+  NotificationPreferences,
+  NotificationCategory,
+  NotificationChannel,
+  DigestFrequency
+} from '../lib/notificationPreferences';
+
+export type DeviceNotificationRule = Database['public']['Tables']['device_notification_rules']['Row'];
+
+// Validated by NotificationRuleSchema
+export type { NotificationRuleInput } from '../lib/notificationRules';
@@ -0,0 +1,29 @@
+import { Database } from './supabase';
+
+export type Organization = Database['public']['Tables']['organizations']['Row'];
+export type OrganizationMemberRow = Database['public']['Tables']['organization_members']['Row'];
+export type OrganizationInvitation = Database['public']['Tables']['organization_invitations']['Row'];
+
+export type OrganizationRole = OrganizationMemberRow['role'];
+export type InvitationRole = OrganizationInvitation['role'];
+
+export interface OrganizationWithRole extends Organization {
+  role: OrganizationRole;
+}
+
+export interface OrganizationMember {
+  userId: string;
+  role: OrganizationRole;
+  joinedAt: string;
+  fullName: string | null;
+  email: string;
+}
+
+export interface InvitationWithOrganization extends OrganizationInvitation {
+  organization: Pick<Organization, 'id' | 'name'> | null;
+}
+
+export interface InviteMemberResult {
+  invitation: OrganizationInvitation;
+  emailed: boolean;
+}
@@ -0,0 +1,84 @@
+import { Device, DeviceUpdate } from './device';
+import { SupportTicket, TicketMessage } from './support';
+
+export type OutboxMutationKind = 'create_ticket' | 'add_ticket_message' | 'update_device';
+
+// pending: waiting to be sent, or sent and waiting for a connection to retry
+// syncing: being sent now
+// failed: rejected by the server; retry or discard it
+// conflict: the server copy changed the same fields since the edit was made
+export type OutboxItemStatus = 'pending' | 'syncing' | 'failed' | 'conflict';
+
+// A file attached to a queued ticket or message. Files picked offline keep a
+// copy on the device in localUri until they are uploaded.
+export interface OutboxAttachment {
+  id: string;
+  fileType: string;
+  fileName: string;
+  fileUrl?: string;
+  localUri?: string;
+}
+
+// Row IDs are generated when the mutation is queued and double as its
+// idempotency keys: replaying a mutation that already reached the server
+// finds its rows instead of inserting them again
+export interface CreateTicketMutation {
+  ticketId: string;
+  messageId: string;
+  title: string;
+  description: string;
+  deviceId: string | null;
+  attachments: OutboxAttachment[];
+}
+
+export interface AddTicketMessageMutation {
+  ticketId: string;
+  messageId: string;
+  message: string;
+  attachments: OutboxAttachment[];
+}
+
+export interface UpdateDeviceMutation {
+  deviceId: string;
+  changes: DeviceUpdate;
+  // The device's updated_at and the edited fields' values when the edit was
+  // made, to detect changes made elsewhere in the meantime
+  baseUpdatedAt: string | null;
+  base: Record<string, unknown>;
+  // Set when the user chose to keep their edit over a conflicting one
+  overwrite?: boolean;
+}
+
+export interface OutboxMutations {
+  create_ticket: CreateTicketMutation;
+  add_ticket_message: AddTicketMessageMutation;
+  update_device: UpdateDeviceMutation;
+}
+
+// What each mutation returns once it reaches the server
+export interface OutboxResults {
+  create_ticket: SupportTicket;
+  add_ticket_message: TicketMessage;
+  update_device: Device;
+}
+
+export interface OutboxItemOf<K extends OutboxMutationKind> {
+  id: string;
+  kind: K;
+  payload: OutboxMutations[K];
+  // Items are only replayed for the user who queued them
+  userId: string;
+  // Short description shown in the pending changes list
+  label: string;
+  // Another queued item that must reach the server first, such as the ticket
+  // a queued message replies to
+  dependsOn: string | null;
+  status: OutboxItemStatus;
+  attempts: number;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A queued item of any kind; checking `kind` narrows the payload
+export type OutboxItem = { [K in OutboxMutationKind]: OutboxItemOf<K> }[OutboxMutationKind];
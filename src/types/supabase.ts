@@ -16,12 +16,23 @@ export interface Database {
           updated_at: string
           name: string
           serial_number: string
+          model: string | null
           status: 'online' | 'offline'
           battery_level: number
           location: string | null
+          latitude: number | null
+          longitude: number | null
+          group_id: string | null
+          organization_id: string
           user_id: string
           last_detection: string | null
           settings: Json | null
+          reported_settings: Json | null
+          reported_config_version: number | null
+          config_reported_at: string | null
+          firmware_version: string | null
+          firmware_reported_at: string | null
+          last_seen_at: string | null
         }
         Insert: {
           id?: string
@@ -29,12 +40,23 @@ export interface Database {
           updated_at?: string
           name: string
           serial_number: string
+          model?: string | null
           status?: 'online' | 'offline'
           battery_level?: number
           location?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          group_id?: string | null
+          organization_id?: string
           user_id: string
           last_detection?: string | null
           settings?: Json | null
+          reported_settings?: Json | null
+          reported_config_version?: number | null
+          config_reported_at?: string | null
+          firmware_version?: string | null
+          firmware_reported_at?: string | null
+          last_seen_at?: string | null
         }
         Update: {
           id?: string
@@ -42,14 +64,37 @@ export interface Database {
           updated_at?: string
           name?: string
           serial_number?: string
+          model?: string | null
           status?: 'online' | 'offline'
           battery_level?: number
           location?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          group_id?: string | null
+          organization_id?: string
           user_id?: string
           last_detection?: string | null
           settings?: Json | null
+          reported_settings?: Json | null
+          reported_config_version?: number | null
+          config_reported_at?: string | null
+          firmware_version?: string | null
+          firmware_reported_at?: string | null
+          last_seen_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "devices_group_id_fkey"
+            columns: ["group_id"]
+            referencedRelation: "device_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "devices_organization_id_fkey"
+            columns: ["organization_id"]
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "devices_user_id_fkey"
             columns: ["user_id"]
@@ -89,6 +134,71 @@ export interface Database {
             columns: ["device_id"]
             referencedRelation: "devices"
             referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "device_detections_detection_type_fkey"
+            columns: ["detection_type"]
+            referencedRelation: "detection_types"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      detection_types: {
+        Row: {
+          id: string
+          created_at: string
+          parent_id: string | null
+          label: string
+          icon: string
+          color: string
+          sort_order: number
+        }
+        Insert: {
+          id: string
+          created_at?: string
+          parent_id?: string | null
+          label: string
+          icon?: string
+          color?: string
+          sort_order?: number
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          parent_id?: string | null
+          label?: string
+          icon?: string
+          color?: string
+          sort_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "detection_types_parent_id_fkey"
+            columns: ["parent_id"]
+            referencedRelation: "detection_types"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      detection_type_aliases: {
+        Row: {
+          alias: string
+          detection_type: string
+        }
+        Insert: {
+          alias: string
+          detection_type: string
+        }
+        Update: {
+          alias?: string
+          detection_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "detection_type_aliases_detection_type_fkey"
+            columns: ["detection_type"]
+            referencedRelation: "detection_types"
+            referencedColumns: ["id"]
           }
         ]
       }
@@ -145,6 +255,7 @@ export interface Database {
           status: 'open' | 'in_progress' | 'closed'
           user_id: string
           device_id: string | null
+          organization_id: string | null
         }
         Insert: {
           id?: string
@@ -155,6 +266,7 @@ export interface Database {
           status?: 'open' | 'in_progress' | 'closed'
           user_id: string
           device_id?: string | null
+          organization_id?: string | null
         }
         Update: {
           id?: string
@@ -165,6 +277,7 @@ export interface Database {
           status?: 'open' | 'in_progress' | 'closed'
           user_id?: string
           device_id?: string | null
+          organization_id?: string | null
         }
         Relationships: [
           {
@@ -178,6 +291,12 @@ export interface Database {
             columns: ["device_id"]
             referencedRelation: "devices"
             referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "support_tickets_organization_id_fkey"
+            columns: ["organization_id"]
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
           }
         ]
       }
@@ -272,6 +391,7 @@ export interface Database {
           full_name: string | null
           avatar_url: string | null
           notification_preferences: Json | null
+          email_unsubscribe_token: string
         }
         Insert: {
           id: string
@@ -280,6 +400,7 @@ export interface Database {
           full_name?: string | null
           avatar_url?: string | null
           notification_preferences?: Json | null
+          email_unsubscribe_token?: string
         }
         Update: {
           id?: string
@@ -288,6 +409,7 @@ export interface Database {
           full_name?: string | null
           avatar_url?: string | null
           notification_preferences?: Json | null
+          email_unsubscribe_token?: string
         }
         Relationships: [
           {
@@ -298,12 +420,1180 @@ export interface Database {
           }
         ]
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      [_ in never]: never
+      alerts: {
+        Row: {
+          id: string
+          created_at: string
+          updated_at: string
+          user_id: string
+          device_id: string
+          alert_type: 'low_battery' | 'device_offline' | 'detection_silence' | 'detection_spike'
+          severity: 'warning' | 'critical'
+          message: string
+          status: 'active' | 'acknowledged' | 'snoozed' | 'resolved'
+          details: Json | null
+          acknowledged_at: string | null
+          snoozed_until: string | null
+          resolved_at: string | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          user_id: string
+          device_id: string
+          alert_type: 'low_battery' | 'device_offline' | 'detection_silence' | 'detection_spike'
+          severity: 'warning' | 'critical'
+          message: string
+          status?: 'active' | 'acknowledged' | 'snoozed' | 'resolved'
+          details?: Json | null
+          acknowledged_at?: string | null
+          snoozed_until?: string | null
+          resolved_at?: string | null
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          user_id?: string
+          device_id?: string
+          alert_type?: 'low_battery' | 'device_offline' | 'detection_silence' | 'detection_spike'
+          severity?: 'warning' | 'critical'
+          message?: string
+          status?: 'active' | 'acknowledged' | 'snoozed' | 'resolved'
+          details?: Json | null
+          acknowledged_at?: string | null
+          snoozed_until?: string | null
+          resolved_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alerts_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alerts_device_id_fkey"
+            columns: ["device_id"]
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      alert_thresholds: {
+        Row: {
+          user_id: string
+          updated_at: string | null
+          low_battery_warning: number
+          low_battery_critical: number
+          detection_silence_hours: number
+          detection_spike_window_minutes: number
+          detection_spike_multiplier: number
+          detection_spike_min_count: number
+          offline_after_minutes: number
+        }
+        Insert: {
+          user_id: string
+          updated_at?: string | null
+          low_battery_warning?: number
+          low_battery_critical?: number
+          detection_silence_hours?: number
+          detection_spike_window_minutes?: number
+          detection_spike_multiplier?: number
+          detection_spike_min_count?: number
+          offline_after_minutes?: number
+        }
+        Update: {
+          user_id?: string
+          updated_at?: string | null
+          low_battery_warning?: number
+          low_battery_critical?: number
+          detection_silence_hours?: number
+          detection_spike_window_minutes?: number
+          detection_spike_multiplier?: number
+          detection_spike_min_count?: number
+          offline_after_minutes?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_thresholds_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      device_telemetry: {
+        Row: {
+          id: string
+          device_id: string
+          recorded_at: string
+          created_at: string
+          temperature: number | null
+          humidity: number | null
+          battery_level: number | null
+          rssi: number | null
+          storage_used_percent: number | null
+        }
+        Insert: {
+          id?: string
+          device_id: string
+          recorded_at?: string
+          created_at?: string
+          temperature?: number | null
+          humidity?: number | null
+          battery_level?: number | null
+          rssi?: number | null
+          storage_used_percent?: number | null
+        }
+        Update: {
+          id?: string
+          device_id?: string
+          recorded_at?: string
+          created_at?: string
+          temperature?: number | null
+          humidity?: number | null
+          battery_level?: number | null
+          rssi?: number | null
+          storage_used_percent?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "device_telemetry_device_id_fkey"
+            columns: ["device_id"]
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      device_claims: {
+        Row: {
+          id: string
+          serial_number: string
+          device_id: string | null
+          user_id: string
+          claimed_at: string
+          revoked_at: string | null
+        }
+        Insert: {
+          id?: string
+          serial_number: string
+          device_id?: string | null
+          user_id: string
+          claimed_at?: string
+          revoked_at?: string | null
+        }
+        Update: {
+          id?: string
+          serial_number?: string
+          device_id?: string | null
+          user_id?: string
+          claimed_at?: string
+          revoked_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "device_claims_device_id_fkey"
+            columns: ["device_id"]
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      device_groups: {
+        Row: {
+          id: string
+          created_at: string
+          updated_at: string
+          user_id: string
+          organization_id: string
+          name: string
+          description: string | null
+          settings: Json | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          user_id: string
+          organization_id?: string
+          name: string
+          description?: string | null
+          settings?: Json | null
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          user_id?: string
+          organization_id?: string
+          name?: string
+          description?: string | null
+          settings?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "device_groups_organization_id_fkey"
+            columns: ["organization_id"]
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "device_groups_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      organizations: {
+        Row: {
+          id: string
+          created_at: string
+          updated_at: string
+          name: string
+          created_by: string | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          name: string
+          created_by?: string | null
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          name?: string
+          created_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organizations_created_by_fkey"
+            columns: ["created_by"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      organization_members: {
+        Row: {
+          organization_id: string
+          user_id: string
+          created_at: string
+          role: 'owner' | 'manager' | 'viewer'
+        }
+        Insert: {
+          organization_id: string
+          user_id: string
+          created_at?: string
+          role: 'owner' | 'manager' | 'viewer'
+        }
+        Update: {
+          organization_id?: string
+          user_id?: string
+          created_at?: string
+          role?: 'owner' | 'manager' | 'viewer'
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "organization_members_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      organization_invitations: {
+        Row: {
+          id: string
+          created_at: string
+          organization_id: string
+          email: string
+          role: 'manager' | 'viewer'
+          invited_by: string | null
+          expires_at: string
+          accepted_at: string | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          organization_id: string
+          email: string
+          role: 'manager' | 'viewer'
+          invited_by?: string | null
+          expires_at?: string
+          accepted_at?: string | null
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          organization_id?: string
+          email?: string
+          role?: 'manager' | 'viewer'
+          invited_by?: string | null
+          expires_at?: string
+          accepted_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_invitations_organization_id_fkey"
+            columns: ["organization_id"]
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "organization_invitations_invited_by_fkey"
+            columns: ["invited_by"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      device_config_versions: {
+        Row: {
+          id: string
+          created_at: string
+          device_id: string
+          version: number
+          settings: Json
+          status: 'pending' | 'applied' | 'failed' | 'superseded'
+          created_by: string | null
+          delivered_at: string | null
+          acknowledged_at: string | null
+          error: string | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          device_id: string
+          version: number
+          settings: Json
+          status?: 'pending' | 'applied' | 'failed' | 'superseded'
+          created_by?: string | null
+          delivered_at?: string | null
+          acknowledged_at?: string | null
+          error?: string | null
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          device_id?: string
+          version?: number
+          settings?: Json
+          status?: 'pending' | 'applied' | 'failed' | 'superseded'
+          created_by?: string | null
+          delivered_at?: string | null
+          acknowledged_at?: string | null
+          error?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "device_config_versions_device_id_fkey"
+            columns: ["device_id"]
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "device_config_versions_created_by_fkey"
+            columns: ["created_by"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      device_firmware_updates: {
+        Row: {
+          id: string
+          created_at: string
+          updated_at: string
+          device_id: string
+          rollout_id: string
+          release_id: string
+          status: 'offered' | 'downloading' | 'installing' | 'succeeded' | 'failed'
+          error: string | null
+          completed_at: string | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          device_id: string
+          rollout_id: string
+          release_id: string
+          status?: 'offered' | 'downloading' | 'installing' | 'succeeded' | 'failed'
+          error?: string | null
+          completed_at?: string | null
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          device_id?: string
+          rollout_id?: string
+          release_id?: string
+          status?: 'offered' | 'downloading' | 'installing' | 'succeeded' | 'failed'
+          error?: string | null
+          completed_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "device_firmware_updates_device_id_fkey"
+            columns: ["device_id"]
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "device_firmware_updates_rollout_id_fkey"
+            columns: ["rollout_id"]
+            referencedRelation: "firmware_rollouts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "device_firmware_updates_release_id_fkey"
+            columns: ["release_id"]
+            referencedRelation: "firmware_releases"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      firmware_releases: {
+        Row: {
+          id: string
+          created_at: string
+          version: string
+          model: string | null
+          channel: 'stable' | 'beta'
+          release_notes: string | null
+          file_url: string
+          checksum_sha256: string
+          size_bytes: number
+          published_at: string
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          version: string
+          model?: string | null
+          channel?: 'stable' | 'beta'
+          release_notes?: string | null
+          file_url: string
+          checksum_sha256: string
+          size_bytes: number
+          published_at?: string
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          version?: string
+          model?: string | null
+          channel?: 'stable' | 'beta'
+          release_notes?: string | null
+          file_url?: string
+          checksum_sha256?: string
+          size_bytes?: number
+          published_at?: string
+        }
+        Relationships: []
+      }
+      firmware_rollouts: {
+        Row: {
+          id: string
+          created_at: string
+          updated_at: string
+          organization_id: string
+          release_id: string
+          created_by: string | null
+          group_id: string | null
+          device_ids: string[] | null
+          percentage: number
+          status: 'active' | 'paused' | 'cancelled'
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          organization_id: string
+          release_id: string
+          created_by?: string | null
+          group_id?: string | null
+          device_ids?: string[] | null
+          percentage?: number
+          status?: 'active' | 'paused' | 'cancelled'
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          organization_id?: string
+          release_id?: string
+          created_by?: string | null
+          group_id?: string | null
+          device_ids?: string[] | null
+          percentage?: number
+          status?: 'active' | 'paused' | 'cancelled'
+        }
+        Relationships: [
+          {
+            foreignKeyName: "firmware_rollouts_organization_id_fkey"
+            columns: ["organization_id"]
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "firmware_rollouts_release_id_fkey"
+            columns: ["release_id"]
+            referencedRelation: "firmware_releases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "firmware_rollouts_created_by_fkey"
+            columns: ["created_by"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "firmware_rollouts_group_id_fkey"
+            columns: ["group_id"]
+            referencedRelation: "device_groups"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      device_battery_history: {
+        Row: {
+          id: string
+          device_id: string
+          recorded_at: string
+          battery_level: number
+        }
+        Insert: {
+          id?: string
+          device_id: string
+          recorded_at?: string
+          battery_level: number
+        }
+        Update: {
+          id?: string
+          device_id?: string
+          recorded_at?: string
+          battery_level?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "device_battery_history_device_id_fkey"
+            columns: ["device_id"]
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      device_heartbeats: {
+        Row: {
+          id: string
+          device_id: string
+          received_at: string
+          uptime_seconds: number | null
+        }
+        Insert: {
+          id?: string
+          device_id: string
+          received_at?: string
+          uptime_seconds?: number | null
+        }
+        Update: {
+          id?: string
+          device_id?: string
+          received_at?: string
+          uptime_seconds?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "device_heartbeats_device_id_fkey"
+            columns: ["device_id"]
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      push_tokens: {
+        Row: {
+          id: string
+          created_at: string
+          updated_at: string
+          user_id: string
+          token: string
+          platform: 'ios' | 'android'
+          device_name: string | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          user_id: string
+          token: string
+          platform: 'ios' | 'android'
+          device_name?: string | null
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          user_id?: string
+          token?: string
+          platform?: 'ios' | 'android'
+          device_name?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "push_tokens_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      notification_queue: {
+        Row: {
+          id: string
+          created_at: string
+          user_id: string
+          category: 'detections' | 'alerts' | 'support'
+          title: string
+          body: string
+          data: Json
+          status: 'pending' | 'sending' | 'sent' | 'failed'
+          attempts: number
+          claimed_at: string | null
+          sent_at: string | null
+          error: string | null
+          channel: 'push' | 'email'
+          rule_id: string | null
+          send_after: string
+          event_count: number
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          user_id: string
+          category: 'detections' | 'alerts' | 'support'
+          title: string
+          body: string
+          data?: Json
+          status?: 'pending' | 'sending' | 'sent' | 'failed'
+          attempts?: number
+          claimed_at?: string | null
+          sent_at?: string | null
+          error?: string | null
+          channel?: 'push' | 'email'
+          rule_id?: string | null
+          send_after?: string
+          event_count?: number
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          user_id?: string
+          category?: 'detections' | 'alerts' | 'support'
+          title?: string
+          body?: string
+          data?: Json
+          status?: 'pending' | 'sending' | 'sent' | 'failed'
+          attempts?: number
+          claimed_at?: string | null
+          sent_at?: string | null
+          error?: string | null
+          channel?: 'push' | 'email'
+          rule_id?: string | null
+          send_after?: string
+          event_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_queue_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      device_notification_rules: {
+        Row: {
+          id: string
+          created_at: string
+          updated_at: string
+          user_id: string
+          device_id: string
+          event: 'detection' | 'low_battery' | 'offline'
+          detection_type: string | null
+          enabled: boolean
+          channels: ('push' | 'email')[]
+          min_confidence: number | null
+          quiet_start: string | null
+          quiet_end: string | null
+          time_zone: string
+          max_per_hour: number | null
+          batch_minutes: number | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          user_id: string
+          device_id: string
+          event: 'detection' | 'low_battery' | 'offline'
+          detection_type?: string | null
+          enabled?: boolean
+          channels?: ('push' | 'email')[]
+          min_confidence?: number | null
+          quiet_start?: string | null
+          quiet_end?: string | null
+          time_zone?: string
+          max_per_hour?: number | null
+          batch_minutes?: number | null
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          user_id?: string
+          device_id?: string
+          event?: 'detection' | 'low_battery' | 'offline'
+          detection_type?: string | null
+          enabled?: boolean
+          channels?: ('push' | 'email')[]
+          min_confidence?: number | null
+          quiet_start?: string | null
+          quiet_end?: string | null
+          time_zone?: string
+          max_per_hour?: number | null
+          batch_minutes?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "device_notification_rules_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "device_notification_rules_device_id_fkey"
+            columns: ["device_id"]
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "device_notification_rules_detection_type_fkey"
+            columns: ["detection_type"]
+            referencedRelation: "detection_types"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      email_digests: {
+        Row: {
+          id: string
+          created_at: string
+          user_id: string
+          frequency: 'daily' | 'weekly'
+          period_start: string
+          period_end: string
+          status: 'sent' | 'skipped' | 'failed'
+          attempts: number
+          sent_at: string | null
+          error: string | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          user_id: string
+          frequency: 'daily' | 'weekly'
+          period_start: string
+          period_end: string
+          status: 'sent' | 'skipped' | 'failed'
+          attempts?: number
+          sent_at?: string | null
+          error?: string | null
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          user_id?: string
+          frequency?: 'daily' | 'weekly'
+          period_start?: string
+          period_end?: string
+          status?: 'sent' | 'skipped' | 'failed'
+          attempts?: number
+          sent_at?: string | null
+          error?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_digests_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+    }
+    Views: {
+      devices_with_stats: {
+        Row: {
+          id: string
+          created_at: string
+          updated_at: string
+          name: string
+          serial_number: string
+          model: string | null
+          status: 'online' | 'offline'
+          battery_level: number
+          location: string | null
+          latitude: number | null
+          longitude: number | null
+          group_id: string | null
+          organization_id: string
+          user_id: string
+          last_detection: string | null
+          settings: Json | null
+          reported_settings: Json | null
+          reported_config_version: number | null
+          config_reported_at: string | null
+          firmware_version: string | null
+          firmware_reported_at: string | null
+          last_seen_at: string | null
+          detection_count: number
+          last_detection_date: string | null
+          image_count: number
+          battery_days_remaining: number | null
+          battery_score: number | null
+          heartbeat_score: number | null
+          detection_score: number | null
+          storage_used_percent: number | null
+          storage_score: number | null
+          health_score: number | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      accept_organization_invitation: {
+        Args: {
+          p_invitation_id: string
+        }
+        Returns: Database['public']['Tables']['organizations']['Row']
+      }
+      acknowledge_device_config: {
+        Args: {
+          p_device_id: string
+          p_version: number
+          p_status: 'applied' | 'failed'
+          p_error?: string | null
+          p_reported_settings?: Json | null
+        }
+        Returns: Database['public']['Tables']['device_config_versions']['Row']
+      }
+      claim_device: {
+        Args: {
+          p_serial_number: string
+          p_claim_code: string
+          p_name: string
+          p_location?: string | null
+          p_model?: string | null
+          p_latitude?: number | null
+          p_longitude?: number | null
+          p_organization_id?: string | null
+        }
+        Returns: Database['public']['Tables']['devices']['Row']
+      }
+      create_organization: {
+        Args: {
+          p_name: string
+        }
+        Returns: Database['public']['Tables']['organizations']['Row']
+      }
+      evaluate_alerts: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      generate_device_secret: {
+        Args: {
+          p_device_id: string
+        }
+        Returns: string
+      }
+      reset_device_provisioning: {
+        Args: {
+          p_device_id: string
+        }
+        Returns: undefined
+      }
+      get_dashboard_data: {
+        Args: {
+          p_days?: number
+        }
+        Returns: Json
+      }
+      get_devices_near: {
+        Args: {
+          p_latitude: number
+          p_longitude: number
+          p_radius_meters: number
+        }
+        Returns: Json
+      }
+      get_detection_histogram: {
+        Args: {
+          p_device_id: string
+          p_from: string
+          p_to?: string
+          p_bucket?: 'hour' | 'day' | 'week'
+          p_timezone?: string
+        }
+        Returns: {
+          bucket: string
+          detection_type: string | null
+          count: number
+        }[]
+      }
+      get_device_telemetry_history: {
+        Args: {
+          p_device_id: string
+          p_from: string
+          p_to?: string
+          p_bucket_seconds?: number
+        }
+        Returns: {
+          bucket: string
+          temperature: number | null
+          humidity: number | null
+          battery_level: number | null
+          rssi: number | null
+          sample_count: number
+        }[]
+      }
+      get_organization_members: {
+        Args: {
+          p_organization_id: string
+        }
+        Returns: Json
+      }
+      import_devices: {
+        Args: {
+          p_devices: Json
+          p_organization_id?: string | null
+        }
+        Returns: Database['public']['Tables']['devices']['Row'][]
+      }
+      ingest_device_telemetry: {
+        Args: {
+          p_device_id: string
+          p_readings: Json
+        }
+        Returns: number
+      }
+      pull_device_config: {
+        Args: {
+          p_device_id: string
+        }
+        Returns: Json
+      }
+      push_device_config: {
+        Args: {
+          p_device_id: string
+          p_settings: Json
+        }
+        Returns: Database['public']['Tables']['device_config_versions']['Row']
+      }
+      normalize_device_settings: {
+        Args: {
+          p_settings: Json
+        }
+        Returns: Json
+      }
+      get_firmware_offer: {
+        Args: {
+          p_device_id: string
+        }
+        Returns: Json
+      }
+      report_device_firmware: {
+        Args: {
+          p_device_id: string
+          p_version?: string | null
+          p_rollout_id?: string | null
+          p_status?: string | null
+          p_error?: string | null
+        }
+        Returns: undefined
+      }
+      device_health: {
+        Args: {
+          p_device_id: string
+          p_battery_level: number
+          p_last_detection: string | null
+          p_created_at: string
+        }
+        Returns: {
+          battery_days_remaining: number | null
+          battery_score: number | null
+          heartbeat_score: number | null
+          detection_score: number | null
+          storage_used_percent: number | null
+          storage_score: number | null
+          health_score: number | null
+        }
+      }
+      mark_device_seen: {
+        Args: {
+          p_device_id: string
+        }
+        Returns: undefined
+      }
+      record_device_heartbeat: {
+        Args: {
+          p_device_id: string
+          p_uptime_seconds?: number | null
+          p_battery_level?: number | null
+        }
+        Returns: undefined
+      }
+      mark_offline_devices: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      register_push_token: {
+        Args: {
+          p_token: string
+          p_platform: string
+          p_device_name?: string | null
+        }
+        Returns: Database['public']['Tables']['push_tokens']['Row']
+      }
+      wants_notification: {
+        Args: {
+          p_preferences: Json
+          p_category: string
+          p_channel: string
+        }
+        Returns: boolean
+      }
+      queue_device_notification: {
+        Args: {
+          p_device_id: string
+          p_category: string
+          p_event: string | null
+          p_detection_type: string | null
+          p_confidence: number | null
+          p_title: string
+          p_body: string
+          p_data: Json
+        }
+        Returns: undefined
+      }
+      queue_notification: {
+        Args: {
+          p_user_id: string
+          p_category: string
+          p_channel: string
+          p_rule: Database['public']['Tables']['device_notification_rules']['Row'] | null
+          p_title: string
+          p_body: string
+          p_data: Json
+        }
+        Returns: undefined
+      }
+      quiet_hours_end: {
+        Args: {
+          p_start: string
+          p_end: string
+          p_time_zone: string
+          p_at?: string
+        }
+        Returns: string | null
+      }
+      claim_notifications: {
+        Args: {
+          p_limit?: number
+        }
+        Returns: Database['public']['Tables']['notification_queue']['Row'][]
+      }
+      request_notification_dispatch: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      invoke_edge_function: {
+        Args: {
+          p_function: string
+          p_body?: Json
+        }
+        Returns: undefined
+      }
+      list_email_digest_recipients: {
+        Args: {
+          p_frequency: 'daily' | 'weekly'
+          p_period_end: string
+          p_limit?: number
+        }
+        Returns: {
+          user_id: string
+          email: string
+          full_name: string | null
+          unsubscribe_token: string
+        }[]
+      }
+      get_email_digest: {
+        Args: {
+          p_user_id: string
+          p_since: string
+          p_until: string
+        }
+        Returns: Json
+      }
+      unsubscribe_email_digest: {
+        Args: {
+          p_token: string
+        }
+        Returns: boolean
+      }
+      normalize_detection_type: {
+        Args: {
+          p_value: string
+        }
+        Returns: string
+      }
+      resolve_detection_type: {
+        Args: {
+          p_value: string
+        }
+        Returns: string
+      }
+      resolve_detection_types: {
+        Args: {
+          p_values: string[]
+        }
+        Returns: {
+          reported: string
+          detection_type: string
+        }[]
+      }
+      detection_type_lineage: {
+        Args: {
+          p_type: string
+        }
+        Returns: {
+          id: string
+          depth: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
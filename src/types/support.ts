@@ -15,14 +15,18 @@ export interface TicketFilters {
 }
 
 export interface PaginationParams {
-  page: number;
+  // Cursor returned with the previous page; omit for the first page
+  cursor?: string | null;
   pageSize: number;
 }
 
 export interface TicketListResponse {
   tickets: SupportTicket[];
-  totalCount: number;
+  nextCursor: string | null;
   hasMore: boolean;
+  // When the list was served from the offline cache, the oldest time any
+  // of its rows was fetched from the server; null for live data
+  cachedAt?: string | null;
 }
 
 export interface TicketDetailsResponse {
@@ -31,25 +35,26 @@ export interface TicketDetailsResponse {
   attachments: TicketAttachment[];
 }
 
+// Either an uploaded file's URL, or a local file uploaded when the ticket
+// or message is sent
+export interface TicketAttachmentParams {
+  fileUrl?: string;
+  localUri?: string;
+  fileType: string;
+  fileName: string;
+}
+
 export interface CreateTicketParams {
   title: string;
   description: string;
   deviceId?: string | null;
-  attachments?: {
-    fileUrl: string;
-    fileType: string;
-    fileName: string;
-  }[];
+  attachments?: TicketAttachmentParams[];
 }
 
 export interface AddTicketMessageParams {
   ticketId: string;
   message: string;
-  attachments?: {
-    fileUrl: string;
-    fileType: string;
-    fileName: string;
-  }[];
+  attachments?: TicketAttachmentParams[];
 }
 
 export interface UpdateTicketStatusParams {
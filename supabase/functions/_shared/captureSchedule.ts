@@ -0,0 +1,268 @@
+/**
+ * Capture schedule compilation
+ *
+ * Device settings describe when to capture as weekly windows whose bounds are
+ * either local clock times or offsets from sunrise/sunset, plus blackout
+ * dates (see `src/lib/deviceSettings.ts` in the app). Firmware has no time
+ * zone database or solar tables, so the schedule is compiled here into plain
+ * UTC intervals covering the next few days.
+ */
+
+type WindowBoundary =
+  | { type: 'time'; time: string }
+  | { type: 'sunrise' | 'sunset'; offsetMinutes: number };
+
+interface CaptureWindow {
+  days: number[];
+  start: WindowBoundary;
+  end: WindowBoundary;
+}
+
+interface BlackoutPeriod {
+  start: string;
+  end: string;
+}
+
+export interface CaptureSchedule {
+  timeZone: string;
+  windows: CaptureWindow[];
+  blackouts: BlackoutPeriod[];
+}
+
+export interface CompiledSchedule {
+  timeZone: string;
+  generatedAt: number;
+  // Devices should fetch a fresh schedule before this time
+  validUntil: number;
+  // [start, end) pairs in Unix seconds, sorted and non-overlapping
+  intervals: [number, number][];
+}
+
+interface LocalDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RADIANS = Math.PI / 180;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Wall clock fields of an instant in a time zone
+ */
+const getZonedParts = (ms: number, timeZone: string) => {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(ms))) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  return parts;
+};
+
+/**
+ * Convert a wall clock time in a time zone to a UTC instant
+ */
+const zonedTimeToUtc = (date: LocalDate, minutes: number, timeZone: string): number => {
+  const wall = Date.UTC(date.year, date.month - 1, date.day) + minutes * 60 * 1000;
+
+  // Correct twice so times next to a DST change land on the right offset
+  let utc = wall;
+  for (let i = 0; i < 2; i++) {
+    const parts = getZonedParts(utc, timeZone);
+    const zonedWall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    utc += wall - zonedWall;
+  }
+  return utc;
+};
+
+const addDays = (date: LocalDate, days: number): LocalDate => {
+  const value = new Date(Date.UTC(date.year, date.month - 1, date.day) + days * DAY_MS);
+  return { year: value.getUTCFullYear(), month: value.getUTCMonth() + 1, day: value.getUTCDate() };
+};
+
+const toIsoDate = (date: LocalDate) =>
+  `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+
+/**
+ * Sunrise and sunset for a date, using the NOAA sunrise equation
+ * @returns UTC milliseconds, or null during polar day or night
+ */
+const getSunTimes = (date: LocalDate, latitude: number, longitude: number) => {
+  const julianDay = Date.UTC(date.year, date.month - 1, date.day, 12) / DAY_MS + 2440587.5;
+  const n = Math.round(julianDay - 2451545 + 0.0008);
+  const meanSolarTime = n - longitude / 360;
+
+  const anomaly = (357.5291 + 0.98560028 * meanSolarTime) % 360;
+  const center = 1.9148 * Math.sin(anomaly * RADIANS)
+    + 0.02 * Math.sin(2 * anomaly * RADIANS)
+    + 0.0003 * Math.sin(3 * anomaly * RADIANS);
+  const eclipticLongitude = (anomaly + center + 180 + 102.9372) % 360;
+  const transit = 2451545 + meanSolarTime
+    + 0.0053 * Math.sin(anomaly * RADIANS)
+    - 0.0069 * Math.sin(2 * eclipticLongitude * RADIANS);
+
+  const declination = Math.asin(Math.sin(eclipticLongitude * RADIANS) * Math.sin(23.44 * RADIANS));
+  const cosHourAngle = (Math.sin(-0.833 * RADIANS) - Math.sin(latitude * RADIANS) * Math.sin(declination))
+    / (Math.cos(latitude * RADIANS) * Math.cos(declination));
+
+  if (cosHourAngle < -1 || cosHourAngle > 1) {
+    return null;
+  }
+
+  const hourAngle = Math.acos(cosHourAngle) / RADIANS;
+  const toMs = (julian: number) => (julian - 2440587.5) * DAY_MS;
+
+  return {
+    sunrise: toMs(transit - hourAngle / 360),
+    sunset: toMs(transit + hourAngle / 360),
+  };
+};
+
+const parseTime = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Resolve a window boundary on a local date
+ * @returns UTC milliseconds, or null when it cannot be resolved there
+ */
+const resolveBoundary = (
+  boundary: WindowBoundary,
+  date: LocalDate,
+  timeZone: string,
+  coordinates: { latitude: number; longitude: number } | null
+): number | null => {
+  if (boundary.type === 'time') {
+    return zonedTimeToUtc(date, parseTime(boundary.time), timeZone);
+  }
+
+  if (!coordinates) return null;
+
+  const sun = getSunTimes(date, coordinates.latitude, coordinates.longitude);
+  if (!sun) return null;
+
+  return sun[boundary.type] + boundary.offsetMinutes * 60 * 1000;
+};
+
+/**
+ * Compile a capture schedule into UTC intervals
+ *
+ * Windows whose end is not after their start run into the next day.
+ * Windows using sunrise or sunset are skipped when the device has no
+ * coordinates, or on days the sun does not rise or set. Blackout dates drop
+ * every window that starts on them.
+ * @param schedule - The schedule from the device settings
+ * @param coordinates - Device position, or null if unknown
+ * @param from - Start of the compiled period
+ * @param days - Number of days to compile
+ * @returns Capture intervals for the period
+ */
+export const compileCaptureSchedule = (
+  schedule: CaptureSchedule,
+  coordinates: { latitude: number; longitude: number } | null,
+  from: Date = new Date(),
+  days: number = 14
+): CompiledSchedule => {
+  const start = from.getTime();
+  const end = start + days * DAY_MS;
+  const timeZone = schedule.timeZone || 'UTC';
+
+  const now = getZonedParts(start, timeZone);
+  const today: LocalDate = { year: now.year, month: now.month, day: now.day };
+
+  const isBlackedOut = (date: LocalDate) => {
+    const iso = toIsoDate(date);
+    return schedule.blackouts.some(blackout => iso >= blackout.start && iso <= blackout.end);
+  };
+
+  const intervals: [number, number][] = [];
+
+  // Start a day early for windows that run past midnight into today
+  for (let offset = -1; offset <= days; offset++) {
+    const date = addDays(today, offset);
+    if (isBlackedOut(date)) continue;
+
+    if (schedule.windows.length === 0) {
+      intervals.push([zonedTimeToUtc(date, 0, timeZone), zonedTimeToUtc(addDays(date, 1), 0, timeZone)]);
+      continue;
+    }
+
+    const weekday = new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+
+    for (const window of schedule.windows) {
+      if (!window.days.includes(weekday)) continue;
+
+      const windowStart = resolveBoundary(window.start, date, timeZone, coordinates);
+      let windowEnd = resolveBoundary(window.end, date, timeZone, coordinates);
+      if (windowStart === null || windowEnd === null) continue;
+
+      if (windowEnd <= windowStart) {
+        windowEnd = resolveBoundary(window.end, addDays(date, 1), timeZone, coordinates);
+        if (windowEnd === null || windowEnd <= windowStart) continue;
+      }
+
+      intervals.push([windowStart, windowEnd]);
+    }
+  }
+
+  const merged: [number, number][] = [];
+  for (const [intervalStart, intervalEnd] of intervals.sort((a, b) => a[0] - b[0])) {
+    const clippedStart = Math.max(intervalStart, start);
+    const clippedEnd = Math.min(intervalEnd, end);
+    if (clippedEnd <= clippedStart) continue;
+
+    const last = merged[merged.length - 1];
+    if (last && clippedStart <= last[1]) {
+      last[1] = Math.max(last[1], clippedEnd);
+    } else {
+      merged.push([clippedStart, clippedEnd]);
+    }
+  }
+
+  const toSeconds = (ms: number) => Math.floor(ms / 1000);
+
+  return {
+    timeZone,
+    generatedAt: toSeconds(start),
+    validUntil: toSeconds(end),
+    intervals: merged.map(([intervalStart, intervalEnd]) => [toSeconds(intervalStart), toSeconds(intervalEnd)]),
+  };
+};
+
+/**
+ * Read the schedule from stored device settings, defaulting to capturing
+ * around the clock
+ * @param settings - Raw device settings JSON
+ * @returns The schedule
+ */
+export const getCaptureSchedule = (settings: unknown): CaptureSchedule => {
+  const schedule = (settings as { schedule?: Partial<CaptureSchedule> } | null)?.schedule;
+
+  return {
+    timeZone: typeof schedule?.timeZone === 'string' ? schedule.timeZone : 'UTC',
+    windows: Array.isArray(schedule?.windows) ? schedule.windows : [],
+    blackouts: Array.isArray(schedule?.blackouts) ? schedule.blackouts : [],
+  };
+};
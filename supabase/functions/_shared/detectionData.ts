@@ -0,0 +1,45 @@
+/**
+ * Detection classification metadata
+ *
+ * The shape of `device_detections.detection_data` as reported by field
+ * hardware (see `src/lib/detectionData.ts` in the app). Every field is
+ * optional so simple sensors can report a bare detection; keys firmware adds
+ * beyond these are kept as they are.
+ *
+ * Hardware may report detection types by any name; `device-ingest` resolves
+ * them to taxonomy ids before storing, keeping the name it was sent in
+ * `reported_type` when the two differ.
+ */
+import { z } from 'npm:zod@3';
+
+// A detection type as reported: a taxonomy id, an alias or a free label
+export const ReportedDetectionTypeSchema = z.string().trim().min(1).max(64);
+
+// Coordinates are fractions of the image size, from its top left corner
+export const BoundingBoxSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().gt(0).max(1),
+  height: z.number().gt(0).max(1),
+  // A different type for this box when one image holds several
+  detection_type: ReportedDetectionTypeSchema.optional(),
+  confidence: z.number().min(0).max(1).optional(),
+  // The box's type as reported, when it is not a taxonomy id
+  reported_type: z.string().max(64).optional(),
+})
+  .refine(box => box.x + box.width <= 1.0001 && box.y + box.height <= 1.0001, {
+    message: 'Bounding boxes must lie within the image',
+  });
+
+export const DetectionDataSchema = z.object({
+  // Classifier confidence in the detection type, 0 to 1
+  confidence: z.number().min(0).max(1).optional(),
+  // Number of individuals seen
+  count: z.number().int().min(1).max(1000).optional(),
+  bounding_boxes: z.array(BoundingBoxSchema).max(100).optional(),
+  model_version: z.string().trim().min(1).max(64).optional(),
+  // The detection type as reported, when it is not a taxonomy id
+  reported_type: z.string().max(64).optional(),
+}).passthrough();
+
+export type DetectionData = z.infer<typeof DetectionDataSchema>;
@@ -0,0 +1,65 @@
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-device-serial, x-device-secret',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+/**
+ * Create a Supabase client with the service role key
+ * @returns Supabase client that bypasses RLS
+ */
+export const createAdminClient = (): SupabaseClient => {
+  return createClient(
+    Deno.env.get('SUPABASE_URL') as string,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string,
+    { auth: { persistSession: false } }
+  );
+};
+
+/**
+ * Build a JSON response with CORS headers
+ * @param body - Response payload
+ * @param status - HTTP status code
+ * @returns Response object
+ */
+export const jsonResponse = (body: unknown, status = 200): Response => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+};
+
+/**
+ * Authenticate a device from its serial number and secret headers
+ *
+ * Any authenticated request counts as contact, so the device is marked as
+ * seen and brought online.
+ * @param supabase - Admin Supabase client
+ * @param req - Incoming request
+ * @returns Promise with the device ID, or null if the credentials are invalid
+ */
+export const authenticateDevice = async (supabase: SupabaseClient, req: Request): Promise<string | null> => {
+  const serialNumber = req.headers.get('x-device-serial');
+  const secret = req.headers.get('x-device-secret');
+
+  if (!serialNumber || !secret) {
+    return null;
+  }
+
+  const { data, error } = await supabase.rpc('authenticate_device', {
+    p_serial_number: serialNumber,
+    p_secret: secret,
+  });
+
+  if (error) throw error;
+
+  const deviceId = data as string | null;
+  if (deviceId) {
+    const { error: seenError } = await supabase.rpc('mark_device_seen', { p_device_id: deviceId });
+    if (seenError) throw seenError;
+  }
+
+  return deviceId;
+};
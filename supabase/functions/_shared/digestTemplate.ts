@@ -0,0 +1,341 @@
+/**
+ * Detection digest email template
+ *
+ * Renders the data from `get_email_digest` into the subject, HTML and
+ * plain text of a digest email. Pure and free of Deno APIs, so a digest can
+ * be rendered and compared against a saved snapshot locally.
+ */
+
+export type DigestFrequency = 'daily' | 'weekly';
+
+export interface DigestTypeCount {
+  type: string;
+  count: number;
+}
+
+export interface DigestData {
+  totalDetections: number;
+  devices: {
+    id: string;
+    name: string;
+    detections: number;
+    byType: DigestTypeCount[];
+  }[];
+  byType: DigestTypeCount[];
+  topImages: {
+    url: string;
+    deviceName: string;
+    detectionType: string;
+    createdAt: string;
+  }[];
+  offlineDevices: {
+    id: string;
+    name: string;
+    lastSeenAt: string | null;
+  }[];
+  lowBatteryDevices: {
+    id: string;
+    name: string;
+    batteryLevel: number;
+  }[];
+}
+
+export interface DigestOptions {
+  frequency: DigestFrequency;
+  // Start and end of the period covered, ISO timestamps
+  periodStart: string;
+  periodEnd: string;
+  recipientName?: string | null;
+  unsubscribeUrl: string;
+  // Link to open the app, shown when set
+  appUrl?: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const BRAND_COLOR = '#3A7A10';
+const MUTED_COLOR = '#6B7280';
+const WARNING_COLOR = '#B45309';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Escape text for use in HTML content and attributes
+ * @param value - Text to escape
+ * @returns Escaped text
+ */
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Format a timestamp as a UTC date, e.g. 2 May 2025
+ * @param value - ISO timestamp
+ * @returns Formatted date
+ */
+const formatDate = (value: string): string => {
+  const date = new Date(value);
+  return `${date.getUTCDate()} ${MONTHS[date.getUTCMonth()]} ${date.getUTCFullYear()}`;
+};
+
+/**
+ * Format a timestamp as a UTC date and time, e.g. 2 May 2025 14:05 UTC
+ * @param value - ISO timestamp
+ * @returns Formatted date and time
+ */
+const formatDateTime = (value: string): string => {
+  const date = new Date(value);
+  const hours = String(date.getUTCHours()).padStart(2, '0');
+  const minutes = String(date.getUTCMinutes()).padStart(2, '0');
+  return `${formatDate(value)} ${hours}:${minutes} UTC`;
+};
+
+/**
+ * Describe the period a digest covers; the end is exclusive
+ * @param options - Digest options
+ * @returns E.g. "1 May 2025" or "24 Apr 2025 – 30 Apr 2025"
+ */
+const formatPeriod = ({ frequency, periodStart, periodEnd }: DigestOptions): string => {
+  const lastDay = new Date(new Date(periodEnd).getTime() - 1).toISOString();
+  return frequency === 'daily'
+    ? formatDate(periodStart)
+    : `${formatDate(periodStart)} – ${formatDate(lastDay)}`;
+};
+
+/**
+ * Pluralise a count, e.g. 1 detection, 3 detections
+ * @param count - How many
+ * @param noun - Singular noun
+ * @returns Count and noun
+ */
+const pluralize = (count: number, noun: string): string =>
+  `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Capitalise a detection type for display, e.g. deer -> Deer
+ * @param type - Detection type
+ * @returns Label
+ */
+const typeLabel = (type: string): string =>
+  type ? type.charAt(0).toUpperCase() + type.slice(1).replace(/_/g, ' ') : 'Unknown';
+
+const formatTypeCounts = (counts: DigestTypeCount[]): string =>
+  counts.map(({ type, count }) => `${typeLabel(type)} ${count}`).join(', ');
+
+/**
+ * Whether a digest has nothing to report and need not be sent
+ * @param data - Digest data
+ * @returns True when there are no detections and no device problems
+ */
+export const isDigestEmpty = (data: DigestData): boolean =>
+  data.totalDetections === 0 &&
+  data.offlineDevices.length === 0 &&
+  data.lowBatteryDevices.length === 0;
+
+/**
+ * Subject line of a digest
+ * @param data - Digest data
+ * @param options - Digest options
+ * @returns Subject
+ */
+const renderSubject = (data: DigestData, options: DigestOptions): string => {
+  const problems = data.offlineDevices.length + data.lowBatteryDevices.length;
+  const summary = problems > 0
+    ? `${pluralize(data.totalDetections, 'detection')}, ${pluralize(problems, 'device issue')}`
+    : pluralize(data.totalDetections, 'detection');
+
+  return `${options.frequency === 'daily' ? 'Daily' : 'Weekly'} summary: ${summary}`;
+};
+
+/**
+ * Render the plain text version of a digest
+ * @param data - Digest data
+ * @param options - Digest options
+ * @returns Plain text body
+ */
+const renderText = (data: DigestData, options: DigestOptions): string => {
+  const lines: string[] = [
+    options.recipientName ? `Hi ${options.recipientName},` : 'Hi,',
+    '',
+    `Your ${options.frequency} Field Shield summary for ${formatPeriod(options)}.`,
+    '',
+    `DETECTIONS: ${data.totalDetections}`,
+  ];
+
+  if (data.byType.length > 0) {
+    lines.push(formatTypeCounts(data.byType));
+  }
+
+  if (data.devices.length > 0) {
+    lines.push('', 'BY DEVICE');
+    for (const device of data.devices) {
+      lines.push(`- ${device.name}: ${pluralize(device.detections, 'detection')} (${formatTypeCounts(device.byType)})`);
+    }
+  }
+
+  if (data.topImages.length > 0) {
+    lines.push('', 'TOP IMAGES');
+    for (const image of data.topImages) {
+      lines.push(`- ${typeLabel(image.detectionType)} at ${image.deviceName}, ${formatDateTime(image.createdAt)}: ${image.url}`);
+    }
+  }
+
+  if (data.offlineDevices.length > 0) {
+    lines.push('', 'OFFLINE DEVICES');
+    for (const device of data.offlineDevices) {
+      lines.push(`- ${device.name}: ${device.lastSeenAt ? `last seen ${formatDateTime(device.lastSeenAt)}` : 'never seen'}`);
+    }
+  }
+
+  if (data.lowBatteryDevices.length > 0) {
+    lines.push('', 'LOW BATTERY');
+    for (const device of data.lowBatteryDevices) {
+      lines.push(`- ${device.name}: ${device.batteryLevel}%`);
+    }
+  }
+
+  if (options.appUrl) {
+    lines.push('', `Open Field Shield: ${options.appUrl}`);
+  }
+
+  lines.push(
+    '',
+    '--',
+    `You get this email because ${options.frequency} digests are on in your notification settings.`,
+    `Unsubscribe: ${options.unsubscribeUrl}`
+  );
+
+  return lines.join('\n');
+};
+
+/**
+ * Render a section heading and content for the HTML version
+ * @param title - Heading text
+ * @param content - HTML content, already escaped
+ * @returns HTML section
+ */
+const htmlSection = (title: string, content: string): string => `
+<tr><td style="padding:24px 24px 0">
+<h2 style="margin:0 0 12px;font-size:16px;color:#111827">${escapeHtml(title)}</h2>
+${content}
+</td></tr>`;
+
+const htmlList = (items: string[]): string =>
+  `<ul style="margin:0;padding-left:20px;color:#374151;font-size:14px;line-height:22px">${items.map(item => `<li>${item}</li>`).join('')}</ul>`;
+
+/**
+ * Render the HTML version of a digest
+ * @param data - Digest data
+ * @param options - Digest options
+ * @returns HTML body
+ */
+const renderHtml = (data: DigestData, options: DigestOptions): string => {
+  const sections: string[] = [];
+
+  sections.push(htmlSection(
+    'Detections',
+    `<p style="margin:0;font-size:32px;font-weight:bold;color:${BRAND_COLOR}">${data.totalDetections}</p>` +
+    (data.byType.length > 0
+      ? `<p style="margin:4px 0 0;font-size:14px;color:${MUTED_COLOR}">${escapeHtml(formatTypeCounts(data.byType))}</p>`
+      : '')
+  ));
+
+  if (data.devices.length > 0) {
+    const rows = data.devices.map(device => `
+<tr>
+<td style="padding:6px 0;border-bottom:1px solid #E5E7EB;font-size:14px;color:#111827">${escapeHtml(device.name)}</td>
+<td style="padding:6px 0;border-bottom:1px solid #E5E7EB;font-size:14px;color:${MUTED_COLOR}">${escapeHtml(formatTypeCounts(device.byType))}</td>
+<td align="right" style="padding:6px 0;border-bottom:1px solid #E5E7EB;font-size:14px;font-weight:bold;color:#111827">${device.detections}</td>
+</tr>`).join('');
+
+    sections.push(htmlSection(
+      'By device',
+      `<table role="presentation" width="100%" cellpadding="0" cellspacing="0">${rows}</table>`
+    ));
+  }
+
+  if (data.topImages.length > 0) {
+    const images = data.topImages.map(image => `
+<td width="33%" valign="top" style="padding:4px">
+<a href="${escapeHtml(image.url)}"><img src="${escapeHtml(image.url)}" width="168" alt="${escapeHtml(typeLabel(image.detectionType))}" style="display:block;width:100%;border-radius:6px"></a>
+<p style="margin:4px 0 0;font-size:12px;color:${MUTED_COLOR}">${escapeHtml(`${typeLabel(image.detectionType)} · ${image.deviceName}`)}<br>${escapeHtml(formatDateTime(image.createdAt))}</p>
+</td>`);
+
+    const rows: string[] = [];
+    for (let start = 0; start < images.length; start += 3) {
+      rows.push(`<tr>${images.slice(start, start + 3).join('')}</tr>`);
+    }
+
+    sections.push(htmlSection(
+      'Top images',
+      `<table role="presentation" width="100%" cellpadding="0" cellspacing="0">${rows.join('')}</table>`
+    ));
+  }
+
+  if (data.offlineDevices.length > 0) {
+    sections.push(htmlSection(
+      'Offline devices',
+      htmlList(data.offlineDevices.map(device =>
+        `${escapeHtml(device.name)} <span style="color:${MUTED_COLOR}">${
+          device.lastSeenAt ? `last seen ${escapeHtml(formatDateTime(device.lastSeenAt))}` : 'never seen'
+        }</span>`
+      ))
+    ));
+  }
+
+  if (data.lowBatteryDevices.length > 0) {
+    sections.push(htmlSection(
+      'Low battery',
+      htmlList(data.lowBatteryDevices.map(device =>
+        `${escapeHtml(device.name)} <span style="color:${WARNING_COLOR};font-weight:bold">${device.batteryLevel}%</span>`
+      ))
+    ));
+  }
+
+  const button = options.appUrl
+    ? `<tr><td style="padding:24px 24px 0"><a href="${escapeHtml(options.appUrl)}" style="display:inline-block;padding:10px 20px;background:${BRAND_COLOR};color:#FFFFFF;font-size:14px;font-weight:bold;text-decoration:none;border-radius:6px">Open Field Shield</a></td></tr>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${escapeHtml(renderSubject(data, options))}</title></head>
+<body style="margin:0;padding:0;background:#F3F4F6;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,Helvetica,Arial,sans-serif">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#F3F4F6;padding:24px 0">
+<tr><td align="center">
+<table role="presentation" width="560" cellpadding="0" cellspacing="0" style="max-width:560px;width:100%;background:#FFFFFF;border-radius:8px">
+<tr><td style="padding:24px 24px 0">
+<p style="margin:0;font-size:12px;font-weight:bold;letter-spacing:1px;text-transform:uppercase;color:${BRAND_COLOR}">Field Shield</p>
+<h1 style="margin:8px 0 0;font-size:20px;color:#111827">${escapeHtml(options.recipientName ? `Hi ${options.recipientName},` : 'Hi,')}</h1>
+<p style="margin:8px 0 0;font-size:14px;color:#374151">Your ${options.frequency} summary for ${escapeHtml(formatPeriod(options))}.</p>
+</td></tr>
+${sections.join('')}
+${button}
+<tr><td style="padding:24px">
+<p style="margin:0;font-size:12px;line-height:18px;color:${MUTED_COLOR}">You get this email because ${options.frequency} digests are on in your notification settings. <a href="${escapeHtml(options.unsubscribeUrl)}" style="color:${MUTED_COLOR}">Unsubscribe</a></p>
+</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+};
+
+/**
+ * Render a digest email
+ * @param data - Digest data from get_email_digest
+ * @param options - Who and what period the digest is for
+ * @returns Subject, HTML and plain text
+ */
+export const renderDigestEmail = (data: DigestData, options: DigestOptions): RenderedEmail => ({
+  subject: renderSubject(data, options),
+  html: renderHtml(data, options),
+  text: renderText(data, options),
+});
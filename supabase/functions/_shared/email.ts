@@ -0,0 +1,78 @@
+/**
+ * Transactional email through the Resend API
+ *
+ * Configure with `RESEND_API_KEY` and `NOTIFICATION_EMAIL_FROM`, e.g.
+ * `Field Shield <alerts@example.com>`.
+ */
+
+const RESEND_URL = 'https://api.resend.com/emails';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  // Extra headers, e.g. List-Unsubscribe
+  headers?: Record<string, string>;
+}
+
+/**
+ * Thrown when the email provider could not be reached or failed on its side;
+ * the message can be sent again later
+ */
+export class EmailUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmailUnavailableError';
+  }
+}
+
+/**
+ * Whether email sending is configured
+ * @returns True when the API key and sender are set
+ */
+export const isEmailConfigured = (): boolean =>
+  Boolean(Deno.env.get('RESEND_API_KEY') && Deno.env.get('NOTIFICATION_EMAIL_FROM'));
+
+/**
+ * Send an email
+ * @param message - The email to send
+ * @returns Promise that resolves once the provider accepted the email
+ * @throws EmailUnavailableError when it can be retried, Error when the
+ * provider rejected it
+ */
+export const sendEmail = async (message: EmailMessage): Promise<void> => {
+  if (!isEmailConfigured()) {
+    throw new Error('Email is not configured');
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(RESEND_URL, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${Deno.env.get('RESEND_API_KEY')}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: Deno.env.get('NOTIFICATION_EMAIL_FROM'),
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        ...(message.html ? { html: message.html } : {}),
+        ...(message.headers ? { headers: message.headers } : {}),
+      }),
+    });
+  } catch (error) {
+    throw new EmailUnavailableError(error instanceof Error ? error.message : 'Email provider unreachable');
+  }
+
+  if (response.status === 429 || response.status >= 500) {
+    throw new EmailUnavailableError(`Email provider responded ${response.status}`);
+  }
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.message || `Email provider responded ${response.status}`);
+  }
+};
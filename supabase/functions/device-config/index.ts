@@ -0,0 +1,109 @@
+/**
+ * Device configuration endpoint
+ *
+ * Field hardware polls this for settings pushed from the app and reports
+ * whether it applied them. Devices authenticate with the `x-device-serial`
+ * and `x-device-secret` headers, so deploy with `--no-verify-jwt`.
+ *
+ * - `GET`: returns `{ version, settings, schedule }` for the newest pending
+ *   configuration, or 204 when the device is up to date
+ * - `GET ?schedule`: returns `{ schedule }` for the configuration the device
+ *   last applied. Compiled schedules cover two weeks, so devices should
+ *   fetch one before `schedule.validUntil` even without a new version
+ * - `POST`: `{ version, status: 'applied' | 'failed', error?, reported_settings? }`
+ *   acknowledges a version. `reported_settings` is what the device is running
+ *   after applying it, when that differs from what was sent (e.g. values
+ *   clamped by the firmware).
+ */
+import { z } from 'npm:zod@3';
+import { authenticateDevice, corsHeaders, createAdminClient, jsonResponse } from '../_shared/deviceAuth.ts';
+import { compileCaptureSchedule, getCaptureSchedule } from '../_shared/captureSchedule.ts';
+
+const AcknowledgeRequestSchema = z.object({
+  version: z.number().int().positive(),
+  status: z.enum(['applied', 'failed']),
+  error: z.string().max(1000).optional(),
+  reported_settings: z.record(z.unknown()).optional(),
+});
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const supabase = createAdminClient();
+
+    const deviceId = await authenticateDevice(supabase, req);
+    if (!deviceId) {
+      return jsonResponse({ error: 'Invalid device credentials' }, 401);
+    }
+
+    if (req.method === 'GET') {
+      const { data: device, error: deviceError } = await supabase
+        .from('devices')
+        .select('latitude, longitude, settings, reported_settings')
+        .eq('id', deviceId)
+        .single();
+
+      if (deviceError) throw deviceError;
+
+      // Sunrise and sunset windows need the device's position
+      const coordinates = device.latitude !== null && device.longitude !== null
+        ? { latitude: device.latitude, longitude: device.longitude }
+        : null;
+
+      if (new URL(req.url).searchParams.has('schedule')) {
+        const settings = device.reported_settings ?? device.settings;
+        return jsonResponse({ schedule: compileCaptureSchedule(getCaptureSchedule(settings), coordinates) });
+      }
+
+      const { data, error } = await supabase.rpc('pull_device_config', { p_device_id: deviceId });
+      if (error) throw error;
+
+      if (!data) {
+        return new Response(null, { status: 204, headers: corsHeaders });
+      }
+
+      return jsonResponse({
+        ...data,
+        schedule: compileCaptureSchedule(getCaptureSchedule(data.settings), coordinates),
+      });
+    }
+
+    const parsed = AcknowledgeRequestSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return jsonResponse({ error: 'Invalid payload', issues: parsed.error.issues }, 400);
+    }
+
+    const { data, error } = await supabase.rpc('acknowledge_device_config', {
+      p_device_id: deviceId,
+      p_version: parsed.data.version,
+      p_status: parsed.data.status,
+      p_error: parsed.data.error ?? null,
+      p_reported_settings: parsed.data.reported_settings ?? null,
+    });
+
+    if (error) {
+      // Unknown or already acknowledged versions are the device's mistake
+      if (error.code === 'P0001') {
+        return jsonResponse({ error: error.message }, 409);
+      }
+      throw error;
+    }
+
+    return jsonResponse({ version: data.version, status: data.status });
+  } catch (error) {
+    console.error('Device config error:', error);
+
+    if (error instanceof SyntaxError) {
+      return jsonResponse({ error: 'Malformed JSON' }, 400);
+    }
+
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,62 @@
+/**
+ * Device heartbeat endpoint
+ *
+ * Field hardware posts here on a fixed cadence, even when it has nothing else
+ * to report, so the app can tell a quiet device from a dead one. Devices that
+ * stay silent for longer than their owner's `offline_after_minutes` are
+ * marked offline by a scheduled job. Devices authenticate with the
+ * `x-device-serial` and `x-device-secret` headers, so deploy with
+ * `--no-verify-jwt`.
+ *
+ * - `POST`: `{ uptime_seconds?, battery_level? }`, or an empty body
+ */
+import { z } from 'npm:zod@3';
+import { authenticateDevice, corsHeaders, createAdminClient, jsonResponse } from '../_shared/deviceAuth.ts';
+
+const HeartbeatSchema = z.object({
+  uptime_seconds: z.number().int().min(0).optional(),
+  battery_level: z.number().int().min(0).max(100).optional(),
+});
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const supabase = createAdminClient();
+
+    const deviceId = await authenticateDevice(supabase, req);
+    if (!deviceId) {
+      return jsonResponse({ error: 'Invalid device credentials' }, 401);
+    }
+
+    const body = await req.text();
+    const parsed = HeartbeatSchema.safeParse(body ? JSON.parse(body) : {});
+    if (!parsed.success) {
+      return jsonResponse({ error: 'Invalid payload', issues: parsed.error.issues }, 400);
+    }
+
+    const { error } = await supabase.rpc('record_device_heartbeat', {
+      p_device_id: deviceId,
+      p_uptime_seconds: parsed.data.uptime_seconds ?? null,
+      p_battery_level: parsed.data.battery_level ?? null,
+    });
+
+    if (error) throw error;
+
+    return new Response(null, { status: 204, headers: corsHeaders });
+  } catch (error) {
+    console.error('Device heartbeat error:', error);
+
+    if (error instanceof SyntaxError) {
+      return jsonResponse({ error: 'Malformed JSON' }, 400);
+    }
+
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,360 @@
+/**
+ * Device ingestion endpoint
+ *
+ * Field hardware posts detection events, images and telemetry here. Devices
+ * authenticate with the `x-device-serial` and `x-device-secret` headers, using
+ * a token from `device-provision` or `generate_device_secret`, so deploy with
+ * `--no-verify-jwt`.
+ *
+ * Accepted bodies:
+ * - `application/json`: `{ detections?: DetectionEvent[], telemetry?: TelemetryReading[], firmware?: FirmwareReport }`
+ * - `multipart/form-data`: a `detection` field holding one DetectionEvent as
+ *   JSON plus an optional `image` file, stored in the `device-images` bucket
+ *   and linked to the detection through `device_images.detection_id`
+ *
+ * `detection_data` must match `_shared/detectionData.ts`. Detection types
+ * are stored as `detection_types` taxonomy ids: aliases such as `human`
+ * resolve to their type (`person`), and types not in the taxonomy are stored
+ * as `unknown` with the reported name in `detection_data.reported_type`, so
+ * a new label never costs the rest of a batch.
+ *
+ * The detections in a payload are stored together or not at all. Devices
+ * should give each event a UUID `id` and keep it when resending: events
+ * already stored are skipped, so a retry after an error or a lost response
+ * does not store or notify twice.
+ *
+ * `firmware` reports the running version and, while installing an update,
+ * its progress. Every response carries `firmware_update`: the update the
+ * device should install next, or null.
+ */
+import { z } from 'npm:zod@3';
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { authenticateDevice, corsHeaders, createAdminClient, jsonResponse } from '../_shared/deviceAuth.ts';
+import { DetectionDataSchema, ReportedDetectionTypeSchema } from '../_shared/detectionData.ts';
+
+const DetectionEventSchema = z.object({
+  // Generated by the device so a resent event is only stored once
+  id: z.string().uuid().optional(),
+  detection_type: ReportedDetectionTypeSchema,
+  detection_data: DetectionDataSchema.optional(),
+  created_at: z.string().datetime({ offset: true }).optional(),
+});
+
+const TelemetryReadingSchema = z.object({
+  recorded_at: z.string().datetime({ offset: true }).optional(),
+  temperature: z.number().nullable().optional(),
+  humidity: z.number().min(0).max(100).nullable().optional(),
+  battery_level: z.number().int().min(0).max(100).nullable().optional(),
+  rssi: z.number().int().nullable().optional(),
+  storage_used_percent: z.number().int().min(0).max(100).nullable().optional(),
+});
+
+const FirmwareReportSchema = z.object({
+  version: z.string().trim().min(1).max(32),
+  update: z.object({
+    rollout_id: z.string().uuid(),
+    status: z.enum(['downloading', 'installing', 'succeeded', 'failed']),
+    error: z.string().max(1000).optional(),
+  }).optional(),
+});
+
+const JsonPayloadSchema = z.object({
+  detections: z.array(DetectionEventSchema).max(100).default([]),
+  telemetry: z.array(TelemetryReadingSchema).max(500).default([]),
+  firmware: FirmwareReportSchema.optional(),
+});
+
+type DetectionEvent = z.infer<typeof DetectionEventSchema>;
+
+const IMAGE_BUCKET = 'device-images';
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+/**
+ * Resolve the detection types in events, including those named on bounding
+ * boxes, to taxonomy ids. Aliases map to their type and anything else to
+ * `unknown`, keeping the reported name in `reported_type`.
+ * @param supabase - Admin Supabase client
+ * @param events - Validated detection events
+ * @returns Promise with the events using taxonomy ids
+ */
+const resolveDetectionTypes = async (
+  supabase: SupabaseClient,
+  events: DetectionEvent[]
+): Promise<DetectionEvent[]> => {
+  const reported = new Set<string>();
+  for (const event of events) {
+    reported.add(event.detection_type);
+    for (const box of event.detection_data?.bounding_boxes ?? []) {
+      if (box.detection_type) reported.add(box.detection_type);
+    }
+  }
+
+  if (reported.size === 0) return events;
+
+  const { data, error } = await supabase.rpc('resolve_detection_types', { p_values: [...reported] });
+
+  if (error) throw error;
+
+  const resolved = new Map<string, string>(
+    (data || []).map((row: { reported: string; detection_type: string }) => [row.reported, row.detection_type])
+  );
+  const resolve = (type: string) => resolved.get(type) ?? 'unknown';
+
+  return events.map(event => {
+    const detectionType = resolve(event.detection_type);
+    if (detectionType === event.detection_type && !event.detection_data?.bounding_boxes) return event;
+
+    const detectionData = { ...event.detection_data };
+    if (detectionType !== event.detection_type) detectionData.reported_type = event.detection_type;
+    if (detectionData.bounding_boxes) {
+      detectionData.bounding_boxes = detectionData.bounding_boxes.map(box => {
+        const boxType = box.detection_type && resolve(box.detection_type);
+        return boxType && boxType !== box.detection_type
+          ? { ...box, detection_type: boxType, reported_type: box.detection_type }
+          : box;
+      });
+    }
+
+    return { ...event, detection_type: detectionType, detection_data: detectionData };
+  });
+};
+
+/**
+ * Store detection events for a device in a single statement, so a batch is
+ * stored completely or not at all. Events whose `id` is already stored are
+ * skipped, which makes a device's retry of the same batch safe.
+ * @param supabase - Admin Supabase client
+ * @param deviceId - The authenticated device ID
+ * @param events - Validated detection events
+ * @param imageUrl - The uploaded image, for a single event that has one
+ * @returns Promise with the detection IDs, in the order of the events
+ */
+const insertDetections = async (
+  supabase: SupabaseClient,
+  deviceId: string,
+  events: DetectionEvent[],
+  imageUrl?: string
+): Promise<string[]> => {
+  const rows = events.map(event => ({
+    id: event.id ?? crypto.randomUUID(),
+    device_id: deviceId,
+    detection_type: event.detection_type,
+    detection_data: event.detection_data ?? null,
+    ...(event.created_at ? { created_at: event.created_at } : {}),
+    ...(imageUrl ? { image_url: imageUrl } : {}),
+  }));
+
+  if (rows.length === 0) return [];
+
+  const { error } = await supabase
+    .from('device_detections')
+    .upsert(rows, { onConflict: 'id', ignoreDuplicates: true });
+
+  if (error) throw error;
+
+  return rows.map(row => row.id);
+};
+
+/**
+ * Store a detection with its image, linked in device_images
+ *
+ * The image is uploaded before the detection is inserted, so a failed upload
+ * leaves nothing behind for the device's retry to duplicate. If storing the
+ * rows fails, the detection and upload are removed again. A retried event
+ * that was already stored returns the stored detection and image.
+ * @param supabase - Admin Supabase client
+ * @param deviceId - The authenticated device ID
+ * @param event - Validated detection event
+ * @param image - Uploaded image file
+ * @returns Promise with the detection and device_images IDs
+ */
+const insertDetectionWithImage = async (
+  supabase: SupabaseClient,
+  deviceId: string,
+  event: DetectionEvent,
+  image: File
+): Promise<{ id: string; image_id: string | null }> => {
+  if (event.id) {
+    const { data: stored, error: storedError } = await supabase
+      .from('device_detections')
+      .select('id, device_images(id)')
+      .eq('id', event.id)
+      .eq('device_id', deviceId)
+      .maybeSingle();
+
+    if (storedError) throw storedError;
+    if (stored) {
+      return { id: stored.id, image_id: stored.device_images?.[0]?.id ?? null };
+    }
+  }
+
+  const detectionId = event.id ?? crypto.randomUUID();
+  const extension = IMAGE_EXTENSIONS[image.type];
+  const filePath = `devices/${deviceId}/${detectionId}.${extension}`;
+  const bytes = new Uint8Array(await image.arrayBuffer());
+
+  const { error: uploadError } = await supabase.storage
+    .from(IMAGE_BUCKET)
+    .upload(filePath, bytes, { contentType: image.type, upsert: true });
+
+  if (uploadError) throw uploadError;
+
+  const { data: publicUrlData } = supabase.storage
+    .from(IMAGE_BUCKET)
+    .getPublicUrl(filePath);
+
+  try {
+    await insertDetections(supabase, deviceId, [{ ...event, id: detectionId }], publicUrlData.publicUrl);
+
+    const { data, error } = await supabase
+      .from('device_images')
+      .insert({
+        device_id: deviceId,
+        detection_id: detectionId,
+        url: publicUrlData.publicUrl,
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+
+    return { id: detectionId, image_id: data.id };
+  } catch (error) {
+    await supabase.from('device_detections').delete().eq('id', detectionId);
+    await supabase.storage.from(IMAGE_BUCKET).remove([filePath]);
+    throw error;
+  }
+};
+
+/**
+ * Fetch the firmware update a device should install
+ * @param supabase - Admin Supabase client
+ * @param deviceId - The authenticated device ID
+ * @returns Promise with the offer, or null when the device is up to date
+ */
+const getFirmwareOffer = async (supabase: SupabaseClient, deviceId: string) => {
+  const { data, error } = await supabase.rpc('get_firmware_offer', { p_device_id: deviceId });
+
+  if (error) throw error;
+
+  return data ?? null;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const supabase = createAdminClient();
+
+    const deviceId = await authenticateDevice(supabase, req);
+    if (!deviceId) {
+      return jsonResponse({ error: 'Invalid device credentials' }, 401);
+    }
+
+    const contentType = req.headers.get('content-type') || '';
+
+    if (contentType.startsWith('multipart/form-data')) {
+      const form = await req.formData();
+      const rawDetection = form.get('detection');
+      const image = form.get('image');
+
+      if (typeof rawDetection !== 'string') {
+        return jsonResponse({ error: 'Missing detection field' }, 400);
+      }
+
+      const parsed = DetectionEventSchema.safeParse(JSON.parse(rawDetection));
+      if (!parsed.success) {
+        return jsonResponse({ error: 'Invalid detection', issues: parsed.error.issues }, 400);
+      }
+
+      if (image !== null) {
+        if (!(image instanceof File)) {
+          return jsonResponse({ error: 'image must be a file' }, 400);
+        }
+        if (!IMAGE_EXTENSIONS[image.type]) {
+          return jsonResponse({ error: `Unsupported image type: ${image.type}` }, 415);
+        }
+        if (image.size > MAX_IMAGE_BYTES) {
+          return jsonResponse({ error: 'Image is too large' }, 413);
+        }
+      }
+
+      const [event] = await resolveDetectionTypes(supabase, [parsed.data]);
+      const detection = image instanceof File
+        ? await insertDetectionWithImage(supabase, deviceId, event, image)
+        : { id: (await insertDetections(supabase, deviceId, [event]))[0], image_id: null };
+
+      return jsonResponse({
+        detections: [detection],
+        telemetry: 0,
+        firmware_update: await getFirmwareOffer(supabase, deviceId),
+      }, 201);
+    }
+
+    const parsed = JsonPayloadSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return jsonResponse({ error: 'Invalid payload', issues: parsed.error.issues }, 400);
+    }
+
+    const events = await resolveDetectionTypes(supabase, parsed.data.detections);
+
+    if (parsed.data.firmware) {
+      const { version, update } = parsed.data.firmware;
+      const { error } = await supabase.rpc('report_device_firmware', {
+        p_device_id: deviceId,
+        p_version: version,
+        p_rollout_id: update?.rollout_id ?? null,
+        p_status: update?.status ?? null,
+        p_error: update?.error ?? null,
+      });
+
+      if (error) {
+        // Checked before anything is stored, so the device can fix the report
+        // and resend the whole payload
+        if (error.code === 'P0001') {
+          return jsonResponse({ error: error.message }, 409);
+        }
+        throw error;
+      }
+    }
+
+    const detectionIds = await insertDetections(supabase, deviceId, events);
+    const detections = detectionIds.map(id => ({ id, image_id: null }));
+
+    let telemetry = 0;
+    if (parsed.data.telemetry.length > 0) {
+      const { data, error } = await supabase.rpc('ingest_device_telemetry', {
+        p_device_id: deviceId,
+        p_readings: parsed.data.telemetry,
+      });
+
+      if (error) throw error;
+      telemetry = data ?? 0;
+    }
+
+    return jsonResponse({
+      detections,
+      telemetry,
+      firmware_update: await getFirmwareOffer(supabase, deviceId),
+    }, 201);
+  } catch (error) {
+    console.error('Device ingest error:', error);
+
+    if (error instanceof SyntaxError) {
+      return jsonResponse({ error: 'Malformed JSON' }, 400);
+    }
+
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
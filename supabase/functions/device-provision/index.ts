@@ -0,0 +1,73 @@
+/**
+ * Device provisioning endpoint
+ *
+ * Field hardware calls this to obtain and rotate the token it uses with
+ * `device-ingest`. Deploy with `--no-verify-jwt`.
+ *
+ * - First boot after the owner has claimed the device in the app: post
+ *   `{ serial_number, claim_code }` to receive the initial token. This only
+ *   works once; to provision again the owner must reset the device in the app
+ * - Rotation: post with the current `x-device-serial` and `x-device-secret`
+ *   headers and no body. The previous token keeps working until the new one
+ *   is first used, so a lost response does not lock the device out.
+ *
+ * Both return `{ deviceId, token, expiresAt }`. Tokens expire after 30 days.
+ */
+import { z } from 'npm:zod@3';
+import { authenticateDevice, corsHeaders, createAdminClient, jsonResponse } from '../_shared/deviceAuth.ts';
+
+const ProvisionRequestSchema = z.object({
+  serial_number: z.string().min(1).max(128),
+  claim_code: z.string().min(1).max(128),
+});
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const supabase = createAdminClient();
+
+    if (req.headers.has('x-device-secret')) {
+      const deviceId = await authenticateDevice(supabase, req);
+      if (!deviceId) {
+        return jsonResponse({ error: 'Invalid device credentials' }, 401);
+      }
+
+      const { data, error } = await supabase.rpc('rotate_device_token', { p_device_id: deviceId });
+      if (error) throw error;
+
+      return jsonResponse(data, 201);
+    }
+
+    const parsed = ProvisionRequestSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return jsonResponse({ error: 'Invalid payload', issues: parsed.error.issues }, 400);
+    }
+
+    const { data, error } = await supabase.rpc('provision_device', {
+      p_serial_number: parsed.data.serial_number,
+      p_claim_code: parsed.data.claim_code,
+    });
+
+    if (error) throw error;
+    if (!data) {
+      return jsonResponse({ error: 'Device has not been claimed, is already provisioned or the claim code is invalid' }, 403);
+    }
+
+    return jsonResponse(data, 201);
+  } catch (error) {
+    console.error('Device provision error:', error);
+
+    if (error instanceof SyntaxError) {
+      return jsonResponse({ error: 'Malformed JSON' }, 400);
+    }
+
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
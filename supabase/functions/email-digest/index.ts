@@ -0,0 +1,222 @@
+/**
+ * Detection digest sender
+ *
+ * Emails each user who has digests on a summary of their devices for the
+ * last day or week: detections by device and type, the most confident
+ * images, offline devices and low batteries. Scheduled jobs call this with
+ * the service role key and `{ frequency: 'daily' | 'weekly' }`; any other
+ * caller is rejected.
+ *
+ * Periods end at midnight UTC today, so a run later in the day covers the
+ * same period and only picks up users an earlier run did not finish. Every
+ * user is recorded in `email_digests`, as skipped when there was nothing to
+ * report. Each email links to `email-unsubscribe` with the user's token.
+ *
+ * Set `DIGEST_APP_URL` to link the email to the app or web dashboard.
+ * Returns `{ sent, skipped, failed }`.
+ */
+import { z } from 'npm:zod@3';
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, createAdminClient, jsonResponse } from '../_shared/deviceAuth.ts';
+import { EmailUnavailableError, isEmailConfigured, sendEmail } from '../_shared/email.ts';
+import { DigestData, DigestFrequency, isDigestEmpty, renderDigestEmail } from '../_shared/digestTemplate.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BATCH_SIZE = 200;
+// Stop after this many batches and leave the rest to the next scheduled run
+const MAX_BATCHES = 10;
+
+const DigestRequestSchema = z.object({
+  frequency: z.enum(['daily', 'weekly']),
+});
+
+interface DigestRecipient {
+  user_id: string;
+  email: string;
+  full_name: string | null;
+  unsubscribe_token: string;
+}
+
+interface DigestPeriod {
+  frequency: DigestFrequency;
+  start: string;
+  end: string;
+}
+
+/**
+ * The period a run covers, ending at midnight UTC today
+ * @param frequency - Daily or weekly
+ * @param now - Time of the run
+ * @returns Period start and end
+ */
+const getPeriod = (frequency: DigestFrequency, now = new Date()): DigestPeriod => {
+  const end = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const start = end - (frequency === 'daily' ? 1 : 7) * DAY_MS;
+
+  return {
+    frequency,
+    start: new Date(start).toISOString(),
+    end: new Date(end).toISOString(),
+  };
+};
+
+/**
+ * Record the outcome of a user's digest
+ * @param supabase - Admin Supabase client
+ * @param recipient - The user
+ * @param period - The period covered
+ * @param status - Sent, skipped or failed
+ * @param error - Why it failed
+ */
+const recordDigest = async (
+  supabase: SupabaseClient,
+  recipient: DigestRecipient,
+  period: DigestPeriod,
+  status: 'sent' | 'skipped' | 'failed',
+  error: string | null = null
+): Promise<void> => {
+  const { data: existing, error: selectError } = await supabase
+    .from('email_digests')
+    .select('attempts')
+    .eq('user_id', recipient.user_id)
+    .eq('frequency', period.frequency)
+    .eq('period_end', period.end)
+    .maybeSingle();
+
+  if (selectError) throw selectError;
+
+  const { error: upsertError } = await supabase
+    .from('email_digests')
+    .upsert({
+      user_id: recipient.user_id,
+      frequency: period.frequency,
+      period_start: period.start,
+      period_end: period.end,
+      status,
+      attempts: (existing?.attempts ?? 0) + 1,
+      sent_at: status === 'sent' ? new Date().toISOString() : null,
+      error,
+    }, { onConflict: 'user_id,frequency,period_end' });
+
+  if (upsertError) throw upsertError;
+};
+
+/**
+ * Build and send one user's digest
+ * @param supabase - Admin Supabase client
+ * @param recipient - The user
+ * @param period - The period covered
+ * @returns Promise with the digest's outcome
+ * @throws EmailUnavailableError when the email provider cannot be reached
+ */
+const sendDigest = async (
+  supabase: SupabaseClient,
+  recipient: DigestRecipient,
+  period: DigestPeriod
+): Promise<'sent' | 'skipped' | 'failed'> => {
+  const { data, error } = await supabase.rpc('get_email_digest', {
+    p_user_id: recipient.user_id,
+    p_since: period.start,
+    p_until: period.end,
+  });
+
+  if (error) throw error;
+
+  const digest = data as DigestData;
+  if (isDigestEmpty(digest)) {
+    await recordDigest(supabase, recipient, period, 'skipped');
+    return 'skipped';
+  }
+
+  const unsubscribeUrl = `${Deno.env.get('SUPABASE_URL')}/functions/v1/email-unsubscribe?token=${recipient.unsubscribe_token}`;
+  const email = renderDigestEmail(digest, {
+    frequency: period.frequency,
+    periodStart: period.start,
+    periodEnd: period.end,
+    recipientName: recipient.full_name,
+    unsubscribeUrl,
+    appUrl: Deno.env.get('DIGEST_APP_URL') || undefined,
+  });
+
+  try {
+    await sendEmail({
+      to: recipient.email,
+      ...email,
+      headers: {
+        'List-Unsubscribe': `<${unsubscribeUrl}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      },
+    });
+  } catch (sendError) {
+    if (sendError instanceof EmailUnavailableError) throw sendError;
+
+    const message = sendError instanceof Error ? sendError.message : 'Email rejected';
+    await recordDigest(supabase, recipient, period, 'failed', message);
+    return 'failed';
+  }
+
+  await recordDigest(supabase, recipient, period, 'sent');
+  return 'sent';
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ error: 'Not authorized' }, 401);
+  }
+
+  const parsed = DigestRequestSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return jsonResponse({ error: 'Invalid payload', issues: parsed.error.issues }, 400);
+  }
+
+  if (!isEmailConfigured()) {
+    return jsonResponse({ error: 'Email is not configured' }, 503);
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const period = getPeriod(parsed.data.frequency);
+    const totals = { sent: 0, skipped: 0, failed: 0 };
+
+    for (let batch = 0; batch < MAX_BATCHES; batch++) {
+      const { data, error } = await supabase.rpc('list_email_digest_recipients', {
+        p_frequency: period.frequency,
+        p_period_end: period.end,
+        p_limit: BATCH_SIZE,
+      });
+
+      if (error) throw error;
+
+      const recipients = (data || []) as DigestRecipient[];
+      if (recipients.length === 0) break;
+
+      const failedBefore = totals.failed;
+      for (const recipient of recipients) {
+        totals[await sendDigest(supabase, recipient, period)]++;
+      }
+
+      // Failed digests are listed again, so leave them to the next run
+      if (totals.failed > failedBefore || recipients.length < BATCH_SIZE) break;
+    }
+
+    return jsonResponse(totals);
+  } catch (error) {
+    // Users not yet recorded are picked up by the next scheduled run
+    if (error instanceof EmailUnavailableError) {
+      console.error('Email digest provider unavailable:', error);
+      return jsonResponse({ error: 'Email provider unavailable' }, 503);
+    }
+
+    console.error('Email digest error:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,85 @@
+/**
+ * Email digest unsubscribe link
+ *
+ * Every digest links here with the recipient's `email_unsubscribe_token`,
+ * which turns their digests off without signing in. Deploy with
+ * `--no-verify-jwt`.
+ *
+ * - `GET ?token=<uuid>`: a confirmation page with a button that POSTs back.
+ *   Opening the link changes nothing, since link scanners and mail
+ *   prefetchers follow every link in an email
+ * - `POST ?token=<uuid>`: turns digests off; also used by mail clients for
+ *   RFC 8058 one-click unsubscribe. Returns a short HTML page
+ */
+import { z } from 'npm:zod@3';
+import { corsHeaders, createAdminClient } from '../_shared/deviceAuth.ts';
+import { escapeHtml } from '../_shared/digestTemplate.ts';
+
+const TokenSchema = z.string().uuid();
+
+/**
+ * A minimal HTML page shown in the browser
+ * @param title - Page heading
+ * @param message - Text below the heading
+ * @param status - HTTP status
+ * @param content - Trusted HTML shown below the message
+ * @returns HTML response
+ */
+const htmlResponse = (title: string, message: string, status = 200, content = ''): Response =>
+  new Response(
+    `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${escapeHtml(title)}</title></head>
+<body style="margin:0;padding:48px 24px;background:#F3F4F6;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,Helvetica,Arial,sans-serif;text-align:center">
+<h1 style="margin:0 0 12px;font-size:20px;color:#111827">${escapeHtml(title)}</h1>
+<p style="margin:0;font-size:14px;color:#374151">${escapeHtml(message)}</p>
+${content}
+</body>
+</html>`,
+    { status, headers: { ...corsHeaders, 'Content-Type': 'text/html; charset=utf-8' } }
+  );
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return htmlResponse('Method not allowed', 'Open the link from your email to unsubscribe.', 405);
+  }
+
+  const token = TokenSchema.safeParse(new URL(req.url).searchParams.get('token'));
+  if (!token.success) {
+    return htmlResponse('Invalid link', 'This unsubscribe link is not valid.', 400);
+  }
+
+  if (req.method === 'GET') {
+    return htmlResponse(
+      'Unsubscribe from detection digests?',
+      'You will no longer receive daily or weekly digests of detection activity.',
+      200,
+      `<form method="POST" action="?token=${escapeHtml(token.data)}" style="margin:24px 0 0">
+<button type="submit" style="padding:10px 20px;border:0;border-radius:6px;background:#3A7A10;color:#FFFFFF;font-size:14px;cursor:pointer">Unsubscribe</button>
+</form>`
+    );
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const { data: found, error } = await supabase.rpc('unsubscribe_email_digest', { p_token: token.data });
+
+    if (error) throw error;
+
+    if (!found) {
+      return htmlResponse('Invalid link', 'This unsubscribe link is no longer valid.', 404);
+    }
+
+    return htmlResponse(
+      'You have been unsubscribed',
+      'You will no longer receive detection digests. You can turn them back on in your notification settings.'
+    );
+  } catch (error) {
+    console.error('Email unsubscribe error:', error);
+    return htmlResponse('Something went wrong', 'Please try the link again later.', 500);
+  }
+});
@@ -0,0 +1,128 @@
+/**
+ * Organization invitation endpoint
+ *
+ * The app calls this with the signed-in user's JWT to invite someone to an
+ * organization by email. The invitation is inserted as the caller, so RLS
+ * decides whether they may invite (owners and managers only).
+ *
+ * - New users get a Supabase sign-up invite; once registered they accept the
+ *   invitation from their profile
+ * - Existing users get a magic sign-in link and find the invitation waiting
+ *   in their profile
+ *
+ * Re-inviting someone whose invitation has expired replaces it.
+ *
+ * Post `{ organization_id, email, role }`; returns `{ invitation, emailed }`.
+ * `emailed` is false when the invitation was saved but no email could be
+ * sent, so the app can ask the inviter to let the person know directly.
+ */
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { z } from 'npm:zod@3';
+import { corsHeaders, createAdminClient, jsonResponse } from '../_shared/deviceAuth.ts';
+
+const InviteRequestSchema = z.object({
+  organization_id: z.string().uuid(),
+  email: z.string().trim().toLowerCase().email(),
+  role: z.enum(['manager', 'viewer']),
+});
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) {
+    return jsonResponse({ error: 'Not authenticated' }, 401);
+  }
+
+  try {
+    const parsed = InviteRequestSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return jsonResponse({ error: 'Invalid payload', issues: parsed.error.issues }, 400);
+    }
+
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL') as string,
+      Deno.env.get('SUPABASE_ANON_KEY') as string,
+      { global: { headers: { Authorization: authorization } }, auth: { persistSession: false } }
+    );
+
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    // An expired invitation still holds the email's pending slot, so clear it
+    // to let the person be invited again. RLS limits this to managers too
+    const { error: expiredError } = await userClient
+      .from('organization_invitations')
+      .delete()
+      .eq('organization_id', parsed.data.organization_id)
+      .eq('email', parsed.data.email)
+      .is('accepted_at', null)
+      .lte('expires_at', new Date().toISOString());
+
+    if (expiredError) throw expiredError;
+
+    const { data: invitation, error } = await userClient
+      .from('organization_invitations')
+      .insert({
+        organization_id: parsed.data.organization_id,
+        email: parsed.data.email,
+        role: parsed.data.role,
+        invited_by: user.id,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // Unique violation: this email already has a pending invitation
+      if (error.code === '23505') {
+        return jsonResponse({ error: 'This person already has a pending invitation' }, 409);
+      }
+      // RLS rejects callers who are not an owner or manager
+      if (error.code === '42501') {
+        return jsonResponse({ error: 'You do not have permission to invite members to this organization' }, 403);
+      }
+      throw error;
+    }
+
+    const admin = createAdminClient();
+    const redirectTo = Deno.env.get('INVITE_REDIRECT_URL') ?? undefined;
+
+    const { error: inviteError } = await admin.auth.admin.inviteUserByEmail(parsed.data.email, {
+      redirectTo,
+      data: { invited_to_organization: parsed.data.organization_id },
+    });
+
+    let emailed = !inviteError;
+
+    // Already registered: send a sign-in link instead of a sign-up invite
+    if (inviteError) {
+      const { error: otpError } = await admin.auth.signInWithOtp({
+        email: parsed.data.email,
+        options: { shouldCreateUser: false, emailRedirectTo: redirectTo },
+      });
+
+      if (otpError) {
+        console.error('Invitation email error:', inviteError, otpError);
+      }
+      emailed = !otpError;
+    }
+
+    return jsonResponse({ invitation, emailed }, 201);
+  } catch (error) {
+    console.error('Invite member error:', error);
+
+    if (error instanceof SyntaxError) {
+      return jsonResponse({ error: 'Malformed JSON' }, 400);
+    }
+
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,314 @@
+/**
+ * Push notification dispatcher
+ *
+ * Sends the notifications queued in `notification_queue` that are due, push
+ * notifications through the Expo push service and emails through the
+ * provider in `_shared/email.ts`. The database calls this through pg_net
+ * whenever notifications are queued, and every minute while any are due,
+ * with the service role key; any other caller is rejected.
+ *
+ * Each push notification goes to every push token of its user, and counts
+ * as sent once Expo accepts it for at least one token. Tokens Expo reports
+ * as no longer registered are deleted. Emails go to the user's account
+ * address. When Expo or the email provider cannot be reached the
+ * notification is queued again, up to MAX_ATTEMPTS tries.
+ *
+ * Set `EXPO_ACCESS_TOKEN` when the Expo project requires push security.
+ * Returns `{ sent, failed, retried }`.
+ */
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, createAdminClient, jsonResponse } from '../_shared/deviceAuth.ts';
+import { EmailUnavailableError, sendEmail } from '../_shared/email.ts';
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+// Expo accepts at most 100 messages per request
+const BATCH_SIZE = 100;
+const MAX_ATTEMPTS = 5;
+// Stop after this many batches and leave the rest to the next call
+const MAX_BATCHES = 20;
+
+interface QueuedNotification {
+  id: string;
+  user_id: string;
+  channel: 'push' | 'email';
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+  attempts: number;
+}
+
+interface PushMessage {
+  to: string;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+  sound: 'default';
+}
+
+interface PushTicket {
+  status: 'ok' | 'error';
+  id?: string;
+  message?: string;
+  details?: { error?: string };
+}
+
+/**
+ * Send messages to the Expo push service
+ * @param messages - At most BATCH_SIZE messages
+ * @returns Promise with one ticket per message, in the same order
+ */
+const sendPushMessages = async (messages: PushMessage[]): Promise<PushTicket[]> => {
+  const accessToken = Deno.env.get('EXPO_ACCESS_TOKEN');
+
+  const response = await fetch(EXPO_PUSH_URL, {
+    method: 'POST',
+    headers: {
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+      ...(accessToken ? { 'Authorization': `Bearer ${accessToken}` } : {}),
+    },
+    body: JSON.stringify(messages),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Expo push service responded ${response.status}`);
+  }
+
+  const { data } = await response.json();
+  return data as PushTicket[];
+};
+
+/**
+ * Record the outcome of a notification
+ * @param supabase - Admin Supabase client
+ * @param notification - The claimed notification
+ * @param error - Why it was not sent, or null when it was
+ * @param retry - Queue it again if it has attempts left
+ * @returns Promise with the notification's new status
+ */
+const finishNotification = async (
+  supabase: SupabaseClient,
+  notification: QueuedNotification,
+  error: string | null,
+  retry = false
+): Promise<'sent' | 'failed' | 'pending'> => {
+  const status = !error
+    ? 'sent'
+    : retry && notification.attempts < MAX_ATTEMPTS ? 'pending' : 'failed';
+
+  const { error: updateError } = await supabase
+    .from('notification_queue')
+    .update({
+      status,
+      error,
+      sent_at: status === 'sent' ? new Date().toISOString() : null,
+    })
+    .eq('id', notification.id);
+
+  if (updateError) throw updateError;
+
+  return status;
+};
+
+type Outcome = Awaited<ReturnType<typeof finishNotification>>;
+
+/**
+ * Send claimed push notifications
+ * @param supabase - Admin Supabase client
+ * @param notifications - Push notifications claimed with claim_notifications
+ * @param count - Records each notification's outcome
+ */
+const dispatchPush = async (
+  supabase: SupabaseClient,
+  notifications: QueuedNotification[],
+  count: (outcome: Outcome) => void
+): Promise<void> => {
+  if (notifications.length === 0) return;
+
+  const userIds = [...new Set(notifications.map(notification => notification.user_id))];
+  const { data: tokens, error } = await supabase
+    .from('push_tokens')
+    .select('token, user_id')
+    .in('user_id', userIds);
+
+  if (error) throw error;
+
+  const tokensByUser = new Map<string, string[]>();
+  for (const { token, user_id } of tokens || []) {
+    tokensByUser.set(user_id, [...(tokensByUser.get(user_id) || []), token]);
+  }
+
+  // One message per token, remembering which notification each is for
+  const messages: { notificationId: string; message: PushMessage }[] = [];
+  for (const notification of notifications) {
+    const userTokens = tokensByUser.get(notification.user_id) || [];
+
+    if (userTokens.length === 0) {
+      count(await finishNotification(supabase, notification, 'No push tokens registered'));
+      continue;
+    }
+
+    for (const token of userTokens) {
+      messages.push({
+        notificationId: notification.id,
+        message: {
+          to: token,
+          title: notification.title,
+          body: notification.body,
+          data: notification.data,
+          sound: 'default',
+        },
+      });
+    }
+  }
+
+  const delivered = new Set<string>();
+  const errors = new Map<string, string>();
+  const unreachable = new Set<string>();
+  const staleTokens: string[] = [];
+
+  for (let start = 0; start < messages.length; start += BATCH_SIZE) {
+    const chunk = messages.slice(start, start + BATCH_SIZE);
+
+    try {
+      const tickets = await sendPushMessages(chunk.map(item => item.message));
+
+      tickets.forEach((ticket, index) => {
+        const { notificationId, message } = chunk[index];
+
+        if (ticket.status === 'ok') {
+          delivered.add(notificationId);
+        } else {
+          errors.set(notificationId, ticket.message || 'Push rejected');
+          if (ticket.details?.error === 'DeviceNotRegistered') {
+            staleTokens.push(message.to);
+          }
+        }
+      });
+    } catch (sendError) {
+      console.error('Expo push error:', sendError);
+      chunk.forEach(item => unreachable.add(item.notificationId));
+    }
+  }
+
+  if (staleTokens.length > 0) {
+    const { error: deleteError } = await supabase
+      .from('push_tokens')
+      .delete()
+      .in('token', staleTokens);
+
+    if (deleteError) console.error('Delete stale push tokens error:', deleteError);
+  }
+
+  for (const notification of notifications) {
+    if (!tokensByUser.has(notification.user_id)) continue;
+
+    if (delivered.has(notification.id)) {
+      count(await finishNotification(supabase, notification, null));
+    } else if (unreachable.has(notification.id)) {
+      count(await finishNotification(supabase, notification, 'Push service unreachable', true));
+    } else {
+      count(await finishNotification(supabase, notification, errors.get(notification.id) || 'Push rejected'));
+    }
+  }
+};
+
+/**
+ * Send claimed email notifications
+ * @param supabase - Admin Supabase client
+ * @param notifications - Email notifications claimed with claim_notifications
+ * @param count - Records each notification's outcome
+ */
+const dispatchEmail = async (
+  supabase: SupabaseClient,
+  notifications: QueuedNotification[],
+  count: (outcome: Outcome) => void
+): Promise<void> => {
+  const emails = new Map<string, string | null>();
+
+  for (const notification of notifications) {
+    if (!emails.has(notification.user_id)) {
+      const { data, error } = await supabase.auth.admin.getUserById(notification.user_id);
+      if (error) console.error('Get notification recipient error:', error);
+      emails.set(notification.user_id, data?.user?.email ?? null);
+    }
+
+    const to = emails.get(notification.user_id);
+    if (!to) {
+      count(await finishNotification(supabase, notification, 'No email address'));
+      continue;
+    }
+
+    try {
+      await sendEmail({
+        to,
+        subject: notification.title,
+        text: notification.body,
+      });
+      count(await finishNotification(supabase, notification, null));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Email rejected';
+      count(await finishNotification(supabase, notification, message, error instanceof EmailUnavailableError));
+    }
+  }
+};
+
+/**
+ * Send one claimed batch of notifications
+ * @param supabase - Admin Supabase client
+ * @param notifications - Notifications claimed with claim_notifications
+ * @returns Promise with the count of each outcome
+ */
+const dispatchBatch = async (supabase: SupabaseClient, notifications: QueuedNotification[]) => {
+  const counts = { sent: 0, failed: 0, retried: 0 };
+  const count = (outcome: Outcome) => {
+    if (outcome === 'pending') counts.retried++;
+    else counts[outcome]++;
+  };
+
+  await dispatchPush(supabase, notifications.filter(notification => notification.channel === 'push'), count);
+  await dispatchEmail(supabase, notifications.filter(notification => notification.channel === 'email'), count);
+
+  return counts;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ error: 'Not authorized' }, 401);
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const totals = { sent: 0, failed: 0, retried: 0 };
+
+    for (let batch = 0; batch < MAX_BATCHES; batch++) {
+      const { data, error } = await supabase.rpc('claim_notifications', { p_limit: BATCH_SIZE });
+      if (error) throw error;
+
+      const notifications = (data || []) as QueuedNotification[];
+      if (notifications.length === 0) break;
+
+      const counts = await dispatchBatch(supabase, notifications);
+      totals.sent += counts.sent;
+      totals.failed += counts.failed;
+      totals.retried += counts.retried;
+
+      // Leave notifications queued again for the next call
+      if (counts.retried > 0 || notifications.length < BATCH_SIZE) break;
+    }
+
+    return jsonResponse(totals);
+  } catch (error) {
+    console.error('Notification dispatch error:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,119 @@
+/*
+  # Dashboard aggregation
+
+  1. New Functions
+    - `get_dashboard_data` - Returns device totals, a per-day detection series
+      and derived alerts for the current user in a single round trip
+
+  2. Security
+    - Runs as SECURITY INVOKER so the existing RLS policies on `devices` and
+      `device_detections` still apply
+*/
+
+-- Create index on device_detections for per-device time range queries
+CREATE INDEX IF NOT EXISTS device_detections_device_id_created_at_idx
+  ON device_detections(device_id, created_at);
+
+-- Create function to aggregate dashboard data
+CREATE OR REPLACE FUNCTION public.get_dashboard_data(
+  p_days INTEGER DEFAULT 7
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_start_date DATE;
+  v_result JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_days IS NULL OR p_days < 1 THEN
+    RAISE EXCEPTION 'p_days must be a positive integer';
+  END IF;
+
+  v_start_date := current_date - (p_days - 1);
+
+  WITH user_devices AS (
+    SELECT id, name, serial_number, status, battery_level, updated_at
+    FROM devices
+    WHERE user_id = v_user_id
+  ),
+  days AS (
+    SELECT generate_series(v_start_date, current_date, INTERVAL '1 day')::DATE AS day
+  ),
+  detection_counts AS (
+    SELECT dd.created_at::DATE AS day, count(*) AS count
+    FROM device_detections dd
+    JOIN user_devices ud ON ud.id = dd.device_id
+    WHERE dd.created_at >= v_start_date
+    GROUP BY 1
+  ),
+  derived_alerts AS (
+    SELECT
+      ud.id || ':offline' AS id,
+      ud.id AS device_id,
+      ud.name AS device_name,
+      ud.serial_number,
+      'Device is offline' AS message,
+      'critical' AS severity,
+      ud.updated_at AS timestamp
+    FROM user_devices ud
+    WHERE ud.status = 'offline'
+    UNION ALL
+    SELECT
+      ud.id || ':low_battery',
+      ud.id,
+      ud.name,
+      ud.serial_number,
+      'Low battery (' || ud.battery_level || '%)',
+      CASE WHEN ud.battery_level <= 10 THEN 'critical' ELSE 'warning' END,
+      ud.updated_at
+    FROM user_devices ud
+    WHERE ud.battery_level <= 20
+  )
+  SELECT jsonb_build_object(
+    'totalDevices', (SELECT count(*) FROM user_devices),
+    'activeDevices', (SELECT count(*) FROM user_devices WHERE status = 'online'),
+    'totalDetections', (
+      SELECT count(*)
+      FROM device_detections dd
+      JOIN user_devices ud ON ud.id = dd.device_id
+    ),
+    'detectionData', (
+      SELECT coalesce(jsonb_agg(
+        jsonb_build_object(
+          'date', to_char(days.day, 'YYYY-MM-DD'),
+          'count', coalesce(dc.count, 0)
+        ) ORDER BY days.day
+      ), '[]'::JSONB)
+      FROM days
+      LEFT JOIN detection_counts dc ON dc.day = days.day
+    ),
+    'recentAlerts', (
+      SELECT coalesce(jsonb_agg(
+        jsonb_build_object(
+          'id', a.id,
+          'deviceId', a.device_id,
+          'deviceName', a.device_name,
+          'serialNumber', a.serial_number,
+          'message', a.message,
+          'severity', a.severity,
+          'timestamp', a.timestamp
+        ) ORDER BY (a.severity = 'critical') DESC, a.timestamp DESC
+      ), '[]'::JSONB)
+      FROM (
+        SELECT * FROM derived_alerts
+        ORDER BY (severity = 'critical') DESC, timestamp DESC
+        LIMIT 10
+      ) a
+    )
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
@@ -0,0 +1,383 @@
+/*
+  # Alert rules engine
+
+  1. New Tables
+    - `alert_thresholds` - Per-user thresholds used by the alert rules
+    - `alerts` - Persisted alerts raised against devices, with an
+      active/acknowledged/snoozed/resolved lifecycle
+
+  2. New Functions
+    - `evaluate_device_alerts` - Evaluates a single device against its owner's
+      thresholds, raising or resolving alerts as needed
+    - `evaluate_alerts` - Evaluates every device of the current user
+    - `get_dashboard_data` - Now returns persisted alerts instead of derived ones
+
+  3. Security
+    - Enable RLS on both tables
+    - Users can view and update their own alerts and thresholds
+*/
+
+-- Create alert_thresholds table
+CREATE TABLE IF NOT EXISTS alert_thresholds (
+  user_id UUID PRIMARY KEY REFERENCES auth.users ON DELETE CASCADE,
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  low_battery_warning INTEGER NOT NULL DEFAULT 20 CHECK (low_battery_warning BETWEEN 0 AND 100),
+  low_battery_critical INTEGER NOT NULL DEFAULT 10 CHECK (low_battery_critical BETWEEN 0 AND 100),
+  detection_silence_hours INTEGER NOT NULL DEFAULT 72 CHECK (detection_silence_hours > 0),
+  detection_spike_window_minutes INTEGER NOT NULL DEFAULT 60 CHECK (detection_spike_window_minutes > 0),
+  detection_spike_multiplier NUMERIC NOT NULL DEFAULT 3 CHECK (detection_spike_multiplier > 1),
+  detection_spike_min_count INTEGER NOT NULL DEFAULT 10 CHECK (detection_spike_min_count > 0)
+);
+
+-- Create alerts table
+CREATE TABLE IF NOT EXISTS alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+  device_id UUID NOT NULL REFERENCES devices ON DELETE CASCADE,
+  alert_type TEXT NOT NULL CHECK (alert_type IN ('low_battery', 'device_offline', 'detection_silence', 'detection_spike')),
+  severity TEXT NOT NULL CHECK (severity IN ('warning', 'critical')),
+  message TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('active', 'acknowledged', 'snoozed', 'resolved')) DEFAULT 'active',
+  details JSONB,
+  acknowledged_at TIMESTAMPTZ,
+  snoozed_until TIMESTAMPTZ,
+  resolved_at TIMESTAMPTZ
+);
+
+-- Only one open alert per device and alert type
+CREATE UNIQUE INDEX IF NOT EXISTS alerts_open_device_type_idx
+  ON alerts(device_id, alert_type)
+  WHERE status <> 'resolved';
+
+CREATE INDEX IF NOT EXISTS alerts_user_id_created_at_idx ON alerts(user_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE alert_thresholds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alerts ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for alert_thresholds
+CREATE POLICY "Users can view their own alert thresholds"
+  ON alert_thresholds FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own alert thresholds"
+  ON alert_thresholds FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own alert thresholds"
+  ON alert_thresholds FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create policies for alerts
+CREATE POLICY "Users can view their own alerts"
+  ON alerts FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own alerts"
+  ON alerts FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create trigger for alert updates
+CREATE OR REPLACE FUNCTION public.update_alert_timestamp()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_alert_timestamp
+  BEFORE UPDATE ON alerts
+  FOR EACH ROW EXECUTE PROCEDURE public.update_alert_timestamp();
+
+-- Create function to raise (or refresh) an open alert
+CREATE OR REPLACE FUNCTION public.raise_device_alert(
+  p_user_id UUID,
+  p_device_id UUID,
+  p_alert_type TEXT,
+  p_severity TEXT,
+  p_message TEXT,
+  p_details JSONB DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_alert alerts%ROWTYPE;
+  v_status TEXT;
+BEGIN
+  SELECT * INTO v_alert
+  FROM alerts
+  WHERE device_id = p_device_id
+    AND alert_type = p_alert_type
+    AND status <> 'resolved';
+
+  IF NOT FOUND THEN
+    INSERT INTO alerts (user_id, device_id, alert_type, severity, message, details)
+    VALUES (p_user_id, p_device_id, p_alert_type, p_severity, p_message, p_details)
+    RETURNING * INTO v_alert;
+
+    RETURN v_alert.id;
+  END IF;
+
+  -- Wake expired snoozes and re-open acknowledged alerts that escalated
+  v_status := CASE
+    WHEN v_alert.status = 'snoozed' AND v_alert.snoozed_until <= now() THEN 'active'
+    WHEN v_alert.status = 'acknowledged' AND v_alert.severity = 'warning' AND p_severity = 'critical' THEN 'active'
+    ELSE v_alert.status
+  END;
+
+  -- Only write changes, so updated_at shows when the alert last changed
+  UPDATE alerts
+  SET
+    severity = p_severity,
+    message = p_message,
+    details = p_details,
+    status = v_status
+  WHERE id = v_alert.id
+    AND (severity, message, details, status) IS DISTINCT FROM (p_severity, p_message, p_details, v_status);
+
+  RETURN v_alert.id;
+END;
+$$;
+
+-- Create function to resolve an open alert once its condition clears
+CREATE OR REPLACE FUNCTION public.clear_device_alert(
+  p_device_id UUID,
+  p_alert_type TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE alerts
+  SET status = 'resolved', resolved_at = now()
+  WHERE device_id = p_device_id
+    AND alert_type = p_alert_type
+    AND status <> 'resolved';
+END;
+$$;
+
+-- Create function to evaluate a device against its owner's thresholds
+CREATE OR REPLACE FUNCTION public.evaluate_device_alerts(
+  p_device_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_device devices%ROWTYPE;
+  v_thresholds alert_thresholds%ROWTYPE;
+  v_window INTERVAL;
+  v_recent_count INTEGER;
+  v_baseline_count INTEGER;
+  v_expected NUMERIC;
+BEGIN
+  SELECT * INTO v_device FROM devices WHERE id = p_device_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO alert_thresholds (user_id)
+  VALUES (v_device.user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT * INTO v_thresholds FROM alert_thresholds WHERE user_id = v_device.user_id;
+
+  -- Offline devices
+  IF v_device.status = 'offline' THEN
+    PERFORM raise_device_alert(
+      v_device.user_id, v_device.id, 'device_offline', 'critical',
+      'Device is offline',
+      jsonb_build_object('status', v_device.status)
+    );
+  ELSE
+    PERFORM clear_device_alert(v_device.id, 'device_offline');
+  END IF;
+
+  -- Low battery
+  IF v_device.battery_level <= v_thresholds.low_battery_warning THEN
+    PERFORM raise_device_alert(
+      v_device.user_id, v_device.id, 'low_battery',
+      CASE WHEN v_device.battery_level <= v_thresholds.low_battery_critical THEN 'critical' ELSE 'warning' END,
+      'Low battery (' || v_device.battery_level || '%)',
+      jsonb_build_object('battery_level', v_device.battery_level)
+    );
+  ELSE
+    PERFORM clear_device_alert(v_device.id, 'low_battery');
+  END IF;
+
+  -- Detection silence
+  IF coalesce(v_device.last_detection, v_device.created_at)
+      < now() - make_interval(hours => v_thresholds.detection_silence_hours) THEN
+    PERFORM raise_device_alert(
+      v_device.user_id, v_device.id, 'detection_silence', 'warning',
+      'No detections in the last ' || v_thresholds.detection_silence_hours || ' hours',
+      jsonb_build_object('last_detection', v_device.last_detection)
+    );
+  ELSE
+    PERFORM clear_device_alert(v_device.id, 'detection_silence');
+  END IF;
+
+  -- Detection spikes, compared against the average rate over the past week.
+  -- Spikes are not cleared automatically; the user resolves them.
+  v_window := make_interval(mins => v_thresholds.detection_spike_window_minutes);
+
+  SELECT count(*) INTO v_recent_count
+  FROM device_detections
+  WHERE device_id = v_device.id
+    AND created_at >= now() - v_window;
+
+  IF v_recent_count >= v_thresholds.detection_spike_min_count THEN
+    SELECT count(*) INTO v_baseline_count
+    FROM device_detections
+    WHERE device_id = v_device.id
+      AND created_at >= now() - INTERVAL '7 days'
+      AND created_at < now() - v_window;
+
+    v_expected := v_baseline_count * extract(epoch FROM v_window) / extract(epoch FROM INTERVAL '7 days' - v_window);
+
+    IF v_recent_count > v_expected * v_thresholds.detection_spike_multiplier THEN
+      PERFORM raise_device_alert(
+        v_device.user_id, v_device.id, 'detection_spike', 'warning',
+        v_recent_count || ' detections in the last ' || v_thresholds.detection_spike_window_minutes || ' minutes',
+        jsonb_build_object(
+          'recent_count', v_recent_count,
+          'expected_count', round(v_expected, 2)
+        )
+      );
+    END IF;
+  END IF;
+END;
+$$;
+
+-- Create function to evaluate every device of the current user
+CREATE OR REPLACE FUNCTION public.evaluate_alerts()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_device_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  FOR v_device_id IN SELECT id FROM devices WHERE user_id = auth.uid() LOOP
+    PERFORM evaluate_device_alerts(v_device_id);
+  END LOOP;
+END;
+$$;
+
+-- Create function to evaluate alerts when device state changes
+CREATE OR REPLACE FUNCTION public.handle_device_alert_evaluation()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM evaluate_device_alerts(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Detections update devices.last_detection, so this also covers new detections
+CREATE TRIGGER evaluate_device_alerts
+  AFTER UPDATE OF status, battery_level, last_detection ON devices
+  FOR EACH ROW EXECUTE PROCEDURE public.handle_device_alert_evaluation();
+
+-- Internal helpers are only invoked from triggers and evaluate_alerts
+REVOKE EXECUTE ON FUNCTION public.raise_device_alert(UUID, UUID, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.clear_device_alert(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.evaluate_device_alerts(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Replace dashboard aggregation to return persisted alerts
+CREATE OR REPLACE FUNCTION public.get_dashboard_data(
+  p_days INTEGER DEFAULT 7
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_start_date DATE;
+  v_result JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_days IS NULL OR p_days < 1 THEN
+    RAISE EXCEPTION 'p_days must be a positive integer';
+  END IF;
+
+  v_start_date := current_date - (p_days - 1);
+
+  WITH user_devices AS (
+    SELECT id, name, serial_number, status
+    FROM devices
+    WHERE user_id = v_user_id
+  ),
+  days AS (
+    SELECT generate_series(v_start_date, current_date, INTERVAL '1 day')::DATE AS day
+  ),
+  detection_counts AS (
+    SELECT dd.created_at::DATE AS day, count(*) AS count
+    FROM device_detections dd
+    JOIN user_devices ud ON ud.id = dd.device_id
+    WHERE dd.created_at >= v_start_date
+    GROUP BY 1
+  ),
+  open_alerts AS (
+    SELECT a.*, ud.name AS device_name, ud.serial_number AS device_serial_number
+    FROM alerts a
+    JOIN user_devices ud ON ud.id = a.device_id
+    WHERE a.status = 'active'
+      OR (a.status = 'snoozed' AND a.snoozed_until <= now())
+    ORDER BY (a.severity = 'critical') DESC, a.updated_at DESC
+    LIMIT 10
+  )
+  SELECT jsonb_build_object(
+    'totalDevices', (SELECT count(*) FROM user_devices),
+    'activeDevices', (SELECT count(*) FROM user_devices WHERE status = 'online'),
+    'totalDetections', (
+      SELECT count(*)
+      FROM device_detections dd
+      JOIN user_devices ud ON ud.id = dd.device_id
+    ),
+    'detectionData', (
+      SELECT coalesce(jsonb_agg(
+        jsonb_build_object(
+          'date', to_char(days.day, 'YYYY-MM-DD'),
+          'count', coalesce(dc.count, 0)
+        ) ORDER BY days.day
+      ), '[]'::JSONB)
+      FROM days
+      LEFT JOIN detection_counts dc ON dc.day = days.day
+    ),
+    'recentAlerts', (
+      SELECT coalesce(jsonb_agg(
+        (to_jsonb(oa) - 'device_name' - 'device_serial_number') || jsonb_build_object(
+          'device', jsonb_build_object(
+            'name', oa.device_name,
+            'serial_number', oa.device_serial_number
+          )
+        ) ORDER BY (oa.severity = 'critical') DESC, oa.updated_at DESC
+      ), '[]'::JSONB)
+      FROM open_alerts oa
+    )
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
@@ -0,0 +1,136 @@
+/*
+  # Device telemetry time series
+
+  1. New Tables
+    - `device_telemetry` - Environmental and radio readings reported by devices
+
+  2. New Functions
+    - `ingest_device_telemetry` - Inserts a batch of readings for a device and
+      keeps `devices.battery_level` in sync with the newest reading
+    - `get_device_telemetry_history` - Returns readings averaged into fixed
+      width time buckets for charting
+
+  3. Security
+    - Enable RLS on device_telemetry table
+    - Users can view telemetry for their own devices
+*/
+
+-- Create device_telemetry table
+CREATE TABLE IF NOT EXISTS device_telemetry (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  device_id UUID NOT NULL REFERENCES devices ON DELETE CASCADE,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  temperature NUMERIC,
+  humidity NUMERIC CHECK (humidity BETWEEN 0 AND 100),
+  battery_level INTEGER CHECK (battery_level BETWEEN 0 AND 100),
+  rssi INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS device_telemetry_device_id_recorded_at_idx
+  ON device_telemetry(device_id, recorded_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE device_telemetry ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for device_telemetry
+CREATE POLICY "Users can view telemetry for their devices"
+  ON device_telemetry FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM devices
+    WHERE devices.id = device_id
+    AND devices.user_id = auth.uid()
+  ));
+
+-- Create function to ingest a batch of telemetry readings
+CREATE OR REPLACE FUNCTION public.ingest_device_telemetry(
+  p_device_id UUID,
+  p_readings JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_inserted INTEGER;
+  v_latest_battery INTEGER;
+BEGIN
+  -- Authenticated callers may only report for their own devices; the
+  -- service role (used by device-facing endpoints) has no auth.uid()
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM devices WHERE id = p_device_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Device not found or you do not have permission to report telemetry for it';
+  END IF;
+
+  IF jsonb_typeof(p_readings) <> 'array' THEN
+    RAISE EXCEPTION 'p_readings must be a JSON array';
+  END IF;
+
+  INSERT INTO device_telemetry (device_id, recorded_at, temperature, humidity, battery_level, rssi)
+  SELECT
+    p_device_id,
+    coalesce((r->>'recorded_at')::TIMESTAMPTZ, now()),
+    (r->>'temperature')::NUMERIC,
+    (r->>'humidity')::NUMERIC,
+    (r->>'battery_level')::INTEGER,
+    (r->>'rssi')::INTEGER
+  FROM jsonb_array_elements(p_readings) AS r;
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+  SELECT battery_level INTO v_latest_battery
+  FROM device_telemetry
+  WHERE device_id = p_device_id
+    AND battery_level IS NOT NULL
+  ORDER BY recorded_at DESC
+  LIMIT 1;
+
+  IF v_latest_battery IS NOT NULL THEN
+    UPDATE devices
+    SET battery_level = v_latest_battery
+    WHERE id = p_device_id
+      AND battery_level IS DISTINCT FROM v_latest_battery;
+  END IF;
+
+  RETURN v_inserted;
+END;
+$$;
+
+-- Anonymous callers have no auth.uid() and must not pass the ownership check
+REVOKE EXECUTE ON FUNCTION public.ingest_device_telemetry(UUID, JSONB) FROM PUBLIC, anon;
+
+-- Create function to return downsampled telemetry history
+CREATE OR REPLACE FUNCTION public.get_device_telemetry_history(
+  p_device_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ DEFAULT now(),
+  p_bucket_seconds INTEGER DEFAULT 3600
+)
+RETURNS TABLE (
+  bucket TIMESTAMPTZ,
+  temperature NUMERIC,
+  humidity NUMERIC,
+  battery_level NUMERIC,
+  rssi NUMERIC,
+  sample_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    date_bin(make_interval(secs => p_bucket_seconds), t.recorded_at, p_from) AS bucket,
+    round(avg(t.temperature), 1) AS temperature,
+    round(avg(t.humidity), 1) AS humidity,
+    round(avg(t.battery_level), 1) AS battery_level,
+    round(avg(t.rssi), 0) AS rssi,
+    count(*) AS sample_count
+  FROM device_telemetry t
+  WHERE t.device_id = p_device_id
+    AND t.recorded_at >= p_from
+    AND t.recorded_at < p_to
+  GROUP BY 1
+  ORDER BY 1;
+$$;
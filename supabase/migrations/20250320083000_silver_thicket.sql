@@ -0,0 +1,94 @@
+/*
+  # Device ingestion credentials
+
+  1. New Tables
+    - `device_secrets` - Hashed per-device secrets used by field hardware to
+      authenticate against the `device-ingest` edge function
+
+  2. New Functions
+    - `generate_device_secret` - Issues a new secret for a device owned by the
+      current user and returns it once in plain text
+    - `authenticate_device` - Resolves a serial number and secret to a device ID
+
+  3. Security
+    - Enable RLS on device_secrets with no policies, so hashes are only
+      reachable through the functions above
+    - `authenticate_device` is restricted to the service role
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Create device_secrets table
+CREATE TABLE IF NOT EXISTS device_secrets (
+  device_id UUID PRIMARY KEY REFERENCES devices ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  secret_hash TEXT NOT NULL,
+  last_used_at TIMESTAMPTZ
+);
+
+-- Enable Row Level Security
+ALTER TABLE device_secrets ENABLE ROW LEVEL SECURITY;
+
+-- Create function to issue a device secret
+CREATE OR REPLACE FUNCTION public.generate_device_secret(
+  p_device_id UUID
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_secret TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM devices WHERE id = p_device_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Device not found or you do not have permission to manage it';
+  END IF;
+
+  v_secret := encode(extensions.gen_random_bytes(24), 'hex');
+
+  INSERT INTO device_secrets (device_id, secret_hash)
+  VALUES (p_device_id, extensions.crypt(v_secret, extensions.gen_salt('bf')))
+  ON CONFLICT (device_id) DO UPDATE
+  SET secret_hash = EXCLUDED.secret_hash,
+      created_at = now(),
+      last_used_at = NULL;
+
+  RETURN v_secret;
+END;
+$$;
+
+-- Create function to authenticate a device by serial number and secret
+CREATE OR REPLACE FUNCTION public.authenticate_device(
+  p_serial_number TEXT,
+  p_secret TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_device_id UUID;
+BEGIN
+  -- Serial numbers are only unique per user, so the secret disambiguates
+  SELECT d.id INTO v_device_id
+  FROM devices d
+  JOIN device_secrets s ON s.device_id = d.id
+  WHERE d.serial_number = p_serial_number
+    AND s.secret_hash = extensions.crypt(p_secret, s.secret_hash)
+  LIMIT 1;
+
+  IF v_device_id IS NOT NULL THEN
+    UPDATE device_secrets SET last_used_at = now() WHERE device_id = v_device_id;
+  END IF;
+
+  RETURN v_device_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_device_secret(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.authenticate_device(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Create index on device_images for detection lookups
+CREATE INDEX IF NOT EXISTS device_images_detection_id_idx ON device_images(detection_id);
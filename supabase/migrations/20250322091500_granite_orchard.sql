@@ -0,0 +1,295 @@
+/*
+  # Device provisioning
+
+  1. New Tables
+    - `factory_devices` - Registry of manufactured hardware with a hashed
+      claim code per serial number, loaded by the factory tooling
+    - `device_claims` - Record of which user claimed which serial number and
+      when; a claim is revoked when its device is deleted
+
+  2. Changes
+    - `device_secrets` gains `expires_at` and `previous_secret_hash` so device
+      tokens can rotate without locking out hardware that missed a response
+    - Devices can no longer be inserted directly; they are created by
+      `claim_device` once the claim code has been verified
+
+  3. New Functions
+    - `claim_device` - Verifies a serial number and claim code against the
+      factory registry, creates the device and records the claim
+    - `provision_device` - Called by the hardware with its serial number and
+      claim code after it has been claimed; issues the first device token.
+      The claim code is used up once a token exists, so it cannot be used
+      to take over a provisioned device
+    - `reset_device_provisioning` - Lets the owner drop a device's token so
+      the hardware can provision again, e.g. after a factory reset
+    - `rotate_device_token` - Replaces an authenticated device's token
+    - `authenticate_device` - Now rejects expired tokens and accepts the
+      previous token until the rotated one is first used
+
+  4. Security
+    - Enable RLS on factory_devices with no policies
+    - Users can view their own claims
+    - `provision_device` and `rotate_device_token` are restricted to the
+      service role
+*/
+
+-- Create factory_devices table
+CREATE TABLE IF NOT EXISTS factory_devices (
+  serial_number TEXT PRIMARY KEY,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  claim_code_hash TEXT NOT NULL,
+  model TEXT,
+  manufactured_at TIMESTAMPTZ
+);
+
+-- Create device_claims table
+CREATE TABLE IF NOT EXISTS device_claims (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  serial_number TEXT NOT NULL REFERENCES factory_devices ON DELETE CASCADE,
+  device_id UUID REFERENCES devices ON DELETE SET NULL,
+  user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+  claimed_at TIMESTAMPTZ DEFAULT now(),
+  revoked_at TIMESTAMPTZ
+);
+
+-- A serial number can only have one active claim
+CREATE UNIQUE INDEX IF NOT EXISTS device_claims_active_serial_idx
+  ON device_claims(serial_number)
+  WHERE revoked_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS device_claims_device_id_idx ON device_claims(device_id);
+
+-- Enable Row Level Security
+ALTER TABLE factory_devices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE device_claims ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for device_claims
+CREATE POLICY "Users can view their own device claims"
+  ON device_claims FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Devices are created through claim_device only
+DROP POLICY IF EXISTS "Users can create their own devices" ON devices;
+
+-- Token rotation
+ALTER TABLE device_secrets
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS previous_secret_hash TEXT;
+
+-- Create function to claim a device from the factory registry
+CREATE OR REPLACE FUNCTION public.claim_device(
+  p_serial_number TEXT,
+  p_claim_code TEXT,
+  p_name TEXT,
+  p_location TEXT DEFAULT NULL
+)
+RETURNS devices
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_device devices;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM factory_devices
+    WHERE serial_number = p_serial_number
+      AND claim_code_hash = extensions.crypt(p_claim_code, claim_code_hash)
+  ) THEN
+    RAISE EXCEPTION 'Invalid serial number or claim code';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM device_claims
+    WHERE serial_number = p_serial_number AND revoked_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'This device has already been claimed';
+  END IF;
+
+  INSERT INTO devices (name, serial_number, location, user_id, status, battery_level, settings)
+  VALUES (
+    p_name,
+    p_serial_number,
+    p_location,
+    v_user_id,
+    'offline',
+    100,
+    '{"captureFrequency": "Every 4 hours", "notificationPreferences": ["All alerts"], "sensitivityLevel": 5, "nightMode": true}'::JSONB
+  )
+  RETURNING * INTO v_device;
+
+  INSERT INTO device_claims (serial_number, device_id, user_id)
+  VALUES (p_serial_number, v_device.id, v_user_id);
+
+  RETURN v_device;
+END;
+$$;
+
+-- Create function to store a new token for a device
+CREATE OR REPLACE FUNCTION public.issue_device_token(
+  p_device_id UUID,
+  p_keep_previous BOOLEAN
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_token TEXT := encode(extensions.gen_random_bytes(24), 'hex');
+  v_expires_at TIMESTAMPTZ := now() + INTERVAL '30 days';
+BEGIN
+  INSERT INTO device_secrets (device_id, secret_hash, expires_at)
+  VALUES (p_device_id, extensions.crypt(v_token, extensions.gen_salt('bf')), v_expires_at)
+  ON CONFLICT (device_id) DO UPDATE
+  SET previous_secret_hash = CASE WHEN p_keep_previous THEN device_secrets.secret_hash END,
+      secret_hash = EXCLUDED.secret_hash,
+      expires_at = EXCLUDED.expires_at,
+      created_at = now(),
+      last_used_at = NULL;
+
+  RETURN jsonb_build_object(
+    'deviceId', p_device_id,
+    'token', v_token,
+    'expiresAt', v_expires_at
+  );
+END;
+$$;
+
+-- Create function for claimed hardware to fetch its first token
+CREATE OR REPLACE FUNCTION public.provision_device(
+  p_serial_number TEXT,
+  p_claim_code TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_device_id UUID;
+BEGIN
+  SELECT c.device_id INTO v_device_id
+  FROM factory_devices f
+  JOIN device_claims c ON c.serial_number = f.serial_number AND c.revoked_at IS NULL
+  WHERE f.serial_number = p_serial_number
+    AND f.claim_code_hash = extensions.crypt(p_claim_code, f.claim_code_hash)
+    -- Only until the first token is issued; the owner must reset the
+    -- device to provision it again
+    AND NOT EXISTS (SELECT 1 FROM device_secrets s WHERE s.device_id = c.device_id);
+
+  IF v_device_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN issue_device_token(v_device_id, false);
+END;
+$$;
+
+-- Create function for the owner to allow a device to provision again
+CREATE OR REPLACE FUNCTION public.reset_device_provisioning(
+  p_device_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM devices WHERE id = p_device_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Device not found or you do not have permission to manage it';
+  END IF;
+
+  DELETE FROM device_secrets WHERE device_id = p_device_id;
+END;
+$$;
+
+-- Create function to rotate an authenticated device's token
+CREATE OR REPLACE FUNCTION public.rotate_device_token(
+  p_device_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN issue_device_token(p_device_id, true);
+END;
+$$;
+
+-- Replace authenticate_device to honour expiry and rotation
+CREATE OR REPLACE FUNCTION public.authenticate_device(
+  p_serial_number TEXT,
+  p_secret TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_device_id UUID;
+BEGIN
+  -- Serial numbers are only unique per user, so the secret disambiguates
+  SELECT d.id INTO v_device_id
+  FROM devices d
+  JOIN device_secrets s ON s.device_id = d.id
+  WHERE d.serial_number = p_serial_number
+    AND s.secret_hash = extensions.crypt(p_secret, s.secret_hash)
+    AND (s.expires_at IS NULL OR s.expires_at > now())
+  LIMIT 1;
+
+  IF v_device_id IS NOT NULL THEN
+    -- The rotated token is in use, so the previous one can be dropped
+    UPDATE device_secrets
+    SET last_used_at = now(),
+        previous_secret_hash = NULL
+    WHERE device_id = v_device_id;
+
+    RETURN v_device_id;
+  END IF;
+
+  -- Accept the previous token until the device picks up its rotated one
+  SELECT d.id INTO v_device_id
+  FROM devices d
+  JOIN device_secrets s ON s.device_id = d.id
+  WHERE d.serial_number = p_serial_number
+    AND s.previous_secret_hash IS NOT NULL
+    AND s.previous_secret_hash = extensions.crypt(p_secret, s.previous_secret_hash)
+    AND s.last_used_at IS NULL
+  LIMIT 1;
+
+  RETURN v_device_id;
+END;
+$$;
+
+-- Create trigger function to revoke claims and tokens when a device is deleted
+CREATE OR REPLACE FUNCTION public.revoke_device_claim()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE device_claims
+  SET revoked_at = now()
+  WHERE device_id = OLD.id AND revoked_at IS NULL;
+
+  DELETE FROM device_secrets WHERE device_id = OLD.id;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER revoke_device_claim
+  BEFORE DELETE ON devices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.revoke_device_claim();
+
+REVOKE EXECUTE ON FUNCTION public.claim_device(TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.issue_device_token(UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.provision_device(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reset_device_provisioning(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.rotate_device_token(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,70 @@
+/*
+  # Device model
+
+  1. Changes
+    - Add `model` to devices
+    - `claim_device` copies the model from the factory registry, falling back
+      to the model read from the device label
+*/
+
+ALTER TABLE devices ADD COLUMN IF NOT EXISTS model TEXT;
+
+DROP FUNCTION IF EXISTS public.claim_device(TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.claim_device(
+  p_serial_number TEXT,
+  p_claim_code TEXT,
+  p_name TEXT,
+  p_location TEXT DEFAULT NULL,
+  p_model TEXT DEFAULT NULL
+)
+RETURNS devices
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_factory factory_devices;
+  v_device devices;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  SELECT * INTO v_factory
+  FROM factory_devices
+  WHERE serial_number = p_serial_number
+    AND claim_code_hash = extensions.crypt(p_claim_code, claim_code_hash);
+
+  IF v_factory.serial_number IS NULL THEN
+    RAISE EXCEPTION 'Invalid serial number or claim code';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM device_claims
+    WHERE serial_number = p_serial_number AND revoked_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'This device has already been claimed';
+  END IF;
+
+  INSERT INTO devices (name, serial_number, model, location, user_id, status, battery_level, settings)
+  VALUES (
+    p_name,
+    p_serial_number,
+    coalesce(v_factory.model, p_model),
+    p_location,
+    v_user_id,
+    'offline',
+    100,
+    '{"captureFrequency": "Every 4 hours", "notificationPreferences": ["All alerts"], "sensitivityLevel": 5, "nightMode": true}'::JSONB
+  )
+  RETURNING * INTO v_device;
+
+  INSERT INTO device_claims (serial_number, device_id, user_id)
+  VALUES (p_serial_number, v_device.id, v_user_id);
+
+  RETURN v_device;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_device(TEXT, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
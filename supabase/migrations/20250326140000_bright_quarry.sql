@@ -0,0 +1,65 @@
+/*
+  # Bulk device import
+
+  1. New Functions
+    - `import_devices` - Claims a batch of devices in one transaction. Each
+      element of `p_devices` holds `name`, `serial_number`, `claim_code` and
+      optional `location`, `model`, `settings` and `line`; settings are merged
+      over the defaults from `claim_device`. If any row fails, nothing is
+      imported and the error names the failing row (its `line` when given).
+*/
+
+CREATE OR REPLACE FUNCTION public.import_devices(
+  p_devices JSONB
+)
+RETURNS SETOF devices
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_row JSONB;
+  v_index INTEGER := 0;
+  v_line TEXT;
+  v_device devices;
+BEGIN
+  IF jsonb_typeof(p_devices) <> 'array' THEN
+    RAISE EXCEPTION 'p_devices must be an array';
+  END IF;
+
+  IF jsonb_array_length(p_devices) > 500 THEN
+    RAISE EXCEPTION 'A maximum of 500 devices can be imported at once';
+  END IF;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(p_devices)
+  LOOP
+    v_index := v_index + 1;
+    v_line := coalesce(v_row->>'line', v_index::TEXT);
+
+    BEGIN
+      v_device := claim_device(
+        v_row->>'serial_number',
+        v_row->>'claim_code',
+        v_row->>'name',
+        v_row->>'location',
+        v_row->>'model'
+      );
+
+      IF jsonb_typeof(v_row->'settings') = 'object' THEN
+        UPDATE devices
+        SET settings = coalesce(settings, '{}'::JSONB) || (v_row->'settings')
+        WHERE id = v_device.id
+        RETURNING * INTO v_device;
+      END IF;
+    EXCEPTION
+      WHEN unique_violation THEN
+        RAISE EXCEPTION 'Row %: a device with serial number % is already registered', v_line, v_row->>'serial_number';
+      WHEN OTHERS THEN
+        RAISE EXCEPTION 'Row %: %', v_line, SQLERRM;
+    END;
+
+    RETURN NEXT v_device;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.import_devices(JSONB) FROM PUBLIC, anon;
@@ -0,0 +1,134 @@
+/*
+  # Device coordinates
+
+  1. Changes
+    - Add `latitude` and `longitude` to devices; both are set or neither is
+    - `claim_device` accepts the coordinates captured at registration
+
+  2. New Functions
+    - `get_devices_near` - The current user's devices within a radius of a
+      point, nearest first, each with a `distanceMeters` field
+
+  3. Security
+    - `get_devices_near` runs as SECURITY INVOKER so RLS on devices applies
+*/
+
+ALTER TABLE devices
+  ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+  ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+  ADD CONSTRAINT devices_coordinates_check CHECK ((latitude IS NULL) = (longitude IS NULL));
+
+CREATE INDEX IF NOT EXISTS devices_coordinates_idx ON devices(latitude, longitude);
+
+DROP FUNCTION IF EXISTS public.claim_device(TEXT, TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.claim_device(
+  p_serial_number TEXT,
+  p_claim_code TEXT,
+  p_name TEXT,
+  p_location TEXT DEFAULT NULL,
+  p_model TEXT DEFAULT NULL,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS devices
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_factory factory_devices;
+  v_device devices;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  SELECT * INTO v_factory
+  FROM factory_devices
+  WHERE serial_number = p_serial_number
+    AND claim_code_hash = extensions.crypt(p_claim_code, claim_code_hash);
+
+  IF v_factory.serial_number IS NULL THEN
+    RAISE EXCEPTION 'Invalid serial number or claim code';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM device_claims
+    WHERE serial_number = p_serial_number AND revoked_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'This device has already been claimed';
+  END IF;
+
+  INSERT INTO devices (name, serial_number, model, location, latitude, longitude, user_id, status, battery_level, settings)
+  VALUES (
+    p_name,
+    p_serial_number,
+    coalesce(v_factory.model, p_model),
+    p_location,
+    p_latitude,
+    p_longitude,
+    v_user_id,
+    'offline',
+    100,
+    '{"captureFrequency": "Every 4 hours", "notificationPreferences": ["All alerts"], "sensitivityLevel": 5, "nightMode": true}'::JSONB
+  )
+  RETURNING * INTO v_device;
+
+  INSERT INTO device_claims (serial_number, device_id, user_id)
+  VALUES (p_serial_number, v_device.id, v_user_id);
+
+  RETURN v_device;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_device(TEXT, TEXT, TEXT, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION) FROM PUBLIC, anon;
+
+-- Create function to find devices near a point
+CREATE OR REPLACE FUNCTION public.get_devices_near(
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_radius_meters DOUBLE PRECISION
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_earth_radius CONSTANT DOUBLE PRECISION := 6371000;
+  v_lat_delta DOUBLE PRECISION;
+  v_lng_delta DOUBLE PRECISION;
+BEGIN
+  IF p_radius_meters <= 0 THEN
+    RAISE EXCEPTION 'p_radius_meters must be positive';
+  END IF;
+
+  -- Bounding box so the index can discard most rows before haversine
+  v_lat_delta := degrees(p_radius_meters / v_earth_radius);
+  v_lng_delta := degrees(p_radius_meters / (v_earth_radius * greatest(cos(radians(p_latitude)), 0.000001)));
+
+  RETURN coalesce((
+    SELECT jsonb_agg(to_jsonb(d) || jsonb_build_object('distanceMeters', round(n.distance::NUMERIC, 1)) ORDER BY n.distance)
+    FROM devices d
+    CROSS JOIN LATERAL (
+      SELECT 2 * v_earth_radius * asin(sqrt(
+        power(sin(radians(d.latitude - p_latitude) / 2), 2) +
+        cos(radians(p_latitude)) * cos(radians(d.latitude)) *
+        power(sin(radians(d.longitude - p_longitude) / 2), 2)
+      )) AS distance
+    ) n
+    WHERE d.user_id = auth.uid()
+      AND d.latitude BETWEEN p_latitude - v_lat_delta AND p_latitude + v_lat_delta
+      AND (
+        -- Near the poles the box spans every longitude
+        v_lng_delta >= 180
+        OR d.longitude BETWEEN p_longitude - v_lng_delta AND p_longitude + v_lng_delta
+        -- A box crossing the antimeridian continues on the other side
+        OR d.longitude >= p_longitude - v_lng_delta + 360
+        OR d.longitude <= p_longitude + v_lng_delta - 360
+      )
+      AND n.distance <= p_radius_meters
+  ), '[]'::JSONB);
+END;
+$$;
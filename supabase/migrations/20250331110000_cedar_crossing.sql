@@ -0,0 +1,203 @@
+/*
+  # Device groups (sites)
+
+  1. New Tables
+    - `device_groups` - Named sites such as a property or lease that devices
+      can be organised under, with default settings for the site
+
+  2. Changes
+    - Add `group_id` to devices
+    - `get_dashboard_data` gains a `groups` rollup with device, detection and
+      open alert counts per site; ungrouped devices are rolled up under a
+      NULL id
+
+  3. Security
+    - Enable RLS on device_groups
+    - Users can manage their own groups
+    - A trigger stops devices being assigned to another user's group
+*/
+
+-- Create device_groups table
+CREATE TABLE IF NOT EXISTS device_groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  settings JSONB,
+  UNIQUE(user_id, name)
+);
+
+ALTER TABLE devices
+  ADD COLUMN IF NOT EXISTS group_id UUID REFERENCES device_groups ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS devices_group_id_idx ON devices(group_id);
+
+-- Enable Row Level Security
+ALTER TABLE device_groups ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for device_groups
+CREATE POLICY "Users can view their own device groups"
+  ON device_groups FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own device groups"
+  ON device_groups FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own device groups"
+  ON device_groups FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own device groups"
+  ON device_groups FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create trigger function to keep devices and their group under one owner
+CREATE OR REPLACE FUNCTION public.check_device_group_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.group_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM device_groups WHERE id = NEW.group_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Device group not found or you do not have permission to use it';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_device_group_owner
+  BEFORE INSERT OR UPDATE OF group_id ON devices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_device_group_owner();
+
+-- Replace dashboard function to add per-group rollups
+CREATE OR REPLACE FUNCTION public.get_dashboard_data(
+  p_days INTEGER DEFAULT 7
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_start_date DATE;
+  v_result JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_days IS NULL OR p_days < 1 THEN
+    RAISE EXCEPTION 'p_days must be a positive integer';
+  END IF;
+
+  v_start_date := current_date - (p_days - 1);
+
+  WITH user_devices AS (
+    SELECT id, name, serial_number, status, group_id
+    FROM devices
+    WHERE user_id = v_user_id
+  ),
+  days AS (
+    SELECT generate_series(v_start_date, current_date, INTERVAL '1 day')::DATE AS day
+  ),
+  detection_counts AS (
+    SELECT dd.created_at::DATE AS day, count(*) AS count
+    FROM device_detections dd
+    JOIN user_devices ud ON ud.id = dd.device_id
+    WHERE dd.created_at >= v_start_date
+    GROUP BY 1
+  ),
+  open_alerts AS (
+    SELECT a.*, ud.name AS device_name, ud.serial_number AS device_serial_number
+    FROM alerts a
+    JOIN user_devices ud ON ud.id = a.device_id
+    WHERE a.status = 'active'
+      OR (a.status = 'snoozed' AND a.snoozed_until <= now())
+    ORDER BY (a.severity = 'critical') DESC, a.updated_at DESC
+    LIMIT 10
+  ),
+  group_rollups AS (
+    SELECT
+      ud.group_id,
+      count(*) AS total_devices,
+      count(*) FILTER (WHERE ud.status = 'online') AS active_devices,
+      coalesce(sum(dc.count), 0) AS detections,
+      coalesce(sum(ac.count), 0) AS open_alerts
+    FROM user_devices ud
+    LEFT JOIN LATERAL (
+      SELECT count(*) AS count
+      FROM device_detections dd
+      WHERE dd.device_id = ud.id AND dd.created_at >= v_start_date
+    ) dc ON true
+    LEFT JOIN LATERAL (
+      SELECT count(*) AS count
+      FROM alerts a
+      WHERE a.device_id = ud.id AND a.status <> 'resolved'
+    ) ac ON true
+    GROUP BY ud.group_id
+  )
+  SELECT jsonb_build_object(
+    'totalDevices', (SELECT count(*) FROM user_devices),
+    'activeDevices', (SELECT count(*) FROM user_devices WHERE status = 'online'),
+    'totalDetections', (
+      SELECT count(*)
+      FROM device_detections dd
+      JOIN user_devices ud ON ud.id = dd.device_id
+    ),
+    'detectionData', (
+      SELECT coalesce(jsonb_agg(
+        jsonb_build_object(
+          'date', to_char(days.day, 'YYYY-MM-DD'),
+          'count', coalesce(dc.count, 0)
+        ) ORDER BY days.day
+      ), '[]'::JSONB)
+      FROM days
+      LEFT JOIN detection_counts dc ON dc.day = days.day
+    ),
+    'recentAlerts', (
+      SELECT coalesce(jsonb_agg(
+        (to_jsonb(oa) - 'device_name' - 'device_serial_number') || jsonb_build_object(
+          'device', jsonb_build_object(
+            'name', oa.device_name,
+            'serial_number', oa.device_serial_number
+          )
+        ) ORDER BY (oa.severity = 'critical') DESC, oa.updated_at DESC
+      ), '[]'::JSONB)
+      FROM open_alerts oa
+    ),
+    'groups', (
+      SELECT coalesce(jsonb_agg(
+        jsonb_build_object(
+          'id', grp.id,
+          'name', grp.name,
+          'totalDevices', coalesce(gr.total_devices, 0),
+          'activeDevices', coalesce(gr.active_devices, 0),
+          'detections', coalesce(gr.detections, 0),
+          'openAlerts', coalesce(gr.open_alerts, 0)
+        ) ORDER BY grp.id IS NULL, grp.name
+      ), '[]'::JSONB)
+      FROM (
+        SELECT g.id, g.name FROM device_groups g WHERE g.user_id = v_user_id
+        UNION ALL
+        SELECT NULL::UUID, 'Ungrouped'
+        WHERE EXISTS (SELECT 1 FROM user_devices WHERE group_id IS NULL)
+      ) grp
+      LEFT JOIN group_rollups gr ON gr.group_id IS NOT DISTINCT FROM grp.id
+    )
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
@@ -0,0 +1,1059 @@
+/*
+  # Organizations and shared device access
+
+  1. New Tables
+    - `organizations` - Team accounts that own devices, sites and tickets
+    - `organization_members` - Users in an organization with a role of
+      `owner`, `manager` or `viewer`
+    - `organization_invitations` - Pending email invitations to join an
+      organization as a manager or viewer
+
+  2. Changes
+    - Add `organization_id` to devices, device_groups and support_tickets
+    - Every existing user gets a personal organization that they own, and
+      their devices, sites and tickets move into it; new users get one when
+      their profile is created
+    - Sites are unique by name within an organization instead of per user
+    - `claim_device` registers the device to an organization the caller
+      manages, defaulting to the first one they own
+    - `get_dashboard_data`, `get_devices_near`, `evaluate_alerts`,
+      `generate_device_secret`, `reset_device_provisioning` and
+      `ingest_device_telemetry` use organization membership instead of
+      device ownership
+
+  3. New Functions
+    - `is_organization_member` / `has_device_access` - Membership checks
+      used by policies and functions, optionally restricted to roles
+    - `default_organization_id` - The organization new devices and sites
+      go to when none is given
+    - `create_organization` - Create an organization owned by the caller
+    - `get_organization_members` - Members with their name and email
+    - `accept_organization_invitation` - Join an organization from an
+      invitation sent to the caller's email
+
+  4. Security
+    - All members can view their organization's devices, detections,
+      images, telemetry, alerts, sites and tickets
+    - Owners and managers can update and delete devices, manage sites,
+      acknowledge alerts, invite members and update any ticket
+    - Only owners can change roles or remove other members; an
+      organization always keeps at least one owner
+    - Users can view and decline invitations sent to their email
+*/
+
+-- Create organizations table
+CREATE TABLE IF NOT EXISTS organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  created_by UUID REFERENCES auth.users ON DELETE SET NULL
+);
+
+-- Create organization_members table
+CREATE TABLE IF NOT EXISTS organization_members (
+  organization_id UUID NOT NULL REFERENCES organizations ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  role TEXT NOT NULL CHECK (role IN ('owner', 'manager', 'viewer')),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS organization_members_user_id_idx
+  ON organization_members(user_id);
+
+-- Create organization_invitations table
+CREATE TABLE IF NOT EXISTS organization_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  organization_id UUID NOT NULL REFERENCES organizations ON DELETE CASCADE,
+  email TEXT NOT NULL CHECK (email = lower(trim(email))),
+  role TEXT NOT NULL CHECK (role IN ('manager', 'viewer')),
+  invited_by UUID REFERENCES auth.users ON DELETE SET NULL,
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT now() + INTERVAL '14 days',
+  accepted_at TIMESTAMPTZ
+);
+
+-- One pending invitation per email and organization
+CREATE UNIQUE INDEX IF NOT EXISTS organization_invitations_pending_idx
+  ON organization_invitations(organization_id, email)
+  WHERE accepted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS organization_invitations_email_idx
+  ON organization_invitations(email);
+
+-- Add the owning organization to devices, sites and tickets
+ALTER TABLE devices
+  ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations ON DELETE CASCADE;
+
+ALTER TABLE device_groups
+  ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations ON DELETE CASCADE;
+
+ALTER TABLE support_tickets
+  ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations ON DELETE SET NULL;
+
+-- Create membership helpers; SECURITY DEFINER so policies on
+-- organization_members can use them without recursing
+CREATE OR REPLACE FUNCTION public.is_organization_member(
+  p_organization_id UUID,
+  p_roles TEXT[] DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_id = p_organization_id
+      AND user_id = auth.uid()
+      AND (p_roles IS NULL OR role = ANY(p_roles))
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_device_access(
+  p_device_id UUID,
+  p_roles TEXT[] DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM devices d
+    JOIN organization_members m ON m.organization_id = d.organization_id
+    WHERE d.id = p_device_id
+      AND m.user_id = auth.uid()
+      AND (p_roles IS NULL OR m.role = ANY(p_roles))
+  );
+$$;
+
+-- Create function to pick the organization new devices and sites go to
+CREATE OR REPLACE FUNCTION public.default_organization_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT organization_id
+  FROM organization_members
+  WHERE user_id = auth.uid()
+    AND role IN ('owner', 'manager')
+  ORDER BY role = 'owner' DESC, created_at
+  LIMIT 1;
+$$;
+
+-- Give every existing user a personal organization
+INSERT INTO organizations (name, created_by)
+SELECT
+  coalesce(nullif(trim(p.full_name), '') || '''s organization', 'My organization'),
+  u.id
+FROM auth.users u
+LEFT JOIN profiles p ON p.id = u.id;
+
+INSERT INTO organization_members (organization_id, user_id, role)
+SELECT id, created_by, 'owner'
+FROM organizations;
+
+-- Move existing devices, sites and tickets into their owner's organization
+UPDATE devices d
+SET organization_id = o.id
+FROM organizations o
+WHERE o.created_by = d.user_id;
+
+UPDATE device_groups g
+SET organization_id = o.id
+FROM organizations o
+WHERE o.created_by = g.user_id;
+
+UPDATE support_tickets t
+SET organization_id = o.id
+FROM organizations o
+WHERE o.created_by = t.user_id;
+
+ALTER TABLE devices
+  ALTER COLUMN organization_id SET NOT NULL,
+  ALTER COLUMN organization_id SET DEFAULT public.default_organization_id();
+
+ALTER TABLE device_groups
+  ALTER COLUMN organization_id SET NOT NULL,
+  ALTER COLUMN organization_id SET DEFAULT public.default_organization_id();
+
+ALTER TABLE device_groups
+  DROP CONSTRAINT IF EXISTS device_groups_user_id_name_key,
+  ADD CONSTRAINT device_groups_organization_id_name_key UNIQUE (organization_id, name);
+
+CREATE INDEX IF NOT EXISTS devices_organization_id_idx ON devices(organization_id);
+CREATE INDEX IF NOT EXISTS support_tickets_organization_id_idx ON support_tickets(organization_id);
+
+-- Enable Row Level Security
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for organizations
+CREATE POLICY "Members can view their organizations"
+  ON organizations FOR SELECT
+  TO authenticated
+  USING (
+    is_organization_member(id) OR
+    EXISTS (
+      SELECT 1 FROM organization_invitations i
+      WHERE i.organization_id = organizations.id
+      AND i.email = lower(auth.jwt() ->> 'email')
+      AND i.accepted_at IS NULL
+    )
+  );
+
+CREATE POLICY "Owners can update their organizations"
+  ON organizations FOR UPDATE
+  TO authenticated
+  USING (is_organization_member(id, ARRAY['owner']));
+
+-- Create policies for organization_members
+CREATE POLICY "Members can view members of their organizations"
+  ON organization_members FOR SELECT
+  TO authenticated
+  USING (is_organization_member(organization_id));
+
+CREATE POLICY "Owners can update members of their organizations"
+  ON organization_members FOR UPDATE
+  TO authenticated
+  USING (is_organization_member(organization_id, ARRAY['owner']))
+  WITH CHECK (is_organization_member(organization_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can remove members and members can leave"
+  ON organization_members FOR DELETE
+  TO authenticated
+  USING (
+    auth.uid() = user_id OR
+    is_organization_member(organization_id, ARRAY['owner'])
+  );
+
+-- Create policies for organization_invitations
+CREATE POLICY "Managers and invitees can view invitations"
+  ON organization_invitations FOR SELECT
+  TO authenticated
+  USING (
+    is_organization_member(organization_id, ARRAY['owner', 'manager']) OR
+    email = lower(auth.jwt() ->> 'email')
+  );
+
+CREATE POLICY "Managers can invite members to their organizations"
+  ON organization_invitations FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = invited_by AND
+    is_organization_member(organization_id, ARRAY['owner', 'manager'])
+  );
+
+CREATE POLICY "Managers can revoke and invitees can decline invitations"
+  ON organization_invitations FOR DELETE
+  TO authenticated
+  USING (
+    is_organization_member(organization_id, ARRAY['owner', 'manager']) OR
+    email = lower(auth.jwt() ->> 'email')
+  );
+
+-- Replace policies for devices
+DROP POLICY IF EXISTS "Users can view their own devices" ON devices;
+DROP POLICY IF EXISTS "Users can update their own devices" ON devices;
+DROP POLICY IF EXISTS "Users can delete their own devices" ON devices;
+
+CREATE POLICY "Members can view their organization's devices"
+  ON devices FOR SELECT
+  TO authenticated
+  USING (is_organization_member(organization_id));
+
+CREATE POLICY "Managers can update their organization's devices"
+  ON devices FOR UPDATE
+  TO authenticated
+  USING (is_organization_member(organization_id, ARRAY['owner', 'manager']))
+  WITH CHECK (is_organization_member(organization_id, ARRAY['owner', 'manager']));
+
+CREATE POLICY "Managers can delete their organization's devices"
+  ON devices FOR DELETE
+  TO authenticated
+  USING (is_organization_member(organization_id, ARRAY['owner', 'manager']));
+
+-- Replace policies for device_detections, device_images and device_telemetry
+DROP POLICY IF EXISTS "Users can view detections for their devices" ON device_detections;
+DROP POLICY IF EXISTS "Users can view images for their devices" ON device_images;
+DROP POLICY IF EXISTS "Users can view telemetry for their devices" ON device_telemetry;
+
+CREATE POLICY "Members can view detections for their organization's devices"
+  ON device_detections FOR SELECT
+  TO authenticated
+  USING (has_device_access(device_id));
+
+CREATE POLICY "Members can view images for their organization's devices"
+  ON device_images FOR SELECT
+  TO authenticated
+  USING (has_device_access(device_id));
+
+CREATE POLICY "Members can view telemetry for their organization's devices"
+  ON device_telemetry FOR SELECT
+  TO authenticated
+  USING (has_device_access(device_id));
+
+-- Replace policies for alerts
+DROP POLICY IF EXISTS "Users can view their own alerts" ON alerts;
+DROP POLICY IF EXISTS "Users can update their own alerts" ON alerts;
+
+CREATE POLICY "Members can view alerts for their organization's devices"
+  ON alerts FOR SELECT
+  TO authenticated
+  USING (has_device_access(device_id));
+
+CREATE POLICY "Managers can update alerts for their organization's devices"
+  ON alerts FOR UPDATE
+  TO authenticated
+  USING (has_device_access(device_id, ARRAY['owner', 'manager']));
+
+-- Replace policies for device_groups
+DROP POLICY IF EXISTS "Users can view their own device groups" ON device_groups;
+DROP POLICY IF EXISTS "Users can create their own device groups" ON device_groups;
+DROP POLICY IF EXISTS "Users can update their own device groups" ON device_groups;
+DROP POLICY IF EXISTS "Users can delete their own device groups" ON device_groups;
+
+CREATE POLICY "Members can view their organization's device groups"
+  ON device_groups FOR SELECT
+  TO authenticated
+  USING (is_organization_member(organization_id));
+
+CREATE POLICY "Managers can create device groups"
+  ON device_groups FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND
+    is_organization_member(organization_id, ARRAY['owner', 'manager'])
+  );
+
+CREATE POLICY "Managers can update their organization's device groups"
+  ON device_groups FOR UPDATE
+  TO authenticated
+  USING (is_organization_member(organization_id, ARRAY['owner', 'manager']))
+  WITH CHECK (is_organization_member(organization_id, ARRAY['owner', 'manager']));
+
+CREATE POLICY "Managers can delete their organization's device groups"
+  ON device_groups FOR DELETE
+  TO authenticated
+  USING (is_organization_member(organization_id, ARRAY['owner', 'manager']));
+
+-- Replace policies for support_tickets and their messages
+DROP POLICY IF EXISTS "Users can view their own tickets" ON support_tickets;
+DROP POLICY IF EXISTS "Users can create their own tickets" ON support_tickets;
+DROP POLICY IF EXISTS "Users can update their own tickets" ON support_tickets;
+DROP POLICY IF EXISTS "Users can view messages for their tickets" ON ticket_messages;
+DROP POLICY IF EXISTS "Users can add messages to their tickets" ON ticket_messages;
+DROP POLICY IF EXISTS "Users can view attachments for their tickets" ON ticket_attachments;
+
+CREATE POLICY "Members can view their organization's tickets"
+  ON support_tickets FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = user_id OR
+    is_organization_member(organization_id)
+  );
+
+CREATE POLICY "Members can create tickets"
+  ON support_tickets FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND
+    (organization_id IS NULL OR is_organization_member(organization_id))
+  );
+
+CREATE POLICY "Authors and managers can update tickets"
+  ON support_tickets FOR UPDATE
+  TO authenticated
+  USING (
+    auth.uid() = user_id OR
+    is_organization_member(organization_id, ARRAY['owner', 'manager'])
+  )
+  -- Tickets can only be moved into organizations the caller belongs to
+  WITH CHECK (
+    (
+      auth.uid() = user_id AND
+      (organization_id IS NULL OR is_organization_member(organization_id))
+    ) OR
+    is_organization_member(organization_id, ARRAY['owner', 'manager'])
+  );
+
+CREATE POLICY "Members can view messages for their organization's tickets"
+  ON ticket_messages FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM support_tickets
+    WHERE support_tickets.id = ticket_id
+  ));
+
+CREATE POLICY "Members can add messages to their organization's tickets"
+  ON ticket_messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM support_tickets
+      WHERE support_tickets.id = ticket_id
+    )
+  );
+
+CREATE POLICY "Members can view attachments for their organization's tickets"
+  ON ticket_attachments FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM support_tickets
+    WHERE support_tickets.id = ticket_id
+  ));
+
+-- Create trigger function to file tickets under the device's organization
+CREATE OR REPLACE FUNCTION public.set_ticket_organization()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.organization_id IS NULL THEN
+    NEW.organization_id := coalesce(
+      (SELECT organization_id FROM devices WHERE id = NEW.device_id),
+      public.default_organization_id()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_ticket_organization
+  BEFORE INSERT ON support_tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_ticket_organization();
+
+-- Replace trigger function so devices and their group share an organization
+CREATE OR REPLACE FUNCTION public.check_device_group_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.group_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM device_groups WHERE id = NEW.group_id AND organization_id = NEW.organization_id
+  ) THEN
+    RAISE EXCEPTION 'Device group not found or you do not have permission to use it';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_device_group_owner ON devices;
+
+CREATE TRIGGER check_device_group_owner
+  BEFORE INSERT OR UPDATE OF group_id, organization_id ON devices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_device_group_owner();
+
+-- Create trigger function so an organization always keeps an owner
+CREATE OR REPLACE FUNCTION public.check_organization_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF OLD.role = 'owner'
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+    -- Deleting the organization itself cascades to every member
+    AND EXISTS (SELECT 1 FROM organizations WHERE id = OLD.organization_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_id = OLD.organization_id
+        AND role = 'owner'
+        AND user_id <> OLD.user_id
+    )
+  THEN
+    RAISE EXCEPTION 'An organization must have at least one owner';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_organization_owner
+  BEFORE UPDATE OF role OR DELETE ON organization_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_organization_owner();
+
+-- Create trigger function to give new users a personal organization
+CREATE OR REPLACE FUNCTION public.create_personal_organization()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_organization_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM organization_members WHERE user_id = NEW.id) THEN
+    INSERT INTO organizations (name, created_by)
+    VALUES (
+      coalesce(nullif(trim(NEW.full_name), '') || '''s organization', 'My organization'),
+      NEW.id
+    )
+    RETURNING id INTO v_organization_id;
+
+    INSERT INTO organization_members (organization_id, user_id, role)
+    VALUES (v_organization_id, NEW.id, 'owner');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_personal_organization
+  AFTER INSERT ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.create_personal_organization();
+
+-- Create function to create an organization owned by the caller
+CREATE OR REPLACE FUNCTION public.create_organization(
+  p_name TEXT
+)
+RETURNS organizations
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_organization organizations;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_name IS NULL OR length(trim(p_name)) = 0 THEN
+    RAISE EXCEPTION 'Organization name is required';
+  END IF;
+
+  INSERT INTO organizations (name, created_by)
+  VALUES (trim(p_name), auth.uid())
+  RETURNING * INTO v_organization;
+
+  INSERT INTO organization_members (organization_id, user_id, role)
+  VALUES (v_organization.id, auth.uid(), 'owner');
+
+  RETURN v_organization;
+END;
+$$;
+
+-- Create function to list members with their profile and email
+CREATE OR REPLACE FUNCTION public.get_organization_members(
+  p_organization_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT is_organization_member(p_organization_id) THEN
+    RAISE EXCEPTION 'Organization not found or you are not a member';
+  END IF;
+
+  RETURN coalesce((
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'userId', m.user_id,
+        'role', m.role,
+        'joinedAt', m.created_at,
+        'fullName', p.full_name,
+        'email', u.email
+      ) ORDER BY array_position(ARRAY['owner', 'manager', 'viewer'], m.role), coalesce(p.full_name, u.email)
+    )
+    FROM organization_members m
+    JOIN auth.users u ON u.id = m.user_id
+    LEFT JOIN profiles p ON p.id = m.user_id
+    WHERE m.organization_id = p_organization_id
+  ), '[]'::JSONB);
+END;
+$$;
+
+-- Create function to accept an invitation sent to the caller's email
+CREATE OR REPLACE FUNCTION public.accept_organization_invitation(
+  p_invitation_id UUID
+)
+RETURNS organizations
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_email TEXT;
+  v_invitation organization_invitations;
+  v_organization organizations;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  SELECT lower(email) INTO v_email FROM auth.users WHERE id = auth.uid();
+
+  SELECT * INTO v_invitation
+  FROM organization_invitations
+  WHERE id = p_invitation_id
+    AND email = v_email
+    AND accepted_at IS NULL
+  FOR UPDATE;
+
+  IF v_invitation.id IS NULL THEN
+    RAISE EXCEPTION 'Invitation not found or it was sent to a different email';
+  END IF;
+
+  IF v_invitation.expires_at < now() THEN
+    RAISE EXCEPTION 'This invitation has expired; ask for a new one';
+  END IF;
+
+  -- Existing members keep their current role
+  INSERT INTO organization_members (organization_id, user_id, role)
+  VALUES (v_invitation.organization_id, auth.uid(), v_invitation.role)
+  ON CONFLICT (organization_id, user_id) DO NOTHING;
+
+  UPDATE organization_invitations
+  SET accepted_at = now()
+  WHERE id = v_invitation.id;
+
+  SELECT * INTO v_organization FROM organizations WHERE id = v_invitation.organization_id;
+
+  RETURN v_organization;
+END;
+$$;
+
+-- Replace claim_device to register the device to an organization
+DROP FUNCTION IF EXISTS public.claim_device(TEXT, TEXT, TEXT, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION);
+
+CREATE OR REPLACE FUNCTION public.claim_device(
+  p_serial_number TEXT,
+  p_claim_code TEXT,
+  p_name TEXT,
+  p_location TEXT DEFAULT NULL,
+  p_model TEXT DEFAULT NULL,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_organization_id UUID DEFAULT NULL
+)
+RETURNS devices
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_organization_id UUID := coalesce(p_organization_id, public.default_organization_id());
+  v_factory factory_devices;
+  v_device devices;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF v_organization_id IS NULL OR NOT is_organization_member(v_organization_id, ARRAY['owner', 'manager']) THEN
+    RAISE EXCEPTION 'You do not have permission to add devices to this organization';
+  END IF;
+
+  SELECT * INTO v_factory
+  FROM factory_devices
+  WHERE serial_number = p_serial_number
+    AND claim_code_hash = extensions.crypt(p_claim_code, claim_code_hash);
+
+  IF v_factory.serial_number IS NULL THEN
+    RAISE EXCEPTION 'Invalid serial number or claim code';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM device_claims
+    WHERE serial_number = p_serial_number AND revoked_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'This device has already been claimed';
+  END IF;
+
+  INSERT INTO devices (name, serial_number, model, location, latitude, longitude, user_id, organization_id, status, battery_level, settings)
+  VALUES (
+    p_name,
+    p_serial_number,
+    coalesce(v_factory.model, p_model),
+    p_location,
+    p_latitude,
+    p_longitude,
+    v_user_id,
+    v_organization_id,
+    'offline',
+    100,
+    '{"captureFrequency": "Every 4 hours", "notificationPreferences": ["All alerts"], "sensitivityLevel": 5, "nightMode": true}'::JSONB
+  )
+  RETURNING * INTO v_device;
+
+  INSERT INTO device_claims (serial_number, device_id, user_id)
+  VALUES (p_serial_number, v_device.id, v_user_id);
+
+  RETURN v_device;
+END;
+$$;
+
+-- Replace import_devices to import into one organization
+DROP FUNCTION IF EXISTS public.import_devices(JSONB);
+
+CREATE OR REPLACE FUNCTION public.import_devices(
+  p_devices JSONB,
+  p_organization_id UUID DEFAULT NULL
+)
+RETURNS SETOF devices
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_row JSONB;
+  v_index INTEGER := 0;
+  v_line TEXT;
+  v_device devices;
+BEGIN
+  IF jsonb_typeof(p_devices) <> 'array' THEN
+    RAISE EXCEPTION 'p_devices must be an array';
+  END IF;
+
+  IF jsonb_array_length(p_devices) > 500 THEN
+    RAISE EXCEPTION 'A maximum of 500 devices can be imported at once';
+  END IF;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(p_devices)
+  LOOP
+    v_index := v_index + 1;
+    v_line := coalesce(v_row->>'line', v_index::TEXT);
+
+    BEGIN
+      v_device := claim_device(
+        v_row->>'serial_number',
+        v_row->>'claim_code',
+        v_row->>'name',
+        v_row->>'location',
+        v_row->>'model',
+        NULL,
+        NULL,
+        p_organization_id
+      );
+
+      IF jsonb_typeof(v_row->'settings') = 'object' THEN
+        UPDATE devices
+        SET settings = coalesce(settings, '{}'::JSONB) || (v_row->'settings')
+        WHERE id = v_device.id
+        RETURNING * INTO v_device;
+      END IF;
+    EXCEPTION
+      WHEN unique_violation THEN
+        RAISE EXCEPTION 'Row %: a device with serial number % is already registered', v_line, v_row->>'serial_number';
+      WHEN OTHERS THEN
+        RAISE EXCEPTION 'Row %: %', v_line, SQLERRM;
+    END;
+
+    RETURN NEXT v_device;
+  END LOOP;
+END;
+$$;
+
+-- Replace generate_device_secret so managers can issue secrets
+CREATE OR REPLACE FUNCTION public.generate_device_secret(
+  p_device_id UUID
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_secret TEXT;
+BEGIN
+  IF NOT has_device_access(p_device_id, ARRAY['owner', 'manager']) THEN
+    RAISE EXCEPTION 'Device not found or you do not have permission to manage it';
+  END IF;
+
+  v_secret := encode(extensions.gen_random_bytes(24), 'hex');
+
+  -- A generated secret does not expire and revokes any rotated token
+  INSERT INTO device_secrets (device_id, secret_hash)
+  VALUES (p_device_id, extensions.crypt(v_secret, extensions.gen_salt('bf')))
+  ON CONFLICT (device_id) DO UPDATE
+  SET secret_hash = EXCLUDED.secret_hash,
+      expires_at = NULL,
+      previous_secret_hash = NULL,
+      created_at = now(),
+      last_used_at = NULL;
+
+  RETURN v_secret;
+END;
+$$;
+
+-- Replace reset_device_provisioning so organization owners can reset devices
+CREATE OR REPLACE FUNCTION public.reset_device_provisioning(
+  p_device_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT has_device_access(p_device_id, ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Device not found or you do not have permission to manage it';
+  END IF;
+
+  DELETE FROM device_secrets WHERE device_id = p_device_id;
+END;
+$$;
+
+-- Replace ingest_device_telemetry so managers can report for their devices
+CREATE OR REPLACE FUNCTION public.ingest_device_telemetry(
+  p_device_id UUID,
+  p_readings JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_inserted INTEGER;
+  v_latest_battery INTEGER;
+BEGIN
+  -- Authenticated callers may only report for devices they manage; the
+  -- service role (used by device-facing endpoints) has no auth.uid()
+  IF auth.uid() IS NOT NULL AND NOT has_device_access(p_device_id, ARRAY['owner', 'manager']) THEN
+    RAISE EXCEPTION 'Device not found or you do not have permission to report telemetry for it';
+  END IF;
+
+  IF jsonb_typeof(p_readings) <> 'array' THEN
+    RAISE EXCEPTION 'p_readings must be a JSON array';
+  END IF;
+
+  INSERT INTO device_telemetry (device_id, recorded_at, temperature, humidity, battery_level, rssi)
+  SELECT
+    p_device_id,
+    coalesce((r->>'recorded_at')::TIMESTAMPTZ, now()),
+    (r->>'temperature')::NUMERIC,
+    (r->>'humidity')::NUMERIC,
+    (r->>'battery_level')::INTEGER,
+    (r->>'rssi')::INTEGER
+  FROM jsonb_array_elements(p_readings) AS r;
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+  SELECT battery_level INTO v_latest_battery
+  FROM device_telemetry
+  WHERE device_id = p_device_id
+    AND battery_level IS NOT NULL
+  ORDER BY recorded_at DESC
+  LIMIT 1;
+
+  IF v_latest_battery IS NOT NULL THEN
+    UPDATE devices
+    SET battery_level = v_latest_battery
+    WHERE id = p_device_id
+      AND battery_level IS DISTINCT FROM v_latest_battery;
+  END IF;
+
+  RETURN v_inserted;
+END;
+$$;
+
+-- Replace evaluate_alerts to cover every device the caller can see
+CREATE OR REPLACE FUNCTION public.evaluate_alerts()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_device_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  FOR v_device_id IN SELECT id FROM devices WHERE is_organization_member(organization_id) LOOP
+    PERFORM evaluate_device_alerts(v_device_id);
+  END LOOP;
+END;
+$$;
+
+-- Replace get_devices_near to search the caller's organizations
+CREATE OR REPLACE FUNCTION public.get_devices_near(
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_radius_meters DOUBLE PRECISION
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_earth_radius CONSTANT DOUBLE PRECISION := 6371000;
+  v_lat_delta DOUBLE PRECISION;
+  v_lng_delta DOUBLE PRECISION;
+BEGIN
+  IF p_radius_meters <= 0 THEN
+    RAISE EXCEPTION 'p_radius_meters must be positive';
+  END IF;
+
+  -- Bounding box so the index can discard most rows before haversine
+  v_lat_delta := degrees(p_radius_meters / v_earth_radius);
+  v_lng_delta := degrees(p_radius_meters / (v_earth_radius * greatest(cos(radians(p_latitude)), 0.000001)));
+
+  RETURN coalesce((
+    SELECT jsonb_agg(to_jsonb(d) || jsonb_build_object('distanceMeters', round(n.distance::NUMERIC, 1)) ORDER BY n.distance)
+    FROM devices d
+    CROSS JOIN LATERAL (
+      SELECT 2 * v_earth_radius * asin(sqrt(
+        power(sin(radians(d.latitude - p_latitude) / 2), 2) +
+        cos(radians(p_latitude)) * cos(radians(d.latitude)) *
+        power(sin(radians(d.longitude - p_longitude) / 2), 2)
+      )) AS distance
+    ) n
+    WHERE is_organization_member(d.organization_id)
+      AND d.latitude BETWEEN p_latitude - v_lat_delta AND p_latitude + v_lat_delta
+      AND (
+        -- Near the poles the box spans every longitude
+        v_lng_delta >= 180
+        OR d.longitude BETWEEN p_longitude - v_lng_delta AND p_longitude + v_lng_delta
+        -- A box crossing the antimeridian continues on the other side
+        OR d.longitude >= p_longitude - v_lng_delta + 360
+        OR d.longitude <= p_longitude + v_lng_delta - 360
+      )
+      AND n.distance <= p_radius_meters
+  ), '[]'::JSONB);
+END;
+$$;
+
+-- Replace dashboard function to roll up every organization the caller is in
+CREATE OR REPLACE FUNCTION public.get_dashboard_data(
+  p_days INTEGER DEFAULT 7
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_start_date DATE;
+  v_result JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_days IS NULL OR p_days < 1 THEN
+    RAISE EXCEPTION 'p_days must be a positive integer';
+  END IF;
+
+  v_start_date := current_date - (p_days - 1);
+
+  WITH user_devices AS (
+    SELECT id, name, serial_number, status, group_id
+    FROM devices
+    WHERE is_organization_member(organization_id)
+  ),
+  days AS (
+    SELECT generate_series(v_start_date, current_date, INTERVAL '1 day')::DATE AS day
+  ),
+  detection_counts AS (
+    SELECT dd.created_at::DATE AS day, count(*) AS count
+    FROM device_detections dd
+    JOIN user_devices ud ON ud.id = dd.device_id
+    WHERE dd.created_at >= v_start_date
+    GROUP BY 1
+  ),
+  open_alerts AS (
+    SELECT a.*, ud.name AS device_name, ud.serial_number AS device_serial_number
+    FROM alerts a
+    JOIN user_devices ud ON ud.id = a.device_id
+    WHERE a.status = 'active'
+      OR (a.status = 'snoozed' AND a.snoozed_until <= now())
+    ORDER BY (a.severity = 'critical') DESC, a.updated_at DESC
+    LIMIT 10
+  ),
+  group_rollups AS (
+    SELECT
+      ud.group_id,
+      count(*) AS total_devices,
+      count(*) FILTER (WHERE ud.status = 'online') AS active_devices,
+      coalesce(sum(dc.count), 0) AS detections,
+      coalesce(sum(ac.count), 0) AS open_alerts
+    FROM user_devices ud
+    LEFT JOIN LATERAL (
+      SELECT count(*) AS count
+      FROM device_detections dd
+      WHERE dd.device_id = ud.id AND dd.created_at >= v_start_date
+    ) dc ON true
+    LEFT JOIN LATERAL (
+      SELECT count(*) AS count
+      FROM alerts a
+      WHERE a.device_id = ud.id AND a.status <> 'resolved'
+    ) ac ON true
+    GROUP BY ud.group_id
+  )
+  SELECT jsonb_build_object(
+    'totalDevices', (SELECT count(*) FROM user_devices),
+    'activeDevices', (SELECT count(*) FROM user_devices WHERE status = 'online'),
+    'totalDetections', (
+      SELECT count(*)
+      FROM device_detections dd
+      JOIN user_devices ud ON ud.id = dd.device_id
+    ),
+    'detectionData', (
+      SELECT coalesce(jsonb_agg(
+        jsonb_build_object(
+          'date', to_char(days.day, 'YYYY-MM-DD'),
+          'count', coalesce(dc.count, 0)
+        ) ORDER BY days.day
+      ), '[]'::JSONB)
+      FROM days
+      LEFT JOIN detection_counts dc ON dc.day = days.day
+    ),
+    'recentAlerts', (
+      SELECT coalesce(jsonb_agg(
+        (to_jsonb(oa) - 'device_name' - 'device_serial_number') || jsonb_build_object(
+          'device', jsonb_build_object(
+            'name', oa.device_name,
+            'serial_number', oa.device_serial_number
+          )
+        ) ORDER BY (oa.severity = 'critical') DESC, oa.updated_at DESC
+      ), '[]'::JSONB)
+      FROM open_alerts oa
+    ),
+    'groups', (
+      SELECT coalesce(jsonb_agg(
+        jsonb_build_object(
+          'id', grp.id,
+          'name', grp.name,
+          'totalDevices', coalesce(gr.total_devices, 0),
+          'activeDevices', coalesce(gr.active_devices, 0),
+          'detections', coalesce(gr.detections, 0),
+          'openAlerts', coalesce(gr.open_alerts, 0)
+        ) ORDER BY grp.id IS NULL, grp.name
+      ), '[]'::JSONB)
+      FROM (
+        SELECT g.id, g.name FROM device_groups g WHERE is_organization_member(g.organization_id)
+        UNION ALL
+        SELECT NULL::UUID, 'Ungrouped'
+        WHERE EXISTS (SELECT 1 FROM user_devices WHERE group_id IS NULL)
+      ) grp
+      LEFT JOIN group_rollups gr ON gr.group_id IS NOT DISTINCT FROM grp.id
+    )
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_device(TEXT, TEXT, TEXT, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.import_devices(JSONB, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.create_organization(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_organization_members(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.accept_organization_invitation(UUID) FROM PUBLIC, anon;
@@ -0,0 +1,293 @@
+/*
+  # Device configuration versions
+
+  1. New Tables
+    - `device_config_versions` - Every settings change pushed to a device,
+      numbered per device, with its delivery state (`pending`, `applied`,
+      `failed`, or `superseded` when a newer version replaced it before the
+      device picked it up)
+
+  2. Changes
+    - `devices.settings` stays the desired configuration
+    - Add `reported_settings`, `reported_config_version` and
+      `config_reported_at` to devices for what the hardware last confirmed
+    - Existing settings become version 1, pending delivery
+
+  3. New Functions
+    - `push_device_config` - Record a new desired configuration for a device
+    - `pull_device_config` - Latest pending version for a device, marked as
+      delivered
+    - `acknowledge_device_config` - Device reports a version as applied or
+      failed
+    - `protect_device_settings` - Trigger rejecting settings changes from
+      app users outside push_device_config
+    - `import_devices` - Imported settings are pushed as a config version
+
+  4. Security
+    - Enable RLS on device_config_versions
+    - Members can view the history of their organization's devices
+    - Only owners and managers can push configuration, and app users can no
+      longer change `devices.settings` directly
+    - Pull and acknowledge are only callable with the service role, from the
+      device-facing endpoint
+*/
+
+-- Create device_config_versions table
+CREATE TABLE IF NOT EXISTS device_config_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  device_id UUID NOT NULL REFERENCES devices ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  settings JSONB NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('pending', 'applied', 'failed', 'superseded')) DEFAULT 'pending',
+  created_by UUID REFERENCES auth.users ON DELETE SET NULL,
+  delivered_at TIMESTAMPTZ,
+  acknowledged_at TIMESTAMPTZ,
+  error TEXT,
+  UNIQUE(device_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS device_config_versions_pending_idx
+  ON device_config_versions(device_id, version DESC)
+  WHERE status = 'pending';
+
+ALTER TABLE devices
+  ADD COLUMN IF NOT EXISTS reported_settings JSONB,
+  ADD COLUMN IF NOT EXISTS reported_config_version INTEGER,
+  ADD COLUMN IF NOT EXISTS config_reported_at TIMESTAMPTZ;
+
+-- Existing settings become the first version
+INSERT INTO device_config_versions (device_id, version, settings, created_by)
+SELECT id, 1, settings, user_id
+FROM devices
+WHERE settings IS NOT NULL;
+
+-- Enable Row Level Security
+ALTER TABLE device_config_versions ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for device_config_versions
+CREATE POLICY "Members can view config versions for their organization's devices"
+  ON device_config_versions FOR SELECT
+  TO authenticated
+  USING (has_device_access(device_id));
+
+-- Create function to push a new desired configuration
+CREATE OR REPLACE FUNCTION public.push_device_config(
+  p_device_id UUID,
+  p_settings JSONB
+)
+RETURNS device_config_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_version INTEGER;
+  v_config device_config_versions;
+BEGIN
+  IF NOT has_device_access(p_device_id, ARRAY['owner', 'manager']) THEN
+    RAISE EXCEPTION 'Device not found or you do not have permission to update it';
+  END IF;
+
+  IF jsonb_typeof(p_settings) <> 'object' THEN
+    RAISE EXCEPTION 'p_settings must be a JSON object';
+  END IF;
+
+  -- Serialise pushes for the same device so versions stay gapless
+  PERFORM 1 FROM devices WHERE id = p_device_id FOR UPDATE;
+
+  SELECT coalesce(max(version), 0) + 1 INTO v_version
+  FROM device_config_versions
+  WHERE device_id = p_device_id;
+
+  -- Devices only ever need the newest configuration
+  UPDATE device_config_versions
+  SET status = 'superseded'
+  WHERE device_id = p_device_id AND status = 'pending';
+
+  INSERT INTO device_config_versions (device_id, version, settings, created_by)
+  VALUES (p_device_id, v_version, p_settings, auth.uid())
+  RETURNING * INTO v_config;
+
+  -- Tell protect_device_settings this change is versioned
+  PERFORM set_config('app.pushing_device_config', 'on', true);
+
+  UPDATE devices
+  SET settings = p_settings,
+      updated_at = now()
+  WHERE id = p_device_id;
+
+  PERFORM set_config('app.pushing_device_config', 'off', true);
+
+  RETURN v_config;
+END;
+$$;
+
+-- Create trigger function so settings only change through push_device_config
+CREATE OR REPLACE FUNCTION public.protect_device_settings()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Service role and scheduled jobs have no auth.uid()
+  IF auth.uid() IS NOT NULL
+    AND NEW.settings IS DISTINCT FROM OLD.settings
+    AND coalesce(current_setting('app.pushing_device_config', true), 'off') <> 'on'
+  THEN
+    RAISE EXCEPTION 'Device settings can only be changed with push_device_config';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_device_settings
+  BEFORE UPDATE OF settings ON devices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_device_settings();
+
+-- Replace import_devices to push imported settings as a config version
+CREATE OR REPLACE FUNCTION public.import_devices(
+  p_devices JSONB,
+  p_organization_id UUID DEFAULT NULL
+)
+RETURNS SETOF devices
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_row JSONB;
+  v_index INTEGER := 0;
+  v_line TEXT;
+  v_device devices;
+BEGIN
+  IF jsonb_typeof(p_devices) <> 'array' THEN
+    RAISE EXCEPTION 'p_devices must be an array';
+  END IF;
+
+  IF jsonb_array_length(p_devices) > 500 THEN
+    RAISE EXCEPTION 'A maximum of 500 devices can be imported at once';
+  END IF;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(p_devices)
+  LOOP
+    v_index := v_index + 1;
+    v_line := coalesce(v_row->>'line', v_index::TEXT);
+
+    BEGIN
+      v_device := claim_device(
+        v_row->>'serial_number',
+        v_row->>'claim_code',
+        v_row->>'name',
+        v_row->>'location',
+        v_row->>'model',
+        NULL,
+        NULL,
+        p_organization_id
+      );
+
+      IF jsonb_typeof(v_row->'settings') = 'object' THEN
+        PERFORM push_device_config(
+          v_device.id,
+          coalesce(v_device.settings, '{}'::JSONB) || (v_row->'settings')
+        );
+
+        SELECT * INTO v_device FROM devices WHERE id = v_device.id;
+      END IF;
+    EXCEPTION
+      WHEN unique_violation THEN
+        RAISE EXCEPTION 'Row %: a device with serial number % is already registered', v_line, v_row->>'serial_number';
+      WHEN OTHERS THEN
+        RAISE EXCEPTION 'Row %: %', v_line, SQLERRM;
+    END;
+
+    RETURN NEXT v_device;
+  END LOOP;
+END;
+$$;
+
+-- Create function for a device to fetch its pending configuration
+CREATE OR REPLACE FUNCTION public.pull_device_config(
+  p_device_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_config device_config_versions;
+BEGIN
+  SELECT * INTO v_config
+  FROM device_config_versions
+  WHERE device_id = p_device_id AND status = 'pending'
+  ORDER BY version DESC
+  LIMIT 1;
+
+  IF v_config.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE device_config_versions
+  SET delivered_at = coalesce(delivered_at, now())
+  WHERE id = v_config.id;
+
+  RETURN jsonb_build_object(
+    'version', v_config.version,
+    'settings', v_config.settings
+  );
+END;
+$$;
+
+-- Create function for a device to report the outcome of a configuration
+CREATE OR REPLACE FUNCTION public.acknowledge_device_config(
+  p_device_id UUID,
+  p_version INTEGER,
+  p_status TEXT,
+  p_error TEXT DEFAULT NULL,
+  p_reported_settings JSONB DEFAULT NULL
+)
+RETURNS device_config_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_config device_config_versions;
+BEGIN
+  IF p_status NOT IN ('applied', 'failed') THEN
+    RAISE EXCEPTION 'p_status must be applied or failed';
+  END IF;
+
+  -- A late acknowledgement of a superseded version is still recorded so the
+  -- history shows what the hardware is actually running
+  UPDATE device_config_versions
+  SET status = p_status,
+      acknowledged_at = now(),
+      delivered_at = coalesce(delivered_at, now()),
+      error = CASE WHEN p_status = 'failed' THEN p_error END
+  WHERE device_id = p_device_id
+    AND version = p_version
+    AND status IN ('pending', 'superseded')
+  RETURNING * INTO v_config;
+
+  IF v_config.id IS NULL THEN
+    RAISE EXCEPTION 'Configuration version % not found or already acknowledged', p_version;
+  END IF;
+
+  IF p_status = 'applied' THEN
+    UPDATE devices
+    SET reported_settings = coalesce(p_reported_settings, v_config.settings),
+        reported_config_version = v_config.version,
+        config_reported_at = now()
+    WHERE id = p_device_id
+      AND (reported_config_version IS NULL OR reported_config_version <= v_config.version);
+  END IF;
+
+  RETURN v_config;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.push_device_config(UUID, JSONB) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.pull_device_config(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.acknowledge_device_config(UUID, INTEGER, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Stream delivery state changes to the app
+ALTER PUBLICATION supabase_realtime ADD TABLE device_config_versions;
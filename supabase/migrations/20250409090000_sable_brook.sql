@@ -0,0 +1,198 @@
+/*
+  # Structured device settings
+
+  1. Changes
+    - Device settings move to a fixed shape: `captureInterval` (one of 5m,
+      15m, 30m, 1h, 2h, 4h, 6h, 12h, 24h), `sensitivityLevel`, `nightMode`,
+      `burstCount`, `videoLengthSeconds`, `activeHours` and
+      `notificationPreferences` (detection, low_battery, offline)
+    - The free-text `captureFrequency` (e.g. "Every 4 hours") becomes the
+      shortest `captureInterval` at least as long
+    - `["All alerts"]` becomes every notification event
+    - Missing keys are filled with defaults
+    - Existing device and site settings are converted, and each device gets a
+      new pending configuration version so the hardware receives the new shape
+
+  2. New Functions
+    - `normalize_device_settings` - Convert settings from the legacy shape and
+      fill in defaults
+    - `normalize_settings_column` - Trigger applying it to devices and
+      device_groups, so older code paths such as claim_device store the new
+      shape too
+
+  3. Changes to Functions
+    - `push_device_config` stores normalized settings in the version history
+*/
+
+-- Create function to convert device settings to the current shape
+CREATE OR REPLACE FUNCTION public.normalize_device_settings(p_settings JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  -- Keep in sync with DEFAULT_DEVICE_SETTINGS in the app
+  v_defaults CONSTANT JSONB := '{
+    "captureInterval": "4h",
+    "sensitivityLevel": 5,
+    "nightMode": true,
+    "burstCount": 1,
+    "videoLengthSeconds": 0,
+    "activeHours": null,
+    "notificationPreferences": ["detection", "low_battery", "offline"]
+  }'::JSONB;
+  v_settings JSONB := coalesce(p_settings, '{}'::JSONB);
+  v_frequency TEXT;
+  v_minutes INTEGER;
+  v_interval TEXT;
+BEGIN
+  IF jsonb_typeof(v_settings) <> 'object' THEN
+    RAISE EXCEPTION 'Device settings must be a JSON object';
+  END IF;
+
+  -- Legacy free-text frequency, e.g. "Every 4 hours"
+  IF v_settings ? 'captureFrequency' THEN
+    v_frequency := lower(v_settings->>'captureFrequency');
+    v_minutes := coalesce(substring(v_frequency FROM '(\d+)')::INTEGER, 1) * CASE
+      WHEN v_frequency LIKE '%min%' THEN 1
+      WHEN v_frequency LIKE '%hour%' THEN 60
+      WHEN v_frequency LIKE '%day%' THEN 1440
+    END;
+
+    IF NOT v_settings ? 'captureInterval' AND v_minutes IS NOT NULL THEN
+      SELECT coalesce(
+        (
+          SELECT label
+          FROM (VALUES
+            ('5m', 5), ('15m', 15), ('30m', 30), ('1h', 60), ('2h', 120),
+            ('4h', 240), ('6h', 360), ('12h', 720), ('24h', 1440)
+          ) AS intervals(label, minutes)
+          WHERE minutes >= v_minutes
+          ORDER BY minutes
+          LIMIT 1
+        ),
+        '24h'
+      ) INTO v_interval;
+
+      v_settings := v_settings || jsonb_build_object('captureInterval', v_interval);
+    END IF;
+
+    v_settings := v_settings - 'captureFrequency';
+  END IF;
+
+  -- Legacy notification labels
+  IF jsonb_typeof(v_settings->'notificationPreferences') = 'array' THEN
+    IF v_settings->'notificationPreferences' ? 'All alerts' THEN
+      v_settings := v_settings || jsonb_build_object('notificationPreferences', v_defaults->'notificationPreferences');
+    ELSE
+      v_settings := v_settings || jsonb_build_object(
+        'notificationPreferences',
+        coalesce(
+          (
+            SELECT jsonb_agg(event)
+            FROM jsonb_array_elements_text(v_settings->'notificationPreferences') AS event
+            WHERE event IN ('detection', 'low_battery', 'offline')
+          ),
+          '[]'::JSONB
+        )
+      );
+    END IF;
+  END IF;
+
+  RETURN v_defaults || v_settings;
+END;
+$$;
+
+-- Create trigger function to normalize a settings column on write
+CREATE OR REPLACE FUNCTION public.normalize_settings_column()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.settings IS NOT NULL THEN
+    NEW.settings := normalize_device_settings(NEW.settings);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_device_settings
+  BEFORE INSERT OR UPDATE OF settings ON devices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.normalize_settings_column();
+
+CREATE TRIGGER normalize_group_settings
+  BEFORE INSERT OR UPDATE OF settings ON device_groups
+  FOR EACH ROW
+  EXECUTE FUNCTION public.normalize_settings_column();
+
+-- Convert existing settings
+UPDATE devices
+SET settings = normalize_device_settings(settings)
+WHERE settings IS NOT NULL;
+
+UPDATE device_groups
+SET settings = normalize_device_settings(settings)
+WHERE settings IS NOT NULL;
+
+-- Send the converted settings to every device as a new version
+UPDATE device_config_versions
+SET status = 'superseded'
+WHERE status = 'pending';
+
+INSERT INTO device_config_versions (device_id, version, settings)
+SELECT d.id, coalesce(max(v.version), 0) + 1, d.settings
+FROM devices d
+LEFT JOIN device_config_versions v ON v.device_id = d.id
+WHERE d.settings IS NOT NULL
+GROUP BY d.id, d.settings;
+
+-- Replace push_device_config to record normalized settings
+CREATE OR REPLACE FUNCTION public.push_device_config(
+  p_device_id UUID,
+  p_settings JSONB
+)
+RETURNS device_config_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_version INTEGER;
+  v_config device_config_versions;
+BEGIN
+  IF NOT has_device_access(p_device_id, ARRAY['owner', 'manager']) THEN
+    RAISE EXCEPTION 'Device not found or you do not have permission to update it';
+  END IF;
+
+  p_settings := normalize_device_settings(p_settings);
+
+  -- Serialise pushes for the same device so versions stay gapless
+  PERFORM 1 FROM devices WHERE id = p_device_id FOR UPDATE;
+
+  SELECT coalesce(max(version), 0) + 1 INTO v_version
+  FROM device_config_versions
+  WHERE device_id = p_device_id;
+
+  -- Devices only ever need the newest configuration
+  UPDATE device_config_versions
+  SET status = 'superseded'
+  WHERE device_id = p_device_id AND status = 'pending';
+
+  INSERT INTO device_config_versions (device_id, version, settings, created_by)
+  VALUES (p_device_id, v_version, p_settings, auth.uid())
+  RETURNING * INTO v_config;
+
+  -- Tell protect_device_settings this change is versioned
+  PERFORM set_config('app.pushing_device_config', 'on', true);
+
+  UPDATE devices
+  SET settings = p_settings,
+      updated_at = now()
+  WHERE id = p_device_id;
+
+  PERFORM set_config('app.pushing_device_config', 'off', true);
+
+  RETURN v_config;
+END;
+$$;
@@ -0,0 +1,136 @@
+/*
+  # Capture schedules
+
+  1. Changes
+    - Device settings gain `schedule`: a time zone, weekly capture windows
+      bounded by clock times or offsets from sunrise/sunset, and blackout
+      date ranges. No windows means capturing around the clock
+    - `schedule` replaces `activeHours`; an existing active hours range
+      becomes an every-day window in UTC
+    - Existing device and site settings are converted, and each device gets a
+      new pending configuration version
+
+  2. Changes to Functions
+    - `normalize_device_settings` converts `activeHours` and defaults
+      `schedule`
+*/
+
+-- Replace normalize_device_settings to handle schedules
+CREATE OR REPLACE FUNCTION public.normalize_device_settings(p_settings JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  -- Keep in sync with DEFAULT_DEVICE_SETTINGS in the app
+  v_defaults CONSTANT JSONB := '{
+    "captureInterval": "4h",
+    "sensitivityLevel": 5,
+    "nightMode": true,
+    "burstCount": 1,
+    "videoLengthSeconds": 0,
+    "schedule": {"timeZone": "UTC", "windows": [], "blackouts": []},
+    "notificationPreferences": ["detection", "low_battery", "offline"]
+  }'::JSONB;
+  v_settings JSONB := coalesce(p_settings, '{}'::JSONB);
+  v_frequency TEXT;
+  v_minutes INTEGER;
+  v_interval TEXT;
+BEGIN
+  IF jsonb_typeof(v_settings) <> 'object' THEN
+    RAISE EXCEPTION 'Device settings must be a JSON object';
+  END IF;
+
+  -- Legacy free-text frequency, e.g. "Every 4 hours"
+  IF v_settings ? 'captureFrequency' THEN
+    v_frequency := lower(v_settings->>'captureFrequency');
+    v_minutes := coalesce(substring(v_frequency FROM '(\d+)')::INTEGER, 1) * CASE
+      WHEN v_frequency LIKE '%min%' THEN 1
+      WHEN v_frequency LIKE '%hour%' THEN 60
+      WHEN v_frequency LIKE '%day%' THEN 1440
+    END;
+
+    IF NOT v_settings ? 'captureInterval' AND v_minutes IS NOT NULL THEN
+      SELECT coalesce(
+        (
+          SELECT label
+          FROM (VALUES
+            ('5m', 5), ('15m', 15), ('30m', 30), ('1h', 60), ('2h', 120),
+            ('4h', 240), ('6h', 360), ('12h', 720), ('24h', 1440)
+          ) AS intervals(label, minutes)
+          WHERE minutes >= v_minutes
+          ORDER BY minutes
+          LIMIT 1
+        ),
+        '24h'
+      ) INTO v_interval;
+
+      v_settings := v_settings || jsonb_build_object('captureInterval', v_interval);
+    END IF;
+
+    v_settings := v_settings - 'captureFrequency';
+  END IF;
+
+  -- Legacy notification labels
+  IF jsonb_typeof(v_settings->'notificationPreferences') = 'array' THEN
+    IF v_settings->'notificationPreferences' ? 'All alerts' THEN
+      v_settings := v_settings || jsonb_build_object('notificationPreferences', v_defaults->'notificationPreferences');
+    ELSE
+      v_settings := v_settings || jsonb_build_object(
+        'notificationPreferences',
+        coalesce(
+          (
+            SELECT jsonb_agg(event)
+            FROM jsonb_array_elements_text(v_settings->'notificationPreferences') AS event
+            WHERE event IN ('detection', 'low_battery', 'offline')
+          ),
+          '[]'::JSONB
+        )
+      );
+    END IF;
+  END IF;
+
+  -- Active hours become a daily window
+  IF v_settings ? 'activeHours' THEN
+    IF NOT v_settings ? 'schedule' AND jsonb_typeof(v_settings->'activeHours') = 'object' THEN
+      v_settings := v_settings || jsonb_build_object(
+        'schedule',
+        jsonb_build_object(
+          'timeZone', 'UTC',
+          'windows', jsonb_build_array(jsonb_build_object(
+            'days', '[0, 1, 2, 3, 4, 5, 6]'::JSONB,
+            'start', jsonb_build_object('type', 'time', 'time', v_settings->'activeHours'->'start'),
+            'end', jsonb_build_object('type', 'time', 'time', v_settings->'activeHours'->'end')
+          )),
+          'blackouts', '[]'::JSONB
+        )
+      );
+    END IF;
+
+    v_settings := v_settings - 'activeHours';
+  END IF;
+
+  RETURN v_defaults || v_settings;
+END;
+$$;
+
+-- Convert existing settings
+UPDATE devices
+SET settings = normalize_device_settings(settings)
+WHERE settings IS NOT NULL;
+
+UPDATE device_groups
+SET settings = normalize_device_settings(settings)
+WHERE settings IS NOT NULL;
+
+-- Send the converted settings to every device as a new version
+UPDATE device_config_versions
+SET status = 'superseded'
+WHERE status = 'pending';
+
+INSERT INTO device_config_versions (device_id, version, settings)
+SELECT d.id, coalesce(max(v.version), 0) + 1, d.settings
+FROM devices d
+LEFT JOIN device_config_versions v ON v.device_id = d.id
+WHERE d.settings IS NOT NULL
+GROUP BY d.id, d.settings;
@@ -0,0 +1,292 @@
+/*
+  # Firmware updates
+
+  1. New Tables
+    - `firmware_releases` - Catalogue of published firmware images, per model
+      (or every model when `model` is null) and channel
+    - `firmware_rollouts` - A release staged to an organization's devices:
+      all of them, one site, or a list of devices, limited to a percentage
+      that can be raised over time and paused
+    - `device_firmware_updates` - Per-device progress through a rollout as
+      reported by the hardware
+
+  2. Changes
+    - Add `firmware_version` and `firmware_reported_at` to devices
+
+  3. New Functions
+    - `check_firmware_rollout_targets` - Trigger keeping rollout targets in
+      the rollout's organization
+    - `get_firmware_offer` - The update a device should install, if any
+    - `report_device_firmware` - Record the running version and update
+      progress reported by a device
+
+  4. Security
+    - Enable RLS on the new tables
+    - Any signed-in user can read the release catalogue; releases are
+      published with the service role
+    - Members can view their organization's rollouts and device progress
+    - Owners and managers can create, pause and resume rollouts
+    - Offer and report functions are only callable with the service role,
+      from the device ingestion endpoint
+*/
+
+-- Create firmware_releases table
+CREATE TABLE IF NOT EXISTS firmware_releases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  version TEXT NOT NULL,
+  model TEXT,
+  channel TEXT NOT NULL CHECK (channel IN ('stable', 'beta')) DEFAULT 'stable',
+  release_notes TEXT,
+  file_url TEXT NOT NULL,
+  checksum_sha256 TEXT NOT NULL CHECK (checksum_sha256 ~ '^[0-9a-f]{64}$'),
+  size_bytes BIGINT NOT NULL CHECK (size_bytes > 0),
+  published_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS firmware_releases_model_version_idx
+  ON firmware_releases(coalesce(model, ''), version);
+
+-- Create firmware_rollouts table
+CREATE TABLE IF NOT EXISTS firmware_rollouts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  organization_id UUID NOT NULL REFERENCES organizations ON DELETE CASCADE,
+  release_id UUID NOT NULL REFERENCES firmware_releases ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users ON DELETE SET NULL,
+  -- Null group and devices targets the whole organization
+  group_id UUID REFERENCES device_groups ON DELETE CASCADE,
+  device_ids UUID[],
+  percentage INTEGER NOT NULL CHECK (percentage BETWEEN 1 AND 100) DEFAULT 100,
+  status TEXT NOT NULL CHECK (status IN ('active', 'paused', 'cancelled')) DEFAULT 'active',
+  CHECK (group_id IS NULL OR device_ids IS NULL),
+  CHECK (device_ids IS NULL OR cardinality(device_ids) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS firmware_rollouts_organization_idx
+  ON firmware_rollouts(organization_id, created_at DESC);
+
+-- Create device_firmware_updates table
+CREATE TABLE IF NOT EXISTS device_firmware_updates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  device_id UUID NOT NULL REFERENCES devices ON DELETE CASCADE,
+  rollout_id UUID NOT NULL REFERENCES firmware_rollouts ON DELETE CASCADE,
+  release_id UUID NOT NULL REFERENCES firmware_releases ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('offered', 'downloading', 'installing', 'succeeded', 'failed')) DEFAULT 'offered',
+  error TEXT,
+  completed_at TIMESTAMPTZ,
+  UNIQUE(device_id, rollout_id)
+);
+
+CREATE INDEX IF NOT EXISTS device_firmware_updates_device_idx
+  ON device_firmware_updates(device_id, created_at DESC);
+
+ALTER TABLE devices
+  ADD COLUMN IF NOT EXISTS firmware_version TEXT,
+  ADD COLUMN IF NOT EXISTS firmware_reported_at TIMESTAMPTZ;
+
+-- Enable Row Level Security
+ALTER TABLE firmware_releases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE firmware_rollouts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE device_firmware_updates ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for firmware_releases
+CREATE POLICY "Signed in users can view firmware releases"
+  ON firmware_releases FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Create policies for firmware_rollouts
+CREATE POLICY "Members can view their organization's firmware rollouts"
+  ON firmware_rollouts FOR SELECT
+  TO authenticated
+  USING (is_organization_member(organization_id));
+
+CREATE POLICY "Managers can create firmware rollouts"
+  ON firmware_rollouts FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = created_by AND
+    is_organization_member(organization_id, ARRAY['owner', 'manager'])
+  );
+
+CREATE POLICY "Managers can update firmware rollouts"
+  ON firmware_rollouts FOR UPDATE
+  TO authenticated
+  USING (is_organization_member(organization_id, ARRAY['owner', 'manager']))
+  WITH CHECK (is_organization_member(organization_id, ARRAY['owner', 'manager']));
+
+-- Create policies for device_firmware_updates
+CREATE POLICY "Members can view firmware progress for their organization's devices"
+  ON device_firmware_updates FOR SELECT
+  TO authenticated
+  USING (has_device_access(device_id));
+
+-- Create trigger function so rollouts only target their own organization
+CREATE OR REPLACE FUNCTION public.check_firmware_rollout_targets()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.group_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM device_groups WHERE id = NEW.group_id AND organization_id = NEW.organization_id
+  ) THEN
+    RAISE EXCEPTION 'Device group not found or you do not have permission to use it';
+  END IF;
+
+  IF NEW.device_ids IS NOT NULL AND EXISTS (
+    SELECT 1
+    FROM unnest(NEW.device_ids) AS target(id)
+    LEFT JOIN devices d ON d.id = target.id AND d.organization_id = NEW.organization_id
+    WHERE d.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Device not found or you do not have permission to update it';
+  END IF;
+
+  NEW.updated_at := now();
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_firmware_rollout_targets
+  BEFORE INSERT OR UPDATE ON firmware_rollouts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_firmware_rollout_targets();
+
+-- Create function returning the firmware update a device should install
+CREATE OR REPLACE FUNCTION public.get_firmware_offer(
+  p_device_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_device devices;
+  v_rollout_id UUID;
+  v_release_id UUID;
+  v_release firmware_releases;
+BEGIN
+  SELECT * INTO v_device FROM devices WHERE id = p_device_id;
+
+  IF v_device.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Newest matching rollout wins. Devices fall into a stable bucket per
+  -- rollout, so raising the percentage only ever adds devices. Devices that
+  -- finished or failed a rollout are not offered it again.
+  SELECT r.id, rel.id INTO v_rollout_id, v_release_id
+  FROM firmware_rollouts r
+  JOIN firmware_releases rel ON rel.id = r.release_id
+  WHERE r.organization_id = v_device.organization_id
+    AND r.status = 'active'
+    AND (r.group_id IS NULL OR r.group_id = v_device.group_id)
+    AND (r.device_ids IS NULL OR v_device.id = ANY(r.device_ids))
+    AND (rel.model IS NULL OR rel.model = v_device.model)
+    AND rel.version IS DISTINCT FROM v_device.firmware_version
+    AND ('x' || left(md5(r.id::TEXT || v_device.id::TEXT), 7))::BIT(28)::INTEGER % 100 < r.percentage
+    AND NOT EXISTS (
+      SELECT 1 FROM device_firmware_updates u
+      WHERE u.device_id = v_device.id
+        AND u.rollout_id = r.id
+        AND u.status IN ('succeeded', 'failed')
+    )
+  ORDER BY r.created_at DESC
+  LIMIT 1;
+
+  IF v_rollout_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_release FROM firmware_releases WHERE id = v_release_id;
+
+  INSERT INTO device_firmware_updates (device_id, rollout_id, release_id)
+  VALUES (v_device.id, v_rollout_id, v_release.id)
+  ON CONFLICT (device_id, rollout_id) DO NOTHING;
+
+  RETURN jsonb_build_object(
+    'rollout_id', v_rollout_id,
+    'version', v_release.version,
+    'url', v_release.file_url,
+    'checksum_sha256', v_release.checksum_sha256,
+    'size_bytes', v_release.size_bytes
+  );
+END;
+$$;
+
+-- Create function for a device to report its firmware and update progress
+CREATE OR REPLACE FUNCTION public.report_device_firmware(
+  p_device_id UUID,
+  p_version TEXT DEFAULT NULL,
+  p_rollout_id UUID DEFAULT NULL,
+  p_status TEXT DEFAULT NULL,
+  p_error TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_release_id UUID;
+BEGIN
+  IF p_version IS NOT NULL THEN
+    UPDATE devices
+    SET firmware_version = p_version,
+        firmware_reported_at = now()
+    WHERE id = p_device_id;
+
+    -- Running the release counts as success even if the device never said so
+    UPDATE device_firmware_updates u
+    SET status = 'succeeded',
+        error = NULL,
+        completed_at = now(),
+        updated_at = now()
+    FROM firmware_releases rel
+    WHERE u.device_id = p_device_id
+      AND u.release_id = rel.id
+      AND rel.version = p_version
+      AND u.status IN ('offered', 'downloading', 'installing');
+  END IF;
+
+  IF p_rollout_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF p_status NOT IN ('downloading', 'installing', 'succeeded', 'failed') THEN
+    RAISE EXCEPTION 'p_status must be downloading, installing, succeeded or failed';
+  END IF;
+
+  SELECT r.release_id INTO v_release_id
+  FROM firmware_rollouts r
+  JOIN devices d ON d.organization_id = r.organization_id
+  WHERE r.id = p_rollout_id AND d.id = p_device_id;
+
+  IF v_release_id IS NULL THEN
+    RAISE EXCEPTION 'Firmware rollout % not found for this device', p_rollout_id;
+  END IF;
+
+  INSERT INTO device_firmware_updates (device_id, rollout_id, release_id, status, error, completed_at)
+  VALUES (
+    p_device_id,
+    p_rollout_id,
+    v_release_id,
+    p_status,
+    CASE WHEN p_status = 'failed' THEN p_error END,
+    CASE WHEN p_status IN ('succeeded', 'failed') THEN now() END
+  )
+  ON CONFLICT (device_id, rollout_id) DO UPDATE
+  SET status = EXCLUDED.status,
+      error = EXCLUDED.error,
+      completed_at = EXCLUDED.completed_at,
+      updated_at = now();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_firmware_offer(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.report_device_firmware(UUID, TEXT, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,276 @@
+/*
+  # Device health scoring
+
+  1. New Tables
+    - `device_battery_history` - Every change to a device's battery level,
+      whether reported in telemetry or set from the app
+
+  2. Changes
+    - Add `storage_used_percent` to device_telemetry
+    - `ingest_device_telemetry` stores reported storage use
+    - Backfill battery history from the last 30 days of telemetry
+
+  3. New Functions
+    - `record_battery_level` - Trigger adding battery history rows
+    - `device_health` - Per-device component scores from 0 (failing) to 100
+      (healthy) and their weighted average:
+        - battery: current level and days until depletion, extrapolated with
+          a least-squares fit over the last 14 days of battery history
+        - heartbeat: how regularly the device has reported telemetry over the
+          last 7 days, counting the time since its last report
+        - detections: time since the last detection compared to the device's
+          usual rate over the last 30 days
+        - storage: latest reported storage use
+      Components without enough data are null and left out of the average
+
+  4. New Views
+    - `devices_with_health` - Devices with their health scores, so lists
+      can filter and sort by health in one query
+
+  5. Security
+    - Enable RLS on device_battery_history
+    - Members can view battery history for their organization's devices
+    - The view runs with the caller's permissions
+*/
+
+-- Create device_battery_history table
+CREATE TABLE IF NOT EXISTS device_battery_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  device_id UUID NOT NULL REFERENCES devices ON DELETE CASCADE,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  battery_level INTEGER NOT NULL CHECK (battery_level BETWEEN 0 AND 100)
+);
+
+CREATE INDEX IF NOT EXISTS device_battery_history_device_id_recorded_at_idx
+  ON device_battery_history(device_id, recorded_at DESC);
+
+ALTER TABLE device_telemetry
+  ADD COLUMN IF NOT EXISTS storage_used_percent INTEGER CHECK (storage_used_percent BETWEEN 0 AND 100);
+
+-- Enable Row Level Security
+ALTER TABLE device_battery_history ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for device_battery_history
+CREATE POLICY "Members can view battery history for their organization's devices"
+  ON device_battery_history FOR SELECT
+  TO authenticated
+  USING (has_device_access(device_id));
+
+-- Create trigger function recording battery level changes
+CREATE OR REPLACE FUNCTION public.record_battery_level()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.battery_level IS NULL OR
+    (TG_OP = 'UPDATE' AND NEW.battery_level IS NOT DISTINCT FROM OLD.battery_level) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO device_battery_history (device_id, battery_level)
+  VALUES (NEW.id, NEW.battery_level);
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_battery_level
+  AFTER INSERT OR UPDATE OF battery_level ON devices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_battery_level();
+
+-- Backfill from telemetry
+INSERT INTO device_battery_history (device_id, recorded_at, battery_level)
+SELECT device_id, recorded_at, battery_level
+FROM device_telemetry
+WHERE battery_level IS NOT NULL
+  AND recorded_at > now() - interval '30 days';
+
+-- Replace ingest_device_telemetry to store storage use
+CREATE OR REPLACE FUNCTION public.ingest_device_telemetry(
+  p_device_id UUID,
+  p_readings JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_inserted INTEGER;
+  v_latest_battery INTEGER;
+BEGIN
+  -- Authenticated callers may only report for devices they manage; the
+  -- service role (used by device-facing endpoints) has no auth.uid()
+  IF auth.uid() IS NOT NULL AND NOT has_device_access(p_device_id, ARRAY['owner', 'manager']) THEN
+    RAISE EXCEPTION 'Device not found or you do not have permission to report telemetry for it';
+  END IF;
+
+  IF jsonb_typeof(p_readings) <> 'array' THEN
+    RAISE EXCEPTION 'p_readings must be a JSON array';
+  END IF;
+
+  INSERT INTO device_telemetry (device_id, recorded_at, temperature, humidity, battery_level, rssi, storage_used_percent)
+  SELECT
+    p_device_id,
+    coalesce((r->>'recorded_at')::TIMESTAMPTZ, now()),
+    (r->>'temperature')::NUMERIC,
+    (r->>'humidity')::NUMERIC,
+    (r->>'battery_level')::INTEGER,
+    (r->>'rssi')::INTEGER,
+    (r->>'storage_used_percent')::INTEGER
+  FROM jsonb_array_elements(p_readings) AS r;
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+  SELECT battery_level INTO v_latest_battery
+  FROM device_telemetry
+  WHERE device_id = p_device_id
+    AND battery_level IS NOT NULL
+  ORDER BY recorded_at DESC
+  LIMIT 1;
+
+  IF v_latest_battery IS NOT NULL THEN
+    UPDATE devices
+    SET battery_level = v_latest_battery
+    WHERE id = p_device_id
+      AND battery_level IS DISTINCT FROM v_latest_battery;
+  END IF;
+
+  RETURN v_inserted;
+END;
+$$;
+
+-- Create function scoring a device's health
+CREATE OR REPLACE FUNCTION public.device_health(
+  p_device_id UUID,
+  p_battery_level INTEGER,
+  p_last_detection TIMESTAMPTZ,
+  p_created_at TIMESTAMPTZ,
+  OUT battery_days_remaining NUMERIC,
+  OUT battery_score INTEGER,
+  OUT heartbeat_score INTEGER,
+  OUT detection_score INTEGER,
+  OUT storage_used_percent INTEGER,
+  OUT storage_score INTEGER,
+  OUT health_score INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_slope NUMERIC;
+  v_samples INTEGER;
+  v_span INTERVAL;
+  v_gaps INTEGER;
+  v_mean_gap NUMERIC;
+  v_gap_stddev NUMERIC;
+  v_detections INTEGER;
+  v_window NUMERIC;
+  v_silence NUMERIC;
+BEGIN
+  -- Battery: the current level holds until now, so it counts as a sample
+  IF p_battery_level IS NOT NULL THEN
+    SELECT
+      regr_slope(s.battery_level, extract(epoch FROM s.recorded_at)) * 86400,
+      count(*),
+      max(s.recorded_at) - min(s.recorded_at)
+    INTO v_slope, v_samples, v_span
+    FROM (
+      SELECT h.recorded_at, h.battery_level
+      FROM device_battery_history h
+      WHERE h.device_id = p_device_id
+        AND h.recorded_at > now() - interval '14 days'
+      UNION ALL
+      SELECT now(), p_battery_level
+    ) AS s;
+
+    IF v_samples >= 3 AND v_span >= interval '6 hours' AND v_slope < 0 THEN
+      battery_days_remaining := round(p_battery_level / -v_slope, 1);
+    END IF;
+
+    -- A month or more of charge left, and at least a quarter full, is healthy
+    battery_score := round(least(100, p_battery_level * 4, battery_days_remaining / 30 * 100));
+  END IF;
+
+  -- Heartbeat: variation of the gaps between reports, including the open
+  -- gap since the last one, so a device that stops reporting scores lower
+  SELECT count(g.seconds), avg(g.seconds), stddev_samp(g.seconds)
+  INTO v_gaps, v_mean_gap, v_gap_stddev
+  FROM (
+    SELECT extract(epoch FROM c.recorded_at - lag(c.recorded_at) OVER (ORDER BY c.recorded_at)) AS seconds
+    FROM (
+      SELECT t.recorded_at
+      FROM device_telemetry t
+      WHERE t.device_id = p_device_id
+        AND t.recorded_at > now() - interval '7 days'
+      UNION ALL
+      SELECT now()
+    ) AS c
+  ) AS g;
+
+  IF v_gaps >= 3 AND v_mean_gap > 0 THEN
+    heartbeat_score := round(100 * greatest(0, 1 - v_gap_stddev / v_mean_gap / 2));
+  ELSIF v_gaps = 0 AND p_created_at < now() - interval '7 days' THEN
+    -- No reports at all for a week
+    heartbeat_score := 0;
+  END IF;
+
+  -- Detections: silence up to three times the usual gap is normal, ten
+  -- times or more scores zero
+  IF p_last_detection IS NOT NULL THEN
+    v_window := extract(epoch FROM least(interval '30 days', now() - p_created_at));
+
+    SELECT count(*) INTO v_detections
+    FROM device_detections dd
+    WHERE dd.device_id = p_device_id
+      AND dd.created_at > now() - interval '30 days';
+
+    IF v_detections = 0 THEN
+      detection_score := 0;
+    ELSIF v_window > 0 THEN
+      v_silence := extract(epoch FROM now() - p_last_detection) / (v_window / v_detections);
+      detection_score := round(100 * least(1, greatest(0, (10 - v_silence) / 7)));
+    END IF;
+  END IF;
+
+  -- Storage: healthy up to 70% used
+  SELECT t.storage_used_percent INTO storage_used_percent
+  FROM device_telemetry t
+  WHERE t.device_id = p_device_id
+    AND t.storage_used_percent IS NOT NULL
+  ORDER BY t.recorded_at DESC
+  LIMIT 1;
+
+  IF storage_used_percent IS NOT NULL THEN
+    storage_score := round(100 * least(1, (100 - storage_used_percent) / 30.0));
+  END IF;
+
+  SELECT round(sum(c.score * c.weight) / sum(c.weight))
+  INTO health_score
+  FROM (VALUES
+    (battery_score, 0.35),
+    (heartbeat_score, 0.30),
+    (detection_score, 0.20),
+    (storage_score, 0.15)
+  ) AS c(score, weight)
+  WHERE c.score IS NOT NULL;
+END;
+$$;
+
+-- Create view of devices with their health
+CREATE OR REPLACE VIEW devices_with_health
+WITH (security_invoker = true)
+AS
+SELECT
+  d.*,
+  h.battery_days_remaining,
+  h.battery_score,
+  h.heartbeat_score,
+  h.detection_score,
+  h.storage_used_percent,
+  h.storage_score,
+  h.health_score
+FROM devices d
+LEFT JOIN LATERAL device_health(d.id, d.battery_level, d.last_detection, d.created_at) h ON true;
@@ -0,0 +1,341 @@
+/*
+  # Heartbeats and computed online status
+
+  1. New Tables
+    - `device_heartbeats` - Periodic "still alive" check-ins posted by
+      devices, kept for 30 days
+
+  2. Changes
+    - Add `last_seen_at` to devices, updated whenever a device contacts any
+      device endpoint, and backfilled from past contact
+    - Add `offline_after_minutes` to alert_thresholds: how long a device may
+      stay silent before it is marked offline
+    - `status` is now maintained by the server: devices come online when
+      they are seen and go offline after the silence window. Changes from
+      the app are ignored
+    - Add devices to the realtime publication so status changes reach the
+      app live
+    - `device_health` scores heartbeat regularity from heartbeats, falling
+      back to telemetry for devices that do not send them
+
+  3. New Functions
+    - `mark_device_seen` - Record contact from a device, bringing it online
+    - `record_device_heartbeat` - Store a heartbeat and mark the device seen
+    - `mark_offline_devices` - Mark devices offline once they have been
+      silent for longer than their owner's window. Going offline raises a
+      `device_offline` alert through the existing alert trigger, and coming
+      back online resolves it
+    - `protect_device_status` - Trigger keeping app users from setting status
+
+  4. Scheduled Jobs (pg_cron)
+    - `mark-offline-devices` - Every minute
+    - `prune-device-heartbeats` - Daily, drops heartbeats older than 30 days
+
+  5. Security
+    - Enable RLS on device_heartbeats
+    - Members can view heartbeats for their organization's devices
+    - Heartbeat functions are only callable with the service role, from
+      the device endpoints
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+-- Create device_heartbeats table
+CREATE TABLE IF NOT EXISTS device_heartbeats (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  device_id UUID NOT NULL REFERENCES devices ON DELETE CASCADE,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  uptime_seconds INTEGER CHECK (uptime_seconds >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS device_heartbeats_device_id_received_at_idx
+  ON device_heartbeats(device_id, received_at DESC);
+
+ALTER TABLE devices
+  ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMPTZ;
+
+ALTER TABLE alert_thresholds
+  ADD COLUMN IF NOT EXISTS offline_after_minutes INTEGER NOT NULL DEFAULT 60 CHECK (offline_after_minutes >= 5);
+
+-- Backfill from the last time each device used its token or sent data
+UPDATE devices d
+SET last_seen_at = (
+  SELECT max(seen_at)
+  FROM (
+    SELECT s.last_used_at AS seen_at FROM device_secrets s WHERE s.device_id = d.id
+    UNION ALL
+    SELECT max(t.recorded_at) FROM device_telemetry t WHERE t.device_id = d.id
+    UNION ALL
+    SELECT d.last_detection
+  ) AS contact
+);
+
+-- Enable Row Level Security
+ALTER TABLE device_heartbeats ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for device_heartbeats
+CREATE POLICY "Members can view heartbeats for their organization's devices"
+  ON device_heartbeats FOR SELECT
+  TO authenticated
+  USING (has_device_access(device_id));
+
+-- Create trigger function so only the server changes device status
+CREATE OR REPLACE FUNCTION public.protect_device_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Service role and scheduled jobs have no auth.uid()
+  IF auth.uid() IS NOT NULL THEN
+    NEW.status := OLD.status;
+    NEW.last_seen_at := OLD.last_seen_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_device_status
+  BEFORE UPDATE OF status, last_seen_at ON devices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_device_status();
+
+-- Create function recording contact from a device
+CREATE OR REPLACE FUNCTION public.mark_device_seen(
+  p_device_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Only set status when it changes; updating it fires alert evaluation
+  UPDATE devices
+  SET status = 'online',
+      last_seen_at = now()
+  WHERE id = p_device_id
+    AND status <> 'online';
+
+  -- Devices talk to several endpoints per wake-up; writing last_seen_at at
+  -- most once a minute keeps realtime updates down
+  UPDATE devices
+  SET last_seen_at = now()
+  WHERE id = p_device_id
+    AND (last_seen_at IS NULL OR last_seen_at < now() - interval '1 minute');
+END;
+$$;
+
+-- Create function storing a heartbeat
+CREATE OR REPLACE FUNCTION public.record_device_heartbeat(
+  p_device_id UUID,
+  p_uptime_seconds INTEGER DEFAULT NULL,
+  p_battery_level INTEGER DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  INSERT INTO device_heartbeats (device_id, uptime_seconds)
+  VALUES (p_device_id, p_uptime_seconds);
+
+  IF p_battery_level IS NOT NULL THEN
+    UPDATE devices
+    SET battery_level = p_battery_level
+    WHERE id = p_device_id
+      AND battery_level IS DISTINCT FROM p_battery_level;
+  END IF;
+
+  PERFORM mark_device_seen(p_device_id);
+END;
+$$;
+
+-- Create function marking silent devices offline
+CREATE OR REPLACE FUNCTION public.mark_offline_devices()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  UPDATE devices d
+  SET status = 'offline'
+  WHERE d.status = 'online'
+    AND coalesce(d.last_seen_at, d.created_at) < now() - make_interval(mins => coalesce(
+      (SELECT t.offline_after_minutes FROM alert_thresholds t WHERE t.user_id = d.user_id),
+      60
+    ));
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  RETURN v_updated;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_device_seen(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_device_heartbeat(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.mark_offline_devices() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'mark-offline-devices',
+  '* * * * *',
+  $$SELECT public.mark_offline_devices()$$
+);
+
+SELECT cron.schedule(
+  'prune-device-heartbeats',
+  '15 3 * * *',
+  $$DELETE FROM public.device_heartbeats WHERE received_at < now() - interval '30 days'$$
+);
+
+-- Replace device_health to score heartbeat regularity from heartbeats
+CREATE OR REPLACE FUNCTION public.device_health(
+  p_device_id UUID,
+  p_battery_level INTEGER,
+  p_last_detection TIMESTAMPTZ,
+  p_created_at TIMESTAMPTZ,
+  OUT battery_days_remaining NUMERIC,
+  OUT battery_score INTEGER,
+  OUT heartbeat_score INTEGER,
+  OUT detection_score INTEGER,
+  OUT storage_used_percent INTEGER,
+  OUT storage_score INTEGER,
+  OUT health_score INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_slope NUMERIC;
+  v_samples INTEGER;
+  v_span INTERVAL;
+  v_gaps INTEGER;
+  v_mean_gap NUMERIC;
+  v_gap_stddev NUMERIC;
+  v_detections INTEGER;
+  v_window NUMERIC;
+  v_silence NUMERIC;
+BEGIN
+  -- Battery: the current level holds until now, so it counts as a sample
+  IF p_battery_level IS NOT NULL THEN
+    SELECT
+      regr_slope(s.battery_level, extract(epoch FROM s.recorded_at)) * 86400,
+      count(*),
+      max(s.recorded_at) - min(s.recorded_at)
+    INTO v_slope, v_samples, v_span
+    FROM (
+      SELECT h.recorded_at, h.battery_level
+      FROM device_battery_history h
+      WHERE h.device_id = p_device_id
+        AND h.recorded_at > now() - interval '14 days'
+      UNION ALL
+      SELECT now(), p_battery_level
+    ) AS s;
+
+    IF v_samples >= 3 AND v_span >= interval '6 hours' AND v_slope < 0 THEN
+      battery_days_remaining := round(p_battery_level / -v_slope, 1);
+    END IF;
+
+    -- A month or more of charge left, and at least a quarter full, is healthy
+    battery_score := round(least(100, p_battery_level * 4, battery_days_remaining / 30 * 100));
+  END IF;
+
+  -- Heartbeat: variation of the gaps between heartbeats, including the open
+  -- gap since the last one, so a device that stops reporting scores lower.
+  -- Devices that do not send heartbeats are judged on their telemetry.
+  SELECT count(g.seconds), avg(g.seconds), stddev_samp(g.seconds)
+  INTO v_gaps, v_mean_gap, v_gap_stddev
+  FROM (
+    SELECT extract(epoch FROM c.seen_at - lag(c.seen_at) OVER (ORDER BY c.seen_at)) AS seconds
+    FROM (
+      SELECT hb.received_at AS seen_at
+      FROM device_heartbeats hb
+      WHERE hb.device_id = p_device_id
+        AND hb.received_at > now() - interval '7 days'
+      UNION ALL
+      SELECT t.recorded_at
+      FROM device_telemetry t
+      WHERE t.device_id = p_device_id
+        AND t.recorded_at > now() - interval '7 days'
+        AND NOT EXISTS (
+          SELECT 1
+          FROM device_heartbeats hb
+          WHERE hb.device_id = p_device_id
+            AND hb.received_at > now() - interval '7 days'
+        )
+      UNION ALL
+      SELECT now()
+    ) AS c
+  ) AS g;
+
+  IF v_gaps >= 3 AND v_mean_gap > 0 THEN
+    heartbeat_score := round(100 * greatest(0, 1 - v_gap_stddev / v_mean_gap / 2));
+  ELSIF v_gaps = 0 AND p_created_at < now() - interval '7 days' THEN
+    -- No reports at all for a week
+    heartbeat_score := 0;
+  END IF;
+
+  -- Detections: silence up to three times the usual gap is normal, ten
+  -- times or more scores zero
+  IF p_last_detection IS NOT NULL THEN
+    v_window := extract(epoch FROM least(interval '30 days', now() - p_created_at));
+
+    SELECT count(*) INTO v_detections
+    FROM device_detections dd
+    WHERE dd.device_id = p_device_id
+      AND dd.created_at > now() - interval '30 days';
+
+    IF v_detections = 0 THEN
+      detection_score := 0;
+    ELSIF v_window > 0 THEN
+      v_silence := extract(epoch FROM now() - p_last_detection) / (v_window / v_detections);
+      detection_score := round(100 * least(1, greatest(0, (10 - v_silence) / 7)));
+    END IF;
+  END IF;
+
+  -- Storage: healthy up to 70% used
+  SELECT t.storage_used_percent INTO storage_used_percent
+  FROM device_telemetry t
+  WHERE t.device_id = p_device_id
+    AND t.storage_used_percent IS NOT NULL
+  ORDER BY t.recorded_at DESC
+  LIMIT 1;
+
+  IF storage_used_percent IS NOT NULL THEN
+    storage_score := round(100 * least(1, (100 - storage_used_percent) / 30.0));
+  END IF;
+
+  SELECT round(sum(c.score * c.weight) / sum(c.weight))
+  INTO health_score
+  FROM (VALUES
+    (battery_score, 0.35),
+    (heartbeat_score, 0.30),
+    (detection_score, 0.20),
+    (storage_score, 0.15)
+  ) AS c(score, weight)
+  WHERE c.score IS NOT NULL;
+END;
+$$;
+
+-- Recreate devices_with_health so it includes last_seen_at
+DROP VIEW IF EXISTS devices_with_health;
+
+CREATE VIEW devices_with_health
+WITH (security_invoker = true)
+AS
+SELECT
+  d.*,
+  h.battery_days_remaining,
+  h.battery_score,
+  h.heartbeat_score,
+  h.detection_score,
+  h.storage_used_percent,
+  h.storage_score,
+  h.health_score
+FROM devices d
+LEFT JOIN LATERAL device_health(d.id, d.battery_level, d.last_detection, d.created_at) h ON true;
+
+-- Deliver device changes, including status transitions, to the app
+ALTER PUBLICATION supabase_realtime ADD TABLE devices;
@@ -0,0 +1,45 @@
+/*
+  # Device list statistics
+
+  1. New Views
+    - `devices_with_stats` - Devices with their detection count, image count,
+      most recent detection and health scores, aggregated in the same query
+      so device lists no longer count detections and images per device.
+      The columns are `detection_count`, `image_count` and
+      `last_detection_date`, snake_case like every other column, in place
+      of the `detectionCount`, `imageCount` and `lastDetectionDate` fields
+      the app used to add. Replaces `devices_with_health`
+
+  2. Security
+    - The view runs with the caller's permissions
+*/
+
+DROP VIEW IF EXISTS devices_with_health;
+
+CREATE VIEW devices_with_stats
+WITH (security_invoker = true)
+AS
+SELECT
+  d.*,
+  detections.detection_count,
+  detections.last_detection_date,
+  images.image_count,
+  h.battery_days_remaining,
+  h.battery_score,
+  h.heartbeat_score,
+  h.detection_score,
+  h.storage_used_percent,
+  h.storage_score,
+  h.health_score
+FROM devices d
+LEFT JOIN LATERAL (
+  SELECT count(*) AS detection_count, max(dd.created_at) AS last_detection_date
+  FROM device_detections dd
+  WHERE dd.device_id = d.id
+) detections ON true
+LEFT JOIN LATERAL (
+  SELECT count(*) AS image_count
+  FROM device_images di
+  WHERE di.device_id = d.id
+) images ON true
+LEFT JOIN LATERAL device_health(d.id, d.battery_level, d.last_detection, d.created_at) h ON true;
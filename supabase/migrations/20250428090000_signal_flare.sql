@@ -0,0 +1,403 @@
+/*
+  # Push notifications
+
+  1. New Tables
+    - `push_tokens` - Expo push tokens registered by the app, one row per
+      installation, owned by the user signed in on it
+    - `notification_queue` - Push notifications waiting to be sent by the
+      `notification-dispatch` function, kept for 30 days once handled
+
+  2. Changes
+    - `profiles.notification_preferences` gains `categories`: per category
+      (`detections`, `alerts`, `support`) switches for each channel (`push`,
+      `email`). The top level `push` and `email` switches still turn a
+      channel off entirely, and missing switches count as on
+    - New detections, new or escalated alerts and replies from support queue
+      a notification for each user who wants it and has a push token.
+      Detections and alerts go to every member of the device's organization,
+      subject to the device's own `notificationPreferences`; support replies
+      go to the ticket's author
+
+  3. New Functions
+    - `register_push_token` - Store the caller's token, taking it over from
+      whoever last signed in on the same installation
+    - `wants_notification` - Whether preferences allow a category on a channel
+    - `queue_device_notification` - Queue a notification for the members of
+      a device's organization
+    - `claim_notifications` - Mark a batch of queued notifications as being
+      sent; notifications stuck sending for 10 minutes are claimed again
+    - `request_notification_dispatch` - Call `notification-dispatch` through
+      pg_net, using the `project_url` and `service_role_key` vault secrets
+
+  4. Scheduled Jobs (pg_cron)
+    - `dispatch-notifications` - Every minute while notifications are
+      waiting, retrying any a previous call did not finish
+    - `prune-notification-queue` - Daily, drops handled notifications older
+      than 30 days
+
+  5. Security
+    - Enable RLS on push_tokens and notification_queue
+    - Users can view and delete their own push tokens; tokens are added
+      through `register_push_token`
+    - The queue is only used by the server
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+-- Create push_tokens table
+CREATE TABLE IF NOT EXISTS push_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  platform TEXT NOT NULL CHECK (platform IN ('ios', 'android')),
+  device_name TEXT
+);
+
+CREATE INDEX IF NOT EXISTS push_tokens_user_id_idx ON push_tokens(user_id);
+
+-- Create notification_queue table
+CREATE TABLE IF NOT EXISTS notification_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+  category TEXT NOT NULL CHECK (category IN ('detections', 'alerts', 'support')),
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  -- Passed to the app with the notification; `url` is the screen to open
+  data JSONB NOT NULL DEFAULT '{}'::JSONB,
+  status TEXT NOT NULL CHECK (status IN ('pending', 'sending', 'sent', 'failed')) DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  claimed_at TIMESTAMPTZ,
+  sent_at TIMESTAMPTZ,
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS notification_queue_pending_idx
+  ON notification_queue(created_at)
+  WHERE status IN ('pending', 'sending');
+
+-- New profiles start with every category on
+ALTER TABLE profiles
+  ALTER COLUMN notification_preferences SET DEFAULT '{
+    "push": true,
+    "email": true,
+    "categories": {
+      "detections": {"push": true, "email": true},
+      "alerts": {"push": true, "email": true},
+      "support": {"push": true, "email": true}
+    }
+  }'::JSONB;
+
+-- Enable Row Level Security
+ALTER TABLE push_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_queue ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for push_tokens
+CREATE POLICY "Users can view their own push tokens"
+  ON push_tokens FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own push tokens"
+  ON push_tokens FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create function to update push_tokens updated_at timestamp
+CREATE OR REPLACE FUNCTION public.update_push_token_timestamp()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_push_token_timestamp
+  BEFORE UPDATE ON push_tokens
+  FOR EACH ROW EXECUTE PROCEDURE public.update_push_token_timestamp();
+
+-- Create function registering the caller's push token
+CREATE OR REPLACE FUNCTION public.register_push_token(
+  p_token TEXT,
+  p_platform TEXT,
+  p_device_name TEXT DEFAULT NULL
+)
+RETURNS push_tokens
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_token push_tokens%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- A token identifies the installation, so it follows whoever signs in
+  INSERT INTO push_tokens (user_id, token, platform, device_name)
+  VALUES (auth.uid(), p_token, p_platform, p_device_name)
+  ON CONFLICT (token) DO UPDATE
+  SET user_id = EXCLUDED.user_id,
+      platform = EXCLUDED.platform,
+      device_name = EXCLUDED.device_name
+  RETURNING * INTO v_token;
+
+  RETURN v_token;
+END;
+$$;
+
+-- Create function checking notification preferences
+CREATE OR REPLACE FUNCTION public.wants_notification(
+  p_preferences JSONB,
+  p_category TEXT,
+  p_channel TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce((p_preferences ->> p_channel)::BOOLEAN, true)
+    AND coalesce((p_preferences -> 'categories' -> p_category ->> p_channel)::BOOLEAN, true);
+$$;
+
+-- Create function queueing a notification about a device
+CREATE OR REPLACE FUNCTION public.queue_device_notification(
+  p_device_id UUID,
+  p_category TEXT,
+  p_event TEXT,
+  p_title TEXT,
+  p_body TEXT,
+  p_data JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  INSERT INTO notification_queue (user_id, category, title, body, data)
+  SELECT m.user_id, p_category, p_title, p_body, p_data
+  FROM devices d
+  JOIN organization_members m ON m.organization_id = d.organization_id
+  LEFT JOIN profiles p ON p.id = m.user_id
+  WHERE d.id = p_device_id
+    AND wants_notification(p.notification_preferences, p_category, 'push')
+    -- The device's own switches, for events it has one for
+    AND (
+      p_event IS NULL
+      OR d.settings -> 'notificationPreferences' IS NULL
+      OR d.settings -> 'notificationPreferences' ? p_event
+    )
+    AND EXISTS (SELECT 1 FROM push_tokens t WHERE t.user_id = m.user_id);
+END;
+$$;
+
+-- Create trigger function queueing detection notifications
+CREATE OR REPLACE FUNCTION public.notify_detection()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_device_name TEXT;
+BEGIN
+  SELECT name INTO v_device_name FROM devices WHERE id = NEW.device_id;
+
+  PERFORM queue_device_notification(
+    NEW.device_id,
+    'detections',
+    'detection',
+    v_device_name,
+    initcap(replace(NEW.detection_type, '_', ' ')) || ' detected',
+    jsonb_build_object(
+      'type', 'detection',
+      'deviceId', NEW.device_id,
+      'detectionId', NEW.id,
+      'url', '/devices/' || NEW.device_id
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_detection
+  AFTER INSERT ON device_detections
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_detection();
+
+-- Create trigger function queueing alert notifications
+CREATE OR REPLACE FUNCTION public.notify_alert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_device_name TEXT;
+BEGIN
+  -- New alerts, and open alerts that escalated to critical
+  IF TG_OP = 'UPDATE' AND NOT (
+    NEW.status <> 'resolved' AND NEW.severity = 'critical' AND OLD.severity <> 'critical'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO v_device_name FROM devices WHERE id = NEW.device_id;
+
+  PERFORM queue_device_notification(
+    NEW.device_id,
+    'alerts',
+    CASE NEW.alert_type
+      WHEN 'low_battery' THEN 'low_battery'
+      WHEN 'device_offline' THEN 'offline'
+    END,
+    v_device_name,
+    NEW.message,
+    jsonb_build_object(
+      'type', 'alert',
+      'deviceId', NEW.device_id,
+      'alertId', NEW.id,
+      'url', '/devices/' || NEW.device_id
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_alert
+  AFTER INSERT OR UPDATE OF severity ON alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_alert();
+
+-- Create trigger function queueing support reply notifications
+CREATE OR REPLACE FUNCTION public.notify_support_reply()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  INSERT INTO notification_queue (user_id, category, title, body, data)
+  SELECT
+    t.user_id,
+    'support',
+    'Support replied: ' || t.title,
+    left(NEW.message, 200),
+    jsonb_build_object(
+      'type', 'support',
+      'ticketId', t.id,
+      'url', '/support/' || t.id
+    )
+  FROM support_tickets t
+  LEFT JOIN profiles p ON p.id = t.user_id
+  WHERE t.id = NEW.ticket_id
+    AND wants_notification(p.notification_preferences, 'support', 'push')
+    AND EXISTS (SELECT 1 FROM push_tokens pt WHERE pt.user_id = t.user_id);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_support_reply
+  AFTER INSERT ON ticket_messages
+  FOR EACH ROW
+  WHEN (NEW.is_from_support)
+  EXECUTE FUNCTION public.notify_support_reply();
+
+-- Create function claiming queued notifications for sending
+CREATE OR REPLACE FUNCTION public.claim_notifications(
+  p_limit INTEGER DEFAULT 100
+)
+RETURNS SETOF notification_queue
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE notification_queue q
+  SET status = 'sending',
+      attempts = q.attempts + 1,
+      claimed_at = now()
+  WHERE q.id IN (
+    SELECT c.id
+    FROM notification_queue c
+    WHERE c.status = 'pending'
+      OR (c.status = 'sending' AND c.claimed_at < now() - interval '10 minutes')
+    ORDER BY c.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING q.*;
+END;
+$$;
+
+-- Create function calling the dispatcher
+CREATE OR REPLACE FUNCTION public.request_notification_dispatch()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_url TEXT;
+  v_key TEXT;
+BEGIN
+  SELECT decrypted_secret INTO v_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO v_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  -- Not configured, e.g. on a local database
+  IF v_url IS NULL OR v_key IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- pg_net sends the request after the transaction commits, without waiting
+  PERFORM net.http_post(
+    url := v_url || '/functions/v1/notification-dispatch',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_key
+    ),
+    body := '{}'::JSONB
+  );
+END;
+$$;
+
+-- Create trigger function dispatching newly queued notifications
+CREATE OR REPLACE FUNCTION public.dispatch_queued_notifications()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM new_rows) THEN
+    PERFORM request_notification_dispatch();
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- Once per insert statement, and only when it queued something; each
+-- detection queues its notifications in a statement of its own
+CREATE TRIGGER dispatch_queued_notifications
+  AFTER INSERT ON notification_queue
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.dispatch_queued_notifications();
+
+REVOKE EXECUTE ON FUNCTION public.queue_device_notification(UUID, TEXT, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_notifications(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.request_notification_dispatch() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'dispatch-notifications',
+  '* * * * *',
+  $$SELECT public.request_notification_dispatch()
+    WHERE EXISTS (SELECT 1 FROM public.notification_queue WHERE status IN ('pending', 'sending'))$$
+);
+
+SELECT cron.schedule(
+  'prune-notification-queue',
+  '30 3 * * *',
+  $$DELETE FROM public.notification_queue
+    WHERE status IN ('sent', 'failed') AND created_at < now() - interval '30 days'$$
+);
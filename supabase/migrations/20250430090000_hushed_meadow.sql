@@ -0,0 +1,449 @@
+/*
+  # Per-device notification rules
+
+  1. New Tables
+    - `device_notification_rules` - A user's rules for notifications from one
+      device: for an event (`detection`, `low_battery`, `offline`) and,
+      for detections, optionally one `detection_type`, which channels to use,
+      the minimum confidence, quiet hours, an hourly limit and batching
+
+  2. Changes
+    - `notification_queue` gains `channel` (`push` or `email`), `rule_id`,
+      `send_after` and `event_count`. Notifications held back by quiet hours,
+      batching or the hourly limit wait in the queue until `send_after`,
+      and later events from the same rule fold into them, counted in
+      `event_count`
+    - Device notifications are checked against the recipient's rules before
+      they are queued. The most specific rule for the event wins: a rule for
+      the detection type over one for any detection. A user with detection
+      rules for a device hears only about the types they cover. Users without
+      rules for an event are notified by push as before. Profile switches
+      and the device's own `notificationPreferences` still apply on top
+    - `claim_notifications` skips notifications whose `send_after` has not
+      passed, and queueing only calls `notification-dispatch` for
+      notifications that are due
+
+  3. New Functions
+    - `quiet_hours_end` - When the quiet hours covering the current time end,
+      or null outside them
+    - `queue_notification` - Queue one notification for a user on a channel,
+      applying a rule's quiet hours, limit and batching
+
+  4. Security
+    - Enable RLS on device_notification_rules
+    - Users can manage their own rules for devices they can view
+*/
+
+-- Create device_notification_rules table
+CREATE TABLE IF NOT EXISTS device_notification_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+  device_id UUID NOT NULL REFERENCES devices ON DELETE CASCADE,
+  event TEXT NOT NULL CHECK (event IN ('detection', 'low_battery', 'offline')),
+  -- Null matches every detection type
+  detection_type TEXT CHECK (detection_type IS NULL OR event = 'detection'),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  channels TEXT[] NOT NULL DEFAULT ARRAY['push']
+    CHECK (cardinality(channels) > 0 AND channels <@ ARRAY['push', 'email']),
+  -- Detections without a confidence always pass
+  min_confidence NUMERIC CHECK (min_confidence > 0 AND min_confidence <= 1),
+  -- Local times in time_zone; the end may be past midnight
+  quiet_start TIME,
+  quiet_end TIME,
+  time_zone TEXT NOT NULL DEFAULT 'UTC',
+  max_per_hour INTEGER CHECK (max_per_hour > 0),
+  batch_minutes INTEGER CHECK (batch_minutes BETWEEN 5 AND 1440),
+  CHECK ((quiet_start IS NULL) = (quiet_end IS NULL)),
+  CHECK (quiet_start IS NULL OR quiet_start <> quiet_end)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS device_notification_rules_unique_idx
+  ON device_notification_rules(user_id, device_id, event, coalesce(detection_type, ''));
+
+ALTER TABLE notification_queue
+  ADD COLUMN IF NOT EXISTS channel TEXT NOT NULL DEFAULT 'push' CHECK (channel IN ('push', 'email')),
+  ADD COLUMN IF NOT EXISTS rule_id UUID REFERENCES device_notification_rules ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS send_after TIMESTAMPTZ NOT NULL DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS event_count INTEGER NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS notification_queue_rule_id_idx
+  ON notification_queue(rule_id, created_at)
+  WHERE rule_id IS NOT NULL;
+
+-- Enable Row Level Security
+ALTER TABLE device_notification_rules ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for device_notification_rules
+CREATE POLICY "Users can view their own notification rules"
+  ON device_notification_rules FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add notification rules for devices they can view"
+  ON device_notification_rules FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND has_device_access(device_id));
+
+CREATE POLICY "Users can update their own notification rules"
+  ON device_notification_rules FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id AND has_device_access(device_id));
+
+CREATE POLICY "Users can delete their own notification rules"
+  ON device_notification_rules FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create function to update device_notification_rules updated_at timestamp
+CREATE OR REPLACE FUNCTION public.update_notification_rule_timestamp()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_notification_rule_timestamp
+  BEFORE UPDATE ON device_notification_rules
+  FOR EACH ROW EXECUTE PROCEDURE public.update_notification_rule_timestamp();
+
+-- Reject time zones Postgres does not know, which would break evaluation
+CREATE OR REPLACE FUNCTION public.check_notification_rule_time_zone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.time_zone) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', NEW.time_zone;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_notification_rule_time_zone
+  BEFORE INSERT OR UPDATE OF time_zone ON device_notification_rules
+  FOR EACH ROW EXECUTE FUNCTION public.check_notification_rule_time_zone();
+
+-- Create function finding the end of the current quiet hours
+CREATE OR REPLACE FUNCTION public.quiet_hours_end(
+  p_start TIME,
+  p_end TIME,
+  p_time_zone TEXT,
+  p_at TIMESTAMPTZ DEFAULT now()
+)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_local TIMESTAMP := p_at AT TIME ZONE p_time_zone;
+  v_time TIME := v_local::TIME;
+  v_end TIMESTAMP;
+BEGIN
+  IF p_start IS NULL OR p_end IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_start < p_end THEN
+    IF v_time < p_start OR v_time >= p_end THEN
+      RETURN NULL;
+    END IF;
+  ELSIF v_time < p_start AND v_time >= p_end THEN
+    -- Overnight quiet hours, e.g. 22:00 to 06:00
+    RETURN NULL;
+  END IF;
+
+  v_end := date_trunc('day', v_local) + p_end;
+  IF v_end <= v_local THEN
+    v_end := v_end + interval '1 day';
+  END IF;
+
+  RETURN v_end AT TIME ZONE p_time_zone;
+END;
+$$;
+
+-- Create function queueing a notification, holding it back as a rule asks
+CREATE OR REPLACE FUNCTION public.queue_notification(
+  p_user_id UUID,
+  p_category TEXT,
+  p_channel TEXT,
+  p_rule device_notification_rules,
+  p_title TEXT,
+  p_body TEXT,
+  p_data JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_preferences JSONB;
+  v_send_after TIMESTAMPTZ := now();
+  v_hold BOOLEAN := false;
+  v_quiet_end TIMESTAMPTZ;
+  v_window_start TIMESTAMPTZ;
+  v_recent INTEGER;
+BEGIN
+  SELECT notification_preferences INTO v_preferences FROM profiles WHERE id = p_user_id;
+
+  IF NOT wants_notification(v_preferences, p_category, p_channel) THEN
+    RETURN;
+  END IF;
+
+  IF p_channel = 'push' AND NOT EXISTS (SELECT 1 FROM push_tokens t WHERE t.user_id = p_user_id) THEN
+    RETURN;
+  END IF;
+
+  IF p_rule.id IS NOT NULL THEN
+    v_quiet_end := quiet_hours_end(p_rule.quiet_start, p_rule.quiet_end, p_rule.time_zone);
+    IF v_quiet_end IS NOT NULL THEN
+      v_hold := true;
+      v_send_after := v_quiet_end;
+    END IF;
+
+    IF p_rule.batch_minutes IS NOT NULL THEN
+      v_hold := true;
+      v_send_after := greatest(v_send_after, now() + make_interval(mins => p_rule.batch_minutes));
+    END IF;
+
+    IF p_rule.max_per_hour IS NOT NULL THEN
+      SELECT count(*), min(q.created_at)
+      INTO v_recent, v_window_start
+      FROM notification_queue q
+      WHERE q.rule_id = p_rule.id
+        AND q.channel = p_channel
+        AND q.user_id = p_user_id
+        AND q.created_at > now() - interval '1 hour';
+
+      IF v_recent >= p_rule.max_per_hour THEN
+        v_hold := true;
+        v_send_after := greatest(v_send_after, v_window_start + interval '1 hour');
+      END IF;
+    END IF;
+
+    -- Fold into the notification already waiting for this rule
+    IF v_hold THEN
+      UPDATE notification_queue q
+      SET event_count = q.event_count + 1,
+          body = format('%s new %s', q.event_count + 1, p_category)
+      WHERE q.id = (
+        SELECT w.id
+        FROM notification_queue w
+        WHERE w.rule_id = p_rule.id
+          AND w.channel = p_channel
+          AND w.user_id = p_user_id
+          AND w.status = 'pending'
+          AND w.send_after > now()
+        ORDER BY w.created_at
+        LIMIT 1
+      );
+
+      IF FOUND THEN
+        RETURN;
+      END IF;
+    END IF;
+  END IF;
+
+  INSERT INTO notification_queue (user_id, category, channel, rule_id, title, body, data, send_after)
+  VALUES (p_user_id, p_category, p_channel, p_rule.id, p_title, p_body, p_data, v_send_after);
+END;
+$$;
+
+-- Replace queue_device_notification to evaluate each member's rules
+DROP FUNCTION IF EXISTS public.queue_device_notification(UUID, TEXT, TEXT, TEXT, TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION public.queue_device_notification(
+  p_device_id UUID,
+  p_category TEXT,
+  p_event TEXT,
+  p_detection_type TEXT,
+  p_confidence NUMERIC,
+  p_title TEXT,
+  p_body TEXT,
+  p_data JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_rule device_notification_rules%ROWTYPE;
+  v_channel TEXT;
+BEGIN
+  FOR v_user_id IN
+    SELECT m.user_id
+    FROM devices d
+    JOIN organization_members m ON m.organization_id = d.organization_id
+    WHERE d.id = p_device_id
+      -- The device's own switches, for events it has one for
+      AND (
+        p_event IS NULL
+        OR d.settings -> 'notificationPreferences' IS NULL
+        OR d.settings -> 'notificationPreferences' ? p_event
+      )
+  LOOP
+    v_rule := NULL;
+
+    IF p_event IS NOT NULL AND EXISTS (
+      SELECT 1
+      FROM device_notification_rules r
+      WHERE r.user_id = v_user_id AND r.device_id = p_device_id AND r.event = p_event
+    ) THEN
+      SELECT * INTO v_rule
+      FROM device_notification_rules r
+      WHERE r.user_id = v_user_id
+        AND r.device_id = p_device_id
+        AND r.event = p_event
+        AND (r.detection_type IS NULL OR r.detection_type = p_detection_type)
+      ORDER BY r.detection_type IS NULL
+      LIMIT 1;
+
+      -- The user's rules for this event do not cover it, or turn it off
+      CONTINUE WHEN v_rule.id IS NULL OR NOT v_rule.enabled;
+      CONTINUE WHEN v_rule.min_confidence IS NOT NULL
+        AND p_confidence IS NOT NULL
+        AND p_confidence < v_rule.min_confidence;
+
+      FOREACH v_channel IN ARRAY v_rule.channels LOOP
+        PERFORM queue_notification(v_user_id, p_category, v_channel, v_rule, p_title, p_body, p_data);
+      END LOOP;
+    ELSE
+      PERFORM queue_notification(v_user_id, p_category, 'push', NULL, p_title, p_body, p_data);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Replace notify_detection to pass the type and confidence to the rules
+CREATE OR REPLACE FUNCTION public.notify_detection()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_device_name TEXT;
+BEGIN
+  SELECT name INTO v_device_name FROM devices WHERE id = NEW.device_id;
+
+  PERFORM queue_device_notification(
+    NEW.device_id,
+    'detections',
+    'detection',
+    NEW.detection_type,
+    CASE WHEN jsonb_typeof(NEW.detection_data -> 'confidence') = 'number'
+      THEN (NEW.detection_data ->> 'confidence')::NUMERIC
+    END,
+    v_device_name,
+    initcap(replace(NEW.detection_type, '_', ' ')) || ' detected',
+    jsonb_build_object(
+      'type', 'detection',
+      'deviceId', NEW.device_id,
+      'detectionId', NEW.id,
+      'url', '/devices/' || NEW.device_id
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Replace notify_alert for the new queue_device_notification arguments
+CREATE OR REPLACE FUNCTION public.notify_alert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_device_name TEXT;
+BEGIN
+  -- New alerts, and open alerts that escalated to critical
+  IF TG_OP = 'UPDATE' AND NOT (
+    NEW.status <> 'resolved' AND NEW.severity = 'critical' AND OLD.severity <> 'critical'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO v_device_name FROM devices WHERE id = NEW.device_id;
+
+  PERFORM queue_device_notification(
+    NEW.device_id,
+    'alerts',
+    CASE NEW.alert_type
+      WHEN 'low_battery' THEN 'low_battery'
+      WHEN 'device_offline' THEN 'offline'
+    END,
+    NULL,
+    NULL,
+    v_device_name,
+    NEW.message,
+    jsonb_build_object(
+      'type', 'alert',
+      'deviceId', NEW.device_id,
+      'alertId', NEW.id,
+      'url', '/devices/' || NEW.device_id
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Replace claim_notifications to leave held back notifications waiting
+CREATE OR REPLACE FUNCTION public.claim_notifications(
+  p_limit INTEGER DEFAULT 100
+)
+RETURNS SETOF notification_queue
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE notification_queue q
+  SET status = 'sending',
+      attempts = q.attempts + 1,
+      claimed_at = now()
+  WHERE q.id IN (
+    SELECT c.id
+    FROM notification_queue c
+    WHERE (c.status = 'pending' AND c.send_after <= now())
+      OR (c.status = 'sending' AND c.claimed_at < now() - interval '10 minutes')
+    ORDER BY c.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING q.*;
+END;
+$$;
+
+-- Replace dispatch_queued_notifications so held back notifications wait for the job below
+CREATE OR REPLACE FUNCTION public.dispatch_queued_notifications()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM new_rows WHERE send_after <= now()) THEN
+    PERFORM request_notification_dispatch();
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.queue_notification(UUID, TEXT, TEXT, device_notification_rules, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.queue_device_notification(UUID, TEXT, TEXT, TEXT, NUMERIC, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Only dispatch once held back notifications are due
+SELECT cron.schedule(
+  'dispatch-notifications',
+  '* * * * *',
+  $$SELECT public.request_notification_dispatch()
+    WHERE EXISTS (
+      SELECT 1 FROM public.notification_queue
+      WHERE (status = 'pending' AND send_after <= now()) OR status = 'sending'
+    )$$
+);
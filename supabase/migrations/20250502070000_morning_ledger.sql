@@ -0,0 +1,306 @@
+/*
+  # Email digest of detection activity
+
+  1. New Tables
+    - `email_digests` - One row per digest period and user, recording whether
+      the digest was sent, skipped because there was nothing to report, or
+      failed, so a period is never sent twice
+
+  2. Changes
+    - `profiles.notification_preferences` gains `digest`: `off`, `daily` or
+      `weekly`, read as `weekly` when missing. Digests also need the top
+      level `email` switch on
+    - Add `email_unsubscribe_token` to profiles, used by the unsubscribe
+      link in every digest so it works without signing in
+    - `request_notification_dispatch` now calls through `invoke_edge_function`
+
+  3. New Functions
+    - `invoke_edge_function` - Call an edge function through pg_net, using
+      the `project_url` and `service_role_key` vault secrets
+    - `list_email_digest_recipients` - Users due a digest for a period, with
+      their email address and unsubscribe token
+    - `get_email_digest` - A user's detections by device and type, top
+      images, offline devices and low batteries for a period
+    - `unsubscribe_email_digest` - Turn digests off for the profile holding
+      an unsubscribe token
+
+  4. Scheduled Jobs (pg_cron)
+    - `send-daily-digests` - Daily at 07:00, 08:00 and 09:00 UTC; later runs
+      pick up digests an earlier run did not finish
+    - `send-weekly-digests` - Mondays at the same times, covering the week
+      before
+
+  5. Security
+    - Enable RLS on email_digests; it is only used by the server
+    - Digest functions are only callable with the service role
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS email_unsubscribe_token UUID NOT NULL DEFAULT gen_random_uuid();
+
+CREATE UNIQUE INDEX IF NOT EXISTS profiles_email_unsubscribe_token_idx
+  ON profiles(email_unsubscribe_token);
+
+ALTER TABLE profiles
+  ALTER COLUMN notification_preferences SET DEFAULT '{
+    "push": true,
+    "email": true,
+    "digest": "weekly",
+    "categories": {
+      "detections": {"push": true, "email": true},
+      "alerts": {"push": true, "email": true},
+      "support": {"push": true, "email": true}
+    }
+  }'::JSONB;
+
+-- Create email_digests table
+CREATE TABLE IF NOT EXISTS email_digests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly')),
+  period_start TIMESTAMPTZ NOT NULL,
+  period_end TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'skipped', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 1,
+  sent_at TIMESTAMPTZ,
+  error TEXT,
+  UNIQUE (user_id, frequency, period_end)
+);
+
+-- Enable Row Level Security
+ALTER TABLE email_digests ENABLE ROW LEVEL SECURITY;
+
+-- Create function calling an edge function
+CREATE OR REPLACE FUNCTION public.invoke_edge_function(
+  p_function TEXT,
+  p_body JSONB DEFAULT '{}'::JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_url TEXT;
+  v_key TEXT;
+BEGIN
+  SELECT decrypted_secret INTO v_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO v_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  -- Not configured, e.g. on a local database
+  IF v_url IS NULL OR v_key IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- pg_net sends the request after the transaction commits, without waiting
+  PERFORM net.http_post(
+    url := v_url || '/functions/v1/' || p_function,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_key
+    ),
+    body := p_body
+  );
+END;
+$$;
+
+-- Replace request_notification_dispatch to use invoke_edge_function
+CREATE OR REPLACE FUNCTION public.request_notification_dispatch()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM invoke_edge_function('notification-dispatch');
+END;
+$$;
+
+-- Create function listing the users due a digest
+CREATE OR REPLACE FUNCTION public.list_email_digest_recipients(
+  p_frequency TEXT,
+  p_period_end TIMESTAMPTZ,
+  p_limit INTEGER DEFAULT 200
+)
+RETURNS TABLE (
+  user_id UUID,
+  email TEXT,
+  full_name TEXT,
+  unsubscribe_token UUID
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT p.id, u.email::TEXT, p.full_name, p.email_unsubscribe_token
+  FROM profiles p
+  JOIN auth.users u ON u.id = p.id
+  WHERE u.email IS NOT NULL
+    AND coalesce((p.notification_preferences ->> 'email')::BOOLEAN, true)
+    AND coalesce(p.notification_preferences ->> 'digest', 'weekly') = p_frequency
+    -- Failed digests are tried again, three times at most
+    AND NOT EXISTS (
+      SELECT 1
+      FROM email_digests e
+      WHERE e.user_id = p.id
+        AND e.frequency = p_frequency
+        AND e.period_end = p_period_end
+        AND (e.status <> 'failed' OR e.attempts >= 3)
+    )
+  ORDER BY p.id
+  LIMIT p_limit;
+$$;
+
+-- Create function summarising a user's devices for a digest
+CREATE OR REPLACE FUNCTION public.get_email_digest(
+  p_user_id UUID,
+  p_since TIMESTAMPTZ,
+  p_until TIMESTAMPTZ
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  WITH
+    user_devices AS (
+      SELECT d.id, d.name, d.status, d.battery_level, d.last_seen_at
+      FROM devices d
+      JOIN organization_members m ON m.organization_id = d.organization_id
+      WHERE m.user_id = p_user_id
+    ),
+    low_battery AS (
+      SELECT coalesce(
+        (SELECT t.low_battery_warning FROM alert_thresholds t WHERE t.user_id = p_user_id),
+        20
+      ) AS level
+    ),
+    detections AS (
+      SELECT dd.id, dd.device_id, dd.detection_type, dd.detection_data, dd.created_at
+      FROM device_detections dd
+      JOIN user_devices ud ON ud.id = dd.device_id
+      WHERE dd.created_at >= p_since
+        AND dd.created_at < p_until
+    ),
+    type_counts AS (
+      SELECT dt.device_id, dt.detection_type, count(*) AS count
+      FROM detections dt
+      GROUP BY dt.device_id, dt.detection_type
+    ),
+    device_summaries AS (
+      SELECT
+        ud.id,
+        ud.name,
+        sum(tc.count) AS total,
+        jsonb_agg(
+          jsonb_build_object('type', tc.detection_type, 'count', tc.count)
+          ORDER BY tc.count DESC, tc.detection_type
+        ) AS by_type
+      FROM type_counts tc
+      JOIN user_devices ud ON ud.id = tc.device_id
+      GROUP BY ud.id, ud.name
+    ),
+    -- The most confident detections with an image, newest first on ties
+    top_images AS (
+      SELECT
+        i.url,
+        ud.name AS device_name,
+        dt.detection_type,
+        dt.created_at,
+        row_number() OVER (
+          ORDER BY
+            CASE WHEN jsonb_typeof(dt.detection_data -> 'confidence') = 'number'
+              THEN (dt.detection_data ->> 'confidence')::NUMERIC
+            END DESC NULLS LAST,
+            dt.created_at DESC
+        ) AS rank
+      FROM detections dt
+      JOIN device_images i ON i.detection_id = dt.id
+      JOIN user_devices ud ON ud.id = dt.device_id
+    )
+  SELECT jsonb_build_object(
+    'totalDetections', (SELECT count(*) FROM detections),
+    'devices', coalesce(
+      (SELECT jsonb_agg(
+        jsonb_build_object('id', ds.id, 'name', ds.name, 'detections', ds.total, 'byType', ds.by_type)
+        ORDER BY ds.total DESC, ds.name
+      ) FROM device_summaries ds),
+      '[]'::JSONB
+    ),
+    'byType', coalesce(
+      (SELECT jsonb_agg(
+        jsonb_build_object('type', t.detection_type, 'count', t.count)
+        ORDER BY t.count DESC, t.detection_type
+      ) FROM (
+        SELECT tc.detection_type, sum(tc.count) AS count
+        FROM type_counts tc
+        GROUP BY tc.detection_type
+      ) AS t),
+      '[]'::JSONB
+    ),
+    'topImages', coalesce(
+      (SELECT jsonb_agg(
+        jsonb_build_object(
+          'url', ti.url,
+          'deviceName', ti.device_name,
+          'detectionType', ti.detection_type,
+          'createdAt', ti.created_at
+        )
+        ORDER BY ti.rank
+      ) FROM top_images ti WHERE ti.rank <= 6),
+      '[]'::JSONB
+    ),
+    'offlineDevices', coalesce(
+      (SELECT jsonb_agg(
+        jsonb_build_object('id', ud.id, 'name', ud.name, 'lastSeenAt', ud.last_seen_at)
+        ORDER BY ud.last_seen_at NULLS FIRST, ud.name
+      ) FROM user_devices ud WHERE ud.status = 'offline'),
+      '[]'::JSONB
+    ),
+    'lowBatteryDevices', coalesce(
+      (SELECT jsonb_agg(
+        jsonb_build_object('id', ud.id, 'name', ud.name, 'batteryLevel', ud.battery_level)
+        ORDER BY ud.battery_level, ud.name
+      ) FROM user_devices ud, low_battery lb
+      WHERE ud.battery_level IS NOT NULL AND ud.battery_level <= lb.level),
+      '[]'::JSONB
+    )
+  );
+$$;
+
+-- Create function turning digests off from an unsubscribe link
+CREATE OR REPLACE FUNCTION public.unsubscribe_email_digest(
+  p_token UUID
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE profiles
+  SET notification_preferences = jsonb_set(
+    coalesce(notification_preferences, '{}'::JSONB),
+    '{digest}',
+    '"off"'::JSONB
+  )
+  WHERE email_unsubscribe_token = p_token;
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.invoke_edge_function(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.list_email_digest_recipients(TEXT, TIMESTAMPTZ, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_email_digest(UUID, TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.unsubscribe_email_digest(UUID) FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'send-daily-digests',
+  '0 7-9 * * *',
+  $$SELECT public.invoke_edge_function('email-digest', '{"frequency": "daily"}'::JSONB)$$
+);
+
+SELECT cron.schedule(
+  'send-weekly-digests',
+  '0 7-9 * * 1',
+  $$SELECT public.invoke_edge_function('email-digest', '{"frequency": "weekly"}'::JSONB)$$
+);
@@ -0,0 +1,425 @@
+/*
+  # Detection type taxonomy
+
+  1. New Tables
+    - `detection_types` - The species and classes a detection can be, as a
+      hierarchy (deer is a mammal, a mammal is an animal) with the icon and
+      colour the app shows for each. Ids are lowercase slugs such as
+      `wild_boar`; every node is itself a valid detection type, so a
+      classifier that can only tell a bird from a mammal can report `bird`
+    - `detection_type_aliases` - Other names hardware reports for a type,
+      such as `human` for `person` or `hog` for `wild_boar`
+
+  2. Changes
+    - Normalise existing `device_detections.detection_type` and
+      `device_notification_rules.detection_type` values to slugs, resolve
+      aliases, and add any still not in the taxonomy under `other`
+    - Both columns now reference `detection_types`
+    - Detection rules for a class also cover its species: a rule for mammals
+      applies to deer, and the most specific rule still wins
+    - `get_dashboard_data` returns per-type counts (`byType`) with each day
+
+  3. New Functions
+    - `normalize_detection_type` - Free text as a detection type slug
+    - `resolve_detection_type` - A reported type as its taxonomy id, going
+      through aliases
+    - `resolve_detection_types` - Taxonomy ids for a batch of reported
+      types, `unknown` for those not in the taxonomy; used by device-ingest
+    - `detection_type_lineage` - A detection type and its ancestors, nearest
+      first
+
+  4. Security
+    - Enable RLS on detection_types and detection_type_aliases; signed in
+      users can read them, changes are made with the service role
+*/
+
+-- Create detection_types table
+CREATE TABLE IF NOT EXISTS detection_types (
+  id TEXT PRIMARY KEY CHECK (id ~ '^[a-z0-9_]{1,64}$'),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  parent_id TEXT REFERENCES detection_types ON UPDATE CASCADE ON DELETE RESTRICT,
+  label TEXT NOT NULL,
+  -- A lucide icon name, e.g. paw-print
+  icon TEXT NOT NULL DEFAULT 'circle-help',
+  color TEXT NOT NULL DEFAULT '#9E9E9E' CHECK (color ~ '^#[0-9A-Fa-f]{6}$'),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  CHECK (parent_id IS NULL OR parent_id <> id)
+);
+
+CREATE INDEX IF NOT EXISTS detection_types_parent_id_idx ON detection_types(parent_id);
+
+-- Enable Row Level Security
+ALTER TABLE detection_types ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for detection_types
+CREATE POLICY "Signed in users can view detection types"
+  ON detection_types
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Seed the taxonomy; parents before their children
+INSERT INTO detection_types (id, parent_id, label, icon, color, sort_order) VALUES
+  ('animal', NULL, 'Animals', 'paw-print', '#3A7A10', 10),
+  ('person', NULL, 'People', 'user', '#D4AF37', 20),
+  ('vehicle', NULL, 'Vehicles', 'car', '#7B1FA2', 30),
+  ('other', NULL, 'Other', 'circle-help', '#9E9E9E', 40),
+  ('mammal', 'animal', 'Mammals', 'paw-print', '#6D4C41', 10),
+  ('bird', 'animal', 'Birds', 'bird', '#3A70B1', 20),
+  ('deer', 'mammal', 'Deer', 'paw-print', '#8D6E63', 10),
+  ('wild_boar', 'mammal', 'Wild boar', 'paw-print', '#5D4037', 20),
+  ('fox', 'mammal', 'Fox', 'dog', '#E65100', 30),
+  ('coyote', 'mammal', 'Coyote', 'dog', '#B0803A', 35),
+  ('badger', 'mammal', 'Badger', 'paw-print', '#455A64', 40),
+  ('rabbit', 'mammal', 'Rabbit', 'rabbit', '#A1887F', 50),
+  ('squirrel', 'mammal', 'Squirrel', 'squirrel', '#BF6F2F', 60),
+  ('rodent', 'mammal', 'Rodents', 'rat', '#757575', 70),
+  ('dog', 'mammal', 'Dog', 'dog', '#795548', 80),
+  ('cat', 'mammal', 'Cat', 'cat', '#9E9D24', 90),
+  ('corvid', 'bird', 'Crows and ravens', 'bird', '#37474F', 10),
+  ('pigeon', 'bird', 'Pigeons', 'bird', '#78909C', 20),
+  ('raptor', 'bird', 'Birds of prey', 'bird', '#1565C0', 30),
+  ('waterfowl', 'bird', 'Waterfowl', 'bird', '#00838F', 40),
+  ('turkey', 'bird', 'Wild turkey', 'bird', '#8D5524', 50),
+  ('unknown', 'other', 'Unidentified', 'circle-help', '#BDBDBD', 10)
+ON CONFLICT (id) DO NOTHING;
+
+-- Create detection_type_aliases table
+CREATE TABLE IF NOT EXISTS detection_type_aliases (
+  alias TEXT PRIMARY KEY CHECK (alias ~ '^[a-z0-9_]{1,64}$'),
+  detection_type TEXT NOT NULL REFERENCES detection_types ON UPDATE CASCADE ON DELETE CASCADE
+);
+
+ALTER TABLE detection_type_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed in users can view detection type aliases"
+  ON detection_type_aliases
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Names deployed hardware already reports
+INSERT INTO detection_type_aliases (alias, detection_type) VALUES
+  ('human', 'person'),
+  ('people', 'person'),
+  ('pedestrian', 'person'),
+  ('hog', 'wild_boar'),
+  ('feral_hog', 'wild_boar'),
+  ('boar', 'wild_boar'),
+  ('pig', 'wild_boar'),
+  ('car', 'vehicle'),
+  ('truck', 'vehicle'),
+  ('motorcycle', 'vehicle'),
+  ('crow', 'corvid'),
+  ('raven', 'corvid'),
+  ('magpie', 'corvid'),
+  ('hawk', 'raptor'),
+  ('eagle', 'raptor'),
+  ('owl', 'raptor'),
+  ('duck', 'waterfowl'),
+  ('goose', 'waterfowl'),
+  ('dove', 'pigeon'),
+  ('hare', 'rabbit'),
+  ('mouse', 'rodent'),
+  ('rat', 'rodent')
+ON CONFLICT (alias) DO NOTHING;
+
+-- Create function turning free text into a detection type slug
+CREATE OR REPLACE FUNCTION public.normalize_detection_type(p_value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(
+    nullif(left(trim(BOTH '_' FROM lower(regexp_replace(p_value, '[^a-zA-Z0-9]+', '_', 'g'))), 64), ''),
+    'unknown'
+  );
+$$;
+
+-- Create function mapping a reported type to its taxonomy id through aliases
+CREATE OR REPLACE FUNCTION public.resolve_detection_type(p_value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(
+    (SELECT a.detection_type FROM detection_type_aliases a WHERE a.alias = normalize_detection_type(p_value)),
+    normalize_detection_type(p_value)
+  );
+$$;
+
+-- Create function resolving a batch of reported types, unknown when not in the taxonomy
+CREATE OR REPLACE FUNCTION public.resolve_detection_types(p_values TEXT[])
+RETURNS TABLE (
+  reported TEXT,
+  detection_type TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT v.reported, coalesce(t.id, 'unknown')
+  FROM unnest(p_values) AS v(reported)
+  LEFT JOIN detection_types t ON t.id = resolve_detection_type(v.reported);
+$$;
+
+UPDATE device_detections
+SET detection_type = resolve_detection_type(detection_type)
+WHERE detection_type IS DISTINCT FROM resolve_detection_type(detection_type);
+
+-- Rules that would clash with an existing rule once normalised are dropped
+UPDATE device_notification_rules r
+SET detection_type = resolve_detection_type(r.detection_type)
+WHERE r.detection_type IS NOT NULL
+  AND r.detection_type <> resolve_detection_type(r.detection_type)
+  AND NOT EXISTS (
+    SELECT 1
+    FROM device_notification_rules other
+    WHERE other.user_id = r.user_id
+      AND other.device_id = r.device_id
+      AND other.event = r.event
+      AND other.detection_type = resolve_detection_type(r.detection_type)
+  );
+
+DELETE FROM device_notification_rules
+WHERE detection_type IS NOT NULL
+  AND detection_type <> resolve_detection_type(detection_type);
+
+-- Types already reported but not in the taxonomy go under other
+INSERT INTO detection_types (id, parent_id, label, sort_order)
+SELECT DISTINCT t.id, 'other', initcap(replace(t.id, '_', ' ')), 100
+FROM (
+  SELECT detection_type AS id FROM device_detections
+  UNION
+  SELECT detection_type FROM device_notification_rules WHERE detection_type IS NOT NULL
+) t
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE device_detections
+  ADD CONSTRAINT device_detections_detection_type_fkey
+  FOREIGN KEY (detection_type) REFERENCES detection_types ON UPDATE CASCADE;
+
+ALTER TABLE device_notification_rules
+  ADD CONSTRAINT device_notification_rules_detection_type_fkey
+  FOREIGN KEY (detection_type) REFERENCES detection_types ON UPDATE CASCADE ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS device_detections_detection_type_idx ON device_detections(detection_type);
+
+-- Create function listing a detection type and its ancestors
+CREATE OR REPLACE FUNCTION public.detection_type_lineage(
+  p_type TEXT
+)
+RETURNS TABLE (
+  id TEXT,
+  depth INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH RECURSIVE lineage AS (
+    SELECT t.id, t.parent_id, 0 AS depth
+    FROM detection_types t
+    WHERE t.id = p_type
+    UNION ALL
+    SELECT t.id, t.parent_id, l.depth + 1
+    FROM detection_types t
+    JOIN lineage l ON t.id = l.parent_id
+    -- Guards against a cycle introduced by hand
+    WHERE l.depth < 16
+  )
+  SELECT lineage.id, lineage.depth FROM lineage;
+$$;
+
+-- Replace queue_device_notification so class rules cover their species
+CREATE OR REPLACE FUNCTION public.queue_device_notification(
+  p_device_id UUID,
+  p_category TEXT,
+  p_event TEXT,
+  p_detection_type TEXT,
+  p_confidence NUMERIC,
+  p_title TEXT,
+  p_body TEXT,
+  p_data JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_rule device_notification_rules%ROWTYPE;
+  v_channel TEXT;
+BEGIN
+  FOR v_user_id IN
+    SELECT m.user_id
+    FROM devices d
+    JOIN organization_members m ON m.organization_id = d.organization_id
+    WHERE d.id = p_device_id
+      -- The device's own switches, for events it has one for
+      AND (
+        p_event IS NULL
+        OR d.settings -> 'notificationPreferences' IS NULL
+        OR d.settings -> 'notificationPreferences' ? p_event
+      )
+  LOOP
+    v_rule := NULL;
+
+    IF p_event IS NOT NULL AND EXISTS (
+      SELECT 1
+      FROM device_notification_rules r
+      WHERE r.user_id = v_user_id AND r.device_id = p_device_id AND r.event = p_event
+    ) THEN
+      -- A rule for the type itself, then its nearest class, then any type
+      SELECT r.* INTO v_rule
+      FROM device_notification_rules r
+      LEFT JOIN detection_type_lineage(p_detection_type) l ON l.id = r.detection_type
+      WHERE r.user_id = v_user_id
+        AND r.device_id = p_device_id
+        AND r.event = p_event
+        AND (r.detection_type IS NULL OR l.id IS NOT NULL)
+      ORDER BY l.depth NULLS LAST
+      LIMIT 1;
+
+      -- The user's rules for this event do not cover it, or turn it off
+      CONTINUE WHEN v_rule.id IS NULL OR NOT v_rule.enabled;
+      CONTINUE WHEN v_rule.min_confidence IS NOT NULL
+        AND p_confidence IS NOT NULL
+        AND p_confidence < v_rule.min_confidence;
+
+      FOREACH v_channel IN ARRAY v_rule.channels LOOP
+        PERFORM queue_notification(v_user_id, p_category, v_channel, v_rule, p_title, p_body, p_data);
+      END LOOP;
+    ELSE
+      PERFORM queue_notification(v_user_id, p_category, 'push', NULL, p_title, p_body, p_data);
+    END IF;
+  END LOOP;
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION public.queue_device_notification(UUID, TEXT, TEXT, TEXT, NUMERIC, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Replace get_dashboard_data to count each day's detections by type
+CREATE OR REPLACE FUNCTION public.get_dashboard_data(
+  p_days INTEGER DEFAULT 7
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_start_date DATE;
+  v_result JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_days IS NULL OR p_days < 1 THEN
+    RAISE EXCEPTION 'p_days must be a positive integer';
+  END IF;
+
+  v_start_date := current_date - (p_days - 1);
+
+  WITH user_devices AS (
+    SELECT id, name, serial_number, status, group_id
+    FROM devices
+    WHERE is_organization_member(organization_id)
+  ),
+  days AS (
+    SELECT generate_series(v_start_date, current_date, INTERVAL '1 day')::DATE AS day
+  ),
+  type_counts AS (
+    SELECT dd.created_at::DATE AS day, dd.detection_type, count(*) AS count
+    FROM device_detections dd
+    JOIN user_devices ud ON ud.id = dd.device_id
+    WHERE dd.created_at >= v_start_date
+    GROUP BY 1, 2
+  ),
+  detection_counts AS (
+    SELECT tc.day, sum(tc.count) AS count, jsonb_object_agg(tc.detection_type, tc.count) AS by_type
+    FROM type_counts tc
+    GROUP BY tc.day
+  ),
+  open_alerts AS (
+    SELECT a.*, ud.name AS device_name, ud.serial_number AS device_serial_number
+    FROM alerts a
+    JOIN user_devices ud ON ud.id = a.device_id
+    WHERE a.status = 'active'
+      OR (a.status = 'snoozed' AND a.snoozed_until <= now())
+    ORDER BY (a.severity = 'critical') DESC, a.updated_at DESC
+    LIMIT 10
+  ),
+  group_rollups AS (
+    SELECT
+      ud.group_id,
+      count(*) AS total_devices,
+      count(*) FILTER (WHERE ud.status = 'online') AS active_devices,
+      coalesce(sum(dc.count), 0) AS detections,
+      coalesce(sum(ac.count), 0) AS open_alerts
+    FROM user_devices ud
+    LEFT JOIN LATERAL (
+      SELECT count(*) AS count
+      FROM device_detections dd
+      WHERE dd.device_id = ud.id AND dd.created_at >= v_start_date
+    ) dc ON true
+    LEFT JOIN LATERAL (
+      SELECT count(*) AS count
+      FROM alerts a
+      WHERE a.device_id = ud.id AND a.status <> 'resolved'
+    ) ac ON true
+    GROUP BY ud.group_id
+  )
+  SELECT jsonb_build_object(
+    'totalDevices', (SELECT count(*) FROM user_devices),
+    'activeDevices', (SELECT count(*) FROM user_devices WHERE status = 'online'),
+    'totalDetections', (
+      SELECT count(*)
+      FROM device_detections dd
+      JOIN user_devices ud ON ud.id = dd.device_id
+    ),
+    'detectionData', (
+      SELECT coalesce(jsonb_agg(
+        jsonb_build_object(
+          'date', to_char(days.day, 'YYYY-MM-DD'),
+          'count', coalesce(dc.count, 0),
+          'byType', coalesce(dc.by_type, '{}'::JSONB)
+        ) ORDER BY days.day
+      ), '[]'::JSONB)
+      FROM days
+      LEFT JOIN detection_counts dc ON dc.day = days.day
+    ),
+    'recentAlerts', (
+      SELECT coalesce(jsonb_agg(
+        (to_jsonb(oa) - 'device_name' - 'device_serial_number') || jsonb_build_object(
+          'device', jsonb_build_object(
+            'name', oa.device_name,
+            'serial_number', oa.device_serial_number
+          )
+        ) ORDER BY (oa.severity = 'critical') DESC, oa.updated_at DESC
+      ), '[]'::JSONB)
+      FROM open_alerts oa
+    ),
+    'groups', (
+      SELECT coalesce(jsonb_agg(
+        jsonb_build_object(
+          'id', grp.id,
+          'name', grp.name,
+          'totalDevices', coalesce(gr.total_devices, 0),
+          'activeDevices', coalesce(gr.active_devices, 0),
+          'detections', coalesce(gr.detections, 0),
+          'openAlerts', coalesce(gr.open_alerts, 0)
+        ) ORDER BY grp.id IS NULL, grp.name
+      ), '[]'::JSONB)
+      FROM (
+        SELECT g.id, g.name FROM device_groups g WHERE is_organization_member(g.organization_id)
+        UNION ALL
+        SELECT NULL::UUID, 'Ungrouped'
+        WHERE EXISTS (SELECT 1 FROM user_devices WHERE group_id IS NULL)
+      ) grp
+      LEFT JOIN group_rollups gr ON gr.group_id IS NOT DISTINCT FROM grp.id
+    )
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$;